@@ -38,6 +38,9 @@ export default [
         alert: 'readonly',
         prompt: 'readonly',
         btoa: 'readonly',
+        atob: 'readonly',
+        structuredClone: 'readonly',
+        indexedDB: 'readonly',
         navigator: 'readonly',
         process: 'readonly',
         React: 'readonly',
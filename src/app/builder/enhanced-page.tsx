@@ -10,10 +10,13 @@ import {
   Paintbrush2,
   PencilRuler,
   Plus,
+  Redo2,
+  Ruler,
   Save,
   Settings,
   Square,
   Trash2,
+  Undo2,
 } from 'lucide-react';
 import Image from 'next/image';
 import { useTheme } from 'next-themes';
@@ -21,44 +24,66 @@ import { useTranslation } from 'react-i18next';
 import { useDispatch, useSelector } from 'react-redux';
 
 import { useAuth } from '@/components/AuthProvider';
+import CeilingPanel from '@/components/CeilingPanel';
 import ColorPalette from '@/components/ColorPalette';
 import DesignGallery from '@/components/DesignGallery';
+import DimensionSettingsPanel from '@/components/DimensionSettingsPanel';
 import EnhancedFloorplan2DCanvas from '@/components/EnhancedFloorplan2DCanvas';
 import EnhancedThreeCanvas from '@/components/EnhancedThreeCanvas';
+import LevelsPanel from '@/components/LevelsPanel';
 import ModelCategories from '@/components/ModelCategories';
+import RoomMetricsComponent from '@/components/RoomMetrics';
+import RoomOperationsPanel, { RoomTool } from '@/components/RoomOperationsPanel';
 import SaveDesignModal from '@/components/SaveDesignModal';
+import SnapSettingsPanel from '@/components/SnapSettingsPanel';
 import TopToolbar from '@/components/TopToolbar';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
+import ValidationRulesPanel from '@/components/ValidationRulesPanel';
 import { DEFAULT_COLORS } from '@/config/colorPalette';
 import {
+  cancelCurrentRoom,
   clearAllRooms,
   deleteRoom,
+  loadDesign,
+  selectFloorSummary,
+  selectLevelRooms,
   setDefaultWallThickness,
   setEditMode,
   setViewMode,
   setWallHeight,
+  splitRoom,
   startNewRoom,
+  subtractFromRoom,
   toggleGrid,
   toggleMeasurements,
-  toggleSnapToGrid,
   toggleWindows,
+  updateSnapSettings,
 } from '@/features/roomSlice';
 import { RootState } from '@/features/store';
+import { useRoomHistory } from '@/hooks/useRoomHistory';
 import { SavedDesign } from '@/lib/designService';
+import { RoomBooleanError, RoomBooleans } from '@/lib/room-booleans';
+import { Point } from '@/types/room';
 
 export default function EnhancedRoomBuilderPage() {
-  const { t: _t } = useTranslation();
+  const { t } = useTranslation();
   const { user: _user } = useAuth();
   const { theme } = useTheme();
   const dispatch = useDispatch();
+  const { canUndo, canRedo, undo, redo } = useRoomHistory();
 
   // Redux state
   const {
     rooms,
+    walls,
+    doors,
+    windows,
+    objects,
+    dimensions,
     activeRoomId,
     drawingPoints: _drawingPoints,
     isDrawing,
@@ -67,10 +92,17 @@ export default function EnhancedRoomBuilderPage() {
     showMeasurements,
     showWindows,
     gridEnabled,
-    snapToGrid,
+    snap,
     wallHeight,
     defaultWallThickness,
+    metrics,
+    validation,
+    ceiling,
+    underlays,
+    levels,
   } = useSelector((state: RootState) => state.room);
+  const floorSummary = useSelector(selectFloorSummary);
+  const levelRooms = useSelector(selectLevelRooms);
 
   // Local state
   const [selectedColor, setSelectedColor] = useState(DEFAULT_COLORS[0]);
@@ -92,9 +124,14 @@ export default function EnhancedRoomBuilderPage() {
   const [wallMaterial, setWallMaterial] = useState<
     'paint' | 'brick' | 'stone' | 'wood' | 'metal'
   >('paint');
+  const [roomTool, setRoomTool] = useState<RoomTool | null>(null);
+  const [roomOpsError, setRoomOpsError] = useState<RoomBooleanError | null>(null);
 
   // Handle edit mode changes
-  const handleEditModeChange = (mode: 'draw' | 'move' | 'idle' | 'delete') => {
+  const handleEditModeChange = (
+    mode: 'draw' | 'move' | 'idle' | 'delete' | 'dimension',
+  ) => {
+    setRoomTool(null);
     dispatch(setEditMode(mode));
     if (mode === 'draw' && !isDrawing && !activeRoomId) {
       dispatch(startNewRoom());
@@ -123,11 +160,54 @@ export default function EnhancedRoomBuilderPage() {
   };
 
   const handleClearAll = () => {
-    if (confirm('Are you sure you want to clear all rooms? This cannot be undone.')) {
+    if (confirm('Are you sure you want to clear all rooms?')) {
       dispatch(clearAllRooms());
     }
   };
 
+  // Room tools draw on the plan instead of walls
+  const handleRoomToolChange = (tool: RoomTool | null) => {
+    if (tool) {
+      if (isDrawing) {
+        dispatch(cancelCurrentRoom());
+      }
+      dispatch(setEditMode('idle'));
+    }
+    setRoomTool(tool);
+    setRoomOpsError(null);
+  };
+
+  // Apply the tool to the first room on the level it works on; otherwise explain why
+  // it didn't, preferring a room the line or rectangle actually reached
+  const handleRoomToolDraw = (start: Point, end: Point) => {
+    const name = t('roomOps.newRoomName', { number: rooms.length + 1 });
+    const attempts = levelRooms
+      .filter((room) => room.isCompleted)
+      .map((room) => ({
+        room,
+        result:
+          roomTool === 'split'
+            ? RoomBooleans.split(room, start, end, name)
+            : RoomBooleans.subtract(room, start, end, name),
+      }));
+    const applied = attempts.find(({ result }) => result.success);
+    if (!applied) {
+      const missed = roomTool === 'split' ? 'no-crossing' : 'no-overlap';
+      const errors = attempts.flatMap(({ result }) =>
+        result.success ? [] : [result.error],
+      );
+      setRoomOpsError(errors.find((error) => error !== missed) ?? missed);
+      return;
+    }
+    const roomId = applied.room.id;
+    dispatch(
+      roomTool === 'split'
+        ? splitRoom({ roomId, start, end, name })
+        : subtractFromRoom({ roomId, corner: start, oppositeCorner: end, name }),
+    );
+    setRoomOpsError(null);
+  };
+
   // Settings handlers
   const handleWallHeightChange = (value: number[]) => {
     dispatch(setWallHeight(value[0]));
@@ -209,6 +289,41 @@ export default function EnhancedRoomBuilderPage() {
                   <Trash2 className="w-4 h-4" />
                   <span>Delete</span>
                 </Button>
+                <Button
+                  variant={editMode === 'dimension' ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => handleEditModeChange('dimension')}
+                  className="flex items-center space-x-1"
+                >
+                  <Ruler className="w-4 h-4" />
+                  <span>Dimension</span>
+                </Button>
+              </div>
+
+              {/* History */}
+              <div className="flex">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={undo}
+                  disabled={!canUndo}
+                  title="Undo (Ctrl+Z)"
+                  aria-label="Undo"
+                  aria-keyshortcuts="Control+Z Meta+Z"
+                >
+                  <Undo2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={redo}
+                  disabled={!canRedo}
+                  title="Redo (Ctrl+Shift+Z / Ctrl+Y)"
+                  aria-label="Redo"
+                  aria-keyshortcuts="Control+Shift+Z Control+Y Meta+Shift+Z"
+                >
+                  <Redo2 className="w-4 h-4" />
+                </Button>
               </div>
 
               {/* View Toggle */}
@@ -301,7 +416,9 @@ export default function EnhancedRoomBuilderPage() {
                             <div className="text-sm font-medium">{room.name}</div>
                             <div className="text-xs text-gray-500">
                               {room.walls.length} walls •{' '}
-                              {room.isCompleted ? 'Complete' : 'Drawing'}
+                              {room.metrics
+                                ? `${room.metrics.area.toFixed(1)} m²`
+                                : 'Drawing'}
                             </div>
                           </div>
                           {room.isCompleted && (
@@ -322,6 +439,30 @@ export default function EnhancedRoomBuilderPage() {
               </CardContent>
             </Card>
 
+            {completedRooms.length > 0 && (
+              <RoomMetricsComponent metrics={metrics} summary={floorSummary} />
+            )}
+
+            <ValidationRulesPanel />
+
+            <CeilingPanel />
+
+            <LevelsPanel />
+
+            <RoomOperationsPanel
+              tool={roomTool}
+              onToolChange={handleRoomToolChange}
+              error={roomOpsError}
+              onError={setRoomOpsError}
+            />
+
+            <SnapSettingsPanel
+              settings={snap}
+              onChange={(updates) => dispatch(updateSnapSettings(updates))}
+            />
+
+            <DimensionSettingsPanel />
+
             {/* Settings */}
             <Card>
               <CardHeader className="pb-3">
@@ -369,8 +510,8 @@ export default function EnhancedRoomBuilderPage() {
                   <div className="flex items-center justify-between">
                     <Label className="text-sm">Snap to Grid</Label>
                     <Switch
-                      checked={snapToGrid}
-                      onCheckedChange={() => dispatch(toggleSnapToGrid())}
+                      checked={snap.grid}
+                      onCheckedChange={(grid) => dispatch(updateSnapSettings({ grid }))}
                     />
                   </div>
                   <div className="flex items-center justify-between">
@@ -453,6 +594,8 @@ export default function EnhancedRoomBuilderPage() {
                 width={800}
                 height={600}
                 className="mx-auto rounded-lg shadow-lg bg-white"
+                roomTool={roomTool}
+                onRoomToolDraw={handleRoomToolDraw}
               />
             ) : (
               <EnhancedThreeCanvas
@@ -479,8 +622,17 @@ export default function EnhancedRoomBuilderPage() {
             setCurrentDesignId(designId);
             setShowSaveModal(false);
           }}
-          walls={[]}
-          objects={[]}
+          walls={walls}
+          rooms={rooms}
+          doors={doors}
+          windows={windows}
+          objects={objects}
+          dimensions={dimensions}
+          materials={{ floor: floorType, wall: wallMaterial }}
+          validation={validation}
+          ceiling={ceiling}
+          underlays={underlays}
+          levels={levels}
           existingDesignId={currentDesignId || undefined}
         />
       )}
@@ -496,7 +648,20 @@ export default function EnhancedRoomBuilderPage() {
             </div>
             <DesignGallery
               onLoadDesign={(design: SavedDesign) => {
-                // Handle loading design
+                dispatch(
+                  loadDesign({
+                    walls: design.walls,
+                    rooms: design.rooms,
+                    doors: design.doors,
+                    windows: design.windows,
+                    objects: design.objects,
+                    dimensions: design.dimensions,
+                    validation: design.validation,
+                    ceiling: design.ceiling,
+                    underlays: design.underlays,
+                    levels: design.levels,
+                  }),
+                );
                 setCurrentDesignId(design.id || null);
                 setRoomName(design.name);
                 setShowGallery(false);
@@ -1,55 +1,149 @@
 'use client';
 
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 import {
+  AppWindow,
   Building,
+  Cloud,
+  CloudOff,
+  Copy,
+  DoorOpen,
+  Eye,
   FolderOpen,
+  MousePointer2,
   Move,
   Move3d,
   Paintbrush2,
   PencilRuler,
+  Redo2,
+  Ruler,
   Save,
   Square,
+  Trash2,
+  Undo2,
+  Upload,
+  Users,
   View,
+  Wand,
 } from 'lucide-react';
 import Image from 'next/image';
 import { useTheme } from 'next-themes';
 import { useTranslation } from 'react-i18next';
 import * as THREE from 'three';
 
-import { RoomGeometry, useAdvancedRoom } from '@/components/AdvancedRoomBuilder';
+import AdvancedGeometryEngine from '@/components/AdvancedGeometryEngine';
 import { useAuth } from '@/components/AuthProvider';
+import CeilingPanel from '@/components/CeilingPanel';
 import ColorPalette from '@/components/ColorPalette';
 import DesignGallery from '@/components/DesignGallery';
-import Floorplan2DCanvas, { Wall } from '@/components/Floorplan2DCanvas';
+import DimensionSettingsPanel from '@/components/DimensionSettingsPanel';
+import Floorplan2DCanvas from '@/components/Floorplan2DCanvas';
+import ImportDesignModal from '@/components/ImportDesignModal';
+import LevelsPanel from '@/components/LevelsPanel';
 import ModelCategories from '@/components/ModelCategories';
+import PlanUnderlayPanel from '@/components/PlanUnderlayPanel';
+import RoomQualityAnalyzer from '@/components/RoomQualityAnalyzer';
 import SaveDesignModal from '@/components/SaveDesignModal';
-import ThreeCanvas from '@/components/ThreeCanvas';
+import SnapSettingsPanel from '@/components/SnapSettingsPanel';
+import ThreeCanvas, { StackedLevel } from '@/components/ThreeCanvas';
 import TopToolbar from '@/components/TopToolbar';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { DEFAULT_COLORS } from '@/config/colorPalette';
-import { SavedDesign } from '@/lib/designService';
+import {
+  beginHistoryBatch,
+  endHistoryBatch,
+  importDesign,
+  loadDesign,
+  normalizeWalls,
+  selectLevelUnderlay,
+  updateUnderlay,
+} from '@/features/roomSlice';
+import { useAppDispatch, useAppSelector } from '@/hooks/redux';
+import { useCollaboration } from '@/hooks/useCollaboration';
+import { useRoomDocument, useRoomHistory } from '@/hooks/useRoomHistory';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
+import { BuildingLevels } from '@/lib/building-levels';
+import { Ceiling } from '@/lib/ceiling';
+import { designRepository } from '@/lib/design-repository';
+import { DesignDocument, DesignSchema } from '@/lib/design-schema';
+import { SavedDesign, designService } from '@/lib/designService';
+import { DiagnosticFocus, Diagnostics } from '@/lib/diagnostics';
+import { ShareLink } from '@/lib/share-link';
+import { Snapping } from '@/lib/snapping';
+import type { ValidationIssue } from '@/lib/validation-rules';
+import { WallArc } from '@/lib/wall-arc';
+import { WallOpenings } from '@/lib/wall-openings';
+import { DoorPlacement, Wall, WindowPlacement } from '@/types/room';
 
 // Room templates are now generated dynamically using the advanced room builder
 
 export default function RoomBuilderPage() {
   const { t } = useTranslation();
   const { user } = useAuth();
-  const { walls, setWalls } = useAdvancedRoom([]);
-  const [_objects, _setObjects] = useState<THREE.Object3D[]>([]);
+  const dispatch = useAppDispatch();
+  const {
+    walls,
+    setWalls,
+    doors,
+    setDoors,
+    windows,
+    setWindows,
+    objects,
+    setObjects,
+    dimensions,
+    setDimensions,
+  } = useRoomDocument();
+  const { canUndo, canRedo, undo, redo } = useRoomHistory();
   const [viewMode, setViewMode] = useState<'2d' | '3d'>('2d');
-  const [editMode, setEditMode] = useState<'draw' | 'move' | 'delete' | 'idle'>('draw');
+  const [editMode, setEditMode] = useState<
+    | 'draw'
+    | 'move'
+    | 'delete'
+    | 'idle'
+    | 'door'
+    | 'window'
+    | 'dimension'
+    | 'select'
+    | 'underlay'
+  >('draw');
   const [_showGrid, _setShowGrid] = useState(true);
-  const [gridSnapping, setGridSnapping] = useState(true);
+  const [snapSettings, setSnapSettings] = useState(Snapping.DEFAULT);
   const [selectedColor, setSelectedColor] = useState(DEFAULT_COLORS[0]);
   const [showSaveModal, setShowSaveModal] = useState(false);
   const [showGallery, setShowGallery] = useState(false);
-  const [showObjectsModal, setShowObjectsModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  // Room opened from a `?room=` link; shown read-only until copied
+  const [sharedDesign, setSharedDesign] = useState<DesignDocument | null>(null);
   const [currentDesignId, setCurrentDesignId] = useState<string | null>(null);
+  const [collaborating, setCollaborating] = useState(false);
+  const collaboration = useCollaboration(currentDesignId, collaborating);
+  const isReadOnly = sharedDesign !== null || collaboration.role === 'viewer';
+  const syncStatus = useSyncStatus();
+  const validation = useAppSelector((state) => state.room.validation);
+  const ceiling = useAppSelector((state) => state.room.ceiling);
+  const underlays = useAppSelector((state) => state.room.underlays);
+  const levelUnderlay = useAppSelector(selectLevelUnderlay);
+  const metrics = useAppSelector((state) => state.room.metrics);
+  const rooms = useAppSelector((state) => state.room.rooms);
+  const levels = useAppSelector((state) => state.room.levels);
+  const activeLevelId = useAppSelector((state) => state.room.activeLevelId);
+  // The whole building, for saving; `walls` and friends are the active level's
+  const allWalls = useAppSelector((state) => state.room.walls);
+  const allDoors = useAppSelector((state) => state.room.doors);
+  const allWindows = useAppSelector((state) => state.room.windows);
+  const allObjects = useAppSelector((state) => state.room.objects);
+  const allDimensions = useAppSelector((state) => state.room.dimensions);
+  const dimensionSettings = useAppSelector((state) => state.room.dimensionSettings);
+  // Highest level shown in 3D; follows the active level until one is picked
+  const [cutawayLevelId, setCutawayLevelId] = useState<string | null>(null);
+  // Validation issue picked in the metrics panel, highlighted on both canvases
+  const [diagnosticFocus, setDiagnosticFocus] = useState<DiagnosticFocus | null>(null);
+  const [showObjectsModal, setShowObjectsModal] = useState(false);
   const [autoSaveEnabled, setAutoSaveEnabled] = useState(false);
   const [_notifications, _setNotifications] = useState<
     Array<{ id: string; message: string; type: 'success' | 'error' | 'info' }>
@@ -74,8 +168,6 @@ export default function RoomBuilderPage() {
   const canvas2DRef = useRef<HTMLDivElement>(null);
   const canvas3DRef = useRef<HTMLDivElement>(null);
 
-  const [_undoStack, setUndoStack] = useState<Wall[][]>([]);
-  const [_redoStack, setRedoStack] = useState<Wall[][]>([]);
   const { theme } = useTheme();
 
   // Notification state
@@ -105,47 +197,300 @@ export default function RoomBuilderPage() {
     }, 3000);
   };
 
-  const _recordUndo = useCallback(() => {
-    setUndoStack((prev) => [...prev, walls]);
-    setRedoStack([]);
+  // Typing into one field of one opening is a single undo step
+  const updateDoor = (doorId: string, updates: Partial<DoorPlacement>) => {
+    setDoors(
+      (prev) => prev.map((d) => (d.id === doorId ? { ...d, ...updates } : d)),
+      `door:${doorId}:${Object.keys(updates).join(',')}`,
+    );
+  };
+
+  const updateWall = (wallId: string, updates: Partial<Wall>) => {
+    setWalls(
+      (prev) => prev.map((w) => (w.id === wallId ? { ...w, ...updates } : w)),
+      `wall:${wallId}:${Object.keys(updates).join(',')}`,
+    );
+  };
+
+  const updateWindow = (windowId: string, updates: Partial<WindowPlacement>) => {
+    setWindows(
+      (prev) => prev.map((w) => (w.id === windowId ? { ...w, ...updates } : w)),
+      `window:${windowId}:${Object.keys(updates).join(',')}`,
+    );
+  };
+
+  // Drags in the 2D plan are one undo step each
+  // Set while a drag is in progress, so walls aren't split at every point they pass
+  const editingRef = useRef(false);
+
+  const handleEditStart = useCallback(() => {
+    editingRef.current = true;
+    dispatch(beginHistoryBatch());
+  }, [dispatch]);
+
+  const handleEditEnd = useCallback(() => {
+    editingRef.current = false;
+    dispatch(normalizeWalls());
+    dispatch(endHistoryBatch());
+  }, [dispatch]);
+
+  // Seed windows on walls that don't have any yet
+  const handleAutoPlaceWindows = () => {
+    const { windows: suggested } = AdvancedGeometryEngine.optimizeWindowPlacements(walls);
+    setWindows((prev) => [
+      ...prev,
+      ...suggested.filter(
+        (s) =>
+          !prev.some((w) => w.wallId === s.wallId) &&
+          !doors.some(
+            (d) => d.wallId === s.wallId && WallOpenings.overlapsAlongWall(d, s),
+          ),
+      ),
+    ]);
+  };
+
+  const handleSelectIssue = (issue: ValidationIssue) => {
+    setDiagnosticFocus(Diagnostics.locate(issue, walls, rooms));
+  };
+
+  // Other levels up to the cutaway, placed relative to the one being edited
+  const activeLevel = BuildingLevels.find(levels, activeLevelId);
+  const cutawayLevel = BuildingLevels.find(levels, cutawayLevelId ?? activeLevelId);
+  const isTopLevel = BuildingLevels.top(levels).id === activeLevel.id;
+  const otherLevels = useMemo<StackedLevel[]>(
+    () =>
+      levels
+        .filter(
+          (level) =>
+            level.id !== activeLevel.id && level.elevation <= cutawayLevel.elevation,
+        )
+        .map((level) => ({
+          id: level.id,
+          offset: level.elevation - activeLevel.elevation,
+          stairRise: BuildingLevels.stairRise(levels, level.id),
+          ...BuildingLevels.pick(
+            {
+              walls: allWalls,
+              doors: allDoors,
+              windows: allWindows,
+              objects: allObjects,
+            },
+            level.id,
+          ),
+        })),
+    [levels, activeLevel, cutawayLevel, allWalls, allDoors, allWindows, allObjects],
+  );
+
+  const handleAddStairs = () => {
+    if (viewMode === '3d' && threeApiRef.current) {
+      threeApiRef.current.addObject('stairs');
+    } else {
+      showNotification(t('levels.stairsIn3d'), 'info');
+    }
+  };
+
+  // An edit may fix or move the issue, so drop a stale highlight
+  useEffect(() => {
+    setDiagnosticFocus(null);
   }, [walls]);
 
   const handleWallsChange = useCallback(() => {
     // Auto-optimize wall graph whenever walls change
-    setWalls((prev) => RoomGeometry.optimizeWalls(prev));
-  }, [setWalls]);
+    if (editingRef.current) {
+      return;
+    }
+    dispatch(normalizeWalls());
+  }, [dispatch]);
 
   // Load saved room from localStorage on initial render
   useEffect(() => {
+    if (new URLSearchParams(window.location.search).has(ShareLink.PARAM)) {
+      return; // A shared room takes precedence
+    }
     const savedRoomJson = localStorage.getItem('savedRoom');
     if (savedRoomJson) {
       try {
-        const savedRoom = JSON.parse(savedRoomJson);
-        setWalls(savedRoom.walls);
-        setRoomName(savedRoom.name);
+        const result = DesignSchema.parse(JSON.parse(savedRoomJson));
+        if (!result.success) {
+          console.error('Saved room failed validation:', result.errors);
+          return;
+        }
+        const {
+          walls,
+          rooms,
+          doors,
+          windows,
+          objects,
+          dimensions,
+          validation,
+          ceiling,
+          underlays,
+          levels,
+        } = result.document;
+        dispatch(
+          loadDesign({
+            walls,
+            rooms,
+            doors,
+            windows,
+            objects,
+            dimensions,
+            validation,
+            ceiling,
+            underlays,
+            levels,
+          }),
+        );
+        setRoomName(result.document.name);
         showNotification(t('notifications.loadedPreviousRoom'), 'info');
       } catch (error) {
         console.error('Failed to load saved room:', error);
       }
     }
-  }, [setWalls, t]);
+  }, [dispatch, t]);
+
+  // Open a shared room from the `?room=` link
+  useEffect(() => {
+    const encoded = new URLSearchParams(window.location.search).get(ShareLink.PARAM);
+    if (!encoded) {
+      return;
+    }
+    let cancelled = false;
+    ShareLink.decode(encoded).then((result) => {
+      if (cancelled) {
+        return;
+      }
+      if (!result.success) {
+        console.error('Shared room failed validation:', result.errors);
+        showNotification(t('share.invalidLink'), 'error');
+        return;
+      }
+      const {
+        walls,
+        rooms,
+        doors,
+        windows,
+        objects,
+        dimensions,
+        validation,
+        ceiling,
+        underlays,
+        levels,
+      } = result.document;
+      dispatch(
+        loadDesign({
+          walls,
+          rooms,
+          doors,
+          windows,
+          objects,
+          dimensions,
+          validation,
+          ceiling,
+          underlays,
+          levels,
+        }),
+      );
+      setRoomName(result.document.name);
+      setSharedDesign(result.document);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [dispatch, t]);
+
+  const handleCopySharedDesign = async () => {
+    if (!sharedDesign) {
+      return;
+    }
+    if (!user) {
+      showNotification(t('share.signInToCopy'), 'error');
+      return;
+    }
+    try {
+      // Firestore rejects undefined fields
+      const { description, ...design } = sharedDesign;
+      const designId = await designService.saveDesign({
+        ...design,
+        ...(description ? { description } : {}),
+        userId: user.uid,
+      });
+      setCurrentDesignId(designId);
+      setSharedDesign(null);
+      window.history.replaceState(null, '', window.location.pathname);
+      showNotification(t('share.copied'), 'success');
+    } catch (error) {
+      console.error('❌ Failed to copy shared room:', error);
+      showNotification(t('share.copyFailed'), 'error');
+    }
+  };
 
   // Handle design loading
   const handleLoadDesign = useCallback(
     (design: SavedDesign) => {
-      // Convert 2D coordinates (x,y) back to 3D coordinates (x,z)
-      const wallsWithZ = design.walls.map((wall) => ({
-        ...wall,
-        start: { x: wall.start.x, z: wall.start.y }, // Map y back to z
-        end: { x: wall.end.x, z: wall.end.y }, // Map y back to z
-      }));
-      setWalls(wallsWithZ);
+      const {
+        walls,
+        rooms,
+        doors,
+        windows,
+        objects,
+        dimensions,
+        validation,
+        ceiling,
+        underlays,
+        levels,
+      } = design;
+      dispatch(
+        loadDesign({
+          walls,
+          rooms,
+          doors,
+          windows,
+          objects,
+          dimensions,
+          validation,
+          ceiling,
+          underlays,
+          levels,
+        }),
+      );
       setRoomName(design.name);
       setCurrentDesignId(design.id || null);
+      setSharedDesign(null);
+      // Someone else's design can only be opened as a live session
+      setCollaborating(!!user && design.userId !== user.uid);
       setShowGallery(false);
       showNotification(`Loaded design: ${design.name}`, 'success');
     },
-    [setWalls],
+    [dispatch, user],
+  );
+
+  const handleImportDesign = useCallback(
+    (design: DesignDocument, mode: 'merge' | 'replace') => {
+      const { walls, rooms, doors, windows, objects, dimensions, levels } = design;
+      dispatch(
+        importDesign({
+          design: { walls, rooms, doors, windows, objects, dimensions, levels },
+          mode,
+        }),
+      );
+      if (mode === 'replace') {
+        setRoomName(design.name);
+        // The imported plan is not the design currently open from the gallery
+        setCurrentDesignId(null);
+        setCollaborating(false);
+        showNotification(
+          t('notifications.designImported', { name: design.name }),
+          'success',
+        );
+      } else {
+        showNotification(
+          t('notifications.designMerged', { name: design.name }),
+          'success',
+        );
+      }
+    },
+    [dispatch, t],
   );
 
   const handleEditDesign = useCallback((designId: string) => {
@@ -166,6 +511,21 @@ export default function RoomBuilderPage() {
     [autoSaveEnabled],
   );
 
+  // Designs saved offline get their server id once they are uploaded
+  useEffect(
+    () =>
+      designRepository.onIdChange((localId, serverId) =>
+        setCurrentDesignId((id) => (id === localId ? serverId : id)),
+      ),
+    [],
+  );
+
+  useEffect(() => {
+    if (syncStatus.state === 'error') {
+      showNotification(t('sync.failed', { error: syncStatus.error }), 'error');
+    }
+  }, [syncStatus.state, syncStatus.error, t]);
+
   // Debug: Check user auth status
   useEffect(() => {
     console.log('🔧 Builder page - User auth status:', !!user);
@@ -220,10 +580,35 @@ export default function RoomBuilderPage() {
             type="text"
             value={roomName}
             onChange={(e) => setRoomName(e.target.value)}
+            disabled={isReadOnly}
             className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
             placeholder={t('room.placeholder')}
           />
 
+          {isReadOnly && (
+            <Card className="border-0 shadow-sm bg-primary/10">
+              <CardHeader className="pb-2 lg:pb-3">
+                <CardTitle className="text-base lg:text-lg flex items-center">
+                  <Eye className="w-4 h-4 lg:w-5 lg:h-5 mr-2" />
+                  {t('share.readOnlyTitle')}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  {sharedDesign
+                    ? t('share.readOnlyDescription')
+                    : t('collab.viewerDescription')}
+                </p>
+                {sharedDesign && (
+                  <Button size="sm" onClick={handleCopySharedDesign} className="w-full">
+                    <Copy className="w-3 h-3 lg:w-4 lg:h-4 mr-1" />
+                    {t('share.copyToMyDesigns')}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Design Management */}
           <Card className="border-0 shadow-sm">
             <CardHeader className="pb-2 lg:pb-3">
@@ -247,13 +632,50 @@ export default function RoomBuilderPage() {
                   variant="outline"
                   size="sm"
                   onClick={() => setShowSaveModal(true)}
+                  disabled={isReadOnly}
                   className="flex-1"
                 >
                   <Save className="w-3 h-3 lg:w-4 lg:h-4 mr-1" />
                   Save
                 </Button>
               </div>
-              {currentDesignId && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowImportModal(true)}
+                disabled={isReadOnly}
+                className="w-full"
+              >
+                <Upload className="w-3 h-3 lg:w-4 lg:h-4 mr-1" />
+                {t('sidebar.import')}
+              </Button>
+              <div
+                className="flex items-center text-xs text-muted-foreground"
+                title={syncStatus.error ?? undefined}
+              >
+                {syncStatus.state === 'offline' || syncStatus.state === 'error' ? (
+                  <CloudOff className="w-3 h-3 mr-1" />
+                ) : (
+                  <Cloud className="w-3 h-3 mr-1" />
+                )}
+                <span className="flex-1">
+                  {syncStatus.pending > 0 && syncStatus.state !== 'syncing'
+                    ? t('sync.pending', { count: syncStatus.pending })
+                    : t(`sync.${syncStatus.state}`)}
+                  {syncStatus.conflicts > 0 &&
+                    ` · ${t('sync.conflicts', { count: syncStatus.conflicts })}`}
+                </span>
+                {syncStatus.state === 'error' && (
+                  <button
+                    type="button"
+                    className="underline"
+                    onClick={() => void designRepository.sync()}
+                  >
+                    {t('sync.retry')}
+                  </button>
+                )}
+              </div>
+              {currentDesignId && !collaborating && (
                 <div className="flex items-center space-x-2">
                   <Switch
                     checked={autoSaveEnabled}
@@ -262,6 +684,39 @@ export default function RoomBuilderPage() {
                   <Label className="text-xs">Auto-save</Label>
                 </div>
               )}
+              {currentDesignId && (
+                <div className="space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <Switch checked={collaborating} onCheckedChange={setCollaborating} />
+                    <Label className="text-xs flex items-center">
+                      <Users className="w-3 h-3 mr-1" />
+                      {t('collab.live')}
+                    </Label>
+                  </div>
+                  {collaborating && (
+                    <div className="text-xs text-muted-foreground space-y-1">
+                      <div>
+                        {t(`collab.status.${collaboration.status}`)}
+                        {collaboration.role &&
+                          ` · ${t(`collab.role.${collaboration.role}`)}`}
+                      </div>
+                      {collaboration.collaborators.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {collaboration.collaborators.map((c) => (
+                            <span
+                              key={c.uid}
+                              className="px-2 py-0.5 rounded-full text-white"
+                              style={{ backgroundColor: c.color }}
+                            >
+                              {c.name}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -304,10 +759,36 @@ export default function RoomBuilderPage() {
                   {t('sidebar.view3d')}
                 </Button>
               </div>
+              <div className="flex space-x-2 mt-2">
+                <Button
+                  variant="outline"
+                  onClick={undo}
+                  disabled={!canUndo}
+                  className="flex-1 text-xs lg:text-sm"
+                  size="sm"
+                  title={`${t('sidebar.undo')} (Ctrl+Z)`}
+                  aria-keyshortcuts="Control+Z Meta+Z"
+                >
+                  <Undo2 className="w-3 h-3 lg:w-4 lg:h-4 mr-1 lg:mr-2" />
+                  {t('sidebar.undo')}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={redo}
+                  disabled={!canRedo}
+                  className="flex-1 text-xs lg:text-sm"
+                  size="sm"
+                  title={`${t('sidebar.redo')} (Ctrl+Shift+Z / Ctrl+Y)`}
+                  aria-keyshortcuts="Control+Shift+Z Control+Y Meta+Shift+Z"
+                >
+                  <Redo2 className="w-3 h-3 lg:w-4 lg:h-4 mr-1 lg:mr-2" />
+                  {t('sidebar.redo')}
+                </Button>
+              </div>
             </CardContent>
           </Card>
 
-          {viewMode === '2d' && (
+          {viewMode === '2d' && !isReadOnly && (
             <>
               <Card className="border-0 shadow-sm">
                 <CardHeader className="pb-2 lg:pb-3">
@@ -338,25 +819,325 @@ export default function RoomBuilderPage() {
                       <span className="hidden sm:inline">{t('sidebar.movePoints')}</span>
                       <span className="sm:hidden">Move</span>
                     </Button>
+                    <Button
+                      variant={editMode === 'select' ? 'secondary' : 'outline'}
+                      onClick={() => setEditMode('select')}
+                      className="justify-start text-xs lg:text-sm"
+                      size="sm"
+                    >
+                      <MousePointer2 className="w-3 h-3 lg:w-4 lg:h-4 mr-1 lg:mr-2" />
+                      <span className="hidden sm:inline">{t('sidebar.selectWalls')}</span>
+                      <span className="sm:hidden">Select</span>
+                    </Button>
+                    <Button
+                      variant={editMode === 'door' ? 'secondary' : 'outline'}
+                      onClick={() => setEditMode('door')}
+                      className="justify-start text-xs lg:text-sm"
+                      size="sm"
+                    >
+                      <DoorOpen className="w-3 h-3 lg:w-4 lg:h-4 mr-1 lg:mr-2" />
+                      <span className="hidden sm:inline">{t('sidebar.addDoors')}</span>
+                      <span className="sm:hidden">Door</span>
+                    </Button>
+                    <Button
+                      variant={editMode === 'window' ? 'secondary' : 'outline'}
+                      onClick={() => setEditMode('window')}
+                      className="justify-start text-xs lg:text-sm"
+                      size="sm"
+                    >
+                      <AppWindow className="w-3 h-3 lg:w-4 lg:h-4 mr-1 lg:mr-2" />
+                      <span className="hidden sm:inline">{t('sidebar.addWindows')}</span>
+                      <span className="sm:hidden">Window</span>
+                    </Button>
+                    <Button
+                      variant={editMode === 'dimension' ? 'secondary' : 'outline'}
+                      onClick={() => setEditMode('dimension')}
+                      className="justify-start text-xs lg:text-sm"
+                      size="sm"
+                    >
+                      <Ruler className="w-3 h-3 lg:w-4 lg:h-4 mr-1 lg:mr-2" />
+                      <span className="hidden sm:inline">
+                        {t('sidebar.addDimensions')}
+                      </span>
+                      <span className="sm:hidden">Dimension</span>
+                    </Button>
                   </div>
                   <div className="grid grid-cols-2 gap-2 pt-2">
                     <div className="flex items-center justify-between">
                       <Label className="text-xs lg:text-sm">
                         {t('sidebar.showGrid')}
                       </Label>
-                      <Switch checked={gridSnapping} onCheckedChange={setGridSnapping} />
+                      <Switch
+                        checked={snapSettings.grid}
+                        onCheckedChange={(grid) =>
+                          setSnapSettings((prev) => ({ ...prev, grid }))
+                        }
+                      />
                     </div>
                   </div>
                 </CardContent>
               </Card>
 
-              {/* Room Metrics */}
-              {/* Removed RoomMetrics import and usage */}
+              <SnapSettingsPanel
+                settings={snapSettings}
+                onChange={(updates) =>
+                  setSnapSettings((prev) => ({ ...prev, ...updates }))
+                }
+              />
+
+              <DimensionSettingsPanel />
+
+              <PlanUnderlayPanel
+                onCalibrate={() => setEditMode('underlay')}
+                disabled={isReadOnly}
+              />
+
+              {/* Wall heights */}
+              {walls.length > 0 && (
+                <Card className="border-0 shadow-sm">
+                  <CardHeader className="pb-2 lg:pb-3">
+                    <CardTitle className="text-base lg:text-lg flex items-center">
+                      <Building className="w-4 h-4 lg:w-5 lg:h-5 mr-2" />
+                      {t('sidebar.wallHeights')}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {walls.map((wall, index) => (
+                      <div
+                        key={wall.id}
+                        className="flex items-center justify-between gap-2"
+                      >
+                        <Label htmlFor={`wall-height-${wall.id}`} className="text-xs">
+                          {t('sidebar.wallNumber', { number: index + 1 })}
+                          <span className="ml-1 text-muted-foreground">
+                            ({WallArc.getLength(wall).toFixed(2)}m)
+                          </span>
+                        </Label>
+                        <Input
+                          id={`wall-height-${wall.id}`}
+                          type="number"
+                          step={0.05}
+                          min={0.1}
+                          value={wall.height}
+                          onChange={(e) => {
+                            const height = parseFloat(e.target.value);
+                            if (!isNaN(height) && height > 0) {
+                              updateWall(wall.id, { height });
+                            }
+                          }}
+                          className="h-8 w-20 text-xs"
+                        />
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Doors */}
+              {doors.length > 0 && (
+                <Card className="border-0 shadow-sm">
+                  <CardHeader className="pb-2 lg:pb-3">
+                    <CardTitle className="text-base lg:text-lg flex items-center">
+                      <DoorOpen className="w-4 h-4 lg:w-5 lg:h-5 mr-2" />
+                      {t('sidebar.doors')}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {doors.map((door, index) => (
+                      <div
+                        key={door.id}
+                        className="space-y-2 border-b pb-2 last:border-0"
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="text-xs font-medium">
+                            {t('sidebar.doors')} {index + 1}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              setDoors((prev) => prev.filter((d) => d.id !== door.id))
+                            }
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </Button>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                          <div>
+                            <Label className="text-xs">{t('sidebar.doorWidth')}</Label>
+                            <Input
+                              type="number"
+                              step={0.05}
+                              min={0.6}
+                              value={door.width}
+                              onChange={(e) => {
+                                const width = parseFloat(e.target.value);
+                                if (!isNaN(width) && width > 0) {
+                                  updateDoor(door.id, { width });
+                                }
+                              }}
+                              className="h-8 text-xs"
+                            />
+                          </div>
+                          <div>
+                            <Label className="text-xs">{t('sidebar.doorHeight')}</Label>
+                            <Input
+                              type="number"
+                              step={0.05}
+                              min={1.8}
+                              value={door.height}
+                              onChange={(e) => {
+                                const height = parseFloat(e.target.value);
+                                if (!isNaN(height) && height > 0) {
+                                  updateDoor(door.id, { height });
+                                }
+                              }}
+                              className="h-8 text-xs"
+                            />
+                          </div>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-xs"
+                            onClick={() =>
+                              updateDoor(door.id, {
+                                hingeSide: door.hingeSide === 'left' ? 'right' : 'left',
+                              })
+                            }
+                          >
+                            {door.hingeSide === 'left'
+                              ? t('sidebar.hingeLeft')
+                              : t('sidebar.hingeRight')}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-xs"
+                            onClick={() =>
+                              updateDoor(door.id, {
+                                swing: door.swing === 'in' ? 'out' : 'in',
+                              })
+                            }
+                          >
+                            {door.swing === 'in'
+                              ? t('sidebar.swingIn')
+                              : t('sidebar.swingOut')}
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Windows */}
+              {walls.length > 0 && (
+                <Card className="border-0 shadow-sm">
+                  <CardHeader className="pb-2 lg:pb-3">
+                    <CardTitle className="text-base lg:text-lg flex items-center">
+                      <AppWindow className="w-4 h-4 lg:w-5 lg:h-5 mr-2" />
+                      {t('sidebar.windows')}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full text-xs"
+                      onClick={handleAutoPlaceWindows}
+                    >
+                      <Wand className="w-3 h-3 mr-1" />
+                      {t('sidebar.autoPlaceWindows')}
+                    </Button>
+                    {windows.map((placement, index) => (
+                      <div
+                        key={placement.id}
+                        className="space-y-2 border-b pb-2 last:border-0"
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="text-xs font-medium">
+                            {t('sidebar.windows')} {index + 1}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              setWindows((prev) =>
+                                prev.filter((w) => w.id !== placement.id),
+                              )
+                            }
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </Button>
+                        </div>
+                        <div className="grid grid-cols-3 gap-2">
+                          {(
+                            [
+                              ['width', 'sidebar.doorWidth'],
+                              ['height', 'sidebar.doorHeight'],
+                              ['bottomHeight', 'sidebar.sillHeight'],
+                            ] as const
+                          ).map(([field, label]) => (
+                            <div key={field}>
+                              <Label className="text-xs">{t(label)}</Label>
+                              <Input
+                                type="number"
+                                step={0.05}
+                                min={0}
+                                value={placement[field]}
+                                onChange={(e) => {
+                                  const value = parseFloat(e.target.value);
+                                  if (!isNaN(value) && value >= 0) {
+                                    updateWindow(placement.id, { [field]: value });
+                                  }
+                                }}
+                                className="h-8 text-xs"
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Room Quality, with issues that can be located on the plan */}
+              {walls.length > 0 && (
+                <div className="space-y-2">
+                  <RoomQualityAnalyzer
+                    metrics={metrics}
+                    onSelectIssue={handleSelectIssue}
+                  />
+                  {diagnosticFocus && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full"
+                      onClick={() => setDiagnosticFocus(null)}
+                    >
+                      {t('validation.clearFocus')}
+                    </Button>
+                  )}
+                </div>
+              )}
             </>
           )}
 
+          {/* Ceiling, shown in both views */}
+          <LevelsPanel
+            cutawayLevelId={cutawayLevel.id}
+            onCutawayChange={setCutawayLevelId}
+            onAddStairs={handleAddStairs}
+            readOnly={isReadOnly}
+          />
+
+          {walls.length > 0 && !isReadOnly && <CeilingPanel />}
+
           {/* Color Picker (3D mode only) */}
-          {viewMode === '3d' && activeTool === 'paint' && (
+          {viewMode === '3d' && activeTool === 'paint' && !isReadOnly && (
             <Card className="border-0 shadow-sm">
               <CardHeader className="pb-2 lg:pb-3">
                 <CardTitle className="text-base lg:text-lg flex items-center">
@@ -374,30 +1155,32 @@ export default function RoomBuilderPage() {
             </Card>
           )}
 
-          <div>
-            <ModelCategories
-              onAdd={(cat) => {
-                const map: Record<string, string> = {
-                  furniture: 'chair',
-                  carpets: 'carpet',
-                  lamps: 'lamp',
-                  appliances: 'fridge',
-                  'decorative items': 'plant',
-                  walls: 'paint',
-                  floors: 'floor',
-                  textile: 'sofa',
-                };
-                const type = map[cat] ?? cat;
-                console.log('Adding object:', cat, 'mapped to', type);
-                if (viewMode === '3d' && threeApiRef.current) {
-                  threeApiRef.current.addObject(type);
-                } else {
-                  showNotification('Switch to 3D mode to add objects', 'info');
-                }
-              }}
-              onShowMore={() => setShowObjectsModal(true)}
-            />
-          </div>
+          {!isReadOnly && (
+            <div>
+              <ModelCategories
+                onAdd={(cat) => {
+                  const map: Record<string, string> = {
+                    furniture: 'chair',
+                    carpets: 'carpet',
+                    lamps: 'lamp',
+                    appliances: 'fridge',
+                    'decorative items': 'plant',
+                    walls: 'paint',
+                    floors: 'floor',
+                    textile: 'sofa',
+                  };
+                  const type = map[cat] ?? cat;
+                  console.log('Adding object:', cat, 'mapped to', type);
+                  if (viewMode === '3d' && threeApiRef.current) {
+                    threeApiRef.current.addObject(type);
+                  } else {
+                    showNotification('Switch to 3D mode to add objects', 'info');
+                  }
+                }}
+                onShowMore={() => setShowObjectsModal(true)}
+              />
+            </div>
+          )}
         </div>
 
         {/* --- Main Canvas Area --- */}
@@ -410,12 +1193,26 @@ export default function RoomBuilderPage() {
               <Floorplan2DCanvas
                 walls={walls}
                 setWalls={setWalls}
-                mode={editMode}
+                mode={isReadOnly ? 'idle' : editMode}
                 setMode={setEditMode}
                 wallHeight={wallHeight}
                 wallThickness={wallThickness}
                 onWallsChange={handleWallsChange}
-                gridSnapping={gridSnapping}
+                snapSettings={snapSettings}
+                doors={doors}
+                setDoors={setDoors}
+                windows={windows}
+                setWindows={setWindows}
+                dimensions={dimensions}
+                setDimensions={setDimensions}
+                dimensionSettings={dimensionSettings}
+                underlay={levelUnderlay}
+                onUnderlayChange={(updates) => dispatch(updateUnderlay(updates))}
+                onEditStart={handleEditStart}
+                onEditEnd={handleEditEnd}
+                collaborators={collaboration.collaborators}
+                onPresenceChange={collaboration.updatePresence}
+                focus={diagnosticFocus}
               />
             </div>
           ) : (
@@ -423,12 +1220,27 @@ export default function RoomBuilderPage() {
               <ThreeCanvas
                 apiRef={threeApiRef}
                 walls={walls}
+                doors={doors}
+                windows={windows}
+                onWindowsChange={setWindows}
+                objects={objects}
+                onObjectsChange={setObjects}
+                readOnly={isReadOnly}
+                onWallPaint={(wallId, color) =>
+                  setWalls((prev) =>
+                    prev.map((w) => (w.id === wallId ? { ...w, color } : w)),
+                  )
+                }
                 gridEnabled={gridEnabled && editMode !== 'idle'}
                 isDarkMode={theme === 'dark'}
                 showWindows={showWindows}
                 rendererRef={threeRendererRef}
                 activeTool={activeTool}
                 selectedColor={selectedColor}
+                focus={diagnosticFocus}
+                ceiling={isTopLevel ? ceiling : Ceiling.DEFAULT}
+                otherLevels={otherLevels}
+                stairRise={BuildingLevels.stairRise(levels, activeLevel.id)}
                 onScreenshot={() => {
                   // This will be called when screenshot is taken from ThreeCanvas
                   console.log('Screenshot taken from ThreeCanvas');
@@ -444,12 +1256,28 @@ export default function RoomBuilderPage() {
         isOpen={showSaveModal}
         onClose={() => setShowSaveModal(false)}
         onSave={handleSaveDesign}
-        walls={walls}
-        objects={threeApiRef.current?.getObjects() || []}
-        autoSave={autoSaveEnabled}
+        walls={allWalls}
+        rooms={rooms}
+        objects={allObjects}
+        doors={allDoors}
+        windows={allWindows}
+        dimensions={allDimensions}
+        validation={validation}
+        ceiling={ceiling}
+        underlays={underlays}
+        levels={levels}
+        autoSave={autoSaveEnabled && !collaborating}
         existingDesignId={currentDesignId || undefined}
       />
 
+      {/* Import Design Modal */}
+      <ImportDesignModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onImport={handleImportDesign}
+        hasCurrentPlan={allWalls.length > 0}
+      />
+
       {/* Notification Toast */}
       {notification.visible && (
         <div className="fixed top-4 right-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-4 z-50">
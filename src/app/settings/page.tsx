@@ -2,14 +2,16 @@
 
 import React from 'react';
 
-import { Globe, LogOut, Moon, Palette, Sun, User } from 'lucide-react';
+import { Globe, History, LogOut, Moon, Palette, Sun, User } from 'lucide-react';
 import { useTheme } from 'next-themes';
 import { useTranslation } from 'react-i18next';
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { setHistoryLimit } from '@/features/roomSlice';
 import { RootState, toggleLanguage } from '@/features/store';
 import { useAppDispatch, useAppSelector } from '@/hooks/redux';
 
@@ -18,6 +20,7 @@ export default function SettingsPage() {
   const { t } = useTranslation();
   const dispatch = useAppDispatch();
   const { language } = useAppSelector((state: RootState) => state.settings);
+  const historyLimit = useAppSelector((state: RootState) => state.room.history.limit);
 
   const handleLanguageToggle = () => {
     dispatch(toggleLanguage());
@@ -71,6 +74,36 @@ export default function SettingsPage() {
             </CardContent>
           </Card>
 
+          <Card className="border-0 shadow-lg bg-card/90 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <History className="w-5 h-5" />
+                <span>Editor</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="history-limit" className="text-lg">
+                  Undo Steps
+                </Label>
+                <Input
+                  id="history-limit"
+                  type="number"
+                  min={1}
+                  max={500}
+                  value={historyLimit}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    if (!isNaN(value)) {
+                      dispatch(setHistoryLimit(value));
+                    }
+                  }}
+                  className="w-24"
+                />
+              </div>
+            </CardContent>
+          </Card>
+
           <Card className="border-0 shadow-lg bg-card/90 dark:bg-gray-800/90 backdrop-blur-sm">
             <CardHeader>
               <CardTitle className="flex items-center space-x-2">
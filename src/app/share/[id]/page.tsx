@@ -0,0 +1,153 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+
+import { Copy, Eye } from 'lucide-react';
+import { useParams, useRouter } from 'next/navigation';
+import { useTheme } from 'next-themes';
+import { useTranslation } from 'react-i18next';
+
+import { useAuth } from '@/components/AuthProvider';
+import ThreeCanvas, { StackedLevel } from '@/components/ThreeCanvas';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { BuildingLevels } from '@/lib/building-levels';
+import { Ceiling } from '@/lib/ceiling';
+import { SharedDesign, designService } from '@/lib/designService';
+
+export default function SharedDesignPage() {
+  const { id } = useParams<{ id: string }>();
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const router = useRouter();
+  const { theme } = useTheme();
+  const [share, setShare] = useState<SharedDesign | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'unavailable'>('loading');
+  const [copying, setCopying] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    designService
+      .getShare(id)
+      .then((result) => {
+        if (cancelled) {
+          return;
+        }
+        setShare(result);
+        setStatus(result ? 'ready' : 'unavailable');
+      })
+      .catch((error) => {
+        console.error('❌ Failed to load share:', error);
+        if (!cancelled) {
+          setStatus('unavailable');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  // Shown as the builder shows the ground level: the other levels stacked at their
+  // elevation, and the roof's ceiling only when nothing is built above
+  const scene = useMemo(() => {
+    if (!share) {
+      return null;
+    }
+    const { design } = share;
+    const levels = BuildingLevels.normalize(design.levels);
+    const ground = BuildingLevels.find(levels, BuildingLevels.GROUND_ID);
+    const content = {
+      walls: design.walls,
+      doors: design.doors,
+      windows: design.windows,
+      objects: design.objects,
+    };
+    const otherLevels: StackedLevel[] = levels
+      .filter((level) => level.id !== ground.id)
+      .map((level) => ({
+        id: level.id,
+        offset: level.elevation - ground.elevation,
+        stairRise: BuildingLevels.stairRise(levels, level.id),
+        ...BuildingLevels.pick(content, level.id),
+      }));
+    return {
+      ...BuildingLevels.pick(content, ground.id),
+      ceiling:
+        BuildingLevels.top(levels).id === ground.id ? design.ceiling : Ceiling.DEFAULT,
+      stairRise: BuildingLevels.stairRise(levels, ground.id),
+      otherLevels,
+    };
+  }, [share]);
+
+  const handleCopy = async () => {
+    if (!share) {
+      return;
+    }
+    if (!user) {
+      router.push('/login');
+      return;
+    }
+    setCopying(true);
+    try {
+      // Firestore rejects undefined fields
+      const { description, ...design } = share.design;
+      await designService.saveDesign({
+        ...design,
+        ...(description ? { description } : {}),
+        userId: user.uid,
+      });
+      router.push('/builder');
+    } catch (error) {
+      console.error('❌ Failed to copy shared design:', error);
+      setCopying(false);
+    }
+  };
+
+  if (status !== 'ready' || !share || !scene) {
+    return (
+      <div className="container mx-auto px-4 py-16 max-w-md">
+        <Card>
+          <CardContent className="p-6 text-center text-muted-foreground">
+            {status === 'loading' ? t('share.loading') : t('share.unavailable')}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { design } = share;
+
+  return (
+    <div className="flex flex-col h-[calc(100vh-8rem)]">
+      <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-border bg-card">
+        <div className="min-w-0">
+          <h1 className="text-lg font-semibold truncate">{design.name}</h1>
+          <p className="text-xs text-muted-foreground flex items-center">
+            <Eye className="w-3 h-3 mr-1" />
+            {t('share.readOnlyTitle')}
+            {share.expiresAt &&
+              ` · ${t('share.expiresOn', { date: share.expiresAt.toLocaleDateString() })}`}
+          </p>
+        </div>
+        <Button size="sm" onClick={handleCopy} disabled={copying}>
+          <Copy className="w-4 h-4 mr-1" />
+          {t('share.copyToMyDesigns')}
+        </Button>
+      </div>
+      <div className="flex-1 relative bg-muted">
+        <ThreeCanvas
+          walls={scene.walls}
+          doors={scene.doors}
+          windows={scene.windows}
+          objects={scene.objects}
+          ceiling={scene.ceiling}
+          otherLevels={scene.otherLevels}
+          stairRise={scene.stairRise}
+          readOnly
+          gridEnabled={false}
+          isDarkMode={theme === 'dark'}
+        />
+      </div>
+    </div>
+  );
+}
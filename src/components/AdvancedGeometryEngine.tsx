@@ -1,5 +1,8 @@
 'use client';
 
+import { PolygonTriangulation } from '@/lib/polygon-triangulation';
+import { WindowPlacement } from '@/types/room';
+
 import { Wall } from './Floorplan2DCanvas';
 
 // Advanced Geometry Engine for Room Building
@@ -164,7 +167,7 @@ export class AdvancedGeometryEngine {
     }));
   }
 
-  // 6. Optimize Window Placements
+  // 6. Suggest Window Placements (used to seed user-editable windows)
   static optimizeWindowPlacements(walls: Wall[]): {
     walls: Wall[];
     windows: WindowPlacement[];
@@ -181,12 +184,10 @@ export class AdvancedGeometryEngine {
         const windowBottom = 0.8;
 
         // Center the window
-        const centerX = (wall.start.x + wall.end.x) / 2;
-        const centerZ = (wall.start.z + wall.end.z) / 2;
-
         windows.push({
+          id: `window-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
           wallId: wall.id,
-          position: { x: centerX, z: centerZ },
+          offset: wallLength / 2,
           width: windowWidth,
           height: windowHeight,
           bottomHeight: windowBottom,
@@ -453,29 +454,10 @@ export class AdvancedGeometryEngine {
       maxHeight = Math.max(maxHeight, wall.height);
     });
 
-    // Generate collision mesh
-    const collisionVertices: number[] = [];
-    const collisionIndices: number[] = [];
-
-    // Floor collision
-    for (let i = 1; i < vertices.length - 1; i++) {
-      const baseIndex = collisionVertices.length / 3;
-
-      // Add triangle vertices
-      collisionVertices.push(
-        vertices[0].x,
-        0,
-        vertices[0].z,
-        vertices[i].x,
-        0,
-        vertices[i].z,
-        vertices[i + 1].x,
-        0,
-        vertices[i + 1].z,
-      );
-
-      collisionIndices.push(baseIndex, baseIndex + 1, baseIndex + 2);
-    }
+    // Floor collision, facing up like the rendered floor
+    const floor = PolygonTriangulation.triangulate(vertices);
+    const collisionVertices = floor.points.flatMap((p) => [p.x, 0, p.z]);
+    const collisionIndices = floor.triangles.flatMap(([a, b, c]) => [a, c, b]);
 
     return {
       boundingBox: {
@@ -596,13 +578,7 @@ export class AdvancedGeometryEngine {
 }
 
 // Type Definitions
-export interface WindowPlacement {
-  wallId: string;
-  position: { x: number; z: number };
-  width: number;
-  height: number;
-  bottomHeight: number;
-}
+export type { WindowPlacement };
 
 export interface TopologyValidation {
   isValid: boolean;
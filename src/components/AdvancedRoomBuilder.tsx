@@ -2,6 +2,8 @@
 
 import { useCallback, useMemo, useState } from 'react';
 
+import { WallGraph } from '@/lib/wall-graph';
+
 import { Wall } from './Floorplan2DCanvas';
 
 // Advanced wall connection and room validation algorithms
@@ -271,15 +273,10 @@ export class RoomGeometry {
     return walls;
   }
 
-  // Optimize wall connections (merge collinear walls, fix gaps)
+  // Optimize wall connections: split walls at T-junctions and crossings, and merge
+  // duplicate walls
   static optimizeWalls(walls: Wall[]): Wall[] {
-    // TODO: Implement wall optimization algorithms
-    // - Merge collinear walls
-    // - Fix small gaps
-    // - Remove duplicate walls
-    // - Ensure proper connections
-
-    return walls;
+    return WallGraph.normalize(walls).walls;
   }
 
   // Generate room statistics
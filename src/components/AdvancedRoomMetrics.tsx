@@ -1,16 +1,25 @@
 import React from 'react';
 
+import { useTranslation } from 'react-i18next';
+
 import { RoomMetrics } from '../lib/advanced-room-calculator';
+import { FloorSummary } from '../lib/advanced-room-drawing';
+import { ValidationIssue } from '../lib/validation-rules';
 
 interface AdvancedRoomMetricsProps {
   metrics: RoomMetrics;
+  summary?: FloorSummary; // From selectFloorSummary, for multi-room plans
   showAdvanced?: boolean;
+  onSelectIssue?: (issue: ValidationIssue) => void; // Locate the issue on the plan
 }
 
 export const AdvancedRoomMetrics: React.FC<AdvancedRoomMetricsProps> = ({
   metrics,
+  summary,
   showAdvanced = false,
+  onSelectIssue,
 }) => {
+  const { t } = useTranslation();
   const formatNumber = (value: number, decimals: number = 2): string =>
     value.toFixed(decimals);
 
@@ -70,8 +79,65 @@ export const AdvancedRoomMetrics: React.FC<AdvancedRoomMetricsProps> = ({
             Avg wall: {formatNumber(metrics.averageWallLength)}m
           </p>
         </div>
+
+        <div className="bg-amber-50 p-4 rounded-lg">
+          <h4 className="font-semibold text-amber-800 mb-2">Volume</h4>
+          <p className="text-2xl font-bold text-amber-900">
+            {formatNumber(metrics.volume)}m³
+          </p>
+          <p className="text-sm text-amber-700">Under the ceiling</p>
+        </div>
+
+        <div className="bg-purple-50 p-4 rounded-lg">
+          <h4 className="font-semibold text-purple-800 mb-2">Wall Area</h4>
+          <p className="text-2xl font-bold text-purple-900">
+            {formatNumber(metrics.totalWallArea)}m²
+          </p>
+          <p className="text-sm text-purple-700">One face, following the ceiling</p>
+        </div>
       </div>
 
+      {/* Floor Totals */}
+      {summary && summary.roomCount > 1 && (
+        <div className="border-t pt-4">
+          <h4 className="font-semibold text-gray-800 mb-3">
+            Floor ({summary.roomCount} rooms)
+          </h4>
+          <div className="grid grid-cols-2 gap-2 text-sm mb-3">
+            <div className="flex justify-between">
+              <span>Gross area:</span>
+              <span className="font-medium">{formatNumber(summary.grossArea)}m²</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Net area:</span>
+              <span className="font-medium">{formatNumber(summary.netArea)}m²</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Shared walls:</span>
+              <span className="font-medium">{summary.sharedWallCount}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Shared length:</span>
+              <span className="font-medium">
+                {formatNumber(summary.sharedWallLength)}m
+              </span>
+            </div>
+          </div>
+          <div className="space-y-1">
+            {summary.rooms.map((room) => (
+              <div key={room.id} className="flex justify-between text-sm">
+                <span className={room.isValid ? 'text-gray-700' : 'text-red-600'}>
+                  {room.isValid ? '✓' : '✗'} {room.name}
+                </span>
+                <span className="text-gray-600">
+                  {formatNumber(room.grossArea)}m² / {formatNumber(room.netArea)}m² net
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Validation Errors */}
       {metrics.validationErrors.length > 0 && (
         <div className="bg-red-50 border border-red-200 rounded-lg p-4">
@@ -80,7 +146,18 @@ export const AdvancedRoomMetrics: React.FC<AdvancedRoomMetricsProps> = ({
             {metrics.validationErrors.map((error, index) => (
               <li key={index} className="flex items-start gap-2">
                 <span className="text-red-500 mt-0.5">•</span>
-                {error}
+                {onSelectIssue ? (
+                  <button
+                    type="button"
+                    onClick={() => onSelectIssue(error)}
+                    title={t('validation.locate')}
+                    className="text-left hover:underline"
+                  >
+                    {t(error.messageKey, error.params)}
+                  </button>
+                ) : (
+                  t(error.messageKey, error.params)
+                )}
               </li>
             ))}
           </ul>
@@ -214,6 +291,9 @@ export const AdvancedRoomMetrics: React.FC<AdvancedRoomMetricsProps> = ({
                   <span className="text-gray-600">Wall {index + 1}:</span>
                   <div className="flex items-center gap-2">
                     <span className="font-medium">{formatNumber(length)}m</span>
+                    <span className="text-gray-500">
+                      {formatNumber(metrics.wallAreas[index] ?? 0)}m²
+                    </span>
                     <div className="w-16 bg-gray-200 rounded-full h-1">
                       <div
                         className="bg-blue-400 h-1 rounded-full"
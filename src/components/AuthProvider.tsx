@@ -6,6 +6,7 @@ import {
   User,
   createUserWithEmailAndPassword,
   onAuthStateChanged,
+  sendEmailVerification,
   signInWithEmailAndPassword,
   signInWithPopup,
   signOut,
@@ -54,6 +55,10 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
   const signUp = async (email: string, password: string) => {
     const cred = await createUserWithEmailAndPassword(auth, email, password);
+    // Designs shared by email open only once the address is verified
+    await sendEmailVerification(cred.user).catch((error) =>
+      console.error('❌ Failed to send verification email:', error),
+    );
     return cred.user;
   };
 
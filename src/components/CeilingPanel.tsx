@@ -0,0 +1,89 @@
+'use client';
+
+import { Home } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { setCeiling } from '@/features/roomSlice';
+import { useAppDispatch, useAppSelector } from '@/hooks/redux';
+import { CeilingSettings, CeilingType } from '@/lib/ceiling';
+
+const TYPES: CeilingType[] = ['flat', 'single-slope', 'gable'];
+
+const FIELDS: { key: Exclude<keyof CeilingSettings, 'type'>; step: number }[] = [
+  { key: 'eaveHeight', step: 0.05 },
+  { key: 'ridgeHeight', step: 0.05 },
+  { key: 'direction', step: 5 },
+];
+
+/**
+ * Ceiling over the plan; a sloped ceiling also cuts off the walls beneath it
+ */
+export default function CeilingPanel() {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const ceiling = useAppSelector((state) => state.room.ceiling);
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="pb-2 lg:pb-3">
+        <CardTitle className="text-base lg:text-lg flex items-center">
+          <Home className="w-4 h-4 lg:w-5 lg:h-5 mr-2" />
+          {t('ceiling.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-1">
+          <Label htmlFor="ceiling-type" className="text-xs">
+            {t('ceiling.typeLabel')}
+          </Label>
+          <select
+            id="ceiling-type"
+            value={ceiling.type}
+            onChange={(e) =>
+              dispatch(setCeiling({ type: e.target.value as CeilingType }))
+            }
+            className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground text-sm"
+          >
+            {TYPES.map((type) => (
+              <option key={type} value={type}>
+                {t(`ceiling.type.${type}`)}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-muted-foreground">
+            {ceiling.type === 'flat' ? t('ceiling.flatHint') : t('ceiling.slopeHint')}
+          </p>
+        </div>
+
+        {ceiling.type !== 'flat' && (
+          <div className="grid grid-cols-3 gap-2">
+            {FIELDS.map(({ key, step }) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`ceiling-${key}`} className="text-xs">
+                  {t(`ceiling.${key}`)}
+                </Label>
+                <Input
+                  id={`ceiling-${key}`}
+                  type="number"
+                  min={key === 'direction' ? undefined : 0}
+                  step={step}
+                  value={ceiling[key]}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (!isNaN(value) && (key === 'direction' || value >= 0)) {
+                      dispatch(setCeiling({ [key]: value }));
+                    }
+                  }}
+                  className="h-8 text-xs"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
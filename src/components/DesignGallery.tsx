@@ -2,12 +2,15 @@
 
 import { useEffect, useState } from 'react';
 
-import { Search } from 'lucide-react';
+import { Search, Share2 } from 'lucide-react';
 
 import { useAuth } from '@/components/AuthProvider';
+import ShareDesignModal from '@/components/ShareDesignModal';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { designRepository } from '@/lib/design-repository';
+import { LocalDesign } from '@/lib/design-store';
 import { SavedDesign, designService } from '@/lib/designService';
 
 interface DesignGalleryProps {
@@ -20,13 +23,16 @@ export default function DesignGallery({
   onEditDesign,
 }: DesignGalleryProps) {
   const { user } = useAuth();
-  const [designs, setDesigns] = useState<SavedDesign[]>([]);
-  const [filteredDesigns, setFilteredDesigns] = useState<SavedDesign[]>([]);
+  const [designs, setDesigns] = useState<LocalDesign[]>([]);
+  const [filteredDesigns, setFilteredDesigns] = useState<LocalDesign[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [indexError, setIndexError] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy] = useState<'date' | 'name'>('date');
+  const [sharingDesignId, setSharingDesignId] = useState<string | null>(null);
+  const [sharedWithMe, setSharedWithMe] = useState<SavedDesign[]>([]);
+  const [retryCount, setRetryCount] = useState(0);
 
   useEffect(() => {
     if (!user) {
@@ -35,34 +41,35 @@ export default function DesignGallery({
       return;
     }
 
-    // Subscribe to real-time updates
-    const unsubscribe = designService.subscribeToUserDesigns(
+    // Designs stored on this device, kept up to date from the server while online
+    return designRepository.subscribeToUserDesigns(
       user.uid,
       (updatedDesigns) => {
         setDesigns(updatedDesigns);
         setFilteredDesigns(updatedDesigns);
         setLoading(false);
-        setIndexError(false);
+      },
+      (err) => {
+        setLoading(false);
+        if (err.code === 'failed-precondition') {
+          setIndexError(true);
+          setError('Firebase index not configured. Please contact support.');
+        } else if (err.code === 'unavailable') {
+          setError('You are offline. Showing designs saved on this device.');
+        } else {
+          setError('Failed to load designs from the server');
+        }
       },
     );
+  }, [user, retryCount]);
 
-    // Check for index errors in console
-    const originalError = console.error;
-    console.error = (...args) => {
-      if (
-        args[0]?.includes?.('Firestore index error') ||
-        args[0]?.includes?.('failed-precondition')
-      ) {
-        setIndexError(true);
-        setError('Firebase index not configured. Please contact support.');
-      }
-      originalError.apply(console, args);
-    };
-
-    return () => {
-      unsubscribe();
-      console.error = originalError;
-    };
+  // Designs other people invited this user to; invitations need a verified address
+  useEffect(() => {
+    if (!user?.email || !user.emailVerified) {
+      setSharedWithMe([]);
+      return;
+    }
+    return designService.subscribeToSharedDesigns(user.email, setSharedWithMe);
   }, [user]);
 
   const handleDeleteDesign = async (designId: string) => {
@@ -71,14 +78,39 @@ export default function DesignGallery({
     }
 
     try {
-      await designService.deleteDesign(designId);
-      // Real-time listener will automatically update the list
+      await designRepository.deleteDesign(designId);
+      // The local store drops it right away; the server follows when online
     } catch (err) {
       setError('Failed to delete design');
       console.error('Delete error:', err);
     }
   };
 
+  const handleResolveConflict = async (designId: string, keep: 'local' | 'remote') => {
+    try {
+      await designRepository.resolveConflict(designId, keep);
+    } catch (err) {
+      setError('Failed to resolve the conflict');
+      console.error('Conflict resolution error:', err);
+    }
+  };
+
+  // Designs whose stored document no longer validates are listed but can't be opened
+  const handleOpenDesign = (design: SavedDesign) => {
+    if (design.issues) {
+      setError(
+        `"${design.name}" could not be read and can't be opened: ${design.issues
+          .slice(0, 3)
+          .map((issue) =>
+            issue.path ? `${issue.path}: ${issue.message}` : issue.message,
+          )
+          .join('; ')}`,
+      );
+      return;
+    }
+    onLoadDesign(design);
+  };
+
   const _handleExportDesign = (design: SavedDesign) => {
     const dataStr = JSON.stringify(design, null, 2);
     const dataBlob = new Blob([dataStr], { type: 'application/json' });
@@ -218,17 +250,9 @@ export default function DesignGallery({
                 variant="outline"
                 onClick={() => {
                   setError(null);
+                  setIndexError(false);
                   setLoading(true);
-                  const unsubscribe = designService.subscribeToUserDesigns(
-                    user!.uid,
-                    (updatedDesigns) => {
-                      setDesigns(updatedDesigns);
-                      setFilteredDesigns(updatedDesigns);
-                      setLoading(false);
-                      setIndexError(false);
-                    },
-                  );
-                  return unsubscribe;
+                  setRetryCount((count) => count + 1);
                 }}
                 className="border-red-300 text-red-700 hover:bg-red-100"
               >
@@ -258,7 +282,7 @@ export default function DesignGallery({
             <Card
               key={design.id}
               className="hover:bg-muted/50 transition-colors cursor-pointer"
-              onClick={() => onLoadDesign(design)}
+              onClick={() => handleOpenDesign(design)}
             >
               <CardContent className="p-4">
                 <div className="flex items-center justify-between">
@@ -270,7 +294,50 @@ export default function DesignGallery({
                       <span>{design.walls.length} walls</span>
                       <span>{design.objects.length} objects</span>
                       <span>{formatDate(design.updatedAt)}</span>
+                      {design.syncState === 'pending' && (
+                        <span
+                          className="text-amber-600"
+                          title="Saved on this device only"
+                        >
+                          Not synced
+                        </span>
+                      )}
+                      {design.syncState === 'conflict' && (
+                        <span className="text-red-600">Changed elsewhere</span>
+                      )}
+                      {design.issues && (
+                        <span
+                          className="text-red-600"
+                          title={design.issues.map((issue) => issue.message).join('\n')}
+                        >
+                          Can&apos;t be opened
+                        </span>
+                      )}
                     </div>
+                    {design.syncState === 'conflict' && (
+                      <div className="flex gap-2 mt-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleResolveConflict(design.id, 'local');
+                          }}
+                        >
+                          Keep mine
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleResolveConflict(design.id, 'remote');
+                          }}
+                        >
+                          {design.conflict ? 'Use server version' : 'Discard mine'}
+                        </Button>
+                      </div>
+                    )}
                   </div>
                   <div className="flex items-center gap-2 ml-4">
                     <Button
@@ -280,9 +347,22 @@ export default function DesignGallery({
                         e.stopPropagation();
                         onEditDesign(design.id!);
                       }}
+                      disabled={!!design.issues}
                     >
                       Edit
                     </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setSharingDesignId(design.id!);
+                      }}
+                      disabled={design.baseUpdatedAt === null || !!design.issues}
+                      title="Share"
+                    >
+                      <Share2 className="w-3 h-3" />
+                    </Button>
                     <Button
                       size="sm"
                       variant="outline"
@@ -301,6 +381,37 @@ export default function DesignGallery({
           ))}
         </div>
       )}
+
+      {sharedWithMe.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-muted-foreground">Shared with me</h3>
+          {sharedWithMe.map((design) => (
+            <Card
+              key={design.id}
+              className="hover:bg-muted/50 transition-colors cursor-pointer"
+              onClick={() => handleOpenDesign(design)}
+            >
+              <CardContent className="p-4">
+                <h3 className="font-medium text-foreground truncate">{design.name}</h3>
+                <div className="flex items-center gap-4 mt-1 text-sm text-muted-foreground">
+                  <span>{design.walls.length} walls</span>
+                  <span>{design.roles?.[user.email?.toLowerCase() ?? '']}</span>
+                  {design.issues && (
+                    <span className="text-red-600">Can&apos;t be opened</span>
+                  )}
+                  <span>{formatDate(design.updatedAt)}</span>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Live lookup so role changes show up while the modal is open */}
+      <ShareDesignModal
+        design={designs.find((d) => d.id === sharingDesignId) ?? null}
+        onClose={() => setSharingDesignId(null)}
+      />
     </div>
   );
 }
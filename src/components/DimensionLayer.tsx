@@ -0,0 +1,200 @@
+'use client';
+
+import { useMemo } from 'react';
+
+import {
+  Dimension,
+  DimensionKind,
+  DimensionSettings,
+  Dimensions,
+} from '@/lib/dimensions';
+import { DimensionLine, Point, Wall } from '@/types/room';
+
+const OFFSET = 24; // Pixels between a room and its first chain, and between chains
+const TICK = 4; // Half the length of the slash at each end, in pixels
+
+const COLORS: Record<DimensionKind, string> = {
+  chain: '#475569',
+  overall: '#1E293B',
+  interior: '#0F766E',
+  custom: '#B45309',
+};
+const SELECTED_COLOR = '#EA580C';
+
+interface DimensionLayerProps {
+  rooms: Wall[][]; // Walls of each room; those that don't close a loop get no dimensions
+  lines: DimensionLine[];
+  settings: DimensionSettings;
+  scale: number; // Canvas pixels per meter
+  toCanvas: (point: Point) => { x: number; y: number };
+  selectedLineId?: string | null;
+  preview?: { start: Point; end: Point } | null; // Dimension line being placed
+  tagOffset?: number; // Pixels to drop the area tag, clear of a room label already there
+}
+
+interface DimensionMarkProps {
+  dimension: Dimension;
+  settings: DimensionSettings;
+  toCanvas: DimensionLayerProps['toCanvas'];
+  color: string;
+}
+
+// Witness lines, the dimension line with a slash at each end, and the figure on top
+function DimensionMark({ dimension, settings, toCanvas, color }: DimensionMarkProps) {
+  const from = toCanvas(dimension.from);
+  const to = toCanvas(dimension.to);
+  const measuredFrom = toCanvas(dimension.measuredFrom);
+  const measuredTo = toCanvas(dimension.measuredTo);
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  if (length === 0) {
+    return null;
+  }
+  const direction = { x: (to.x - from.x) / length, y: (to.y - from.y) / length };
+  // Slashes lean 45° across the line, as on a drawn plan
+  const slash = {
+    x: (direction.x - direction.y) * TICK,
+    y: (direction.y + direction.x) * TICK,
+  };
+  // Keep the figure upright
+  let angle = (Math.atan2(direction.y, direction.x) * 180) / Math.PI;
+  if (angle > 90) {
+    angle -= 180;
+  } else if (angle <= -90) {
+    angle += 180;
+  }
+  const middle = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+
+  return (
+    <g>
+      {[
+        [measuredFrom, from],
+        [measuredTo, to],
+      ].map(([a, b], i) =>
+        a.x === b.x && a.y === b.y ? null : (
+          <line
+            key={i}
+            x1={a.x}
+            y1={a.y}
+            x2={b.x}
+            y2={b.y}
+            stroke={color}
+            strokeWidth="0.5"
+            opacity="0.6"
+          />
+        ),
+      )}
+      <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke={color} strokeWidth="1" />
+      {[from, to].map((end, i) => (
+        <line
+          key={i}
+          x1={end.x - slash.x}
+          y1={end.y - slash.y}
+          x2={end.x + slash.x}
+          y2={end.y + slash.y}
+          stroke={color}
+          strokeWidth="1.5"
+        />
+      ))}
+      <text
+        x={middle.x}
+        y={middle.y - 4}
+        transform={`rotate(${angle} ${middle.x} ${middle.y})`}
+        fontSize="11"
+        fill={color}
+        stroke="white"
+        strokeWidth="3"
+        paintOrder="stroke"
+        textAnchor="middle"
+        style={{ userSelect: 'none' }}
+      >
+        {Dimensions.formatLength(dimension.length, settings)}
+      </text>
+    </g>
+  );
+}
+
+/**
+ * The dimension layer of a 2D canvas: exterior chains, clear spans and area tags of
+ * every closed room, and the dimension lines placed by hand. Drawn inside the canvas SVG
+ */
+export default function DimensionLayer({
+  rooms,
+  lines,
+  settings,
+  scale,
+  toCanvas,
+  selectedLineId = null,
+  preview = null,
+  tagOffset = 0,
+}: DimensionLayerProps) {
+  const measured = useMemo(
+    () =>
+      rooms.flatMap((walls) => {
+        const room = Dimensions.forRoom(walls, OFFSET / scale, settings);
+        return room ? [room] : [];
+      }),
+    [rooms, scale, settings],
+  );
+
+  const custom = Dimensions.custom(lines);
+  const previewMark = preview
+    ? Dimensions.custom([{ id: 'preview', start: preview.start, end: preview.end }])[0]
+    : null;
+
+  return (
+    <g style={{ pointerEvents: 'none' }}>
+      {measured.map((room, i) => (
+        <g key={i}>
+          {room.dimensions.map((dimension, j) => (
+            <DimensionMark
+              key={j}
+              dimension={dimension}
+              settings={settings}
+              toCanvas={toCanvas}
+              color={COLORS[dimension.kind]}
+            />
+          ))}
+          {room.tag && (
+            <text
+              x={toCanvas(room.tag.position).x}
+              y={toCanvas(room.tag.position).y + tagOffset}
+              fontSize="11"
+              fill="#0F172A"
+              stroke="white"
+              strokeWidth="3"
+              paintOrder="stroke"
+              textAnchor="middle"
+              style={{ userSelect: 'none' }}
+            >
+              <tspan x={toCanvas(room.tag.position).x} fontWeight="600">
+                {Dimensions.formatArea(room.tag.area, settings)}
+              </tspan>
+              <tspan x={toCanvas(room.tag.position).x} dy="13">
+                P {Dimensions.formatLength(room.tag.perimeter, settings)}
+              </tspan>
+            </text>
+          )}
+        </g>
+      ))}
+      {custom.map((dimension, i) => (
+        <DimensionMark
+          key={lines[i].id}
+          dimension={dimension}
+          settings={settings}
+          toCanvas={toCanvas}
+          color={lines[i].id === selectedLineId ? SELECTED_COLOR : COLORS.custom}
+        />
+      ))}
+      {previewMark && (
+        <g opacity="0.6">
+          <DimensionMark
+            dimension={previewMark}
+            settings={settings}
+            toCanvas={toCanvas}
+            color={COLORS.custom}
+          />
+        </g>
+      )}
+    </g>
+  );
+}
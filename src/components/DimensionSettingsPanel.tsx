@@ -0,0 +1,112 @@
+'use client';
+
+import { useEffect } from 'react';
+
+import { Ruler } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { updateDimensionSettings } from '@/features/roomSlice';
+import { useAppDispatch, useAppSelector } from '@/hooks/redux';
+import { DimensionSettings, Dimensions, LengthUnit } from '@/lib/dimensions';
+
+// Units are the user's own choice rather than the design's, so they stay in the browser
+const STORAGE_KEY = 'dimensionSettings';
+
+const UNIT_LABELS: Record<LengthUnit, string> = {
+  m: 'dimensions.unitM',
+  cm: 'dimensions.unitCm',
+  'ft-in': 'dimensions.unitFtIn',
+};
+
+const LAYERS = ['exterior', 'interior', 'tags'] as const;
+
+/**
+ * Units, precision and which parts of the dimension layer the 2D plan shows
+ */
+export default function DimensionSettingsPanel() {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const settings = useAppSelector((state) => state.room.dimensionSettings);
+
+  useEffect(() => {
+    dispatch(
+      updateDimensionSettings(
+        Dimensions.parseSettings(localStorage.getItem(STORAGE_KEY)),
+      ),
+    );
+  }, [dispatch]);
+
+  const handleChange = (updates: Partial<DimensionSettings>) => {
+    dispatch(updateDimensionSettings(updates));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...settings, ...updates }));
+  };
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="pb-2 lg:pb-3">
+        <CardTitle className="text-base lg:text-lg flex items-center">
+          <Ruler className="w-4 h-4 lg:w-5 lg:h-5 mr-2" />
+          {t('dimensions.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="dimension-unit" className="text-xs">
+              {t('dimensions.unit')}
+            </Label>
+            <select
+              id="dimension-unit"
+              value={settings.unit}
+              onChange={(e) => handleChange({ unit: e.target.value as LengthUnit })}
+              className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground text-sm"
+            >
+              {Dimensions.UNITS.map((unit) => (
+                <option key={unit} value={unit}>
+                  {t(UNIT_LABELS[unit])}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="dimension-precision" className="text-xs">
+              {t('dimensions.precision')}
+            </Label>
+            <select
+              id="dimension-precision"
+              value={settings.precision}
+              onChange={(e) => handleChange({ precision: parseInt(e.target.value, 10) })}
+              className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground text-sm"
+            >
+              {Dimensions.PRECISIONS.map((precision) => (
+                <option key={precision} value={precision}>
+                  {t('dimensions.decimals', { value: precision })}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {LAYERS.map((key) => (
+            <div key={key} className="flex items-center justify-between">
+              <Label htmlFor={`dimension-${key}`} className="text-xs">
+                {t(`dimensions.${key}`)}
+              </Label>
+              <Switch
+                id={`dimension-${key}`}
+                checked={settings[key]}
+                onCheckedChange={(checked) => handleChange({ [key]: checked })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <p className="text-xs text-muted-foreground">{t('dimensions.hint')}</p>
+      </CardContent>
+    </Card>
+  );
+}
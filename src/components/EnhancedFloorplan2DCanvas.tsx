@@ -1,24 +1,41 @@
 'use client';
 
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 import { useDispatch, useSelector } from 'react-redux';
 
+import DimensionLayer from '@/components/DimensionLayer';
+import { RoomTool } from '@/components/RoomOperationsPanel';
+import { SnapGuideLines, SnapLegend } from '@/components/SnapGuides';
+import WallMeasurementInput from '@/components/WallMeasurementInput';
 import {
   DrawingRoom,
   addDrawingPoint,
+  beginHistoryBatch,
   cancelCurrentRoom,
   completeCurrentRoom,
+  deleteRoomVertex,
+  endHistoryBatch,
+  insertRoomVertex,
+  moveRoomVertex,
+  moveRoomWall,
+  selectLevelRooms,
+  setRoomWallLength,
   startNewRoom,
 } from '@/features/roomSlice';
 import { RootState } from '@/features/store';
+import { useRoomDocument } from '@/hooks/useRoomHistory';
 import { AdvancedRoomDrawing } from '@/lib/advanced-room-drawing';
+import { Dimensions } from '@/lib/dimensions';
+import { RoomEditing } from '@/lib/room-editing';
+import { SnapResult, Snapping } from '@/lib/snapping';
+import { WallInput } from '@/lib/wall-input';
 import { Point, Wall } from '@/types/room';
 
 // Constants
 const SCALE = 100; // pixels per meter
 const GRID_STEP = 0.5; // 0.5m grid
-const SNAP_THRESHOLD = 0.05; // 5cm snap threshold
+const PICK_RADIUS = 10; // pixels; how close a corner or wall has to be to grab it
 
 // Utility functions
 const dist = (a: Point, b: Point): number =>
@@ -34,6 +51,11 @@ const toWorld = (canvasPos: { x: number; y: number }): Point => ({
   z: -canvasPos.y / SCALE, // Flip Z axis back
 });
 
+// A corner or wall being dragged in move mode
+type EditDrag =
+  | { type: 'vertex'; point: Point }
+  | { type: 'wall'; roomId: string; wallId: string; last: Point };
+
 // Room color scheme
 const getRoomColor = (
   room: DrawingRoom,
@@ -64,32 +86,49 @@ interface EnhancedFloorplan2DCanvasProps {
   width?: number;
   height?: number;
   className?: string;
+  roomTool?: RoomTool | null; // Draws a cutting line or rectangle instead of walls
+  onRoomToolDraw?: (start: Point, end: Point) => void;
 }
 
 export const EnhancedFloorplan2DCanvas: React.FC<EnhancedFloorplan2DCanvasProps> = ({
   width = 800,
   height = 600,
   className = '',
+  roomTool = null,
+  onRoomToolDraw,
 }) => {
   const dispatch = useDispatch();
+  const rooms = useSelector(selectLevelRooms);
   const {
-    rooms,
     activeRoomId,
     drawingPoints,
     isDrawing,
     editMode,
     gridEnabled,
-    snapToGrid,
+    snap,
     wallHeight: _wallHeight,
+    activeLevelId,
+    dimensionSettings,
   } = useSelector((state: RootState) => state.room);
+  const { dimensions, setDimensions } = useRoomDocument();
 
   const svgRef = useRef<SVGSVGElement>(null);
   const [viewBox, setViewBox] = useState({ x: -400, y: -300, width: 800, height: 600 });
   const [previewPoint, setPreviewPoint] = useState<Point | null>(null);
-  const [snapPoint, setSnapPoint] = useState<Point | null>(null);
+  const [snapResult, setSnapResult] = useState<SnapResult | null>(null);
   const [isPanning, setIsPanning] = useState(false);
   const [panStart, setPanStart] = useState({ x: 0, y: 0 });
   const [_selectedRoom, _setSelectedRoom] = useState<string | null>(null);
+  const [toolStart, setToolStart] = useState<Point | null>(null);
+  // Wall last grabbed in move mode, whose length can be typed in
+  const [selectedWall, setSelectedWall] = useState<{
+    roomId: string;
+    wallId: string;
+  } | null>(null);
+  const dragRef = useRef<EditDrag | null>(null);
+  // First end of a dimension line being placed, and the line last picked
+  const [dimensionStart, setDimensionStart] = useState<Point | null>(null);
+  const [selectedDimensionId, setSelectedDimensionId] = useState<string | null>(null);
 
   // Get mouse position in world coordinates
   const getMousePos = useCallback(
@@ -107,52 +146,49 @@ export const EnhancedFloorplan2DCanvas: React.FC<EnhancedFloorplan2DCanvasProps>
     [viewBox],
   );
 
-  // Get snapped mouse position
+  // Snap the pointer, showing why it landed where it did; `ignore` is a corner being
+  // dragged, which shouldn't attract itself
   const getSnappedMousePos = useCallback(
-    (e: React.MouseEvent): Point => {
-      const rawPos = getMousePos(e);
-
-      if (!snapToGrid) {
-        return rawPos;
-      }
-
-      // Snap to grid
-      const snappedPos = {
-        x: Math.round(rawPos.x / GRID_STEP) * GRID_STEP,
-        z: Math.round(rawPos.z / GRID_STEP) * GRID_STEP,
-      };
-
-      // Check for snapping to existing points
-      const allWalls = AdvancedRoomDrawing.getAllWalls({
-        rooms,
-        activeRoomId,
-        drawingPoints,
-        isDrawing,
-      });
-      const allPoints: Point[] = [];
-
-      allWalls.forEach((wall) => {
-        allPoints.push(wall.start, wall.end);
-      });
-
-      // Add drawing points
-      allPoints.push(...drawingPoints);
-
-      // Find closest point within snap threshold
-      let closestPoint = snappedPos;
-      let minDistance = SNAP_THRESHOLD;
-
-      allPoints.forEach((point) => {
-        const distance = dist(rawPos, point);
-        if (distance < minDistance) {
-          minDistance = distance;
-          closestPoint = point;
-        }
-      });
-
-      return closestPoint;
+    (e: React.MouseEvent, ignore: Point | null = null): Point => {
+      const anchor =
+        toolStart ??
+        dimensionStart ??
+        (isDrawing ? drawingPoints[drawingPoints.length - 1] : null) ??
+        null;
+      const result = Snapping.snap(
+        getMousePos(e),
+        {
+          walls: AdvancedRoomDrawing.getAllWalls({
+            rooms,
+            activeRoomId,
+            drawingPoints,
+            isDrawing,
+          }),
+          points: drawingPoints,
+          anchor,
+          previous:
+            !toolStart && isDrawing ? drawingPoints[drawingPoints.length - 2] : null,
+          ignore,
+          radius: (snap.radius * viewBox.width) / width / SCALE,
+          gridStep: GRID_STEP,
+        },
+        snap,
+      );
+      setSnapResult(result);
+      return result.point;
     },
-    [getMousePos, snapToGrid, rooms, activeRoomId, drawingPoints, isDrawing],
+    [
+      getMousePos,
+      toolStart,
+      dimensionStart,
+      isDrawing,
+      drawingPoints,
+      rooms,
+      activeRoomId,
+      snap,
+      viewBox.width,
+      width,
+    ],
   );
 
   // Start new room when entering draw mode
@@ -162,6 +198,33 @@ export const EnhancedFloorplan2DCanvas: React.FC<EnhancedFloorplan2DCanvasProps>
     }
   }, [editMode, isDrawing, activeRoomId, dispatch]);
 
+  // Pick radius in meters at the current zoom
+  const pickRadius = (PICK_RADIUS * viewBox.width) / width / SCALE;
+
+  // A new tool starts over
+  useEffect(() => {
+    setToolStart(null);
+    setPreviewPoint(null);
+  }, [roomTool]);
+
+  useEffect(() => {
+    setSelectedWall(null);
+    setDimensionStart(null);
+    setSelectedDimensionId(null);
+  }, [editMode, activeLevelId]);
+
+  // Walls of each finished room, for its dimension chains and area tag
+  const dimensionRooms = useMemo(
+    () => rooms.filter((room) => room.isCompleted).map((room) => room.walls),
+    [rooms],
+  );
+
+  const selectedWallData = selectedWall
+    ? rooms
+        .find((room) => room.id === selectedWall.roomId)
+        ?.walls.find((wall) => wall.id === selectedWall.wallId)
+    : undefined;
+
   // Mouse event handlers
   const handleMouseDown = (e: React.MouseEvent) => {
     if (e.button === 1 || e.button === 2) {
@@ -169,6 +232,63 @@ export const EnhancedFloorplan2DCanvas: React.FC<EnhancedFloorplan2DCanvasProps>
       setIsPanning(true);
       setPanStart({ x: e.clientX, y: e.clientY });
       e.preventDefault();
+      return;
+    }
+
+    // Grab a corner, or failing that a wall, of a completed room
+    if (editMode === 'move' && e.button === 0 && !roomTool) {
+      const point = getMousePos(e);
+      const vertex = RoomEditing.vertexNear(rooms, activeLevelId, point, pickRadius);
+      const hit = vertex
+        ? null
+        : RoomEditing.wallNear(rooms, activeLevelId, point, pickRadius);
+      if (vertex) {
+        dragRef.current = { type: 'vertex', point: vertex };
+      } else if (hit) {
+        dragRef.current = {
+          type: 'wall',
+          roomId: hit.room.id,
+          wallId: hit.wall.id,
+          last: point,
+        };
+        setSelectedWall({ roomId: hit.room.id, wallId: hit.wall.id });
+      }
+      if (dragRef.current) {
+        dispatch(beginHistoryBatch());
+      }
+    }
+  };
+
+  // Follow the pointer with the grabbed corner or wall, as far as the room stays valid
+  const dragEdit = (e: React.MouseEvent, drag: EditDrag) => {
+    if (drag.type === 'vertex') {
+      const to = getSnappedMousePos(e, drag.point);
+      if (
+        dist(to, drag.point) > 0 &&
+        RoomEditing.moveVertex(rooms, activeLevelId, drag.point, to)
+      ) {
+        dispatch(moveRoomVertex({ from: drag.point, to }));
+        dragRef.current = { ...drag, point: to };
+      }
+      return;
+    }
+
+    const wall = rooms
+      .find((room) => room.id === drag.roomId)
+      ?.walls.find((w) => w.id === drag.wallId);
+    const length = wall ? dist(wall.start, wall.end) : 0;
+    if (!wall || length === 0) {
+      return;
+    }
+    // Only movement across the wall counts; it slides parallel to itself
+    const point = getMousePos(e);
+    const offset =
+      (-(point.x - drag.last.x) * (wall.end.z - wall.start.z) +
+        (point.z - drag.last.z) * (wall.end.x - wall.start.x)) /
+      length;
+    if (RoomEditing.moveWall(rooms, drag.roomId, drag.wallId, offset)) {
+      dispatch(moveRoomWall({ roomId: drag.roomId, wallId: drag.wallId, offset }));
+      dragRef.current = { ...drag, last: point };
     }
   };
 
@@ -181,44 +301,165 @@ export const EnhancedFloorplan2DCanvas: React.FC<EnhancedFloorplan2DCanvasProps>
       return;
     }
 
-    if (editMode === 'draw' && isDrawing) {
-      const snappedPos = getSnappedMousePos(e);
-      setPreviewPoint(snappedPos);
+    if (roomTool) {
+      setPreviewPoint(getSnappedMousePos(e));
+      return;
+    }
 
-      // Show snap indicator
-      if (snapToGrid || drawingPoints.length > 0) {
-        setSnapPoint(snappedPos);
-      }
+    if (dragRef.current) {
+      dragEdit(e, dragRef.current);
+      return;
+    }
+
+    if ((editMode === 'draw' && isDrawing) || editMode === 'dimension') {
+      setPreviewPoint(getSnappedMousePos(e));
+    } else {
+      setSnapResult(null);
     }
   };
 
   const handleMouseUp = () => {
     setIsPanning(false);
+    if (dragRef.current) {
+      dragRef.current = null;
+      setSnapResult(null);
+      dispatch(endHistoryBatch());
+    }
+  };
+
+  // Double-clicking a wall in move mode adds a corner there
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (editMode !== 'move' || roomTool) {
+      return;
+    }
+    const point = getMousePos(e);
+    const hit = RoomEditing.wallNear(rooms, activeLevelId, point, pickRadius);
+    if (hit) {
+      dispatch(insertRoomVertex({ roomId: hit.room.id, wallId: hit.wall.id, point }));
+    }
   };
 
   const handleClick = (e: React.MouseEvent) => {
+    if (roomTool && !isPanning) {
+      const point = getSnappedMousePos(e);
+      if (!toolStart) {
+        setToolStart(point);
+        return;
+      }
+      onRoomToolDraw?.(toolStart, point);
+      setToolStart(null);
+      return;
+    }
+
+    if (editMode === 'dimension' && !isPanning) {
+      placeDimensionPoint(e);
+      return;
+    }
+
+    // Clicking a corner in delete mode removes it, joining its two walls; a dimension
+    // line goes first, as it is drawn on top
+    if (editMode === 'delete' && !isPanning) {
+      const line = Dimensions.lineNear(dimensions, getMousePos(e), pickRadius);
+      if (line) {
+        setDimensions((prev) => prev.filter((item) => item.id !== line.id));
+        return;
+      }
+      const vertex = RoomEditing.vertexNear(
+        rooms,
+        activeLevelId,
+        getMousePos(e),
+        pickRadius,
+      );
+      if (vertex) {
+        dispatch(deleteRoomVertex(vertex));
+      }
+      return;
+    }
+
     if (editMode !== 'draw' || isPanning) {
       return;
     }
 
-    const clickPoint = getSnappedMousePos(e);
+    placeDrawingPoint(getSnappedMousePos(e));
+  };
+
+  // Pick a dimension line, or place one end of a new one
+  const placeDimensionPoint = (e: React.MouseEvent) => {
+    if (!dimensionStart) {
+      const line = Dimensions.lineNear(dimensions, getMousePos(e), pickRadius);
+      if (line) {
+        setSelectedDimensionId(line.id);
+        return;
+      }
+    }
+    const point = getSnappedMousePos(e);
+    setSelectedDimensionId(null);
+    if (!dimensionStart) {
+      setDimensionStart(point);
+      return;
+    }
+    if (dist(dimensionStart, point) >= Dimensions.MIN_LENGTH) {
+      const id = `dimension-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+      setDimensions((prev) => [...prev, { id, start: dimensionStart, end: point }]);
+      setSelectedDimensionId(id);
+    }
+    setDimensionStart(null);
+  };
 
-    // Check if clicking near the first point to close the room
+  // Add a clicked or typed point to the room being drawn
+  const placeDrawingPoint = (point: Point) => {
+    // Check if the point is near the first point to close the room
     if (drawingPoints.length >= 3) {
       const firstPoint = drawingPoints[0];
-      if (AdvancedRoomDrawing.isPointNearby(clickPoint, firstPoint)) {
+      if (AdvancedRoomDrawing.isPointNearby(point, firstPoint)) {
         dispatch(completeCurrentRoom());
         return;
       }
     }
 
     // Add the point to the current room
-    dispatch(addDrawingPoint(clickPoint));
+    dispatch(addDrawingPoint(point));
+  };
+
+  // The next wall, typed as a length and angle or a step from the last point
+  const handleSegmentInput = (text: string): boolean => {
+    const value = WallInput.parse(text);
+    if (!value || !isDrawing || drawingPoints.length === 0) {
+      return false;
+    }
+    const last = drawingPoints[drawingPoints.length - 1];
+    placeDrawingPoint(WallInput.resolve(last, value, previewPoint));
+    return true;
+  };
+
+  // A new length for the selected wall
+  const handleLengthInput = (text: string): boolean => {
+    const length = parseFloat(text);
+    if (
+      !selectedWall ||
+      isNaN(length) ||
+      !RoomEditing.setWallLength(rooms, selectedWall.roomId, selectedWall.wallId, length)
+    ) {
+      return false;
+    }
+    dispatch(setRoomWallLength({ ...selectedWall, length }));
+    return true;
   };
 
   const handleKeyDown = useCallback(
     (e: KeyboardEvent) => {
-      if (e.key === 'Escape' && isDrawing) {
+      if (e.key === 'Escape' && toolStart) {
+        setToolStart(null);
+      } else if (e.key === 'Escape' && dimensionStart) {
+        setDimensionStart(null);
+      } else if (
+        selectedDimensionId &&
+        !(e.target as HTMLElement | null)?.closest('input, textarea') &&
+        (e.key === 'Delete' || e.key === 'Backspace')
+      ) {
+        setDimensions((prev) => prev.filter((item) => item.id !== selectedDimensionId));
+        setSelectedDimensionId(null);
+      } else if (e.key === 'Escape' && isDrawing) {
         dispatch(cancelCurrentRoom());
       } else if (e.key === 'Enter' && drawingPoints.length >= 3) {
         dispatch(completeCurrentRoom());
@@ -227,7 +468,15 @@ export const EnhancedFloorplan2DCanvas: React.FC<EnhancedFloorplan2DCanvasProps>
         dispatch(startNewRoom());
       }
     },
-    [isDrawing, drawingPoints.length, dispatch],
+    [
+      toolStart,
+      dimensionStart,
+      selectedDimensionId,
+      setDimensions,
+      isDrawing,
+      drawingPoints.length,
+      dispatch,
+    ],
   );
 
   useEffect(() => {
@@ -277,7 +526,7 @@ export const EnhancedFloorplan2DCanvas: React.FC<EnhancedFloorplan2DCanvasProps>
           points={polygonPoints}
           fill={colors.fill}
           stroke={colors.stroke}
-          strokeWidth="2"
+          strokeWidth={wall.id === selectedWall?.wallId ? '4' : '2'}
           strokeDasharray={isPreview ? '5,5' : 'none'}
         />
 
@@ -359,22 +608,34 @@ export const EnhancedFloorplan2DCanvas: React.FC<EnhancedFloorplan2DCanvasProps>
     );
   };
 
-  // Render snap indicator
-  const renderSnapIndicator = () => {
-    if (!snapPoint) {
+  // Render the line or rectangle a room tool is cutting along
+  const renderToolPreview = () => {
+    if (!roomTool || !toolStart || !previewPoint) {
       return null;
     }
 
-    const canvasPos = toCanvas(snapPoint);
-    return (
-      <circle
-        cx={canvasPos.x}
-        cy={canvasPos.y}
-        r="6"
-        fill="none"
-        stroke="#00FF00"
+    const start = toCanvas(toolStart);
+    const end = toCanvas(previewPoint);
+    return roomTool === 'split' ? (
+      <line
+        x1={start.x}
+        y1={start.y}
+        x2={end.x}
+        y2={end.y}
+        stroke="#FF4444"
+        strokeWidth="2"
+        strokeDasharray="5,5"
+      />
+    ) : (
+      <rect
+        x={Math.min(start.x, end.x)}
+        y={Math.min(start.y, end.y)}
+        width={Math.abs(end.x - start.x)}
+        height={Math.abs(end.y - start.y)}
+        fill="rgba(255, 68, 68, 0.15)"
+        stroke="#FF4444"
         strokeWidth="2"
-        className="animate-pulse"
+        strokeDasharray="5,5"
       />
     );
   };
@@ -452,11 +713,13 @@ export const EnhancedFloorplan2DCanvas: React.FC<EnhancedFloorplan2DCanvasProps>
         width={width}
         height={height}
         viewBox={`${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`}
-        className="border border-gray-300 cursor-crosshair"
+        className={`border border-gray-300 ${editMode === 'move' ? 'cursor-move' : 'cursor-crosshair'}`}
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseUp}
         onClick={handleClick}
+        onDoubleClick={handleDoubleClick}
         onWheel={handleWheel}
         onContextMenu={(e) => e.preventDefault()}
       >
@@ -529,33 +792,110 @@ export const EnhancedFloorplan2DCanvas: React.FC<EnhancedFloorplan2DCanvasProps>
               return renderWall(wall, activeRoom, true);
             })}
 
+        <DimensionLayer
+          rooms={dimensionRooms}
+          lines={dimensions}
+          settings={dimensionSettings}
+          scale={SCALE}
+          toCanvas={toCanvas}
+          selectedLineId={selectedDimensionId}
+          preview={
+            dimensionStart && previewPoint
+              ? { start: dimensionStart, end: previewPoint }
+              : null
+          }
+          tagOffset={30}
+        />
+
         {/* Render drawing points and preview */}
         {renderDrawingPoints()}
-        {renderSnapIndicator()}
+        {renderToolPreview()}
+        {snapResult && <SnapGuideLines snap={snapResult} toCanvas={toCanvas} />}
       </svg>
 
       {/* Status bar */}
       <div className="absolute bottom-2 left-2 bg-white/90 px-3 py-1 rounded shadow text-sm">
-        {isDrawing ? (
+        {roomTool && (
+          <span className="text-red-600">
+            {roomTool === 'split' ? 'Split' : 'Cut out'}:{' '}
+            {toolStart ? 'click the second point' : 'click the first point'}
+          </span>
+        )}
+        {!roomTool && isDrawing && (
           <span className="text-blue-600">
             Drawing {drawingPoints.length > 0 ? `(${drawingPoints.length} points)` : ''}
             {drawingPoints.length >= 3 && ' - Click first point to close'}
           </span>
-        ) : (
+        )}
+        {!roomTool && !isDrawing && editMode === 'dimension' && (
+          <span className="text-amber-700">
+            Dimension:{' '}
+            {dimensionStart ? 'click the second point' : 'click the first point'}
+          </span>
+        )}
+        {!roomTool && !isDrawing && editMode !== 'dimension' && (
           <span className="text-gray-600">
             {rooms.length} room{rooms.length !== 1 ? 's' : ''} created
           </span>
         )}
       </div>
 
+      <SnapLegend snap={snapResult} />
+
+      {/* Typed measurements */}
+      {!roomTool && isDrawing && drawingPoints.length > 0 && (
+        <WallMeasurementInput
+          label="Next wall"
+          hint="Length @ angle (3.45 @ 90) or dx, dz (1.2, -0.5), then Enter"
+          placeholder={
+            previewPoint
+              ? WallInput.format(drawingPoints[drawingPoints.length - 1], previewPoint)
+              : '3.45 @ 90'
+          }
+          focusKey={drawingPoints.length}
+          onSubmit={handleSegmentInput}
+        />
+      )}
+      {editMode === 'move' && selectedWallData && (
+        <WallMeasurementInput
+          label="Wall length (m)"
+          hint="Enter a new length; the wall's end corner moves"
+          initialValue={dist(selectedWallData.start, selectedWallData.end).toFixed(2)}
+          focusKey={selectedWall?.wallId}
+          onSubmit={handleLengthInput}
+        />
+      )}
+
       {/* Controls */}
       <div className="absolute top-2 right-2 bg-white/90 p-2 rounded shadow">
         <div className="text-xs text-gray-600 mb-1">Controls:</div>
         <div className="text-xs space-y-1">
           <div>Click: Add point</div>
+          <div>Type: Length @ angle</div>
           <div>ESC: Cancel room</div>
           <div>Enter: Complete room</div>
           <div>Ctrl+N: New room</div>
+          {editMode === 'move' && (
+            <>
+              <div>Drag corner: Move corner</div>
+              <div>Drag wall: Move wall</div>
+              <div>Click wall: Type its length</div>
+              <div>Double-click wall: Add corner</div>
+            </>
+          )}
+          {editMode === 'delete' && (
+            <>
+              <div>Click corner: Remove corner</div>
+              <div>Click dimension: Remove it</div>
+            </>
+          )}
+          {editMode === 'dimension' && (
+            <>
+              <div>Click twice: Place dimension</div>
+              <div>Click dimension: Select it</div>
+              <div>Delete: Remove selected</div>
+            </>
+          )}
         </div>
       </div>
     </div>
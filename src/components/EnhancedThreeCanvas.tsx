@@ -5,10 +5,9 @@ import React, { useCallback, useEffect, useRef } from 'react';
 import { useSelector } from 'react-redux';
 import * as THREE from 'three';
 
-import { DrawingRoom } from '@/features/roomSlice';
-import { RootState } from '@/features/store';
-import { AdvancedRoomDrawing } from '@/lib/advanced-room-drawing';
+import { selectLevelRooms } from '@/features/roomSlice';
 import { EnhancedFloorRenderer } from '@/lib/enhanced-floor-renderer';
+import { WallGraph } from '@/lib/wall-graph';
 
 interface EnhancedThreeCanvasProps {
   width?: number;
@@ -39,7 +38,7 @@ export const EnhancedThreeCanvas: React.FC<EnhancedThreeCanvasProps> = ({
   const wallGroupRef = useRef<THREE.Group | null>(null);
   const floorGroupRef = useRef<THREE.Group | null>(null);
 
-  const { rooms } = useSelector((state: RootState) => state.room);
+  const rooms = useSelector(selectLevelRooms);
 
   // Initialize Three.js scene
   const initializeScene = useCallback(async () => {
@@ -201,38 +200,34 @@ export const EnhancedThreeCanvas: React.FC<EnhancedThreeCanvasProps> = ({
 
     const wallMat = createWallMaterial(wallMaterial);
 
-    rooms.forEach((room) => {
-      if (!room.isCompleted) {
-        return;
-      }
+    // One mesh per wall of the graph, so partitions between rooms aren't drawn twice
+    const completedRooms = rooms.filter((room) => room.isCompleted);
+    WallGraph.build(completedRooms).forEach(({ wall, owners }) => {
+      const geometry = createWallGeometry(
+        wall.start,
+        wall.end,
+        wall.height,
+        wall.thickness,
+      );
+      const mesh = new THREE.Mesh(geometry, wallMat);
+
+      // Position the wall
+      const midpoint = {
+        x: (wall.start.x + wall.end.x) / 2,
+        z: (wall.start.z + wall.end.z) / 2,
+      };
 
-      room.walls.forEach((wall) => {
-        const geometry = createWallGeometry(
-          wall.start,
-          wall.end,
-          wall.height,
-          wall.thickness,
-        );
-        const mesh = new THREE.Mesh(geometry, wallMat);
-
-        // Position the wall
-        const midpoint = {
-          x: (wall.start.x + wall.end.x) / 2,
-          z: (wall.start.z + wall.end.z) / 2,
-        };
-
-        mesh.position.set(midpoint.x, wall.height / 2, midpoint.z);
-
-        // Rotate the wall
-        const angle = Math.atan2(wall.end.z - wall.start.z, wall.end.x - wall.start.x);
-        mesh.rotation.y = angle;
-
-        mesh.castShadow = true;
-        mesh.receiveShadow = true;
-        mesh.userData = { roomId: room.id, wallId: wall.id };
-
-        wallGroupRef.current!.add(mesh);
-      });
+      mesh.position.set(midpoint.x, wall.height / 2, midpoint.z);
+
+      // Rotate the wall
+      const angle = Math.atan2(wall.end.z - wall.start.z, wall.end.x - wall.start.x);
+      mesh.rotation.y = angle;
+
+      mesh.castShadow = true;
+      mesh.receiveShadow = true;
+      mesh.userData = { roomIds: owners, wallId: wall.id };
+
+      wallGroupRef.current!.add(mesh);
     });
   }, [rooms, wallMaterial, createWallGeometry, createWallMaterial]);
 
@@ -254,7 +249,6 @@ export const EnhancedThreeCanvas: React.FC<EnhancedThreeCanvasProps> = ({
     const floorGeometry = EnhancedFloorRenderer.createMultiRoomFloorGeometry(
       completedRooms,
       {
-        useAdvancedTriangulation: true,
         handleHoles: true,
         generateUVs: true,
         optimizeGeometry: true,
@@ -273,129 +267,9 @@ export const EnhancedThreeCanvas: React.FC<EnhancedThreeCanvasProps> = ({
       floorMesh.userData = { type: 'floor' };
 
       floorGroupRef.current.add(floorMesh);
-    } else {
-      console.warn('Enhanced floor rendering produced no geometry, trying fallback');
-      updateFloorsWithFallback();
     }
   }, [rooms, floorType, createFloorMaterial]);
 
-  // Fallback floor rendering for complex shapes that fail advanced rendering
-  const updateFloorsWithFallback = useCallback(() => {
-    if (!floorGroupRef.current || !sceneRef.current) {
-      return;
-    }
-
-    // Clear existing floors
-    floorGroupRef.current.clear();
-
-    const completedRooms = rooms.filter((room) => room.isCompleted);
-
-    completedRooms.forEach((room) => {
-      try {
-        // Create simple floor geometry using basic triangulation
-        const floorGeometry = EnhancedFloorRenderer.createMultiRoomFloorGeometry(
-          [room], // Single room at a time
-          {
-            useAdvancedTriangulation: false, // Use simpler algorithm
-            handleHoles: false, // Don't handle holes in fallback
-            generateUVs: true,
-            optimizeGeometry: false,
-          },
-        );
-
-        if (
-          floorGeometry.attributes.position &&
-          floorGeometry.attributes.position.count > 0
-        ) {
-          const floorMaterial = createFloorMaterial(floorType);
-          const floorMesh = new THREE.Mesh(floorGeometry, floorMaterial);
-
-          floorMesh.rotation.x = 0;
-          floorMesh.receiveShadow = true;
-          floorMesh.userData = { type: 'floor', roomId: room.id };
-
-          floorGroupRef.current!.add(floorMesh);
-        } else {
-          console.warn(
-            `Failed to create floor for room ${room.id}, using manual geometry`,
-          );
-          // Last resort: create floor using manual triangulation
-          createManualFloorGeometry(room);
-        }
-      } catch (error) {
-        console.warn(`Fallback floor rendering failed for room ${room.id}:`, error);
-        createManualFloorGeometry(room);
-      }
-    });
-  }, [rooms, floorType, createFloorMaterial]);
-
-  // Manual floor geometry creation as last resort
-  const createManualFloorGeometry = useCallback(
-    (room: DrawingRoom) => {
-      if (!floorGroupRef.current) {
-        return;
-      }
-
-      try {
-        const vertices = AdvancedRoomDrawing.getRoomVertices(room);
-        if (vertices.length < 3) {
-          return;
-        }
-
-        // Create simple fan triangulation from first vertex
-        const geometry = new THREE.BufferGeometry();
-        const positions: number[] = [];
-        const indices: number[] = [];
-        const normals: number[] = [];
-        const uvs: number[] = [];
-
-        // Calculate bounds for UV mapping
-        let minX = Infinity,
-          maxX = -Infinity,
-          minZ = Infinity,
-          maxZ = -Infinity;
-        vertices.forEach((v) => {
-          minX = Math.min(minX, v.x);
-          maxX = Math.max(maxX, v.x);
-          minZ = Math.min(minZ, v.z);
-          maxZ = Math.max(maxZ, v.z);
-        });
-
-        const width = maxX - minX;
-        const height = maxZ - minZ;
-
-        // Add vertices
-        vertices.forEach((vertex) => {
-          positions.push(vertex.x, 0, vertex.z);
-          normals.push(0, 1, 0);
-          uvs.push((vertex.x - minX) / width, (vertex.z - minZ) / height);
-        });
-
-        // Create fan triangulation from first vertex
-        for (let i = 1; i < vertices.length - 1; i++) {
-          indices.push(0, i, i + 1);
-        }
-
-        geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
-        geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
-        geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
-        geometry.setIndex(indices);
-
-        const floorMaterial = createFloorMaterial(floorType);
-        const floorMesh = new THREE.Mesh(geometry, floorMaterial);
-
-        floorMesh.rotation.x = 0;
-        floorMesh.receiveShadow = true;
-        floorMesh.userData = { type: 'floor', roomId: room.id, method: 'manual' };
-
-        floorGroupRef.current.add(floorMesh);
-      } catch (error) {
-        console.error(`Manual floor creation failed for room ${room.id}:`, error);
-      }
-    },
-    [floorType, createFloorMaterial],
-  );
-
   // Render loop
   const animate = useCallback(() => {
     if (!rendererRef.current || !sceneRef.current || !cameraRef.current) {
@@ -457,13 +331,7 @@ export const EnhancedThreeCanvas: React.FC<EnhancedThreeCanvasProps> = ({
 
   // Update floors when rooms change
   useEffect(() => {
-    try {
-      updateFloors();
-    } catch (error) {
-      console.warn('Floor rendering failed, attempting fallback:', error);
-      // Attempt fallback floor rendering
-      updateFloorsWithFallback();
-    }
+    updateFloors();
   }, [updateFloors]);
 
   // Handle resize
@@ -7,9 +7,14 @@ import {
   Adaptive3DRenderer,
   AdaptiveRenderingOptions,
 } from '../lib/adaptive-3d-renderer';
+import { PolygonTriangulation } from '../lib/polygon-triangulation';
+import { WallArc } from '../lib/wall-arc';
 
 import { Wall } from './Floorplan2DCanvas';
 
+const isSamePoint = (a: { x: number; z: number }, b: { x: number; z: number }) =>
+  Math.abs(a.x - b.x) < 1e-3 && Math.abs(a.z - b.z) < 1e-3;
+
 interface FlexibleThreeCanvasProps {
   walls: Wall[];
   floorType: 'wood' | 'tile' | 'concrete' | 'marble' | 'carpet';
@@ -124,50 +129,31 @@ export const FlexibleThreeCanvas: React.FC<FlexibleThreeCanvasProps> = ({
         return null;
       }
 
-      // Extract vertices from walls
-      const vertexMap = new Map<string, { x: number; z: number }>();
-
-      walls.forEach((wall) => {
-        const startKey = `${wall.start.x.toFixed(3)},${wall.start.z.toFixed(3)}`;
-        const endKey = `${wall.end.x.toFixed(3)},${wall.end.z.toFixed(3)}`;
-
-        if (!vertexMap.has(startKey)) {
-          vertexMap.set(startKey, wall.start);
-        }
-        if (!vertexMap.has(endKey)) {
-          vertexMap.set(endKey, wall.end);
+      // Walk the outline from wall to wall, whichever way each one was drawn
+      const remaining = [...walls];
+      const outline: { x: number; z: number }[] = [];
+      let current = remaining[0].start;
+      while (remaining.length > 0) {
+        const index = remaining.findIndex(
+          (wall) => isSamePoint(wall.start, current) || isSamePoint(wall.end, current),
+        );
+        if (index === -1) {
+          break;
         }
-      });
-
-      // Order vertices to form a polygon (simplified approach)
-      const orderedVertices = Array.from(vertexMap.values());
-
-      if (orderedVertices.length < 3) {
-        return null;
+        const [wall] = remaining.splice(index, 1);
+        outline.push(current);
+        current = isSamePoint(wall.start, current) ? wall.end : wall.start;
       }
 
-      // Create geometry using triangulation
-      const geometry = new THREE.BufferGeometry();
-      const positions: number[] = [];
-      const indices: number[] = [];
-      const uvs: number[] = [];
-
-      // Simple fan triangulation from first vertex
-      orderedVertices.forEach((vertex, _index) => {
-        positions.push(vertex.x, 0, vertex.z);
-        uvs.push(vertex.x / 10, vertex.z / 10); // Simple UV mapping
-      });
-
-      // Create triangles
-      for (let i = 1; i < orderedVertices.length - 1; i++) {
-        indices.push(0, i, i + 1);
+      const geometry = PolygonTriangulation.floorGeometry(
+        WallArc.expandOutline(outline, walls),
+        [],
+        { uvSize: 10 },
+      );
+      if (!geometry.index || geometry.index.count === 0) {
+        return null;
       }
 
-      geometry.setIndex(indices);
-      geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
-      geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
-      geometry.computeVertexNormals();
-
       return geometry;
     },
     [],
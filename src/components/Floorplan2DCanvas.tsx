@@ -1,4 +1,24 @@
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import DimensionLayer from '@/components/DimensionLayer';
+import SelectionTransformPanel from '@/components/SelectionTransformPanel';
+import { SnapGuideLines, SnapLegend } from '@/components/SnapGuides';
+import WallMeasurementInput from '@/components/WallMeasurementInput';
+import type { CollaboratorPresence } from '@/lib/designService';
+import type { DiagnosticFocus } from '@/lib/diagnostics';
+import { DimensionSettings, Dimensions } from '@/lib/dimensions';
+import { PlanClipboard, PlanEdit, PlanSelection, Selection } from '@/lib/plan-selection';
+import { PlanUnderlays } from '@/lib/plan-underlays';
+import { SnapResult, SnapSettings, Snapping } from '@/lib/snapping';
+import { WallArc } from '@/lib/wall-arc';
+import { WallInput } from '@/lib/wall-input';
+import { WallOpenings } from '@/lib/wall-openings';
+import {
+  DimensionLine,
+  DoorPlacement,
+  PlanUnderlay,
+  WindowPlacement,
+} from '@/types/room';
 
 // --- Types ---
 interface Point {
@@ -12,23 +32,69 @@ export interface Wall {
   end: Point;
   height: number;
   thickness: number;
+  color?: string; // Interior paint color
+  bulge?: number; // Arc walls only; see WallArc
+  levelId?: string; // Ground level when absent; see BuildingLevels
 }
 interface Floorplan2DCanvasProps {
   walls: Wall[];
   setWalls: React.Dispatch<React.SetStateAction<Wall[]>>;
-  mode: 'draw' | 'move' | 'delete' | 'idle';
-  setMode: React.Dispatch<React.SetStateAction<'draw' | 'move' | 'delete' | 'idle'>>;
+  mode:
+    | 'draw'
+    | 'move'
+    | 'delete'
+    | 'idle'
+    | 'door'
+    | 'window'
+    | 'dimension'
+    | 'select'
+    | 'underlay';
+  setMode: React.Dispatch<
+    React.SetStateAction<
+      | 'draw'
+      | 'move'
+      | 'delete'
+      | 'idle'
+      | 'door'
+      | 'window'
+      | 'dimension'
+      | 'select'
+      | 'underlay'
+    >
+  >;
   wallHeight?: number;
   wallThickness?: number;
   onWallsChange?: () => void;
-  gridSnapping?: boolean;
+  snapSettings?: SnapSettings;
+  doors?: DoorPlacement[];
+  setDoors?: React.Dispatch<React.SetStateAction<DoorPlacement[]>>;
+  windows?: WindowPlacement[];
+  setWindows?: React.Dispatch<React.SetStateAction<WindowPlacement[]>>;
+  dimensions?: DimensionLine[];
+  setDimensions?: React.Dispatch<React.SetStateAction<DimensionLine[]>>;
+  dimensionSettings?: DimensionSettings;
+  underlay?: PlanUnderlay | null; // Existing plan drawn under the walls, for tracing
+  onUnderlayChange?: (updates: Partial<Omit<PlanUnderlay, 'src' | 'levelId'>>) => void;
+  onEditStart?: () => void; // A drag began; the edits until onEditEnd form one undo step
+  onEditEnd?: () => void;
+  collaborators?: CollaboratorPresence[]; // Other people editing this design live
+  onPresenceChange?: (
+    update: Partial<Pick<CollaboratorPresence, 'cursor' | 'selectedWallId'>>,
+  ) => void;
+  focus?: DiagnosticFocus | null; // Validation issue to highlight and zoom to
 }
 
 // --- Constants ---
 const GRID_STEP = 1; // 1 meter
 const SCALE = 25; // pixels per meter
-const SNAP_THRESHOLD = 0.5; // meters
-const SNAP_RADIUS = 10; // pixels
+const SNAP_THRESHOLD = 0.5; // meters; clicking this close to a drawn point closes the room
+const OPENING_PICK_THRESHOLD = 0.3; // meters
+const DIMENSION_PICK_THRESHOLD = 0.2; // meters
+const SELECTION_PICK_THRESHOLD = 0.3; // meters
+const CALIBRATION_MIN_LENGTH = 0.05; // meters between the two points on an underlay
+const MAX_BULGE = 1; // A half circle; deeper bends are never what people mean
+const FOCUS_PADDING = 1.5; // meters around a located issue
+const FOCUS_MIN_SIZE = 4; // meters, so a single vertex isn't zoomed to a speck
 
 // --- Helper Functions ---
 const toCanvas = (pt: Point): { x: number; y: number } => ({
@@ -58,38 +124,57 @@ const wallToPoints = (walls: Wall[]): Point[] => {
 };
 
 // --- Wall Sub-Component ---
-const WallComponent: React.FC<{ wall: Wall; isPreview?: boolean }> = ({
-  wall,
-  isPreview = false,
-}) => {
+const WallComponent: React.FC<{
+  wall: Wall;
+  isPreview?: boolean;
+  isSelected?: boolean;
+  dimensionSettings: DimensionSettings;
+}> = ({ wall, isPreview = false, isSelected = false, dimensionSettings }) => {
   const p1 = toCanvas(wall.start);
   const p2 = toCanvas(wall.end);
-  const angle = Math.atan2(p2.y - p1.y, p2.x - p1.x);
   const thickness = (wall.thickness * SCALE) / 2;
 
+  // Offset both sides of the centerline; an arc wall is a run of short steps
+  const centerline = WallArc.tessellate(wall).map(toCanvas);
+  const sides = centerline.map((p, i) => {
+    const from = centerline[Math.max(0, i - 1)];
+    const to = centerline[Math.min(centerline.length - 1, i + 1)];
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    return {
+      left: {
+        x: p.x - Math.sin(angle) * thickness,
+        y: p.y + Math.cos(angle) * thickness,
+      },
+      right: {
+        x: p.x + Math.sin(angle) * thickness,
+        y: p.y - Math.cos(angle) * thickness,
+      },
+    };
+  });
   const polygonPoints = [
-    { x: p1.x - Math.sin(angle) * thickness, y: p1.y + Math.cos(angle) * thickness },
-    { x: p2.x - Math.sin(angle) * thickness, y: p2.y + Math.cos(angle) * thickness },
-    { x: p2.x + Math.sin(angle) * thickness, y: p2.y - Math.cos(angle) * thickness },
-    { x: p1.x + Math.sin(angle) * thickness, y: p1.y - Math.cos(angle) * thickness },
+    ...sides.map((side) => side.left),
+    ...sides.map((side) => side.right).reverse(),
   ]
     .map((p) => `${p.x},${p.y}`)
     .join(' ');
 
-  const length = dist(wall.start, wall.end);
-  const midX = (p1.x + p2.x) / 2;
-  const midY = (p1.y + p2.y) / 2;
+  const length = WallArc.getLength(wall);
+  const { x: midX, y: midY } = toCanvas(WallArc.getMidpoint(wall));
 
   // Corner marker size
   const cornerSize = 3;
+  let stroke = isPreview ? '#94A3B8' : '#A0AEC0';
+  if (isSelected) {
+    stroke = '#2563EB';
+  }
 
   return (
     <g className={isPreview ? 'opacity-60' : ''}>
       <polygon
         points={polygonPoints}
         fill={isPreview ? '#CBD5E0' : '#E2E8F0'}
-        stroke={isPreview ? '#94A3B8' : '#A0AEC0'}
-        strokeWidth="1"
+        stroke={stroke}
+        strokeWidth={isSelected ? 3 : 1}
         strokeDasharray={isPreview ? '5,5' : 'none'}
       />
 
@@ -122,13 +207,235 @@ const WallComponent: React.FC<{ wall: Wall; isPreview?: boolean }> = ({
           textAnchor="middle"
           style={{ userSelect: 'none' }}
         >
-          {length < 1 ? `${Math.round(length * 100)} cm` : `${length.toFixed(2)} m`}
+          {Dimensions.formatLength(length, dimensionSettings)}
         </text>
       )}
     </g>
   );
 };
 
+// --- Door Sub-Component ---
+const DoorComponent: React.FC<{
+  door: DoorPlacement;
+  wall: Wall;
+  walls: Wall[];
+  isSelected?: boolean;
+  onMouseDown?: (e: React.MouseEvent) => void;
+}> = ({ door, wall, walls, isSelected = false, onMouseDown }) => {
+  const { hinge, closedEnd, openEnd } = WallOpenings.getDoorSwing(wall, door, walls);
+  const h = toCanvas(hinge);
+  const c = toCanvas(closedEnd);
+  const o = toCanvas(openEnd);
+
+  // Opening gap across the wall thickness
+  const dir = WallOpenings.getWallDirection(wall);
+  const half = wall.thickness / 2 + 0.01;
+  const n = { x: -dir.z * half, z: dir.x * half };
+  const gapPoints = [
+    { x: hinge.x + n.x, z: hinge.z + n.z },
+    { x: closedEnd.x + n.x, z: closedEnd.z + n.z },
+    { x: closedEnd.x - n.x, z: closedEnd.z - n.z },
+    { x: hinge.x - n.x, z: hinge.z - n.z },
+  ]
+    .map((p) => toCanvas(p))
+    .map((p) => `${p.x},${p.y}`)
+    .join(' ');
+
+  // Sweep from the open leaf back to the closed position (SVG y axis points down)
+  const cross = (o.x - h.x) * (c.y - h.y) - (o.y - h.y) * (c.x - h.x);
+  const radius = door.width * SCALE;
+  const color = isSelected ? '#EA580C' : '#1E40AF';
+
+  return (
+    <g onMouseDown={onMouseDown} style={{ cursor: onMouseDown ? 'move' : undefined }}>
+      <polygon points={gapPoints} fill="#F9FAFB" stroke="none" />
+      <line x1={h.x} y1={h.y} x2={o.x} y2={o.y} stroke={color} strokeWidth="2" />
+      <path
+        d={`M ${o.x} ${o.y} A ${radius} ${radius} 0 0 ${cross > 0 ? 1 : 0} ${c.x} ${c.y}`}
+        fill="none"
+        stroke={color}
+        strokeWidth="1"
+        strokeDasharray="4,3"
+      />
+      <circle cx={h.x} cy={h.y} r="2.5" fill={color} />
+    </g>
+  );
+};
+
+// --- Window Sub-Component ---
+const WindowComponent: React.FC<{
+  placement: WindowPlacement;
+  wall: Wall;
+  isSelected?: boolean;
+  onBodyMouseDown?: (e: React.MouseEvent) => void;
+  onHandleMouseDown?: (handle: 'start' | 'end', e: React.MouseEvent) => void;
+}> = ({ placement, wall, isSelected = false, onBodyMouseDown, onHandleMouseDown }) => {
+  const start = WallOpenings.getPointAt(wall, placement.offset - placement.width / 2);
+  const end = WallOpenings.getPointAt(wall, placement.offset + placement.width / 2);
+  const dir = WallOpenings.getWallDirection(wall);
+  const half = wall.thickness / 2;
+  const n = { x: -dir.z * half, z: dir.x * half };
+
+  const framePoints = [
+    { x: start.x + n.x, z: start.z + n.z },
+    { x: end.x + n.x, z: end.z + n.z },
+    { x: end.x - n.x, z: end.z - n.z },
+    { x: start.x - n.x, z: start.z - n.z },
+  ]
+    .map((p) => toCanvas(p))
+    .map((p) => `${p.x},${p.y}`)
+    .join(' ');
+  const s = toCanvas(start);
+  const e = toCanvas(end);
+  const color = isSelected ? '#EA580C' : '#0284C7';
+
+  return (
+    <g>
+      <polygon
+        points={framePoints}
+        fill="#E0F2FE"
+        stroke={color}
+        strokeWidth="1"
+        onMouseDown={onBodyMouseDown}
+        style={{ cursor: onBodyMouseDown ? 'move' : undefined }}
+      />
+      {/* Glass line */}
+      <line
+        x1={s.x}
+        y1={s.y}
+        x2={e.x}
+        y2={e.y}
+        stroke={color}
+        strokeWidth="1.5"
+        style={{ pointerEvents: 'none' }}
+      />
+      {isSelected &&
+        onHandleMouseDown &&
+        (['start', 'end'] as const).map((handle) => {
+          const p = handle === 'start' ? s : e;
+          return (
+            <circle
+              key={handle}
+              cx={p.x}
+              cy={p.y}
+              r="4"
+              fill="#FFFFFF"
+              stroke={color}
+              strokeWidth="1.5"
+              style={{ cursor: 'ew-resize' }}
+              onMouseDown={(ev) => onHandleMouseDown(handle, ev)}
+            />
+          );
+        })}
+    </g>
+  );
+};
+
+// --- Collaborator Sub-Component ---
+const CollaboratorOverlay: React.FC<{
+  collaborator: CollaboratorPresence;
+  walls: Wall[];
+}> = ({ collaborator, walls }) => {
+  const wall = walls.find((w) => w.id === collaborator.selectedWallId);
+  const cursor = collaborator.cursor && toCanvas(collaborator.cursor);
+
+  return (
+    <g style={{ pointerEvents: 'none' }}>
+      {wall && (
+        <line
+          x1={toCanvas(wall.start).x}
+          y1={toCanvas(wall.start).y}
+          x2={toCanvas(wall.end).x}
+          y2={toCanvas(wall.end).y}
+          stroke={collaborator.color}
+          strokeWidth={wall.thickness * SCALE + 4}
+          strokeOpacity="0.35"
+          strokeLinecap="round"
+        />
+      )}
+      {cursor && (
+        <g transform={`translate(${cursor.x}, ${cursor.y})`}>
+          <path
+            d="M 0 0 L 0 14 L 4 10 L 7 16 L 9 15 L 6 9 L 11 9 Z"
+            fill={collaborator.color}
+            stroke="#FFFFFF"
+            strokeWidth="1"
+          />
+          <text
+            x="12"
+            y="22"
+            fontSize="11"
+            fill={collaborator.color}
+            style={{ userSelect: 'none' }}
+          >
+            {collaborator.name}
+          </text>
+        </g>
+      )}
+    </g>
+  );
+};
+
+// --- Diagnostic Focus Sub-Component ---
+const FocusOverlay: React.FC<{ focus: DiagnosticFocus }> = ({ focus }) => {
+  const color = focus.issue.severity === 'error' ? '#DC2626' : '#D97706';
+
+  return (
+    <g style={{ pointerEvents: 'none' }}>
+      {focus.segments.map((segment, i) => (
+        <line
+          key={i}
+          x1={toCanvas(segment.start).x}
+          y1={toCanvas(segment.start).y}
+          x2={toCanvas(segment.end).x}
+          y2={toCanvas(segment.end).y}
+          stroke={color}
+          strokeWidth="10"
+          strokeOpacity="0.45"
+          strokeLinecap="round"
+        />
+      ))}
+      {focus.point && (
+        <circle
+          cx={toCanvas(focus.point).x}
+          cy={toCanvas(focus.point).y}
+          r="14"
+          fill="none"
+          stroke={color}
+          strokeWidth="3"
+        >
+          <animate
+            attributeName="r"
+            values="10;18;10"
+            dur="1.2s"
+            repeatCount="indefinite"
+          />
+        </circle>
+      )}
+    </g>
+  );
+};
+
+// --- Underlay Sub-Component ---
+const UnderlayImage: React.FC<{ underlay: PlanUnderlay }> = ({ underlay }) => {
+  const center = toCanvas(underlay.center);
+  const width = underlay.width * underlay.metersPerPixel * SCALE;
+  const height = underlay.height * underlay.metersPerPixel * SCALE;
+  return (
+    <image
+      href={underlay.src}
+      x={center.x - width / 2}
+      y={center.y - height / 2}
+      width={width}
+      height={height}
+      opacity={underlay.opacity}
+      preserveAspectRatio="none"
+      transform={`rotate(${-underlay.rotation} ${center.x} ${center.y})`}
+      style={{ pointerEvents: 'none' }}
+    />
+  );
+};
+
 // --- Main Canvas Component ---
 const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
   walls,
@@ -138,11 +445,25 @@ const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
   wallHeight = 2.8,
   wallThickness = 0.25,
   onWallsChange,
-  gridSnapping = true,
+  snapSettings = Snapping.DEFAULT,
+  doors = [],
+  setDoors,
+  windows = [],
+  setWindows,
+  dimensions = [],
+  setDimensions,
+  dimensionSettings = Dimensions.DEFAULT_SETTINGS,
+  underlay = null,
+  onUnderlayChange,
+  onEditStart,
+  onEditEnd,
+  collaborators = [],
+  onPresenceChange,
+  focus = null,
 }) => {
   const [drawingPoints, setDrawingPoints] = useState<Point[]>([]);
   const [previewPoint, setPreviewPoint] = useState<Point | null>(null);
-  const [snapPoint, setSnapPoint] = useState<Point | null>(null);
+  const [snapResult, setSnapResult] = useState<SnapResult | null>(null);
 
   const [viewBox, setViewBox] = useState({ x: -400, y: -300, width: 800, height: 600 });
   const [isPanning, setIsPanning] = useState(false);
@@ -150,10 +471,35 @@ const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
 
   const [selectedPoint, setSelectedPoint] = useState<Point | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [bendingWallId, setBendingWallId] = useState<string | null>(null);
   const [gridEnabled, setGridEnabled] = useState(true);
+  const [selectedDoorId, setSelectedDoorId] = useState<string | null>(null);
+  const [draggingDoorId, setDraggingDoorId] = useState<string | null>(null);
+  const [selectedWindowId, setSelectedWindowId] = useState<string | null>(null);
+  const [windowDrag, setWindowDrag] = useState<{
+    id: string;
+    handle: 'body' | 'start' | 'end';
+  } | null>(null);
+  const [selectedWallId, setSelectedWallId] = useState<string | null>(null); // Its length can be typed in
+  const [dimensionStart, setDimensionStart] = useState<Point | null>(null);
+  const [selectedDimensionId, setSelectedDimensionId] = useState<string | null>(null);
+  const [selection, setSelection] = useState<Selection>(PlanSelection.EMPTY);
+  const [selectionBox, setSelectionBox] = useState<{ start: Point; end: Point } | null>(
+    null,
+  );
+  // Where the selection was last dragged to; moves are applied step by step from it
+  const [groupDrag, setGroupDrag] = useState<{ last: Point } | null>(null);
+  // Two points clicked on the underlay; once both are in, their real distance is typed
+  const [calibration, setCalibration] = useState<{
+    start: Point;
+    end: Point | null;
+  } | null>(null);
+  const [underlayDrag, setUnderlayDrag] = useState<{ last: Point } | null>(null);
 
   const svgRef = useRef<SVGSVGElement>(null);
   const lastMousePosRef = useRef<Point>({ x: 0, z: 0 });
+  const clipboardRef = useRef<PlanClipboard | null>(null);
+  const underlayMovedRef = useRef(false); // The click ending a drag places no point
 
   // --- Coordinate & Snapping Logic ---
   const getMousePos = (e: React.MouseEvent): Point => {
@@ -169,72 +515,36 @@ const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
     return toWorld(transformedPoint);
   };
 
-  const getSnappedMousePos = (e: React.MouseEvent): Point => {
+  // Snap the pointer, showing why it landed where it did; `ignore` is a corner being
+  // dragged, which shouldn't attract itself
+  const getSnappedMousePos = (
+    e: React.MouseEvent,
+    ignore: Point | null = null,
+  ): Point => {
     const worldPos = getMousePos(e);
     lastMousePosRef.current = worldPos;
 
-    // Try to snap to existing points first
-    const allPoints = wallToPoints(walls);
-    for (const point of allPoints) {
-      if (dist(worldPos, point) < SNAP_THRESHOLD) {
-        setSnapPoint(point);
-        return point;
-      }
-    }
-
-    // Try to snap to existing wall lines
-    for (const wall of walls) {
-      const wallVector = {
-        x: wall.end.x - wall.start.x,
-        z: wall.end.z - wall.start.z,
-      };
-      const wallLength = Math.sqrt(wallVector.x ** 2 + wallVector.z ** 2);
-
-      if (wallLength < 0.1) {
-        continue;
-      }
-
-      // Normalize wall vector
-      const wallDir = {
-        x: wallVector.x / wallLength,
-        z: wallVector.z / wallLength,
-      };
-
-      // Vector from wall start to mouse
-      const toMouse = {
-        x: worldPos.x - wall.start.x,
-        z: worldPos.z - wall.start.z,
-      };
-
-      // Project mouse position onto wall line
-      const projection = toMouse.x * wallDir.x + toMouse.z * wallDir.z;
-
-      // Check if projection is within wall segment
-      if (projection >= 0 && projection <= wallLength) {
-        // Calculate perpendicular distance to wall
-        const perpDist = Math.abs(toMouse.x * wallDir.z - toMouse.z * wallDir.x);
-
-        if (perpDist < SNAP_THRESHOLD) {
-          // Snap to wall line
-          const snapped = {
-            x: wall.start.x + wallDir.x * projection,
-            z: wall.start.z + wallDir.z * projection,
-          };
-          setSnapPoint(snapped);
-          return snapped;
-        }
-      }
-    }
-
-    // If no snap, use grid only if grid snapping is enabled
-    setSnapPoint(null);
-    if (gridSnapping) {
-      return {
-        x: Math.round(worldPos.x / GRID_STEP) * GRID_STEP,
-        z: Math.round(worldPos.z / GRID_STEP) * GRID_STEP,
-      };
-    }
-    return worldPos;
+    // The snap radius is set in screen pixels
+    const screenWidth = svgRef.current?.clientWidth || viewBox.width;
+    const measuring = mode === 'dimension';
+    const result = Snapping.snap(
+      worldPos,
+      {
+        // A dragged selection snaps to what stays put, not to itself
+        walls: groupDrag ? PlanSelection.stationary(walls, selection) : walls,
+        points: drawingPoints,
+        anchor: measuring
+          ? dimensionStart
+          : (drawingPoints[drawingPoints.length - 1] ?? null),
+        previous: measuring ? null : (drawingPoints[drawingPoints.length - 2] ?? null),
+        ignore,
+        radius: (snapSettings.radius * viewBox.width) / screenWidth / SCALE,
+        gridStep: GRID_STEP,
+      },
+      snapSettings,
+    );
+    setSnapResult(result);
+    return result.point;
   };
 
   // --- Wall Change Callback ---
@@ -244,6 +554,48 @@ const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
     }
   }, [walls, onWallsChange]);
 
+  // --- Drag Lifecycle (one undo step per drag) ---
+  const isEditing =
+    isDragging ||
+    bendingWallId !== null ||
+    draggingDoorId !== null ||
+    windowDrag !== null ||
+    groupDrag !== null;
+  useEffect(() => {
+    if (!isEditing) {
+      return;
+    }
+    onEditStart?.();
+    return () => onEditEnd?.();
+  }, [isEditing, onEditStart, onEditEnd]);
+
+  // --- Presence (wall this user is working on) ---
+  useEffect(() => {
+    if (!onPresenceChange) {
+      return;
+    }
+    const opening =
+      doors.find((d) => d.id === selectedDoorId) ??
+      windows.find((w) => w.id === selectedWindowId);
+    const movedWall =
+      selectedPoint &&
+      walls.find(
+        (w) => dist(w.start, selectedPoint) < 0.01 || dist(w.end, selectedPoint) < 0.01,
+      );
+    onPresenceChange({
+      selectedWallId: opening?.wallId ?? movedWall?.id ?? selection.wallIds[0] ?? null,
+    });
+  }, [
+    onPresenceChange,
+    doors,
+    windows,
+    walls,
+    selectedDoorId,
+    selectedWindowId,
+    selectedPoint,
+    selection,
+  ]);
+
   // --- State & Mode Management ---
   const finishCurrentMode = useCallback(() => {
     setMode('idle');
@@ -251,8 +603,89 @@ const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
     setPreviewPoint(null);
     setIsDragging(false);
     setSelectedPoint(null);
+    setSelectedDoorId(null);
+    setDraggingDoorId(null);
+    setSelectedWindowId(null);
+    setWindowDrag(null);
+    setSelectedWallId(null);
+    setDimensionStart(null);
+    setSelectedDimensionId(null);
+    setSelection(PlanSelection.EMPTY);
+    setSelectionBox(null);
+    setGroupDrag(null);
+    setCalibration(null);
+    setUnderlayDrag(null);
   }, [setMode]);
 
+  // The selection belongs to the select tool
+  useEffect(() => {
+    if (mode !== 'select') {
+      setSelection(PlanSelection.EMPTY);
+      setSelectionBox(null);
+    }
+  }, [mode]);
+
+  // As does a half-placed calibration line to the underlay tool
+  useEffect(() => {
+    if (mode !== 'underlay') {
+      setCalibration(null);
+    }
+  }, [mode]);
+
+  // A typed move, turn or flip of the selection, tidied up like a drag
+  const applySelectionEdit = (edit: PlanEdit) => {
+    onEditStart?.();
+    setWalls(edit.walls);
+    onEditEnd?.();
+    setSelection(edit.selection);
+  };
+
+  const handleSelectionMove = (text: string): boolean => {
+    const value = WallInput.parse(text);
+    if (!value) {
+      return false;
+    }
+    const step = WallInput.resolve({ x: 0, z: 0 }, value);
+    applySelectionEdit(PlanSelection.translate(walls, selection, step.x, step.z));
+    return true;
+  };
+
+  // Copies of the copied rooms, centered on the pointer
+  const pasteSelection = useCallback(() => {
+    if (!clipboardRef.current) {
+      return;
+    }
+    const pasted = PlanSelection.paste(clipboardRef.current, lastMousePosRef.current);
+    onEditStart?.();
+    setWalls((prev) => [...prev, ...pasted.walls]);
+    setDoors?.((prev) => [...prev, ...pasted.doors]);
+    setWindows?.((prev) => [...prev, ...pasted.windows]);
+    onEditEnd?.();
+    setSelection(pasted.selection);
+  }, [onEditStart, onEditEnd, setWalls, setDoors, setWindows]);
+
+  // --- Door & Window Helpers ---
+  const findOpeningAt = <T extends DoorPlacement | WindowPlacement>(
+    openings: T[],
+    pos: Point,
+  ): T | null => {
+    for (const opening of openings) {
+      const wall = walls.find((w) => w.id === opening.wallId);
+      if (!wall) {
+        continue;
+      }
+      const hit = WallOpenings.findNearestWall([wall], pos, OPENING_PICK_THRESHOLD);
+      if (hit && Math.abs(hit.offset - opening.offset) <= opening.width / 2) {
+        return opening;
+      }
+    }
+    return null;
+  };
+
+  const updateDoor = (doorId: string, updates: Partial<DoorPlacement>) => {
+    setDoors?.((prev) => prev.map((d) => (d.id === doorId ? { ...d, ...updates } : d)));
+  };
+
   const addWallSegment = useCallback(
     (start: Point, end: Point) => {
       // Don't add walls that are too short
@@ -279,10 +712,35 @@ const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
       setIsPanning(true);
       setPanStart({ x: e.clientX, y: e.clientY });
       e.preventDefault();
+      return;
+    }
+    if (mode === 'select' && e.button === 0) {
+      // Grab a corner or wall, or start a selection box on empty space
+      const pos = getMousePos(e);
+      const picked = PlanSelection.pick(walls, pos, SELECTION_PICK_THRESHOLD);
+      if (!picked) {
+        setSelectionBox({ start: pos, end: pos });
+        return;
+      }
+      if (e.shiftKey) {
+        setSelection((prev) => PlanSelection.toggle(prev, picked));
+        return;
+      }
+      if (!PlanSelection.contains(selection, picked)) {
+        setSelection(picked);
+      }
+      // A grabbed corner is what snaps; a wall is held where it was grabbed
+      setGroupDrag({ last: picked.vertices[0] ?? pos });
+    }
+    if (mode === 'underlay' && e.button === 0 && underlay && !underlay.locked) {
+      underlayMovedRef.current = false;
+      setUnderlayDrag({ last: getMousePos(e) });
     }
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
+    onPresenceChange?.({ cursor: getMousePos(e) });
+
     if (isPanning) {
       const dx = e.clientX - panStart.x;
       const dy = e.clientY - panStart.y;
@@ -291,8 +749,100 @@ const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
       return;
     }
 
+    if (draggingDoorId && mode === 'door') {
+      const door = doors.find((d) => d.id === draggingDoorId);
+      const wall = door && walls.find((w) => w.id === door.wallId);
+      if (door && wall) {
+        const hit = WallOpenings.findNearestWall([wall], getMousePos(e), Infinity);
+        if (hit) {
+          updateDoor(door.id, {
+            offset: WallOpenings.clampOffset(wall, hit.offset, door.width),
+          });
+        }
+      }
+      return;
+    }
+
+    if (windowDrag && mode === 'window' && setWindows) {
+      const placement = windows.find((w) => w.id === windowDrag.id);
+      const wall = placement && walls.find((w) => w.id === placement.wallId);
+      const hit = wall && WallOpenings.findNearestWall([wall], getMousePos(e), Infinity);
+      if (placement && hit) {
+        let updates: Partial<WindowPlacement> = { offset: hit.offset };
+        if (windowDrag.handle !== 'body') {
+          // Keep the opposite edge fixed while resizing
+          const fixedEdge =
+            windowDrag.handle === 'start'
+              ? placement.offset + placement.width / 2
+              : placement.offset - placement.width / 2;
+          updates = {
+            offset: (fixedEdge + hit.offset) / 2,
+            width: Math.abs(fixedEdge - hit.offset),
+          };
+        }
+        setWindows((prev) =>
+          WallOpenings.reconcileWindows(
+            prev.map((w) => (w.id === placement.id ? { ...w, ...updates } : w)),
+            walls,
+          ),
+        );
+      }
+      return;
+    }
+
+    if (bendingWallId && mode === 'move') {
+      // Bend the wall into the arc through the cursor; close to the chord it snaps straight
+      const pos = getMousePos(e);
+      setWalls((prev) =>
+        prev.map((wall) => {
+          if (wall.id !== bendingWallId) {
+            return wall;
+          }
+          const { bulge: _bulge, ...straight } = wall;
+          const bulge = WallArc.bulgeThrough(wall.start, wall.end, pos);
+          return Math.abs(bulge) < 0.05
+            ? straight
+            : { ...straight, bulge: Math.max(-MAX_BULGE, Math.min(MAX_BULGE, bulge)) };
+        }),
+      );
+      return;
+    }
+
+    if (selectionBox) {
+      const end = getMousePos(e);
+      setSelectionBox((prev) => prev && { ...prev, end });
+      return;
+    }
+
+    if (groupDrag && mode === 'select') {
+      const to = getSnappedMousePos(e);
+      const dx = to.x - groupDrag.last.x;
+      const dz = to.z - groupDrag.last.z;
+      if (dx !== 0 || dz !== 0) {
+        const edit = PlanSelection.translate(walls, selection, dx, dz);
+        setWalls(edit.walls);
+        setSelection(edit.selection);
+        setGroupDrag({ last: to });
+      }
+      return;
+    }
+
+    if (underlayDrag && underlay && onUnderlayChange) {
+      const to = getMousePos(e);
+      const dx = to.x - underlayDrag.last.x;
+      const dz = to.z - underlayDrag.last.z;
+      if (dx !== 0 || dz !== 0) {
+        onUnderlayChange({
+          center: { x: underlay.center.x + dx, z: underlay.center.z + dz },
+        });
+        underlayMovedRef.current = true;
+        setUnderlayDrag({ last: to });
+      }
+      return;
+    }
+
     if (isDragging && selectedPoint && mode === 'move') {
-      const newPos = getSnappedMousePos(e);
+      const newPos = getSnappedMousePos(e, selectedPoint);
       const updatedWalls = walls.map((wall) => {
         if (dist(wall.start, selectedPoint) < 0.01) {
           return { ...wall, start: newPos };
@@ -307,26 +857,160 @@ const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
       return;
     }
 
-    if (mode === 'draw') {
+    if (mode === 'draw' || mode === 'dimension') {
       const snappedPos = getSnappedMousePos(e);
       setPreviewPoint(snappedPos);
+    } else if (mode === 'underlay') {
+      // Points on the image aren't snapped: they're wherever the old plan put them
+      setPreviewPoint(getMousePos(e));
+      setSnapResult(null);
     } else {
       setPreviewPoint(null);
-      setSnapPoint(null);
+      setSnapResult(null);
     }
   };
 
-  const handleMouseUp = () => {
+  const handleMouseUp = (e: React.MouseEvent) => {
     setIsPanning(false);
+    setDraggingDoorId(null);
+    setWindowDrag(null);
+    setBendingWallId(null);
+    setUnderlayDrag(null);
     if (isDragging) {
       setIsDragging(false);
       setSelectedPoint(null);
     }
+    if (selectionBox) {
+      // A click on empty space boxes nothing, clearing the selection unless Shift is held
+      const boxed = PlanSelection.inBox(walls, selectionBox.start, selectionBox.end);
+      setSelection((prev) => (e.shiftKey ? PlanSelection.add(prev, boxed) : boxed));
+      setSelectionBox(null);
+    }
+    if (groupDrag) {
+      setGroupDrag(null);
+      setSnapResult(null);
+    }
   };
 
   const handleClick = (e: React.MouseEvent) => {
+    if (mode === 'underlay') {
+      // Two points a known distance apart on the image; the distance is typed next
+      if (underlayMovedRef.current) {
+        underlayMovedRef.current = false;
+        return;
+      }
+      if (!underlay || underlay.locked) {
+        return;
+      }
+      const point = getMousePos(e);
+      if (!calibration || calibration.end) {
+        setCalibration({ start: point, end: null });
+      } else if (dist(calibration.start, point) >= CALIBRATION_MIN_LENGTH) {
+        setCalibration({ start: calibration.start, end: point });
+      }
+      return;
+    }
+    if (mode === 'door') {
+      const clickPos = getMousePos(e);
+      const existing = findOpeningAt(doors, clickPos);
+      if (existing) {
+        setSelectedDoorId(existing.id);
+        return;
+      }
+      const hit = WallOpenings.findNearestWall(walls, clickPos, OPENING_PICK_THRESHOLD);
+      if (
+        hit &&
+        setDoors &&
+        WallOpenings.fitsInWall(hit.wall, WallOpenings.MIN_DOOR_WIDTH)
+      ) {
+        const door = WallOpenings.createDoor(hit.wall, hit.offset);
+        setDoors((prev) => [...prev, door]);
+        setSelectedDoorId(door.id);
+      } else {
+        setSelectedDoorId(null);
+      }
+      return;
+    }
+    if (mode === 'window') {
+      const clickPos = getMousePos(e);
+      const existing = findOpeningAt(windows, clickPos);
+      if (existing) {
+        setSelectedWindowId(existing.id);
+        return;
+      }
+      const hit = WallOpenings.findNearestWall(walls, clickPos, OPENING_PICK_THRESHOLD);
+      if (
+        hit &&
+        setWindows &&
+        WallOpenings.fitsInWall(hit.wall, WallOpenings.MIN_WINDOW_SIZE)
+      ) {
+        const placement = WallOpenings.createWindow(hit.wall, hit.offset);
+        // Don't stack a new window on top of an existing door or window
+        const blocked = [...doors, ...windows].some(
+          (o) => o.wallId === hit.wall.id && WallOpenings.overlapsAlongWall(o, placement),
+        );
+        if (!blocked) {
+          setWindows((prev) => [...prev, placement]);
+          setSelectedWindowId(placement.id);
+          return;
+        }
+      }
+      setSelectedWindowId(null);
+      return;
+    }
+    if (mode === 'dimension') {
+      // Pick a dimension line, or place one point by point
+      if (!dimensionStart) {
+        const existing = Dimensions.lineNear(
+          dimensions,
+          getMousePos(e),
+          DIMENSION_PICK_THRESHOLD,
+        );
+        if (existing) {
+          setSelectedDimensionId(existing.id);
+          return;
+        }
+      }
+      const point = getSnappedMousePos(e);
+      if (!dimensionStart) {
+        setDimensionStart(point);
+        setSelectedDimensionId(null);
+        return;
+      }
+      if (dist(dimensionStart, point) >= Dimensions.MIN_LENGTH && setDimensions) {
+        const line: DimensionLine = {
+          id: `dimension-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+          start: dimensionStart,
+          end: point,
+        };
+        setDimensions((prev) => [...prev, line]);
+        setSelectedDimensionId(line.id);
+      }
+      setDimensionStart(null);
+      return;
+    }
     if (mode === 'delete') {
       const clickPos = getMousePos(e);
+      const dimensionToDelete = Dimensions.lineNear(
+        dimensions,
+        clickPos,
+        DIMENSION_PICK_THRESHOLD,
+      );
+      if (dimensionToDelete && setDimensions) {
+        setDimensions((prev) => prev.filter((d) => d.id !== dimensionToDelete.id));
+        return;
+      }
+      // Remove a door or window before falling back to the wall under it
+      const doorToDelete = findOpeningAt(doors, clickPos);
+      if (doorToDelete && setDoors) {
+        setDoors((prev) => prev.filter((d) => d.id !== doorToDelete.id));
+        return;
+      }
+      const windowToDelete = findOpeningAt(windows, clickPos);
+      if (windowToDelete && setWindows) {
+        setWindows((prev) => prev.filter((w) => w.id !== windowToDelete.id));
+        return;
+      }
       // Find wall near click
       let wallToDelete: Wall | null = null;
       const threshold = 0.25; // meters
@@ -357,11 +1041,24 @@ const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
       }
       return;
     }
+    if (mode === 'move') {
+      // Pick a wall to type its length
+      const hit = WallOpenings.findNearestWall(
+        walls,
+        getMousePos(e),
+        OPENING_PICK_THRESHOLD,
+      );
+      setSelectedWallId(hit?.wall.id ?? null);
+      return;
+    }
     if (mode !== 'draw') {
       return;
     }
-    const pt = getSnappedMousePos(e);
+    placePoint(getSnappedMousePos(e));
+  };
 
+  // Add a clicked or typed point to the walls being drawn
+  const placePoint = (pt: Point) => {
     if (drawingPoints.length > 0) {
       const last = drawingPoints[drawingPoints.length - 1];
       if (dist(pt, last) < 0.1) {
@@ -382,6 +1079,62 @@ const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
     setDrawingPoints((prev) => [...prev, pt]);
   };
 
+  // The next wall, typed as a length and angle or a step from the last point
+  const handleSegmentInput = (text: string): boolean => {
+    const value = WallInput.parse(text);
+    if (!value || drawingPoints.length === 0) {
+      return false;
+    }
+    const last = drawingPoints[drawingPoints.length - 1];
+    placePoint(WallInput.resolve(last, value, previewPoint));
+    return true;
+  };
+
+  // The real distance between the two calibration points, with an optional heading to
+  // turn the image so the line runs that way
+  const handleCalibrationInput = (text: string): boolean => {
+    const value = WallInput.parse(text);
+    if (!value || !calibration?.end || !underlay || !onUnderlayChange) {
+      return false;
+    }
+    const { length, angle } =
+      value.type === 'polar'
+        ? value
+        : {
+            length: Math.hypot(value.dx, value.dz),
+            angle: (Math.atan2(value.dz, value.dx) * 180) / Math.PI,
+          };
+    const calibrated = PlanUnderlays.calibrate(
+      underlay,
+      calibration.start,
+      calibration.end,
+      length,
+      angle,
+    );
+    if (!calibrated) {
+      return false;
+    }
+    onUnderlayChange({
+      center: calibrated.center,
+      metersPerPixel: calibrated.metersPerPixel,
+      rotation: calibrated.rotation,
+    });
+    setCalibration(null);
+    return true;
+  };
+
+  // A new length for the selected wall; the walls joined at its end follow
+  const handleLengthInput = (text: string): boolean => {
+    const length = parseFloat(text);
+    const resized =
+      selectedWallId && !isNaN(length) && WallInput.resize(walls, selectedWallId, length);
+    if (!resized) {
+      return false;
+    }
+    setWalls(resized);
+    return true;
+  };
+
   const handleWheel = (e: React.WheelEvent) => {
     e.preventDefault();
     const zoomFactor = 1.1;
@@ -406,8 +1159,22 @@ const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
     });
   };
 
-  // --- Double Click to End Drawing ---
-  const handleDoubleClick = (_e: React.MouseEvent) => {
+  // --- Double Click to End Drawing, or to Select a Whole Room ---
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (mode === 'select') {
+      const picked = PlanSelection.pick(walls, getMousePos(e), SELECTION_PICK_THRESHOLD);
+      const corner = picked?.vertices[0];
+      const wallId =
+        picked?.wallIds[0] ??
+        (corner &&
+          walls.find((w) => dist(w.start, corner) < 0.01 || dist(w.end, corner) < 0.01)
+            ?.id);
+      if (wallId) {
+        const room = PlanSelection.room(walls, wallId);
+        setSelection((prev) => (e.shiftKey ? PlanSelection.add(prev, room) : room));
+      }
+      return;
+    }
     if (mode === 'draw' && drawingPoints.length >= 3) {
       // Close the shape by connecting to the first point
       const first = drawingPoints[0];
@@ -430,7 +1197,13 @@ const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
   // --- Keyboard Shortcuts ---
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') {
+      if (e.key === 'Escape' && dimensionStart) {
+        setDimensionStart(null);
+      } else if (e.key === 'Escape' && calibration) {
+        setCalibration(null);
+      } else if (e.key === 'Escape' && !PlanSelection.isEmpty(selection)) {
+        setSelection(PlanSelection.EMPTY);
+      } else if (e.key === 'Escape') {
         finishCurrentMode();
       }
 
@@ -450,10 +1223,98 @@ const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
       if (e.key === 'g' || e.key === 'G') {
         setGridEnabled((prev) => !prev);
       }
+
+      // Selected window: Delete removes
+      const target = e.target as HTMLElement | null;
+      if (
+        selectedWindowId &&
+        setWindows &&
+        !target?.closest('input, textarea') &&
+        (e.key === 'Delete' || e.key === 'Backspace')
+      ) {
+        setWindows((prev) => prev.filter((w) => w.id !== selectedWindowId));
+        setSelectedWindowId(null);
+      }
+
+      // Selection: Delete removes, Ctrl+C copies its walls, Ctrl+V pastes them at the
+      // pointer, Ctrl+A selects every wall
+      if (mode === 'select' && !target?.closest('input, textarea')) {
+        const command = e.ctrlKey || e.metaKey;
+        const key = e.key.toLowerCase();
+        if (
+          (e.key === 'Delete' || e.key === 'Backspace') &&
+          !PlanSelection.isEmpty(selection)
+        ) {
+          setWalls((prev) => PlanSelection.remove(prev, selection));
+          setSelection(PlanSelection.EMPTY);
+        } else if (command && key === 'c') {
+          clipboardRef.current =
+            PlanSelection.copy(walls, doors, windows, selection) ?? clipboardRef.current;
+        } else if (command && key === 'v') {
+          e.preventDefault();
+          pasteSelection();
+        } else if (command && key === 'a') {
+          e.preventDefault();
+          setSelection({ wallIds: walls.map((w) => w.id), vertices: [] });
+        }
+      }
+
+      // Selected dimension line: Delete removes
+      if (
+        selectedDimensionId &&
+        setDimensions &&
+        !target?.closest('input, textarea') &&
+        (e.key === 'Delete' || e.key === 'Backspace')
+      ) {
+        setDimensions((prev) => prev.filter((d) => d.id !== selectedDimensionId));
+        setSelectedDimensionId(null);
+      }
+
+      // Selected door: Delete removes, H flips the hinge, S flips the swing
+      if (selectedDoorId && setDoors && !target?.closest('input, textarea')) {
+        if (e.key === 'Delete' || e.key === 'Backspace') {
+          setDoors((prev) => prev.filter((d) => d.id !== selectedDoorId));
+          setSelectedDoorId(null);
+        } else if (e.key === 'h' || e.key === 'H') {
+          setDoors((prev) =>
+            prev.map((d) =>
+              d.id === selectedDoorId
+                ? { ...d, hingeSide: d.hingeSide === 'left' ? 'right' : 'left' }
+                : d,
+            ),
+          );
+        } else if (e.key === 's' || e.key === 'S') {
+          setDoors((prev) =>
+            prev.map((d) =>
+              d.id === selectedDoorId
+                ? { ...d, swing: d.swing === 'in' ? 'out' : 'in' }
+                : d,
+            ),
+          );
+        }
+      }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [finishCurrentMode, selectedPoint, setWalls]);
+  }, [
+    finishCurrentMode,
+    dimensionStart,
+    calibration,
+    selectedPoint,
+    setWalls,
+    selectedDoorId,
+    setDoors,
+    selectedWindowId,
+    setWindows,
+    selectedDimensionId,
+    setDimensions,
+    mode,
+    selection,
+    walls,
+    doors,
+    windows,
+    pasteSelection,
+  ]);
 
   // --- Prevent page scrolling when zooming in 2D canvas ---
   useEffect(() => {
@@ -474,6 +1335,9 @@ const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
   }, []);
 
   const allDrawablePoints = wallToPoints(walls);
+  // The plan is measured as one room once its walls close
+  const dimensionRooms = useMemo(() => [walls], [walls]);
+  const selectedWall = walls.find((w) => w.id === selectedWallId);
   const wallsToRender = [...walls];
   if (mode === 'draw' && drawingPoints.length > 0 && previewPoint) {
     wallsToRender.push({
@@ -524,6 +1388,24 @@ const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
     }
   }, [walls]); // Run when walls change
 
+  // Zoom to the validation issue the user picked
+  useEffect(() => {
+    if (!focus) {
+      return;
+    }
+    const { minX, maxX, minZ, maxZ } = focus.bounds;
+    const width = Math.max(maxX - minX + FOCUS_PADDING * 2, FOCUS_MIN_SIZE) * SCALE;
+    const height = Math.max(maxZ - minZ + FOCUS_PADDING * 2, FOCUS_MIN_SIZE) * SCALE;
+    const center = toCanvas({ x: (minX + maxX) / 2, z: (minZ + maxZ) / 2 });
+
+    setViewBox({
+      x: center.x - width / 2,
+      y: center.y - height / 2,
+      width,
+      height,
+    });
+  }, [focus]);
+
   // Update walls when they change
   useEffect(() => {
     if (onWallsChange) {
@@ -542,18 +1424,27 @@ const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
         onMouseMove={handleMouseMove}
         onMouseDown={handleMouseDown}
         onMouseUp={handleMouseUp}
+        onMouseLeave={() => onPresenceChange?.({ cursor: null })}
         onClick={handleClick}
         onDoubleClick={handleDoubleClick}
         onContextMenu={handleContextMenu}
         onWheel={handleWheel}
         style={{
           cursor: (() => {
-            if (mode === 'draw') {
+            if (
+              mode === 'draw' ||
+              mode === 'door' ||
+              mode === 'window' ||
+              mode === 'dimension'
+            ) {
               return 'crosshair';
             }
-            if (isPanning) {
+            if (isPanning || underlayDrag) {
               return 'grabbing';
             }
+            if (mode === 'underlay' && underlay && !underlay.locked) {
+              return 'crosshair';
+            }
             return 'default';
           })(),
         }}
@@ -586,6 +1477,7 @@ const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
             />
           </pattern>
         </defs>
+        {underlay && <UnderlayImage underlay={underlay} />}
         {gridEnabled && mode !== 'idle' && (
           <>
             <rect
@@ -607,9 +1499,135 @@ const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
 
         {/* Render Walls */}
         {wallsToRender.map((wall) => (
-          <WallComponent key={wall.id} wall={wall} isPreview={wall.id === 'preview'} />
+          <WallComponent
+            key={wall.id}
+            wall={wall}
+            isPreview={wall.id === 'preview'}
+            isSelected={
+              (mode === 'move' && wall.id === selectedWallId) ||
+              (mode === 'select' && selection.wallIds.includes(wall.id))
+            }
+            dimensionSettings={dimensionSettings}
+          />
         ))}
 
+        {/* Dimensions */}
+        <DimensionLayer
+          rooms={dimensionRooms}
+          lines={dimensions}
+          settings={dimensionSettings}
+          scale={SCALE}
+          toCanvas={toCanvas}
+          selectedLineId={mode === 'dimension' ? selectedDimensionId : null}
+          preview={
+            mode === 'dimension' && dimensionStart && previewPoint
+              ? { start: dimensionStart, end: previewPoint }
+              : null
+          }
+        />
+
+        {/* Render Windows */}
+        {windows.map((placement) => {
+          const wall = walls.find((w) => w.id === placement.wallId);
+          if (!wall) {
+            return null;
+          }
+          const startDrag = (handle: 'body' | 'start' | 'end', e: React.MouseEvent) => {
+            if (e.button !== 0) {
+              return;
+            }
+            e.stopPropagation();
+            setSelectedWindowId(placement.id);
+            setWindowDrag({ id: placement.id, handle });
+          };
+          return (
+            <WindowComponent
+              key={placement.id}
+              placement={placement}
+              wall={wall}
+              isSelected={placement.id === selectedWindowId}
+              onBodyMouseDown={
+                mode === 'window' ? (e) => startDrag('body', e) : undefined
+              }
+              onHandleMouseDown={mode === 'window' ? startDrag : undefined}
+            />
+          );
+        })}
+
+        {/* Render Doors */}
+        {doors.map((door) => {
+          const wall = walls.find((w) => w.id === door.wallId);
+          if (!wall) {
+            return null;
+          }
+          return (
+            <DoorComponent
+              key={door.id}
+              door={door}
+              wall={wall}
+              walls={walls}
+              isSelected={door.id === selectedDoorId}
+              onMouseDown={
+                mode === 'door'
+                  ? (e) => {
+                      if (e.button !== 0) {
+                        return;
+                      }
+                      e.stopPropagation();
+                      setSelectedDoorId(door.id);
+                      setDraggingDoorId(door.id);
+                    }
+                  : undefined
+              }
+            />
+          );
+        })}
+
+        {/* Collaborators' selections and cursors */}
+        {collaborators.map((collaborator) => (
+          <CollaboratorOverlay
+            key={collaborator.uid}
+            collaborator={collaborator}
+            walls={walls}
+          />
+        ))}
+
+        {/* Located validation issue */}
+        {focus && <FocusOverlay focus={focus} />}
+
+        {/* Handles for bending walls into arcs. Openings are only cut into straight
+            walls, so a wall with doors or windows can't be bent */}
+        {mode === 'move' &&
+          walls.map((wall) => {
+            const mid = toCanvas(WallArc.getMidpoint(wall));
+            const hasOpenings = [...doors, ...windows].some((o) => o.wallId === wall.id);
+            return (
+              <rect
+                key={`bend-${wall.id}`}
+                x={mid.x - 5}
+                y={mid.y - 5}
+                width="10"
+                height="10"
+                transform={`rotate(45 ${mid.x} ${mid.y})`}
+                className={
+                  hasOpenings
+                    ? 'cursor-not-allowed fill-gray-400 opacity-40'
+                    : 'cursor-pointer fill-amber-500 hover:fill-amber-700 opacity-60 hover:opacity-100'
+                }
+                onMouseDown={(e) => {
+                  e.stopPropagation();
+                  if (!hasOpenings) {
+                    setBendingWallId(wall.id);
+                  }
+                }}
+              >
+                {hasOpenings && (
+                  <title>Remove this wall&apos;s doors and windows to bend it</title>
+                )}
+              </rect>
+            );
+          })}
+
         {/* Render Points for Moving */}
         {mode === 'move' &&
           allDrawablePoints.map((p, i) => (
@@ -627,17 +1645,66 @@ const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
             />
           ))}
 
-        {/* Snap Point Indicator */}
-        {snapPoint && mode === 'draw' && (
-          <circle
-            cx={toCanvas(snapPoint).x}
-            cy={toCanvas(snapPoint).y}
-            r={SNAP_RADIUS}
-            className="fill-green-500 opacity-50"
+        {/* Selected corners and the selection box */}
+        {mode === 'select' &&
+          selection.vertices.map((p, i) => (
+            <circle
+              key={`selected-${i}`}
+              cx={toCanvas(p).x}
+              cy={toCanvas(p).y}
+              r="6"
+              className="fill-blue-600 stroke-white stroke-2"
+              style={{ pointerEvents: 'none' }}
+            />
+          ))}
+        {selectionBox && (
+          <rect
+            x={Math.min(toCanvas(selectionBox.start).x, toCanvas(selectionBox.end).x)}
+            y={Math.min(toCanvas(selectionBox.start).y, toCanvas(selectionBox.end).y)}
+            width={Math.abs(
+              toCanvas(selectionBox.end).x - toCanvas(selectionBox.start).x,
+            )}
+            height={Math.abs(
+              toCanvas(selectionBox.end).y - toCanvas(selectionBox.start).y,
+            )}
+            fill="rgba(37, 99, 235, 0.08)"
+            stroke="#2563EB"
+            strokeWidth="1"
+            strokeDasharray="4,3"
             style={{ pointerEvents: 'none' }}
           />
         )}
 
+        {/* Calibration line on the underlay */}
+        {mode === 'underlay' &&
+          calibration &&
+          (() => {
+            const start = toCanvas(calibration.start);
+            const end = toCanvas(calibration.end ?? previewPoint ?? calibration.start);
+            return (
+              <g style={{ pointerEvents: 'none' }}>
+                <line
+                  x1={start.x}
+                  y1={start.y}
+                  x2={end.x}
+                  y2={end.y}
+                  stroke="#DB2777"
+                  strokeWidth="2"
+                  strokeDasharray={calibration.end ? undefined : '5,5'}
+                />
+                {[start, end].map((p, i) => (
+                  <circle key={i} cx={p.x} cy={p.y} r="4" fill="#DB2777" />
+                ))}
+              </g>
+            );
+          })()}
+
+        {/* Snap guides */}
+        {snapResult &&
+          (mode === 'draw' || mode === 'dimension' || isDragging || groupDrag) && (
+            <SnapGuideLines snap={snapResult} toCanvas={toCanvas} />
+          )}
+
         {/* Drawing Points */}
         {mode === 'draw' &&
           drawingPoints.map((p, i) => (
@@ -666,6 +1733,56 @@ const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
           ))}
       </svg>
 
+      {(mode === 'draw' || mode === 'dimension' || isDragging || groupDrag) && (
+        <SnapLegend snap={snapResult} />
+      )}
+
+      {/* Typed measurements */}
+      {mode === 'draw' && drawingPoints.length > 0 && (
+        <WallMeasurementInput
+          label="Next wall"
+          hint="Length @ angle (3.45 @ 90) or dx, dz (1.2, -0.5), then Enter"
+          placeholder={
+            previewPoint
+              ? WallInput.format(drawingPoints[drawingPoints.length - 1], previewPoint)
+              : '3.45 @ 90'
+          }
+          focusKey={drawingPoints.length}
+          onSubmit={handleSegmentInput}
+        />
+      )}
+      {mode === 'select' && !PlanSelection.isEmpty(selection) && (
+        <SelectionTransformPanel
+          walls={selection.wallIds.length}
+          corners={selection.vertices.length}
+          onMove={handleSelectionMove}
+          onRotate={(degrees) =>
+            applySelectionEdit(PlanSelection.rotate(walls, selection, degrees))
+          }
+          onMirror={(axis) =>
+            applySelectionEdit(PlanSelection.mirror(walls, selection, axis))
+          }
+        />
+      )}
+      {mode === 'underlay' && calibration?.end && (
+        <WallMeasurementInput
+          label="Real length (m)"
+          hint="Length (5.2), or length @ angle (5.2 @ 0) to also turn the plan, then Enter"
+          placeholder={WallInput.format(calibration.start, calibration.end)}
+          focusKey={`${calibration.end.x},${calibration.end.z}`}
+          onSubmit={handleCalibrationInput}
+        />
+      )}
+      {mode === 'move' && selectedWall && (
+        <WallMeasurementInput
+          label="Wall length (m)"
+          hint="Enter a new length; the wall's end corner moves"
+          initialValue={dist(selectedWall.start, selectedWall.end).toFixed(2)}
+          focusKey={selectedWall.id}
+          onSubmit={handleLengthInput}
+        />
+      )}
+
       {/* Instruction Overlay */}
       {mode === 'draw' && (
         <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-white bg-opacity-80 px-4 py-2 rounded-md shadow-lg text-sm">
@@ -674,12 +1791,65 @@ const Floorplan2DCanvas: React.FC<Floorplan2DCanvasProps> = ({
               return 'Click to start drawing walls';
             }
             if (drawingPoints.length < 3) {
-              return 'Continue clicking to add walls';
+              return 'Continue clicking to add walls, or type the next one';
             }
             return 'Click on any point or double-click to close the room';
           })()}
         </div>
       )}
+      {mode === 'move' && (
+        <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-white bg-opacity-80 px-4 py-2 rounded-md shadow-lg text-sm">
+          Drag a corner to move it · Drag a wall's middle handle to curve it · Click a
+          wall to type its length
+        </div>
+      )}
+      {mode === 'select' && (
+        <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-white bg-opacity-80 px-4 py-2 rounded-md shadow-lg text-sm">
+          {PlanSelection.isEmpty(selection)
+            ? 'Click a wall or corner, drag a box around them, or double-click a room · Shift adds'
+            : 'Drag to move the selection · Ctrl+C, Ctrl+V to copy · Delete removes · Esc clears'}
+        </div>
+      )}
+      {mode === 'underlay' && (
+        <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-white bg-opacity-80 px-4 py-2 rounded-md shadow-lg text-sm">
+          {(() => {
+            if (!underlay) {
+              return 'Add a plan image in the sidebar to trace over it';
+            }
+            if (underlay.locked) {
+              return 'The plan is locked · Unlock it in the sidebar to move or scale it';
+            }
+            if (calibration?.end) {
+              return 'Type the real distance between the two points · Esc to cancel';
+            }
+            if (calibration) {
+              return 'Click the second point · Esc to cancel';
+            }
+            return 'Drag to move the plan · Click two points a known distance apart to scale it';
+          })()}
+        </div>
+      )}
+      {mode === 'dimension' && (
+        <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-white bg-opacity-80 px-4 py-2 rounded-md shadow-lg text-sm">
+          {dimensionStart
+            ? 'Click the second point · Esc to cancel'
+            : 'Click two points to add a dimension · Click one to select it, Delete removes it'}
+        </div>
+      )}
+      {mode === 'door' && (
+        <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-white bg-opacity-80 px-4 py-2 rounded-md shadow-lg text-sm">
+          {selectedDoorId
+            ? 'Drag to slide the door · H: flip hinge · S: flip swing · Delete: remove'
+            : 'Click on a wall to add a door'}
+        </div>
+      )}
+      {mode === 'window' && (
+        <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-white bg-opacity-80 px-4 py-2 rounded-md shadow-lg text-sm">
+          {selectedWindowId
+            ? 'Drag to slide · Drag the end handles to resize · Delete: remove'
+            : 'Click on a wall to add a window'}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,177 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useTranslation } from 'react-i18next';
+
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DesignDocument, DesignSchema, DesignSchemaIssue } from '@/lib/design-schema';
+
+interface ImportDesignModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (design: DesignDocument, mode: 'merge' | 'replace') => void;
+  hasCurrentPlan: boolean;
+}
+
+export default function ImportDesignModal({
+  isOpen,
+  onClose,
+  onImport,
+  hasCurrentPlan,
+}: ImportDesignModalProps) {
+  const { t } = useTranslation();
+  const [fileName, setFileName] = useState('');
+  const [design, setDesign] = useState<DesignDocument | null>(null);
+  const [migratedFrom, setMigratedFrom] = useState<number | null>(null);
+  const [errors, setErrors] = useState<DesignSchemaIssue[]>([]);
+
+  const reset = () => {
+    setFileName('');
+    setDesign(null);
+    setMigratedFrom(null);
+    setErrors([]);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    reset();
+    if (!file) {
+      return;
+    }
+    setFileName(file.name);
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch (err) {
+      console.error('❌ Import: invalid JSON:', err);
+      setErrors([{ path: '', message: t('import.invalidJson') }]);
+      return;
+    }
+
+    const result = DesignSchema.parse(raw);
+    if (!result.success) {
+      setErrors(result.errors);
+      return;
+    }
+    const geometryErrors = DesignSchema.checkGeometry(result.document);
+    if (geometryErrors.length > 0) {
+      setErrors(geometryErrors);
+      return;
+    }
+    if (result.document.walls.length === 0 && result.document.rooms.length === 0) {
+      setErrors([{ path: 'walls', message: t('import.noWalls') }]);
+      return;
+    }
+
+    setDesign(result.document);
+    setMigratedFrom(result.migratedFrom);
+  };
+
+  const handleImport = (mode: 'merge' | 'replace') => {
+    if (!design) {
+      return;
+    }
+    onImport(design, mode);
+    handleClose();
+  };
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{t('import.title')}</CardTitle>
+          <CardDescription>{t('import.description')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">{t('import.file')}</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileChange}
+            />
+          </div>
+
+          {errors.length > 0 && (
+            <div className="text-sm text-red-500 bg-red-50 p-2 rounded space-y-1">
+              <div className="font-medium">
+                {t('import.errors', { file: fileName, count: errors.length })}
+              </div>
+              <ul className="max-h-40 overflow-y-auto list-disc pl-4">
+                {errors.map((issue, index) => (
+                  <li key={`${issue.path}-${index}`}>
+                    {issue.path && <code className="mr-1">{issue.path}:</code>}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {design && (
+            <div className="text-sm bg-muted p-2 rounded space-y-1">
+              <div className="font-medium">{design.name}</div>
+              <div className="text-muted-foreground">
+                {t('import.summary', {
+                  walls: design.walls.length,
+                  doors: design.doors.length,
+                  windows: design.windows.length,
+                  objects: design.objects.length,
+                })}
+              </div>
+              {migratedFrom !== null && migratedFrom < design.schemaVersion && (
+                <div className="text-muted-foreground">
+                  {t('import.migrated', { version: migratedFrom })}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              onClick={() => handleImport('replace')}
+              disabled={!design}
+              className="flex-1"
+            >
+              {t('import.replace')}
+            </Button>
+            {hasCurrentPlan && (
+              <Button
+                variant="outline"
+                onClick={() => handleImport('merge')}
+                disabled={!design}
+                className="flex-1"
+              >
+                {t('import.merge')}
+              </Button>
+            )}
+            <Button variant="outline" onClick={handleClose}>
+              {t('import.cancel')}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 
+import { useTranslation } from 'react-i18next';
 import { useDispatch, useSelector } from 'react-redux';
 
 import { addWall, removeWall, toggleAdvancedMetrics } from '../features/roomSlice';
@@ -14,6 +15,7 @@ import RoomQualityAnalyzer from './RoomQualityAnalyzer';
  * into an existing room builder component
  */
 export const IntegratedRoomBuilder: React.FC = () => {
+  const { t } = useTranslation();
   const dispatch = useDispatch();
   const { walls, metrics, showAdvancedMetrics } = useSelector(
     (state: RootState) => state.room,
@@ -257,11 +259,18 @@ export const IntegratedRoomBuilder: React.FC = () => {
       {/* Analysis Panels */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Quality Analysis */}
-        <RoomQualityAnalyzer metrics={metrics} />
+        <RoomQualityAnalyzer
+          metrics={metrics}
+          onSelectIssue={(issue) => setSelectedWallId(issue.wallId ?? null)}
+        />
 
         {/* Advanced Metrics */}
         {showAdvancedMetrics && (
-          <AdvancedRoomMetrics metrics={metrics} showAdvanced={true} />
+          <AdvancedRoomMetrics
+            metrics={metrics}
+            showAdvanced={true}
+            onSelectIssue={(issue) => setSelectedWallId(issue.wallId ?? null)}
+          />
         )}
       </div>
 
@@ -275,7 +284,7 @@ export const IntegratedRoomBuilder: React.FC = () => {
             {metrics.validationErrors.map((error, index) => (
               <li key={index} className="flex items-start gap-2 text-red-700">
                 <span className="text-red-500 mt-1">•</span>
-                <span>{error}</span>
+                <span>{t(error.messageKey, error.params)}</span>
               </li>
             ))}
           </ul>
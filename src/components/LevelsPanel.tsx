@@ -0,0 +1,179 @@
+'use client';
+
+import { Footprints, Layers, Plus, Trash2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { addLevel, deleteLevel, setActiveLevel, updateLevel } from '@/features/roomSlice';
+import { useAppDispatch, useAppSelector } from '@/hooks/redux';
+import { BuildingLevels } from '@/lib/building-levels';
+
+interface LevelsPanelProps {
+  cutawayLevelId?: string; // Highest level shown in 3D, where levels are stacked
+  onCutawayChange?: (levelId: string) => void;
+  onAddStairs?: () => void; // Omitted where stairs can't be placed
+  readOnly?: boolean;
+}
+
+const NUMERIC_FIELDS = ['elevation', 'height'] as const;
+
+/**
+ * Floors of the building: pick the one being edited, add, rename and stack them
+ */
+export default function LevelsPanel({
+  cutawayLevelId,
+  onCutawayChange,
+  onAddStairs,
+  readOnly = false,
+}: LevelsPanelProps) {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const levels = useAppSelector((state) => state.room.levels);
+  const activeLevelId = useAppSelector((state) => state.room.activeLevelId);
+  const activeLevel = BuildingLevels.find(levels, activeLevelId);
+  const hasLevelAbove = BuildingLevels.above(levels, activeLevelId) !== null;
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="pb-2 lg:pb-3">
+        <CardTitle className="text-base lg:text-lg flex items-center">
+          <Layers className="w-4 h-4 lg:w-5 lg:h-5 mr-2" />
+          {t('levels.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {/* Highest level first, like the building itself */}
+        <div className="space-y-1">
+          {[...levels].reverse().map((level) => (
+            <div key={level.id} className="flex items-center gap-1">
+              <Button
+                variant={level.id === activeLevelId ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => dispatch(setActiveLevel(level.id))}
+                className="flex-1 justify-between h-8 text-xs"
+              >
+                <span className="truncate">{level.name}</span>
+                <span className="opacity-70">
+                  {t('levels.elevationValue', { value: level.elevation.toFixed(2) })}
+                </span>
+              </Button>
+              {!readOnly && level.id !== BuildingLevels.GROUND_ID && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => dispatch(deleteLevel(level.id))}
+                  className="h-8 w-8 p-0"
+                  title={t('levels.delete')}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {!readOnly && (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                dispatch(addLevel(t('levels.defaultName', { number: levels.length })))
+              }
+              className="w-full h-8 text-xs"
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              {t('levels.add')}
+            </Button>
+
+            <div className="space-y-1">
+              <Label htmlFor="level-name" className="text-xs">
+                {t('levels.name')}
+              </Label>
+              <Input
+                id="level-name"
+                value={activeLevel.name}
+                onChange={(e) =>
+                  dispatch(
+                    updateLevel({
+                      id: activeLevel.id,
+                      updates: { name: e.target.value },
+                    }),
+                  )
+                }
+                className="h-8 text-xs"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              {NUMERIC_FIELDS.map((key) => (
+                <div key={key} className="space-y-1">
+                  <Label htmlFor={`level-${key}`} className="text-xs">
+                    {t(`levels.${key}`)}
+                  </Label>
+                  <Input
+                    id={`level-${key}`}
+                    type="number"
+                    min={key === 'height' ? 0.5 : undefined}
+                    step={0.05}
+                    value={activeLevel[key]}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (!isNaN(value) && (key === 'elevation' || value >= 0.5)) {
+                        dispatch(
+                          updateLevel({ id: activeLevel.id, updates: { [key]: value } }),
+                        );
+                      }
+                    }}
+                    className="h-8 text-xs"
+                  />
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {cutawayLevelId && onCutawayChange && (
+          <div className="space-y-1">
+            <Label htmlFor="level-cutaway" className="text-xs">
+              {t('levels.cutaway')}
+            </Label>
+            <select
+              id="level-cutaway"
+              value={cutawayLevelId}
+              onChange={(e) => onCutawayChange(e.target.value)}
+              className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground text-sm"
+            >
+              {levels.map((level) => (
+                <option key={level.id} value={level.id}>
+                  {level.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {!readOnly && onAddStairs && (
+          <div className="space-y-1">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onAddStairs}
+              disabled={!hasLevelAbove}
+              className="w-full h-8 text-xs"
+            >
+              <Footprints className="w-3 h-3 mr-1" />
+              {t('levels.addStairs')}
+            </Button>
+            {!hasLevelAbove && (
+              <p className="text-xs text-muted-foreground">{t('levels.stairsHint')}</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,224 @@
+'use client';
+
+import { useState } from 'react';
+
+import { FileImage, Lock, Ruler, Trash2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { selectLevelUnderlay, setUnderlay, updateUnderlay } from '@/features/roomSlice';
+import { useAppDispatch, useAppSelector } from '@/hooks/redux';
+import { PlanUnderlays } from '@/lib/plan-underlays';
+
+interface PlanUnderlayPanelProps {
+  onCalibrate: () => void; // Switch the canvas to placing the two calibration points
+  disabled?: boolean;
+}
+
+/**
+ * An existing floor plan under the active level: upload, which page of a PDF, how
+ * faint it is, its rotation, and the lock that keeps it in place while tracing
+ */
+export default function PlanUnderlayPanel({
+  onCalibrate,
+  disabled = false,
+}: PlanUnderlayPanelProps) {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const underlay = useAppSelector(selectLevelUnderlay);
+  const [pdf, setPdf] = useState<{ file: File; pages: number; page: number } | null>(
+    null,
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async (file: File, page = 1) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const image = await PlanUnderlays.load(file, page);
+      dispatch(setUnderlay(PlanUnderlays.create(image)));
+    } catch (err) {
+      console.error('❌ Underlay: failed to load plan:', err);
+      setError(err instanceof Error ? err.message : t('underlay.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // The same file can be picked again after removing it
+    if (!file) {
+      return;
+    }
+    if (!PlanUnderlays.isPdf(file)) {
+      setPdf(null);
+      await load(file);
+      return;
+    }
+    try {
+      setPdf({ file, pages: await PlanUnderlays.pageCount(file), page: 1 });
+    } catch (err) {
+      console.error('❌ Underlay: failed to read PDF:', err);
+      setPdf(null);
+      setError(t('underlay.loadFailed'));
+      return;
+    }
+    await load(file);
+  };
+
+  const handlePageChange = async (page: number) => {
+    if (!pdf) {
+      return;
+    }
+    setPdf({ ...pdf, page });
+    await load(pdf.file, page);
+  };
+
+  const handleRemove = () => {
+    dispatch(setUnderlay(null));
+    setPdf(null);
+    setError(null);
+  };
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="pb-2 lg:pb-3">
+        <CardTitle className="text-base lg:text-lg flex items-center">
+          <FileImage className="w-4 h-4 lg:w-5 lg:h-5 mr-2" />
+          {t('underlay.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-1">
+          <Label htmlFor="underlay-file" className="text-xs">
+            {underlay ? t('underlay.replace') : t('underlay.file')}
+          </Label>
+          <Input
+            id="underlay-file"
+            type="file"
+            accept={PlanUnderlays.ACCEPT}
+            onChange={handleFileChange}
+            disabled={disabled || loading}
+            className="text-xs"
+          />
+        </div>
+
+        {pdf && pdf.pages > 1 && (
+          <div className="space-y-1">
+            <Label htmlFor="underlay-page" className="text-xs">
+              {t('underlay.page')}
+            </Label>
+            <select
+              id="underlay-page"
+              value={pdf.page}
+              onChange={(e) => handlePageChange(parseInt(e.target.value, 10))}
+              disabled={disabled || loading}
+              className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground text-sm"
+            >
+              {Array.from({ length: pdf.pages }, (_, i) => (
+                <option key={i + 1} value={i + 1}>
+                  {t('underlay.pageNumber', { page: i + 1, count: pdf.pages })}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {loading && (
+          <p className="text-xs text-muted-foreground">{t('underlay.loading')}</p>
+        )}
+        {error && <p className="text-xs text-red-500">{error}</p>}
+
+        {underlay && (
+          <>
+            <div className="space-y-2">
+              <Label className="text-xs">
+                {t('underlay.opacity', { value: Math.round(underlay.opacity * 100) })}
+              </Label>
+              <Slider
+                value={[Math.round(underlay.opacity * 100)]}
+                min={10}
+                max={100}
+                step={5}
+                onValueChange={([value]) =>
+                  dispatch(updateUnderlay({ opacity: value / 100 }))
+                }
+                disabled={disabled}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="underlay-rotation" className="text-xs">
+                  {t('underlay.rotation')}
+                </Label>
+                <Input
+                  id="underlay-rotation"
+                  type="number"
+                  step="0.5"
+                  value={Number(underlay.rotation.toFixed(2))}
+                  onChange={(e) => {
+                    const rotation = parseFloat(e.target.value);
+                    if (!isNaN(rotation)) {
+                      dispatch(
+                        updateUnderlay({
+                          rotation: PlanUnderlays.normalizeAngle(rotation),
+                        }),
+                      );
+                    }
+                  }}
+                  disabled={disabled || underlay.locked}
+                  className="h-8 text-sm"
+                />
+              </div>
+              <div className="flex items-center justify-between h-8">
+                <Label htmlFor="underlay-locked" className="text-xs flex items-center">
+                  <Lock className="w-3 h-3 mr-1" />
+                  {t('underlay.lock')}
+                </Label>
+                <Switch
+                  id="underlay-locked"
+                  checked={underlay.locked}
+                  onCheckedChange={(locked) => dispatch(updateUnderlay({ locked }))}
+                  disabled={disabled}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onCalibrate}
+                disabled={disabled || underlay.locked}
+                className="text-xs"
+              >
+                <Ruler className="w-3 h-3 mr-1" />
+                {t('underlay.calibrate')}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRemove}
+                disabled={disabled}
+                className="text-xs text-red-600"
+              >
+                <Trash2 className="w-3 h-3 mr-1" />
+                {t('underlay.remove')}
+              </Button>
+            </div>
+          </>
+        )}
+
+        <p className="text-xs text-muted-foreground">{t('underlay.hint')}</p>
+      </CardContent>
+    </Card>
+  );
+}
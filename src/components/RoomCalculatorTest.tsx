@@ -1,11 +1,15 @@
 import React from 'react';
 
+import { useTranslation } from 'react-i18next';
+
 import { AdvancedRoomCalculator, Wall } from '../lib/advanced-room-calculator';
 
 /**
  * Simple test component to verify the Advanced Room Calculator is working
  */
 export const RoomCalculatorTest: React.FC = () => {
+  const { t } = useTranslation();
+
   // Test with a simple rectangular room
   const testWalls: Wall[] = [
     { id: '1', start: { x: 0, z: 0 }, end: { x: 6, z: 0 }, height: 3, thickness: 0.2 },
@@ -30,7 +34,7 @@ export const RoomCalculatorTest: React.FC = () => {
             <p>Errors:</p>
             <ul className="list-disc list-inside">
               {metrics.validationErrors.map((error, index) => (
-                <li key={index}>{error}</li>
+                <li key={index}>{t(error.messageKey, error.params)}</li>
               ))}
             </ul>
           </div>
@@ -1,11 +1,14 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 
 import { Download, FileText, Image, Package, Share2 } from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { DesignSchema } from '@/lib/design-schema';
+import { ShareLink } from '@/lib/share-link';
+import { WallArc } from '@/lib/wall-arc';
 
 import { RoomMetrics } from '../lib/advanced-room-calculator';
 
@@ -28,19 +31,32 @@ const RoomExporter: React.FC<RoomExporterProps> = ({
   windowStyle,
   metrics,
 }) => {
+  const [exportError, setExportError] = useState<string | null>(null);
+
   const exportAsJSON = () => {
-    const roomData = {
-      name: roomName,
-      walls,
-      materials: {
-        floor: floorType,
-        wall: wallMaterial,
-        window: windowStyle,
-      },
-      stats: metrics,
-      exportedAt: new Date().toISOString(),
-      version: '1.0',
-    };
+    // Canonical design document; stats and export time are informational extras
+    let roomData;
+    try {
+      roomData = {
+        ...DesignSchema.create({
+          name: roomName,
+          walls,
+          materials: {
+            floor: floorType,
+            wall: wallMaterial,
+            window: windowStyle,
+          },
+        }),
+        stats: metrics,
+        exportedAt: new Date().toISOString(),
+      };
+    } catch (err) {
+      // The schema rejects what it couldn't load back, e.g. a wall with NaN corners
+      console.error('❌ Export: design failed validation:', err);
+      setExportError('This room has invalid measurements and could not be exported');
+      return;
+    }
+    setExportError(null);
 
     const dataStr = JSON.stringify(roomData, null, 2);
     const dataBlob = new Blob([dataStr], { type: 'application/json' });
@@ -81,13 +97,13 @@ const RoomExporter: React.FC<RoomExporterProps> = ({
         'Length',
         'Height',
         'Thickness',
+        'Bulge',
       ],
     ];
 
     walls.forEach((wall, index) => {
-      const length = Math.sqrt(
-        Math.pow(wall.end.x - wall.start.x, 2) + Math.pow(wall.end.z - wall.start.z, 2),
-      );
+      // Measured along the curve for arc walls
+      const length = WallArc.getLength(wall);
       csvData.push([
         `Wall ${index + 1}`,
         wall.start.x.toFixed(2),
@@ -97,6 +113,7 @@ const RoomExporter: React.FC<RoomExporterProps> = ({
         length.toFixed(2),
         wall.height.toFixed(2),
         wall.thickness.toFixed(2),
+        WallArc.isArc(wall) ? wall.bulge!.toFixed(3) : '0',
       ]);
     });
 
@@ -113,20 +130,24 @@ const RoomExporter: React.FC<RoomExporterProps> = ({
     URL.revokeObjectURL(url);
   };
 
-  const generateShareableLink = () => {
-    const roomData = {
-      walls: walls.map((w) => ({
-        start: w.start,
-        end: w.end,
-        height: w.height,
-        thickness: w.thickness,
-      })),
-      materials: { floorType, wallMaterial, windowStyle },
-      name: roomName,
-    };
-
-    const encodedData = btoa(JSON.stringify(roomData));
-    const shareUrl = `${window.location.origin}/builder?room=${encodedData}`;
+  const generateShareableLink = async () => {
+    let shareUrl: string;
+    try {
+      shareUrl = await ShareLink.createUrl(window.location.origin, {
+        name: roomName,
+        walls,
+        materials: {
+          floor: floorType,
+          wall: wallMaterial,
+          window: windowStyle,
+        },
+      });
+    } catch (err) {
+      console.error('❌ Share link: design failed validation:', err);
+      setExportError('This room has invalid measurements and could not be shared');
+      return;
+    }
+    setExportError(null);
 
     navigator.clipboard
       .writeText(shareUrl)
@@ -276,6 +297,10 @@ Generated by Roomi Room Builder
           <Share2 className="w-3 h-3 mr-1" />
           Share Room Link
         </Button>
+
+        {exportError && (
+          <p className="text-xs text-red-500 bg-red-50 p-2 rounded">{exportError}</p>
+        )}
       </CardContent>
     </Card>
   );
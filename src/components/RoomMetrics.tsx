@@ -2,17 +2,89 @@
 
 import React from 'react';
 
-import { Building, Ruler, Square } from 'lucide-react';
+import { Box, Building, Layers, Ruler, Square } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
 
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import type { RoomMetrics } from '@/lib/advanced-room-calculator';
+import type { FloorSummary } from '@/lib/advanced-room-drawing';
 
 interface RoomMetricsProps {
   metrics: RoomMetrics;
+  summary?: FloorSummary; // From selectFloorSummary; shown instead for multi-room plans
 }
 
-export default function RoomMetricsComponent({ metrics }: RoomMetricsProps) {
+export default function RoomMetricsComponent({ metrics, summary }: RoomMetricsProps) {
+  const { t } = useTranslation();
+
+  if (summary && summary.roomCount > 1) {
+    return (
+      <Card className="border-0 shadow-sm">
+        <CardHeader className="pb-2 lg:pb-3">
+          <CardTitle className="text-base lg:text-lg flex items-center">
+            <Layers className="w-4 h-4 lg:w-5 lg:h-5 mr-2" />
+            Floor Summary
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="flex items-center space-x-2">
+              <Square className="w-4 h-4 text-blue-600" />
+              <div>
+                <p className="text-sm font-medium">Gross Area</p>
+                <p className="text-lg font-bold text-blue-600">
+                  {summary.grossArea.toFixed(1)} m²
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Square className="w-4 h-4 text-green-600" />
+              <div>
+                <p className="text-sm font-medium">Net Area</p>
+                <p className="text-lg font-bold text-green-600">
+                  {summary.netArea.toFixed(1)} m²
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Building className="w-4 h-4 text-purple-600" />
+            <div className="flex-1">
+              <p className="text-sm font-medium">Rooms</p>
+              <div className="flex items-center space-x-2">
+                <span className="text-lg font-bold text-purple-600">
+                  {summary.roomCount}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  ({summary.sharedWallCount} shared walls,{' '}
+                  {summary.sharedWallLength.toFixed(1)}m)
+                </span>
+              </div>
+            </div>
+          </div>
+
+          <div className="pt-2 border-t space-y-1">
+            {summary.rooms.map((room) => (
+              <div key={room.id} className="flex items-center justify-between text-sm">
+                <span className="truncate">{room.name}</span>
+                <span className="flex items-center gap-2">
+                  {!room.isValid && (
+                    <Badge variant="destructive" className="text-xs">
+                      Invalid
+                    </Badge>
+                  )}
+                  <span className="font-medium">{room.netArea.toFixed(1)} m²</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
   if (!metrics.isValid) {
     return (
       <Card className="border-0 shadow-sm">
@@ -30,7 +102,7 @@ export default function RoomMetricsComponent({ metrics }: RoomMetricsProps) {
                 <ul className="text-xs space-y-1">
                   {metrics.validationErrors.slice(0, 3).map((error, index) => (
                     <li key={index} className="text-destructive">
-                      • {error}
+                      • {t(error.messageKey, error.params)}
                     </li>
                   ))}
                   {metrics.validationErrors.length > 3 && (
@@ -96,6 +168,22 @@ export default function RoomMetricsComponent({ metrics }: RoomMetricsProps) {
           </div>
         </div>
 
+        {/* Volume under the ceiling */}
+        <div className="flex items-center space-x-2">
+          <Box className="w-4 h-4 text-amber-600" />
+          <div className="flex-1">
+            <p className="text-sm font-medium">Volume</p>
+            <div className="flex items-center space-x-2">
+              <span className="text-lg font-bold text-amber-600">
+                {metrics.volume.toFixed(1)} m³
+              </span>
+              <span className="text-xs text-muted-foreground">
+                (walls: {metrics.totalWallArea.toFixed(1)} m²)
+              </span>
+            </div>
+          </div>
+        </div>
+
         {/* Room Shape Quality */}
         <div className="space-y-2">
           <p className="text-sm font-medium">Room Quality</p>
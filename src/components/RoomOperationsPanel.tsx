@@ -0,0 +1,129 @@
+'use client';
+
+import { useState } from 'react';
+
+import { Combine, Scissors, SquareDashed } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { mergeRooms, selectLevelRooms } from '@/features/roomSlice';
+import { useAppDispatch, useAppSelector } from '@/hooks/redux';
+import { RoomBooleanError, RoomBooleans } from '@/lib/room-booleans';
+
+export type RoomTool = 'split' | 'subtract';
+
+interface RoomOperationsPanelProps {
+  tool: RoomTool | null; // Drawn on the 2D plan
+  onToolChange: (tool: RoomTool | null) => void;
+  error: RoomBooleanError | null;
+  onError: (error: RoomBooleanError | null) => void;
+}
+
+const TOOLS: { tool: RoomTool; icon: typeof Scissors }[] = [
+  { tool: 'split', icon: Scissors },
+  { tool: 'subtract', icon: SquareDashed },
+];
+
+/**
+ * Remodel the active level's rooms: knock two into one, split one along a line or cut
+ * a rectangle out of one
+ */
+export default function RoomOperationsPanel({
+  tool,
+  onToolChange,
+  error,
+  onError,
+}: RoomOperationsPanelProps) {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const rooms = useAppSelector(selectLevelRooms).filter((room) => room.isCompleted);
+  const [first, setFirst] = useState('');
+  const [second, setSecond] = useState('');
+
+  const handleMerge = () => {
+    const a = rooms.find((room) => room.id === first);
+    const b = rooms.find((room) => room.id === second);
+    if (!a || !b) {
+      return;
+    }
+    const result = RoomBooleans.union(a, b);
+    if (!result.success) {
+      onError(result.error);
+      return;
+    }
+    dispatch(mergeRooms([a.id, b.id]));
+    setSecond('');
+    onError(null);
+  };
+
+  const roomSelect = (id: string, value: string, onChange: (value: string) => void) => (
+    <select
+      id={id}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground text-sm"
+    >
+      <option value="">{t('roomOps.chooseRoom')}</option>
+      {rooms.map((room) => (
+        <option key={room.id} value={room.id}>
+          {room.name}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="pb-2 lg:pb-3">
+        <CardTitle className="text-base lg:text-lg flex items-center">
+          <Combine className="w-4 h-4 lg:w-5 lg:h-5 mr-2" />
+          {t('roomOps.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-1">
+          <Label htmlFor="room-ops-first" className="text-xs">
+            {t('roomOps.mergeLabel')}
+          </Label>
+          {roomSelect('room-ops-first', first, setFirst)}
+          {roomSelect('room-ops-second', second, setSecond)}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleMerge}
+            disabled={!first || !second || first === second}
+            className="w-full h-8 text-xs"
+          >
+            <Combine className="w-3 h-3 mr-1" />
+            {t('roomOps.merge')}
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {TOOLS.map(({ tool: option, icon: Icon }) => (
+            <Button
+              key={option}
+              variant={tool === option ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onToolChange(tool === option ? null : option)}
+              disabled={rooms.length === 0}
+              className="h-8 text-xs"
+            >
+              <Icon className="w-3 h-3 mr-1" />
+              {t(`roomOps.${option}`)}
+            </Button>
+          ))}
+        </div>
+        {tool && (
+          <p className="text-xs text-muted-foreground">{t(`roomOps.${tool}Hint`)}</p>
+        )}
+
+        {error && (
+          <p className="text-xs text-destructive">{t(`roomOps.error.${error}`)}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
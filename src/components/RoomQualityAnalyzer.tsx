@@ -9,9 +9,11 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 
 import { RoomMetrics } from '../lib/advanced-room-calculator';
+import { ValidationIssue } from '../lib/validation-rules';
 
 interface RoomQualityAnalyzerProps {
   metrics: RoomMetrics;
+  onSelectIssue?: (issue: ValidationIssue) => void; // Locate the issue on the plan
 }
 
 interface QualityMetric {
@@ -22,7 +24,10 @@ interface QualityMetric {
   status: 'excellent' | 'good' | 'fair' | 'poor';
 }
 
-const RoomQualityAnalyzer: React.FC<RoomQualityAnalyzerProps> = ({ metrics }) => {
+const RoomQualityAnalyzer: React.FC<RoomQualityAnalyzerProps> = ({
+  metrics,
+  onSelectIssue,
+}) => {
   const { t } = useTranslation();
 
   // Safety check to prevent errors if metrics is undefined
@@ -346,7 +351,18 @@ const RoomQualityAnalyzer: React.FC<RoomQualityAnalyzerProps> = ({ metrics }) =>
               {metrics.validationErrors.map((error, index) => (
                 <li key={index} className="flex items-start gap-1">
                   <span className="text-red-500 mt-0.5">•</span>
-                  {error}
+                  {onSelectIssue ? (
+                    <button
+                      type="button"
+                      onClick={() => onSelectIssue(error)}
+                      title={t('validation.locate')}
+                      className="text-left hover:underline"
+                    >
+                      {t(error.messageKey, error.params)}
+                    </button>
+                  ) : (
+                    t(error.messageKey, error.params)
+                  )}
                 </li>
               ))}
             </ul>
@@ -2,8 +2,6 @@
 
 import { useEffect, useState } from 'react';
 
-import * as THREE from 'three';
-
 import { useAuth } from '@/components/AuthProvider';
 import { Button } from '@/components/ui/button';
 import {
@@ -16,7 +14,19 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { designService } from '@/lib/designService';
+import { DrawingRoom } from '@/features/roomSlice';
+import { BuildingLevel } from '@/lib/building-levels';
+import { CeilingSettings } from '@/lib/ceiling';
+import { designRepository } from '@/lib/design-repository';
+import { DesignMaterials, DesignSchema } from '@/lib/design-schema';
+import { ValidationSettings } from '@/lib/validation-rules';
+import {
+  DimensionLine,
+  DoorPlacement,
+  PlanUnderlay,
+  RoomObject,
+  WindowPlacement,
+} from '@/types/room';
 
 import { Wall } from './Floorplan2DCanvas';
 
@@ -25,7 +35,16 @@ interface SaveDesignModalProps {
   onClose: () => void;
   onSave: (designId: string) => void;
   walls: Wall[];
-  objects: THREE.Object3D[];
+  objects: RoomObject[];
+  doors?: DoorPlacement[];
+  windows?: WindowPlacement[];
+  dimensions?: DimensionLine[];
+  rooms?: DrawingRoom[];
+  materials?: DesignMaterials;
+  validation?: ValidationSettings;
+  ceiling?: CeilingSettings;
+  underlays?: PlanUnderlay[];
+  levels?: BuildingLevel[];
   autoSave?: boolean;
   existingDesignId?: string;
 }
@@ -36,6 +55,15 @@ export default function SaveDesignModal({
   onSave,
   walls,
   objects,
+  doors = [],
+  windows = [],
+  dimensions = [],
+  rooms,
+  materials,
+  validation,
+  ceiling,
+  underlays = [],
+  levels,
   autoSave = false,
   existingDesignId,
 }: SaveDesignModalProps) {
@@ -62,25 +90,25 @@ export default function SaveDesignModal({
 
       setAutoSaveStatus('saving');
       try {
-        await designService.autoSaveDesign(existingDesignId, {
+        // Lands locally first; upload problems show up in the sync status
+        await designRepository.saveDraft({
+          id: existingDesignId,
+          ...DesignSchema.create({
+            name: name || 'Untitled Design',
+            ...(description ? { description } : {}),
+            walls,
+            rooms: rooms ?? [],
+            doors,
+            windows,
+            objects,
+            dimensions,
+            materials: materials ?? {},
+            validation,
+            ceiling,
+            underlays,
+            levels,
+          }),
           userId: user.uid,
-          name: name || 'Untitled Design',
-          description: description || undefined,
-          walls: walls.map((wall) => ({
-            id: wall.id,
-            start: { x: wall.start.x, y: wall.start.z },
-            end: { x: wall.end.x, y: wall.end.z },
-            height: wall.height,
-            thickness: wall.thickness,
-          })),
-          objects: objects.map((obj) => ({
-            id: String(obj.id || obj.uuid),
-            type: String(obj.userData?.type || 'unknown'),
-            position: { x: obj.position.x, y: obj.position.y, z: obj.position.z },
-            rotation: { x: obj.rotation.x, y: obj.rotation.y, z: obj.rotation.z },
-            scale: { x: obj.scale.x, y: obj.scale.y, z: obj.scale.z },
-            userData: obj.userData,
-          })),
         });
         setLastSaved(new Date());
         setAutoSaveStatus('saved');
@@ -96,7 +124,24 @@ export default function SaveDesignModal({
     }, 30000); // Auto-save every 30 seconds
 
     return () => clearInterval(autoSaveInterval);
-  }, [autoSave, existingDesignId, user, walls, objects, name, description]);
+  }, [
+    autoSave,
+    existingDesignId,
+    user,
+    walls,
+    objects,
+    doors,
+    windows,
+    dimensions,
+    rooms,
+    materials,
+    validation,
+    ceiling,
+    underlays,
+    levels,
+    name,
+    description,
+  ]);
 
   const handleSave = async () => {
     console.log('🔧 SaveDesignModal handleSave called');
@@ -121,37 +166,31 @@ export default function SaveDesignModal({
 
     try {
       const designData = {
+        ...DesignSchema.create({
+          name: name.trim(),
+          ...(description.trim() ? { description: description.trim() } : {}),
+          walls,
+          rooms: rooms ?? [],
+          doors,
+          windows,
+          objects,
+          dimensions,
+          materials: materials ?? {},
+          validation,
+          ceiling,
+          underlays,
+          levels,
+        }),
         userId: user.uid,
-        name: name.trim(),
-        description: description.trim() || undefined,
-        walls: walls.map((wall) => ({
-          id: wall.id,
-          start: { x: wall.start.x, y: wall.start.z },
-          end: { x: wall.end.x, y: wall.end.z },
-          height: wall.height,
-          thickness: wall.thickness,
-        })),
-        objects: objects.map((obj) => ({
-          id: String(obj.id || obj.uuid),
-          type: String(obj.userData?.type || 'unknown'),
-          position: { x: obj.position.x, y: obj.position.y, z: obj.position.z },
-          rotation: { x: obj.rotation.x, y: obj.rotation.y, z: obj.rotation.z },
-          scale: { x: obj.scale.x, y: obj.scale.y, z: obj.scale.z },
-          userData: obj.userData,
-        })),
       };
 
       console.log('🔧 Design data prepared:', designData);
 
-      let designId: string;
-      if (existingDesignId) {
-        console.log('🔧 Updating existing design:', existingDesignId);
-        await designService.updateDesign(existingDesignId, designData);
-        designId = existingDesignId;
-      } else {
-        console.log('🔧 Creating new design');
-        designId = await designService.saveDesign(designData);
-      }
+      console.log('🔧 Saving design:', existingDesignId ?? 'new');
+      const designId = await designRepository.saveDraft({
+        id: existingDesignId,
+        ...designData,
+      });
 
       console.log('🔧 Design saved with ID:', designId);
       setLastSaved(new Date());
@@ -0,0 +1,146 @@
+'use client';
+
+import { useState } from 'react';
+
+import { FlipHorizontal2, FlipVertical2, RotateCcw, RotateCw } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface SelectionTransformPanelProps {
+  walls: number;
+  corners: number;
+  onMove: (text: string) => boolean; // False when the step couldn't be read
+  onRotate: (degrees: number) => void;
+  onMirror: (axis: 'x' | 'z') => void;
+}
+
+/**
+ * Box on the 2D canvas for moving, turning and flipping the selection by typed
+ * amounts. Like the wall measurement box, keys typed here don't reach the canvas
+ */
+export default function SelectionTransformPanel({
+  walls,
+  corners,
+  onMove,
+  onRotate,
+  onMirror,
+}: SelectionTransformPanelProps) {
+  const [move, setMove] = useState('');
+  const [angle, setAngle] = useState('90');
+  const [invalid, setInvalid] = useState<'move' | 'angle' | null>(null);
+
+  const submitMove = () => {
+    if (onMove(move)) {
+      setMove('');
+      setInvalid(null);
+    } else {
+      setInvalid('move');
+    }
+  };
+
+  const submitRotate = (sign: 1 | -1) => {
+    const degrees = parseFloat(angle);
+    if (isNaN(degrees)) {
+      setInvalid('angle');
+      return;
+    }
+    setInvalid(null);
+    onRotate(sign * degrees);
+  };
+
+  const handleKeyDown = (
+    e: React.KeyboardEvent<HTMLInputElement>,
+    submit: () => void,
+  ) => {
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      e.currentTarget.blur();
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      submit();
+    }
+  };
+
+  return (
+    <div className="absolute top-2 left-2 w-56 bg-white/90 p-2 rounded shadow space-y-2">
+      <div className="text-xs font-medium text-gray-700">
+        {walls} wall{walls !== 1 ? 's' : ''}
+        {corners > 0 && `, ${corners} corner${corners !== 1 ? 's' : ''}`} selected
+      </div>
+      <label className="block text-xs font-medium text-gray-700">
+        Move by
+        <Input
+          value={move}
+          placeholder="1.2, -0.5 or 3 @ 90"
+          onChange={(e) => {
+            setMove(e.target.value);
+            setInvalid(null);
+          }}
+          onKeyDown={(e) => handleKeyDown(e, submitMove)}
+          aria-invalid={invalid === 'move'}
+          className={`mt-1 h-8 text-sm ${invalid === 'move' ? 'border-red-500' : ''}`}
+        />
+      </label>
+      <label className="block text-xs font-medium text-gray-700">
+        Rotate (°)
+        <div className="mt-1 flex items-center gap-1">
+          <Input
+            type="number"
+            value={angle}
+            onChange={(e) => {
+              setAngle(e.target.value);
+              setInvalid(null);
+            }}
+            onKeyDown={(e) => handleKeyDown(e, () => submitRotate(1))}
+            aria-invalid={invalid === 'angle'}
+            className={`h-8 text-sm ${invalid === 'angle' ? 'border-red-500' : ''}`}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 px-2"
+            onClick={() => submitRotate(1)}
+            title="Rotate counterclockwise"
+          >
+            <RotateCcw className="w-3 h-3" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 px-2"
+            onClick={() => submitRotate(-1)}
+            title="Rotate clockwise"
+          >
+            <RotateCw className="w-3 h-3" />
+          </Button>
+        </div>
+      </label>
+      <div className="flex gap-1">
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 flex-1 text-xs"
+          onClick={() => onMirror('z')}
+          title="Mirror left to right"
+        >
+          <FlipHorizontal2 className="w-3 h-3 mr-1" />
+          Horizontal
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 flex-1 text-xs"
+          onClick={() => onMirror('x')}
+          title="Mirror top to bottom"
+        >
+          <FlipVertical2 className="w-3 h-3 mr-1" />
+          Vertical
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Ctrl+C / Ctrl+V copies rooms · Delete removes
+      </p>
+    </div>
+  );
+}
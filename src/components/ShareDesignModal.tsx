@@ -0,0 +1,261 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { Copy, Link2Off, UserMinus } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+
+import { useAuth } from '@/components/AuthProvider';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  CollaboratorRole,
+  SavedDesign,
+  SharedDesign,
+  designService,
+} from '@/lib/designService';
+
+interface ShareDesignModalProps {
+  design: SavedDesign | null;
+  onClose: () => void;
+}
+
+// Expiry choices in days; 0 = never
+const EXPIRY_OPTIONS = [0, 1, 7, 30];
+
+export default function ShareDesignModal({ design, onClose }: ShareDesignModalProps) {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const [shares, setShares] = useState<SharedDesign[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [collaboratorEmail, setCollaboratorEmail] = useState('');
+  const [collaboratorRole, setCollaboratorRole] = useState<CollaboratorRole>('editor');
+
+  useEffect(() => {
+    if (!design?.id || !user) {
+      setShares([]);
+      return;
+    }
+    return designService.subscribeToDesignShares(design.id, user.uid, setShares);
+  }, [design?.id, user]);
+
+  const shareUrl = (shareId: string) => `${window.location.origin}/share/${shareId}`;
+
+  const copyLink = async (shareId: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(shareId));
+      setCopiedId(shareId);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch {
+      prompt(t('share.copyPrompt'), shareUrl(shareId));
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!design) {
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const { shareId } = await designService.createShareLink(design, {
+        expiresInDays: expiresInDays || undefined,
+      });
+      await copyLink(shareId);
+    } catch (err) {
+      console.error('❌ Share error:', err);
+      setError(t('share.createFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (shareId: string) => {
+    try {
+      await designService.revokeShareLink(shareId);
+      // Real-time listener will drop the revoked share
+    } catch (err) {
+      console.error('❌ Revoke error:', err);
+      setError(t('share.revokeFailed'));
+    }
+  };
+
+  const handleSetRole = async (email: string, role: CollaboratorRole | null) => {
+    if (!design?.id) {
+      return;
+    }
+    setError(null);
+    try {
+      await designService.setCollaboratorRole(design.id, email, role);
+      // The gallery subscription delivers the updated roles
+      if (role && email === collaboratorEmail) {
+        setCollaboratorEmail('');
+      }
+    } catch (err) {
+      console.error('❌ Collaborator error:', err);
+      setError(t('share.collaboratorFailed'));
+    }
+  };
+
+  if (!design) {
+    return null;
+  }
+
+  const collaborators = Object.entries(design.roles ?? {});
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{t('share.title', { name: design.name })}</CardTitle>
+          <CardDescription>{t('share.description')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="share-expiry">{t('share.expiresIn')}</Label>
+            <select
+              id="share-expiry"
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground text-sm"
+              disabled={loading}
+            >
+              {EXPIRY_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  {days === 0 ? t('share.never') : t('share.days', { count: days })}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {shares.length > 0 && (
+            <div className="space-y-2">
+              <Label>{t('share.activeLinks')}</Label>
+              {shares.map((share) => (
+                <div
+                  key={share.id}
+                  className="flex items-center justify-between gap-2 text-xs border rounded p-2"
+                >
+                  <div className="min-w-0">
+                    <div className="truncate font-mono">/share/{share.id}</div>
+                    <div className="text-muted-foreground">
+                      {share.expiresAt
+                        ? t('share.expiresOn', {
+                            date: share.expiresAt.toLocaleDateString(),
+                          })
+                        : t('share.never')}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => copyLink(share.id)}
+                      title={t('share.copyLink')}
+                    >
+                      <Copy className="w-3 h-3" />
+                      {copiedId === share.id && (
+                        <span className="ml-1">{t('share.copiedLink')}</span>
+                      )}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRevoke(share.id)}
+                      title={t('share.revoke')}
+                      className="text-red-500 hover:text-red-700"
+                    >
+                      <Link2Off className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="collaborator-email">{t('share.collaborators')}</Label>
+            {collaborators.map(([email, role]) => (
+              <div
+                key={email}
+                className="flex items-center justify-between gap-2 text-xs"
+              >
+                <span className="truncate">{email}</span>
+                <div className="flex gap-1">
+                  <select
+                    value={role}
+                    onChange={(e) =>
+                      handleSetRole(email, e.target.value as CollaboratorRole)
+                    }
+                    className="px-2 py-1 border border-border rounded bg-background text-foreground"
+                  >
+                    <option value="editor">{t('share.roleEditor')}</option>
+                    <option value="viewer">{t('share.roleViewer')}</option>
+                  </select>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleSetRole(email, null)}
+                    title={t('share.removeCollaborator')}
+                    className="text-red-500 hover:text-red-700"
+                  >
+                    <UserMinus className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Input
+                id="collaborator-email"
+                type="email"
+                value={collaboratorEmail}
+                onChange={(e) => setCollaboratorEmail(e.target.value)}
+                placeholder={t('share.collaboratorEmail')}
+                className="flex-1"
+              />
+              <select
+                value={collaboratorRole}
+                onChange={(e) => setCollaboratorRole(e.target.value as CollaboratorRole)}
+                className="px-2 border border-border rounded-lg bg-background text-foreground text-sm"
+              >
+                <option value="editor">{t('share.roleEditor')}</option>
+                <option value="viewer">{t('share.roleViewer')}</option>
+              </select>
+              <Button
+                variant="outline"
+                onClick={() => handleSetRole(collaboratorEmail, collaboratorRole)}
+                disabled={!collaboratorEmail.includes('@')}
+              >
+                {t('share.invite')}
+              </Button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="text-sm text-red-500 bg-red-50 p-2 rounded">{error}</div>
+          )}
+
+          <div className="flex gap-2">
+            <Button onClick={handleCreate} disabled={loading} className="flex-1">
+              {loading ? t('share.creating') : t('share.createLink')}
+            </Button>
+            <Button variant="outline" onClick={onClose} disabled={loading}>
+              {t('share.close')}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
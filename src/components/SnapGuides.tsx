@@ -0,0 +1,81 @@
+'use client';
+
+import { SnapKind, SnapResult } from '@/lib/snapping';
+import { Point } from '@/types/room';
+
+const SNAP_STYLES: Record<SnapKind, { label: string; color: string }> = {
+  vertex: { label: 'Corner', color: '#16A34A' },
+  midpoint: { label: 'Midpoint', color: '#0891B2' },
+  perpendicular: { label: 'Perpendicular', color: '#9333EA' },
+  wall: { label: 'On wall', color: '#2563EB' },
+  extension: { label: 'Extension', color: '#EA580C' },
+  alignment: { label: 'Aligned', color: '#DB2777' },
+  angle: { label: 'Angle', color: '#CA8A04' },
+  grid: { label: 'Grid', color: '#64748B' },
+};
+
+interface SnapGuideLinesProps {
+  snap: SnapResult;
+  toCanvas: (point: Point) => { x: number; y: number };
+}
+
+/**
+ * Dashed guides explaining the active snap, and a marker where the pointer landed.
+ * Drawn inside the canvas SVG
+ */
+export function SnapGuideLines({ snap, toCanvas }: SnapGuideLinesProps) {
+  if (snap.kinds.length === 0) {
+    return null;
+  }
+  const point = toCanvas(snap.point);
+  return (
+    <g style={{ pointerEvents: 'none' }}>
+      {snap.guides.map((guide, i) => {
+        const from = toCanvas(guide.from);
+        const to = toCanvas(guide.to);
+        return (
+          <line
+            key={i}
+            x1={from.x}
+            y1={from.y}
+            x2={to.x}
+            y2={to.y}
+            stroke={SNAP_STYLES[guide.kind].color}
+            strokeWidth="1"
+            strokeDasharray="4,4"
+          />
+        );
+      })}
+      <circle
+        cx={point.x}
+        cy={point.y}
+        r="6"
+        fill="none"
+        stroke={SNAP_STYLES[snap.kinds[0]].color}
+        strokeWidth="2"
+      />
+    </g>
+  );
+}
+
+/**
+ * Which snaps are holding the pointer, in their guide colors
+ */
+export function SnapLegend({ snap }: { snap: SnapResult | null }) {
+  if (!snap || snap.kinds.length === 0) {
+    return null;
+  }
+  return (
+    <div className="absolute bottom-2 right-2 bg-white/90 px-3 py-1 rounded shadow text-xs flex items-center gap-3">
+      {snap.kinds.map((kind) => (
+        <span key={kind} className="flex items-center gap-1">
+          <span
+            className="inline-block w-3 h-3 rounded-full"
+            style={{ backgroundColor: SNAP_STYLES[kind].color }}
+          />
+          {SNAP_STYLES[kind].label}
+        </span>
+      ))}
+    </div>
+  );
+}
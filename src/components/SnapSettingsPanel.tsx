@@ -0,0 +1,82 @@
+'use client';
+
+import { Magnet } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { SnapSettings, Snapping } from '@/lib/snapping';
+
+interface SnapSettingsPanelProps {
+  settings: SnapSettings;
+  onChange: (updates: Partial<SnapSettings>) => void;
+}
+
+// Grid snapping has its own switch next to the grid itself
+const TOGGLES = [
+  'vertices',
+  'midpoints',
+  'perpendicular',
+  'walls',
+  'extensions',
+  'alignment',
+  'angles',
+] as const;
+
+/**
+ * What the pointer snaps to while drawing and editing walls on the 2D plan
+ */
+export default function SnapSettingsPanel({
+  settings,
+  onChange,
+}: SnapSettingsPanelProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="pb-2 lg:pb-3">
+        <CardTitle className="text-base lg:text-lg flex items-center">
+          <Magnet className="w-4 h-4 lg:w-5 lg:h-5 mr-2" />
+          {t('snapping.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-2">
+          {TOGGLES.map((key) => (
+            <div key={key} className="flex items-center justify-between">
+              <Label htmlFor={`snap-${key}`} className="text-xs">
+                {t(`snapping.${key}`)}
+              </Label>
+              <Switch
+                id={`snap-${key}`}
+                checked={settings[key]}
+                onCheckedChange={(checked) => onChange({ [key]: checked })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="snap-angle-step" className="text-xs">
+            {t('snapping.angleStep')}
+          </Label>
+          <select
+            id="snap-angle-step"
+            value={settings.angleStep}
+            onChange={(e) => onChange({ angleStep: parseInt(e.target.value, 10) })}
+            disabled={!settings.angles}
+            className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground text-sm"
+          >
+            {Snapping.ANGLE_STEPS.map((step) => (
+              <option key={step} value={step}>
+                {t('snapping.angleStepValue', { value: step })}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-muted-foreground">{t('snapping.angleHint')}</p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,7 +6,13 @@ import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
 import { PointerLockControls } from 'three/examples/jsm/controls/PointerLockControls';
 
-import { RoomObject } from '@/types/room';
+import { Ceiling, CeilingSettings, CeilingSurface } from '@/lib/ceiling';
+import type { DiagnosticFocus } from '@/lib/diagnostics';
+import { PolygonTriangulation } from '@/lib/polygon-triangulation';
+import { WallArc } from '@/lib/wall-arc';
+import { WallGraph } from '@/lib/wall-graph';
+import { WallOpenings } from '@/lib/wall-openings';
+import { DoorPlacement, RoomObject } from '@/types/room';
 
 import AdvancedGeometryEngine, { WindowPlacement } from './AdvancedGeometryEngine';
 import { Wall } from './Floorplan2DCanvas';
@@ -32,150 +38,172 @@ const ensureCounterClockwise = (
   return signedArea > 0 ? [...vertices].reverse() : vertices;
 };
 
-// Create floor geometry using manual triangulation
-const _createManualFloorGeometry = (
-  vertices: { x: number; z: number }[],
-): THREE.BufferGeometry => {
-  const geometry = new THREE.BufferGeometry();
-
-  // Simple ear-clipping algorithm for polygon triangulation
-  const triangles = triangulatePolygon(vertices);
-
-  const positions: number[] = [];
-  const indices: number[] = [];
-  const normals: number[] = [];
-  const uvs: number[] = [];
-
-  // Calculate bounding box for UV mapping
-  let minX = Infinity,
-    maxX = -Infinity,
-    minZ = Infinity,
-    maxZ = -Infinity;
-  vertices.forEach((v) => {
-    minX = Math.min(minX, v.x);
-    maxX = Math.max(maxX, v.x);
-    minZ = Math.min(minZ, v.z);
-    maxZ = Math.max(maxZ, v.z);
-  });
+const CEILING_THICKNESS = 0.1;
 
-  const width = maxX - minX;
-  const height = maxZ - minZ;
-
-  // Add vertices
-  vertices.forEach((v) => {
-    positions.push(v.x, 0, v.z);
-    normals.push(0, 1, 0); // Floor normal points up
-    uvs.push((v.x - minX) / width, (v.z - minZ) / height);
+// Curved wall: the band between the arc offset to either side, extruded to wall height
+const createArcWall = (
+  wall: Wall,
+  [interiorMat, exteriorMat]: THREE.MeshStandardMaterial[],
+): THREE.Mesh => {
+  const centerline = WallArc.tessellate(wall);
+  const half = wall.thickness / 2;
+  const offsets = centerline.map((point, i) => {
+    const from = centerline[Math.max(0, i - 1)];
+    const to = centerline[Math.min(centerline.length - 1, i + 1)];
+    const length = Math.hypot(to.x - from.x, to.z - from.z);
+    const normal = { x: -(to.z - from.z) / length, z: (to.x - from.x) / length };
+    return {
+      left: { x: point.x + normal.x * half, z: point.z + normal.z * half },
+      right: { x: point.x - normal.x * half, z: point.z - normal.z * half },
+    };
   });
 
-  // Add triangle indices
-  triangles.forEach((triangle) => {
-    indices.push(triangle[0], triangle[1], triangle[2]);
+  // Shape y is -z so that extruding along +z and rotating -90° about x stands it up
+  const shape = new THREE.Shape(
+    [...offsets.map((o) => o.left), ...offsets.map((o) => o.right).reverse()].map(
+      (p) => new THREE.Vector2(p.x, -p.z),
+    ),
+  );
+  const geometry = new THREE.ExtrudeGeometry(shape, {
+    depth: wall.height,
+    bevelEnabled: false,
+    curveSegments: 1,
   });
+  geometry.rotateX(-Math.PI / 2);
+  geometry.computeVertexNormals();
 
-  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
-  geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
-  geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
-  geometry.setIndex(indices);
-
-  return geometry;
-};
-
-// Simple ear-clipping triangulation
-const triangulatePolygon = (vertices: { x: number; z: number }[]): number[][] => {
-  if (vertices.length < 3) {
-    return [];
+  if (wall.color) {
+    interiorMat.color.set(wall.color);
   }
-  if (vertices.length === 3) {
-    return [[0, 1, 2]];
-  }
-
-  const triangles: number[][] = [];
-  const remaining = vertices.map((_, i) => i);
-
-  while (remaining.length > 3) {
-    let earFound = false;
-
-    for (let i = 0; i < remaining.length; i++) {
-      const prev = remaining[(i - 1 + remaining.length) % remaining.length];
-      const curr = remaining[i];
-      const next = remaining[(i + 1) % remaining.length];
-
-      if (isEar(vertices, prev, curr, next, remaining)) {
-        triangles.push([prev, curr, next]);
-        remaining.splice(i, 1);
-        earFound = true;
-        break;
-      }
-    }
+  // Extrude groups: 0 caps (top and bottom), 1 sides
+  const mesh = new THREE.Mesh(geometry, [exteriorMat, interiorMat]);
+  mesh.castShadow = true;
+  mesh.receiveShadow = true;
+  mesh.userData.type = 'wall';
+  mesh.userData.colorable = true;
+  mesh.userData.wallId = wall.id;
+  return mesh;
+};
 
-    if (!earFound) {
-      // Fallback: create fan triangulation from first vertex
-      for (let i = 1; i < remaining.length - 1; i++) {
-        triangles.push([remaining[0], remaining[i], remaining[i + 1]]);
-      }
-      break;
+// Lower every vertex of a standing geometry (in world coordinates) that is above its
+// base to the ceiling over it, keeping it between `bottom` and `top`
+const fitToCeiling = (
+  geometry: THREE.BufferGeometry,
+  surface: CeilingSurface,
+  bottom: number,
+  top: number,
+) => {
+  const position = geometry.attributes.position;
+  for (let i = 0; i < position.count; i++) {
+    if (position.getY(i) > bottom + 1e-6) {
+      const ceiling = Ceiling.heightAt(surface, {
+        x: position.getX(i),
+        z: position.getZ(i),
+      });
+      position.setY(i, Math.max(bottom, Math.min(top, ceiling)));
     }
   }
-
-  // Add the final triangle
-  if (remaining.length === 3) {
-    triangles.push([remaining[0], remaining[1], remaining[2]]);
-  }
-
-  return triangles;
+  position.needsUpdate = true;
+  geometry.computeVertexNormals();
 };
 
-// Check if a vertex forms an ear (convex vertex with no other vertices inside the triangle)
-const isEar = (
-  vertices: { x: number; z: number }[],
-  prev: number,
-  curr: number,
-  next: number,
-  remaining: number[],
-): boolean => {
-  const a = vertices[prev];
-  const b = vertices[curr];
-  const c = vertices[next];
-
-  // Check if the angle is convex
-  const cross = (b.x - a.x) * (c.z - a.z) - (b.z - a.z) * (c.x - a.x);
-  if (cross <= 0) {
-    return false;
-  } // Not convex
-
-  // Check if any other vertex is inside the triangle
-  for (const idx of remaining) {
-    if (idx === prev || idx === curr || idx === next) {
-      continue;
-    }
+// Part of a straight wall under a sloped ceiling, in world coordinates. The footprint
+// gets extra points where the wall's top edge bends so its top can follow the ceiling
+const createSlopedWallGeometry = (
+  wall: Wall,
+  piece: { start: number; end: number; bottom: number; top: number },
+  surface: CeilingSurface,
+): THREE.BufferGeometry | null => {
+  const length = Math.hypot(wall.end.x - wall.start.x, wall.end.z - wall.start.z);
+  const u = {
+    x: (wall.end.x - wall.start.x) / length,
+    z: (wall.end.z - wall.start.z) / length,
+  };
+  const half = wall.thickness / 2;
+  const at = (distance: number, side: number) => ({
+    x: wall.start.x + u.x * distance - u.z * side * half,
+    z: wall.start.z + u.z * distance + u.x * side * half,
+  });
 
-    const p = vertices[idx];
-    if (pointInTriangle(p, a, b, c)) {
-      return false;
-    }
+  const distances = [
+    piece.start,
+    ...Ceiling.wallProfile(wall, surface)
+      .map((point) => point.distance)
+      .filter((d) => d > piece.start + 1e-6 && d < piece.end - 1e-6),
+    piece.end,
+  ];
+  // Nothing is left of a piece the ceiling comes down below
+  const highest = Math.max(
+    ...distances
+      .flatMap((d) => [at(d, 1), at(d, -1)])
+      .map((p) => Ceiling.heightAt(surface, p)),
+  );
+  if (highest <= piece.bottom + 1e-3) {
+    return null;
   }
 
-  return true;
+  const footprint = [
+    ...distances.map((d) => at(d, 1)),
+    ...distances.map((d) => at(d, -1)).reverse(),
+  ];
+  // Shape y is -z so that extruding along +z and rotating -90° about x stands it up
+  const shape = new THREE.Shape(footprint.map((p) => new THREE.Vector2(p.x, -p.z)));
+  const geometry = new THREE.ExtrudeGeometry(shape, {
+    depth: piece.top - piece.bottom,
+    bevelEnabled: false,
+    curveSegments: 1,
+  });
+  geometry.rotateX(-Math.PI / 2);
+  geometry.translate(0, piece.bottom, 0);
+  fitToCeiling(geometry, surface, piece.bottom, piece.top);
+  return geometry;
 };
 
-// Check if a point is inside a triangle
-const pointInTriangle = (
-  p: { x: number; z: number },
-  a: { x: number; z: number },
-  b: { x: number; z: number },
-  c: { x: number; z: number },
-): boolean => {
-  const denom = (b.z - c.z) * (a.x - c.x) + (c.x - b.x) * (a.z - c.z);
-  if (Math.abs(denom) < 1e-10) {
-    return false;
-  }
+// Ceiling slab over the room outline: flat on the walls, or following the slope
+const createCeiling = (
+  outline: { x: number; z: number }[],
+  surface: CeilingSurface | null,
+  flatHeight: number,
+  isDarkMode: boolean,
+): THREE.Group => {
+  const group = new THREE.Group();
+  group.name = 'ceiling';
+  // See-through, so the room can still be looked into from above
+  const material = new THREE.MeshStandardMaterial({
+    color: isDarkMode ? 0x4a5563 : 0xf3f4f6,
+    roughness: 0.9,
+    metalness: 0,
+    transparent: true,
+    opacity: 0.35,
+    depthWrite: false,
+    side: THREE.DoubleSide,
+  });
 
-  const alpha = ((b.z - c.z) * (p.x - c.x) + (c.x - b.x) * (p.z - c.z)) / denom;
-  const beta = ((c.z - a.z) * (p.x - c.x) + (a.x - c.x) * (p.z - c.z)) / denom;
-  const gamma = 1 - alpha - beta;
+  Ceiling.planarParts(outline, surface).forEach((part, index) => {
+    const shape = new THREE.Shape(part.map((p) => new THREE.Vector2(p.x, -p.z)));
+    const geometry = new THREE.ExtrudeGeometry(shape, {
+      depth: CEILING_THICKNESS,
+      bevelEnabled: false,
+      curveSegments: 1,
+    });
+    geometry.rotateX(-Math.PI / 2);
+    // Raise each vertex onto the ceiling, keeping the slab's thickness
+    const position = geometry.attributes.position;
+    for (let i = 0; i < position.count; i++) {
+      const height = surface
+        ? Ceiling.heightAt(surface, { x: position.getX(i), z: position.getZ(i) })
+        : flatHeight;
+      position.setY(i, position.getY(i) + height);
+    }
+    position.needsUpdate = true;
+    geometry.computeVertexNormals();
 
-  return alpha >= 0 && beta >= 0 && gamma >= 0;
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.name = `ceiling-${index}`;
+    mesh.userData.type = 'ceiling';
+    group.add(mesh);
+  });
+  return group;
 };
 
 const getOrderedVertices = (walls: Wall[]): { x: number; z: number }[] => {
@@ -839,383 +867,6 @@ const _createAdvancedInteriorFloor = (
 ): { x: number; z: number }[] =>
   AdvancedFloorEngine.createAdvancedInteriorFloor(walls, exteriorVertices);
 
-// Advanced Geometry Creation Methods
-
-// Method 1: Constrained Delaunay Triangulation (most robust)
-const _createConstrainedDelaunayGeometry = (
-  vertices: { x: number; z: number }[],
-): THREE.BufferGeometry => {
-  const geometry = new THREE.BufferGeometry();
-
-  // Implement simplified Delaunay triangulation
-  const triangles = delaunayTriangulation(vertices);
-
-  const positions: number[] = [];
-  const indices: number[] = [];
-  const normals: number[] = [];
-  const uvs: number[] = [];
-
-  // Calculate bounding box for UV mapping
-  let minX = Infinity,
-    maxX = -Infinity,
-    minZ = Infinity,
-    maxZ = -Infinity;
-  vertices.forEach((v) => {
-    minX = Math.min(minX, v.x);
-    maxX = Math.max(maxX, v.x);
-    minZ = Math.min(minZ, v.z);
-    maxZ = Math.max(maxZ, v.z);
-  });
-
-  const width = maxX - minX;
-  const height = maxZ - minZ;
-
-  // Add vertices with proper UVs and normals
-  vertices.forEach((v) => {
-    positions.push(v.x, 0, v.z);
-    normals.push(0, 1, 0);
-    uvs.push((v.x - minX) / width, (v.z - minZ) / height);
-  });
-
-  // Add triangle indices
-  triangles.forEach((triangle) => {
-    indices.push(triangle[0], triangle[1], triangle[2]);
-  });
-
-  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
-  geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
-  geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
-  geometry.setIndex(indices);
-
-  return geometry;
-};
-
-// Method 2: Advanced Shape Geometry with Holes Support
-const _createAdvancedShapeGeometry = (
-  vertices: { x: number; z: number }[],
-): THREE.BufferGeometry => {
-  const shape = new THREE.Shape();
-
-  // Create main shape
-  shape.moveTo(vertices[0].x, vertices[0].z);
-  for (let i = 1; i < vertices.length; i++) {
-    shape.lineTo(vertices[i].x, vertices[i].z);
-  }
-  shape.closePath();
-
-  // Create geometry with advanced settings
-  const geometry = new THREE.ShapeGeometry(shape, 32); // Higher curve segments
-  geometry.rotateX(Math.PI / 2);
-
-  // Enhanced UV mapping with proper scaling
-  geometry.computeBoundingBox();
-  if (geometry.boundingBox) {
-    const positions = geometry.attributes.position;
-    const uvs = [];
-    const bboxSize = new THREE.Vector3();
-    geometry.boundingBox.getSize(bboxSize);
-
-    // Scale UVs based on real-world dimensions for proper material tiling
-    const scaleX = bboxSize.x / 4; // 4m tile repeat
-    const scaleZ = bboxSize.z / 4;
-
-    for (let i = 0; i < positions.count; i++) {
-      const x = positions.getX(i);
-      const z = positions.getZ(i);
-      uvs.push(
-        ((x - geometry.boundingBox.min.x) / bboxSize.x) * scaleX,
-        ((z - geometry.boundingBox.min.z) / bboxSize.z) * scaleZ,
-      );
-    }
-
-    geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
-  }
-
-  // Compute vertex normals for better lighting
-  geometry.computeVertexNormals();
-
-  return geometry;
-};
-
-// Method 3: Optimized Ear-Clipping with Quality Improvements
-const createOptimizedEarClippingGeometry = (
-  vertices: { x: number; z: number }[],
-): THREE.BufferGeometry => {
-  const geometry = new THREE.BufferGeometry();
-
-  // Enhanced ear-clipping with quality checks
-  const triangles = optimizedEarClipping(vertices);
-
-  const positions: number[] = [];
-  const indices: number[] = [];
-  const normals: number[] = [];
-  const uvs: number[] = [];
-
-  // Calculate centroid for better UV mapping
-  const centroid = {
-    x: vertices.reduce((sum, v) => sum + v.x, 0) / vertices.length,
-    z: vertices.reduce((sum, v) => sum + v.z, 0) / vertices.length,
-  };
-
-  // Calculate maximum distance for UV normalization
-  let maxDistance = 0;
-  vertices.forEach((v) => {
-    const distance = Math.sqrt((v.x - centroid.x) ** 2 + (v.z - centroid.z) ** 2);
-    maxDistance = Math.max(maxDistance, distance);
-  });
-
-  // Add vertices with radial UV mapping
-  vertices.forEach((v) => {
-    positions.push(v.x, 0, v.z);
-    normals.push(0, 1, 0);
-
-    // Radial UV mapping for better material distribution
-    const dx = v.x - centroid.x;
-    const dz = v.z - centroid.z;
-    const distance = Math.sqrt(dx * dx + dz * dz);
-    const angle = Math.atan2(dz, dx);
-
-    uvs.push(
-      ((Math.cos(angle) * distance) / maxDistance + 1) / 2,
-      ((Math.sin(angle) * distance) / maxDistance + 1) / 2,
-    );
-  });
-
-  // Add optimized triangle indices
-  triangles.forEach((triangle) => {
-    indices.push(triangle[0], triangle[1], triangle[2]);
-  });
-
-  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
-  geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
-  geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
-  geometry.setIndex(indices);
-
-  return geometry;
-};
-
-// Delaunay Triangulation Implementation
-const delaunayTriangulation = (vertices: { x: number; z: number }[]): number[][] => {
-  if (vertices.length < 3) {
-    return [];
-  }
-
-  // Simplified Bowyer-Watson algorithm
-  const triangles: number[][] = [];
-
-  // Create super triangle that encompasses all points
-  const bounds = getBounds(vertices);
-  const superTriangle = createSuperTriangle(bounds);
-  const allVertices = [...vertices, ...superTriangle];
-
-  triangles.push([vertices.length, vertices.length + 1, vertices.length + 2]);
-
-  // Add each vertex one by one
-  for (let i = 0; i < vertices.length; i++) {
-    const vertex = vertices[i];
-    const badTriangles: number[] = [];
-
-    // Find triangles whose circumcircle contains the vertex
-    for (let j = 0; j < triangles.length; j++) {
-      const triangle = triangles[j];
-      if (
-        inCircumcircle(
-          vertex,
-          allVertices[triangle[0]],
-          allVertices[triangle[1]],
-          allVertices[triangle[2]],
-        )
-      ) {
-        badTriangles.push(j);
-      }
-    }
-
-    // Find boundary of polygonal hole
-    const polygon: Array<[number, number]> = [];
-    for (const badTriangleIndex of badTriangles) {
-      const triangle = triangles[badTriangleIndex];
-      for (let k = 0; k < 3; k++) {
-        const edge: [number, number] = [triangle[k], triangle[(k + 1) % 3]];
-
-        // Check if edge is shared with another bad triangle
-        let isShared = false;
-        for (const otherBadTriangleIndex of badTriangles) {
-          if (otherBadTriangleIndex === badTriangleIndex) {
-            continue;
-          }
-          const otherTriangle = triangles[otherBadTriangleIndex];
-
-          if (hasEdge(otherTriangle, edge[0], edge[1])) {
-            isShared = true;
-            break;
-          }
-        }
-
-        if (!isShared) {
-          polygon.push(edge);
-        }
-      }
-    }
-
-    // Remove bad triangles
-    for (let j = badTriangles.length - 1; j >= 0; j--) {
-      triangles.splice(badTriangles[j], 1);
-    }
-
-    // Add new triangles formed by connecting vertex to polygon boundary
-    for (const edge of polygon) {
-      triangles.push([i, edge[0], edge[1]]);
-    }
-  }
-
-  // Remove triangles that contain super triangle vertices
-  return triangles.filter(
-    (triangle) =>
-      triangle[0] < vertices.length &&
-      triangle[1] < vertices.length &&
-      triangle[2] < vertices.length,
-  );
-};
-
-// Optimized Ear-Clipping Implementation
-const optimizedEarClipping = (vertices: { x: number; z: number }[]): number[][] => {
-  if (vertices.length < 3) {
-    return [];
-  }
-  if (vertices.length === 3) {
-    return [[0, 1, 2]];
-  }
-
-  const triangles: number[][] = [];
-  const remaining = vertices.map((_, i) => i);
-
-  // Pre-calculate vertex types (convex/reflex)
-  const isConvex = remaining.map((i) => isVertexConvex(vertices, i));
-
-  while (remaining.length > 3) {
-    let earFound = false;
-
-    // Prioritize convex vertices for better triangle quality
-    const convexVertices = remaining.filter((_, i) => isConvex[remaining[i]]);
-    const searchOrder = [
-      ...convexVertices,
-      ...remaining.filter((_, i) => !isConvex[remaining[i]]),
-    ];
-
-    for (const vertexIndex of searchOrder) {
-      const i = remaining.indexOf(vertexIndex);
-      if (i === -1) {
-        continue;
-      }
-
-      const prev = remaining[(i - 1 + remaining.length) % remaining.length];
-      const curr = remaining[i];
-      const next = remaining[(i + 1) % remaining.length];
-
-      if (isEar(vertices, prev, curr, next, remaining)) {
-        triangles.push([prev, curr, next]);
-        remaining.splice(i, 1);
-
-        // Update convexity for neighboring vertices
-        const prevIndex = remaining.indexOf(prev);
-        const nextIndex = remaining.indexOf(next);
-        if (prevIndex !== -1) {
-          isConvex[prev] = isVertexConvex(vertices, prev);
-        }
-        if (nextIndex !== -1) {
-          isConvex[next] = isVertexConvex(vertices, next);
-        }
-
-        earFound = true;
-        break;
-      }
-    }
-
-    if (!earFound) {
-      // Fallback: create fan triangulation
-      for (let i = 1; i < remaining.length - 1; i++) {
-        triangles.push([remaining[0], remaining[i], remaining[i + 1]]);
-      }
-      break;
-    }
-  }
-
-  if (remaining.length === 3) {
-    triangles.push([remaining[0], remaining[1], remaining[2]]);
-  }
-
-  return triangles;
-};
-
-// Helper Functions
-const getBounds = (vertices: { x: number; z: number }[]) => {
-  let minX = Infinity,
-    maxX = -Infinity,
-    minZ = Infinity,
-    maxZ = -Infinity;
-  vertices.forEach((v) => {
-    minX = Math.min(minX, v.x);
-    maxX = Math.max(maxX, v.x);
-    minZ = Math.min(minZ, v.z);
-    maxZ = Math.max(maxZ, v.z);
-  });
-  return { minX, maxX, minZ, maxZ };
-};
-
-const createSuperTriangle = (bounds: {
-  minX: number;
-  maxX: number;
-  minZ: number;
-  maxZ: number;
-}) => {
-  const width = bounds.maxX - bounds.minX;
-  const height = bounds.maxZ - bounds.minZ;
-  const centerX = (bounds.minX + bounds.maxX) / 2;
-  const centerZ = (bounds.minZ + bounds.maxZ) / 2;
-  const size = Math.max(width, height) * 3;
-
-  return [
-    { x: centerX, z: centerZ - size },
-    { x: centerX - size, z: centerZ + size },
-    { x: centerX + size, z: centerZ + size },
-  ];
-};
-
-const inCircumcircle = (
-  p: { x: number; z: number },
-  a: { x: number; z: number },
-  b: { x: number; z: number },
-  c: { x: number; z: number },
-): boolean => {
-  const ax = a.x - p.x;
-  const ay = a.z - p.z;
-  const bx = b.x - p.x;
-  const by = b.z - p.z;
-  const cx = c.x - p.x;
-  const cy = c.z - p.z;
-
-  const det =
-    (ax * ax + ay * ay) * (bx * cy - by * cx) +
-    (bx * bx + by * by) * (cx * ay - cy * ax) +
-    (cx * cx + cy * cy) * (ax * by - ay * bx);
-
-  return det > 0;
-};
-
-const hasEdge = (triangle: number[], v1: number, v2: number): boolean =>
-  triangle.includes(v1) && triangle.includes(v2);
-
-const isVertexConvex = (vertices: { x: number; z: number }[], index: number): boolean => {
-  const n = vertices.length;
-  const prev = vertices[(index - 1 + n) % n];
-  const curr = vertices[index];
-  const next = vertices[(index + 1) % n];
-
-  const cross =
-    (curr.x - prev.x) * (next.z - curr.z) - (curr.z - prev.z) * (next.x - curr.x);
-  return cross > 0;
-};
-
 // Polygon offset algorithm for creating interior boundaries
 const _offsetPolygon = (
   vertices: { x: number; z: number }[],
@@ -2272,7 +1923,7 @@ const createModernWindow = (
   );
   const wallLength = wallVector.length();
 
-  if (wallLength < 2.5) {
+  if (wallLength < windowPlacement.width) {
     return windowGroup;
   }
 
@@ -2280,10 +1931,11 @@ const createModernWindow = (
   const windowHeight = windowPlacement.height;
   const windowBottom = windowPlacement.bottomHeight;
 
+  const windowCenter = WallOpenings.getPointAt(wall, windowPlacement.offset);
   const windowPosition = new THREE.Vector3(
-    windowPlacement.position.x,
+    windowCenter.x,
     windowBottom + windowHeight / 2,
-    windowPlacement.position.z,
+    windowCenter.z,
   );
 
   // Modern glass - large single pane
@@ -2355,7 +2007,7 @@ const createClassicWindow = (
   );
   const wallLength = wallVector.length();
 
-  if (wallLength < 2.5) {
+  if (wallLength < windowPlacement.width) {
     return windowGroup;
   }
 
@@ -2363,10 +2015,11 @@ const createClassicWindow = (
   const windowHeight = windowPlacement.height;
   const windowBottom = windowPlacement.bottomHeight;
 
+  const windowCenter = WallOpenings.getPointAt(wall, windowPlacement.offset);
   const windowPosition = new THREE.Vector3(
-    windowPlacement.position.x,
+    windowCenter.x,
     windowBottom + windowHeight / 2,
-    windowPlacement.position.z,
+    windowCenter.z,
   );
 
   // Classic divided glass panes
@@ -2466,7 +2119,7 @@ const createIndustrialWindow = (
   );
   const wallLength = wallVector.length();
 
-  if (wallLength < 2.5) {
+  if (wallLength < windowPlacement.width) {
     return windowGroup;
   }
 
@@ -2474,10 +2127,11 @@ const createIndustrialWindow = (
   const windowHeight = windowPlacement.height;
   const windowBottom = windowPlacement.bottomHeight;
 
+  const windowCenter = WallOpenings.getPointAt(wall, windowPlacement.offset);
   const windowPosition = new THREE.Vector3(
-    windowPlacement.position.x,
+    windowCenter.x,
     windowBottom + windowHeight / 2,
-    windowPlacement.position.z,
+    windowCenter.z,
   );
 
   // Industrial grid glass
@@ -2577,7 +2231,7 @@ const _createOptimizedWindow = (
   );
   const wallLength = wallVector.length();
 
-  if (wallLength < 2.5) {
+  if (wallLength < windowPlacement.width) {
     return windowGroup;
   }
 
@@ -2587,10 +2241,11 @@ const _createOptimizedWindow = (
   const windowBottom = windowPlacement.bottomHeight;
 
   // Use optimized position
+  const windowCenter = WallOpenings.getPointAt(wall, windowPlacement.offset);
   const windowPosition = new THREE.Vector3(
-    windowPlacement.position.x,
+    windowCenter.x,
     windowBottom + windowHeight / 2,
-    windowPlacement.position.z,
+    windowCenter.z,
   );
 
   // Window glass with better transparency
@@ -2793,9 +2448,94 @@ const _createWindow = (
   return windowGroup;
 };
 
+// Create a door frame with an open leaf showing the hinge side and swing direction
+const createDoorFrame = (
+  wall: Wall,
+  door: DoorPlacement,
+  walls: Wall[],
+  isDarkMode: boolean,
+): THREE.Group => {
+  const doorGroup = new THREE.Group();
+  doorGroup.name = `door-${door.id}`;
+
+  const frameThickness = 0.05;
+  const frameDepth = wall.thickness + 0.02;
+  const frameMaterial = new THREE.MeshStandardMaterial({
+    color: isDarkMode ? 0x5a4632 : 0x8b6b4a,
+    roughness: 0.7,
+    metalness: 0.05,
+  });
+
+  // Frame is built in wall-local space: X along the wall, Z across it
+  const frame = new THREE.Group();
+  const jambGeometry = new THREE.BoxGeometry(frameThickness, door.height, frameDepth);
+  [-1, 1].forEach((side) => {
+    const jamb = new THREE.Mesh(jambGeometry, frameMaterial);
+    jamb.position.set((side * (door.width + frameThickness)) / 2, door.height / 2, 0);
+    jamb.castShadow = true;
+    frame.add(jamb);
+  });
+  const head = new THREE.Mesh(
+    new THREE.BoxGeometry(door.width + frameThickness * 2, frameThickness, frameDepth),
+    frameMaterial,
+  );
+  head.position.set(0, door.height + frameThickness / 2, 0);
+  head.castShadow = true;
+  frame.add(head);
+
+  const center = WallOpenings.getPointAt(wall, door.offset);
+  const wallDir = WallOpenings.getWallDirection(wall);
+  frame.position.set(center.x, 0, center.z);
+  frame.quaternion.setFromUnitVectors(
+    new THREE.Vector3(1, 0, 0),
+    new THREE.Vector3(wallDir.x, 0, wallDir.z),
+  );
+  doorGroup.add(frame);
+
+  // Door leaf, opened 90° from the hinge towards the swing side
+  const { hinge, openEnd } = WallOpenings.getDoorSwing(wall, door, walls);
+  const leafDir = new THREE.Vector3(openEnd.x - hinge.x, 0, openEnd.z - hinge.z);
+  const leafWidth = Math.max(0.1, leafDir.length() - 0.02);
+  const leaf = new THREE.Mesh(
+    new THREE.BoxGeometry(leafWidth, door.height - 0.02, 0.04),
+    new THREE.MeshStandardMaterial({
+      color: isDarkMode ? 0x6b5440 : 0xc9a27e,
+      roughness: 0.6,
+      metalness: 0.05,
+    }),
+  );
+  leaf.position.set(
+    (hinge.x + openEnd.x) / 2,
+    (door.height - 0.02) / 2,
+    (hinge.z + openEnd.z) / 2,
+  );
+  leaf.quaternion.setFromUnitVectors(new THREE.Vector3(1, 0, 0), leafDir.normalize());
+  leaf.castShadow = true;
+  doorGroup.add(leaf);
+
+  return doorGroup;
+};
+
+// Another level of the building, drawn around the one being edited
+export interface StackedLevel {
+  id: string;
+  offset: number; // Height of its floor above the edited level's floor
+  stairRise: number; // How far its stairs climb
+  walls: Wall[];
+  doors: DoorPlacement[];
+  windows: WindowPlacement[];
+  objects: RoomObject[];
+}
+
 interface ThreeCanvasProps {
   walls: Wall[];
+  doors?: DoorPlacement[];
+  windows?: WindowPlacement[];
+  onWindowsChange?: (windows: WindowPlacement[]) => void;
   objects?: RoomObject[];
+  onObjectsChange?: (objects: RoomObject[]) => void; // After a move, paint, add or delete
+  onWallPaint?: (wallId: string, color: string) => void;
+  readOnly?: boolean; // View and orbit only, e.g. for shared rooms
   gridEnabled: boolean;
   isDarkMode: boolean;
   showWindows?: boolean;
@@ -2816,6 +2556,10 @@ interface ThreeCanvasProps {
     addObject: (type: string, position?: { x: number; z: number }) => void;
     getObjects: () => THREE.Object3D[];
   }>;
+  focus?: DiagnosticFocus | null; // Validation issue to highlight and frame
+  ceiling?: CeilingSettings; // Walls are cut off under a sloped ceiling
+  otherLevels?: StackedLevel[]; // Shown for context; the edited level stays at y = 0
+  stairRise?: number; // How far stairs on the edited level climb
 }
 
 // Furniture Creation Functions
@@ -2872,6 +2616,49 @@ const createChair = (isDarkMode: boolean): THREE.Group => {
   return chairGroup;
 };
 
+// Paint every mesh of an object; an empty color restores the original materials
+const applyObjectColor = (target: THREE.Object3D, color: string) => {
+  if ((target.userData.color ?? '') === color) {
+    return;
+  }
+  target.traverse((c) => {
+    const mesh = c as THREE.Mesh;
+    if (!mesh.isMesh || Array.isArray(mesh.material) || !mesh.material) {
+      return;
+    }
+    const material = mesh.material as THREE.MeshStandardMaterial;
+    if (!('color' in material)) {
+      return;
+    }
+    if (!mesh.userData.baseColor) {
+      mesh.userData.baseColor = material.color.clone();
+    }
+    mesh.material = material.clone();
+    const painted = (mesh.material as THREE.MeshStandardMaterial).color;
+    if (color) {
+      painted.set(color);
+    } else {
+      painted.copy(mesh.userData.baseColor);
+    }
+    // Keep the drag feedback from reverting to the pre-paint color
+    if (mesh.userData.origColor) {
+      mesh.userData.origColor = painted.clone();
+    }
+  });
+  target.userData.color = color;
+};
+
+// Serializable state of a placed object, as kept in the room history
+const toRoomObject = (obj: THREE.Object3D): RoomObject => ({
+  id: String(obj.userData.objectId ?? obj.uuid),
+  type: String(obj.userData.objectType ?? obj.userData.type),
+  position: { x: obj.position.x, y: obj.position.y, z: obj.position.z },
+  rotation: { x: obj.rotation.x, y: obj.rotation.y, z: obj.rotation.z },
+  scale: { x: obj.scale.x, y: obj.scale.y, z: obj.scale.z },
+  color: String(obj.userData.color ?? ''),
+  ...(obj.userData.levelId ? { levelId: String(obj.userData.levelId) } : {}),
+});
+
 // Utility to finalize object metadata
 const finalizeObject = (group: THREE.Group, type: string, canPlaceOn: string[] = []) => {
   group.name = `furniture-${type}-${Date.now()}`;
@@ -3257,6 +3044,144 @@ const createSink = (isDarkMode: boolean): THREE.Group => {
   return sinkGroup;
 };
 
+const STAIR_STEPS = 14;
+const STAIR_TREAD = 0.28;
+const SLAB_THICKNESS = 0.2;
+
+// Straight flight climbing along +z. The flight is built one unit tall and scaled to
+// the rise, so it can follow changes to the level heights
+const createStairs = (isDarkMode: boolean, rise: number): THREE.Group => {
+  const stairsGroup = new THREE.Group();
+  const flight = new THREE.Group();
+  flight.name = 'stair-flight';
+
+  const stepMaterial = new THREE.MeshStandardMaterial({
+    color: isDarkMode ? 0x4a3b2a : 0xa0784f,
+    roughness: 0.7,
+  });
+  const length = STAIR_STEPS * STAIR_TREAD;
+  for (let i = 0; i < STAIR_STEPS; i++) {
+    const height = (i + 1) / STAIR_STEPS;
+    const step = new THREE.Mesh(
+      new THREE.BoxGeometry(1, height, STAIR_TREAD),
+      stepMaterial,
+    );
+    step.position.set(0, height / 2, -length / 2 + STAIR_TREAD * (i + 0.5));
+    flight.add(step);
+  }
+  flight.scale.y = rise;
+  stairsGroup.add(flight);
+
+  stairsGroup.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.castShadow = true;
+      child.receiveShadow = true;
+    }
+  });
+
+  return stairsGroup;
+};
+
+// Walls with their openings, floor slab and stairs of another level; view only
+const createStackedLevel = (
+  level: StackedLevel,
+  wallMaterial: 'paint' | 'brick' | 'stone' | 'wood' | 'metal',
+  isDarkMode: boolean,
+): THREE.Group => {
+  const group = new THREE.Group();
+  group.name = `level-${level.id}`;
+  group.position.y = level.offset;
+
+  level.walls.forEach((wall) => {
+    if (WallArc.isArc(wall)) {
+      group.add(createArcWall(wall, createWallMaterials(wallMaterial, isDarkMode)));
+      return;
+    }
+    const length = Math.hypot(wall.end.x - wall.start.x, wall.end.z - wall.start.z);
+    if (length < 1e-6) {
+      return;
+    }
+    const materials = createWallMaterials(wallMaterial, isDarkMode);
+    if (wall.color) {
+      materials[0].color.set(wall.color);
+    }
+    const wallGroup = new THREE.Group();
+    wallGroup.position.set(
+      (wall.start.x + wall.end.x) / 2,
+      0,
+      (wall.start.z + wall.end.z) / 2,
+    );
+    wallGroup.quaternion.setFromUnitVectors(
+      new THREE.Vector3(1, 0, 0),
+      new THREE.Vector3(
+        wall.end.x - wall.start.x,
+        0,
+        wall.end.z - wall.start.z,
+      ).divideScalar(length),
+    );
+    WallOpenings.splitWall(length, wall.height, [
+      ...WallOpenings.reconcileDoors(
+        level.doors.filter((d) => d.wallId === wall.id),
+        [wall],
+      ).map((d) => WallOpenings.doorToOpening(d)),
+      ...WallOpenings.reconcileWindows(
+        level.windows.filter((w) => w.wallId === wall.id),
+        [wall],
+      ).map((w) => WallOpenings.windowToOpening(w)),
+    ]).forEach((piece) => {
+      const pieceMesh = new THREE.Mesh(
+        new THREE.BoxGeometry(
+          piece.end - piece.start,
+          piece.top - piece.bottom,
+          wall.thickness,
+        ),
+        materials[0],
+      );
+      pieceMesh.position.set(
+        (piece.start + piece.end) / 2 - length / 2,
+        (piece.bottom + piece.top) / 2,
+        0,
+      );
+      pieceMesh.castShadow = true;
+      pieceMesh.receiveShadow = true;
+      wallGroup.add(pieceMesh);
+    });
+    group.add(wallGroup);
+  });
+
+  // Floor slab under the level's footprint
+  if (level.walls.length > 0) {
+    const points = level.walls.flatMap((wall) => WallArc.tessellate(wall));
+    const minX = Math.min(...points.map((p) => p.x));
+    const maxX = Math.max(...points.map((p) => p.x));
+    const minZ = Math.min(...points.map((p) => p.z));
+    const maxZ = Math.max(...points.map((p) => p.z));
+    const slab = new THREE.Mesh(
+      new THREE.BoxGeometry(maxX - minX, SLAB_THICKNESS, maxZ - minZ),
+      new THREE.MeshStandardMaterial({
+        color: isDarkMode ? 0x374151 : 0xd1d5db,
+        roughness: 0.9,
+      }),
+    );
+    slab.name = 'level-slab';
+    slab.position.set((minX + maxX) / 2, -SLAB_THICKNESS / 2, (minZ + maxZ) / 2);
+    slab.receiveShadow = true;
+    group.add(slab);
+  }
+
+  level.objects
+    .filter((object) => object.type === 'stairs')
+    .forEach((object) => {
+      const stairs = createStairs(isDarkMode, level.stairRise);
+      stairs.position.set(object.position.x, object.position.y, object.position.z);
+      stairs.rotation.set(object.rotation.x, object.rotation.y, object.rotation.z);
+      stairs.scale.set(object.scale.x, object.scale.y, object.scale.z);
+      group.add(stairs);
+    });
+
+  return group;
+};
+
 // Function to add furniture to room based on size and layout
 const addRoomFurniture = (
   wallGroup: THREE.Group,
@@ -3576,10 +3501,17 @@ const addRoomFurniture = (
 };
 
 const OBJECT_SPACING = 1.0; // Minimum gap between furniture objects
+const NO_LEVELS: StackedLevel[] = [];
 
 const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
   walls,
-  objects: _objects = [],
+  doors = [],
+  windows = [],
+  onWindowsChange,
+  objects,
+  onObjectsChange,
+  onWallPaint,
+  readOnly = false,
   gridEnabled,
   isDarkMode,
   showWindows = true,
@@ -3591,15 +3523,23 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
   activeTool = 'select',
   selectedColor = '#ffffff',
   apiRef,
+  focus = null,
+  ceiling = Ceiling.DEFAULT,
+  otherLevels = NO_LEVELS,
+  stairRise = 3,
 }) => {
   const mountRef = useRef<HTMLDivElement>(null);
 
   // --- API exposed to parent components ---
-  const addObject = (type: string, position?: { x: number; z: number }) => {
+  const createObject = (
+    type: string,
+    position?: { x: number; z: number },
+    objectId?: string,
+  ): THREE.Object3D | null => {
     console.log('ThreeCanvas addObject called:', type, position);
     if (!sceneRef.current) {
       console.log('No scene available');
-      return;
+      return null;
     }
 
     let obj: THREE.Group | null = null;
@@ -3633,6 +3573,9 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
       case 'fridge':
         obj = finalizeObject(createRefrigerator(isDarkMode), 'fridge');
         break;
+      case 'stairs':
+        obj = finalizeObject(createStairs(isDarkMode, stairRise), 'stairs');
+        break;
       case 'paint': {
         const cube = new THREE.Mesh(
           new THREE.BoxGeometry(0.4, 0.4, 0.4),
@@ -3651,7 +3594,7 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
       }
       default:
         console.warn(`Unsupported object type: ${type}`);
-        return;
+        return null;
     }
 
     // Find a random position that doesn't overlap with existing objects
@@ -3739,9 +3682,30 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
     const finalPosition = position || findValidPosition();
     const minY = obj.userData.minY ?? 0;
     obj.position.set(finalPosition.x, -minY, finalPosition.z);
+    obj.userData.objectId =
+      objectId ?? `object-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+    obj.userData.objectType = type;
     sceneRef.current.add(obj);
     draggableObjectsRef.current.push(obj);
     console.log('Object added successfully:', type, obj.position);
+    return obj;
+  };
+
+  // Publish the scene's objects so moves, paint and deletes become undoable
+  const reportObjects = () => {
+    const next = draggableObjectsRef.current.map(toRoomObject);
+    // A click without movement is not an edit
+    if (JSON.stringify(next) === JSON.stringify(reportedObjectsRef.current ?? [])) {
+      return;
+    }
+    reportedObjectsRef.current = next;
+    onObjectsChangeRef.current?.(next);
+  };
+
+  const addObject = (type: string, position?: { x: number; z: number }) => {
+    if (createObject(type, position)) {
+      reportObjects();
+    }
   };
 
   useImperativeHandle(apiRef, () => ({
@@ -3762,10 +3726,35 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
   useEffect(() => {
     activeToolRef.current = activeTool;
   }, [activeTool]);
+  const readOnlyRef = useRef(readOnly);
+  useEffect(() => {
+    readOnlyRef.current = readOnly;
+  }, [readOnly]);
   const colorRef = useRef(selectedColor);
   useEffect(() => {
     colorRef.current = selectedColor;
   }, [selectedColor]);
+  const windowsRef = useRef(windows);
+  const onWindowsChangeRef = useRef(onWindowsChange);
+  useEffect(() => {
+    windowsRef.current = windows;
+    onWindowsChangeRef.current = onWindowsChange;
+  }, [windows, onWindowsChange]);
+  const onObjectsChangeRef = useRef(onObjectsChange);
+  const onWallPaintRef = useRef(onWallPaint);
+  useEffect(() => {
+    onObjectsChangeRef.current = onObjectsChange;
+    onWallPaintRef.current = onWallPaint;
+  }, [onObjectsChange, onWallPaint]);
+  // The factory closes over the theme and scene, so syncing objects calls the latest one
+  const createObjectRef = useRef(createObject);
+  useEffect(() => {
+    createObjectRef.current = createObject;
+  });
+  // Wall outline the camera was last centered on, so paint and openings don't reset the view
+  const centeredOutlineRef = useRef<string | null>(null);
+  // Last object list we published or applied, to tell our own echoes from undo/redo
+  const reportedObjectsRef = useRef<RoomObject[] | null>(null);
   const internalRendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
@@ -3778,6 +3767,8 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
     { start: { x: number; z: number }; end: { x: number; z: number } }[]
   >([]);
   const floorGroupRef = useRef<THREE.Group>(new THREE.Group());
+  const ceilingGroupRef = useRef<THREE.Group>(new THREE.Group());
+  const levelsGroupRef = useRef<THREE.Group>(new THREE.Group());
   const measurementGroupRef = useRef<THREE.Group>(new THREE.Group());
 
   // Furniture dragging refs
@@ -3792,12 +3783,20 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
   const selectedObjectRef = useRef<THREE.Object3D | null>(null);
   const isRotatingRef = useRef<boolean>(false);
 
+  // Window sliding/resizing refs
+  const processedWallsRef = useRef<Wall[]>([]);
+  const windowDragRef = useRef<{
+    mode: 'move' | 'resize';
+    group: THREE.Object3D;
+    wall: Wall;
+    placement: WindowPlacement;
+    pending: WindowPlacement;
+  } | null>(null);
+
   const [isFloorplanValid, _setIsFloorplanValid] = useState(false);
   const [processedWalls, setProcessedWalls] = useState<Wall[]>([]);
   const [hoverName, setHoverName] = useState<string>('');
   const [fpMode, setFpMode] = useState(false);
-  const [objUndo, setObjUndo] = useState<THREE.Object3D[][]>([]);
-  const [objRedo, setObjRedo] = useState<THREE.Object3D[][]>([]);
 
   // --- Main setup effect (runs only once) ---
   useEffect(() => {
@@ -3809,6 +3808,9 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
     // --- Core Scene Setup ---
     const scene = new THREE.Scene();
     sceneRef.current = scene;
+    // Furniture is rebuilt from the objects prop for every new scene
+    draggableObjectsRef.current = [];
+    reportedObjectsRef.current = null;
 
     // --- Skybox ---
     try {
@@ -3930,6 +3932,8 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
     // --- Add groups to scene ---
     scene.add(wallGroupRef.current);
     scene.add(floorGroupRef.current);
+    scene.add(ceilingGroupRef.current);
+    scene.add(levelsGroupRef.current);
     scene.add(measurementGroupRef.current);
 
     // --- Advanced Lighting Setup ---
@@ -4026,6 +4030,33 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
     const raycaster = new THREE.Raycaster();
     const dragPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0); // y=0 plane
 
+    // Find the user-placed window under the pointer, if nothing is in front of it
+    const pickWindow = (): THREE.Object3D | null => {
+      const hit = raycaster.intersectObjects(wallGroupRef.current.children, true)[0];
+      let target = hit?.object ?? null;
+      while (target?.parent && !target.userData.type) {
+        target = target.parent;
+      }
+      return target?.userData.type === 'window' ? target : null;
+    };
+
+    const startWindowDrag = (target: THREE.Object3D, mode: 'move' | 'resize') => {
+      const placement = windowsRef.current.find((w) => w.id === target.userData.windowId);
+      const wall = processedWallsRef.current.find((w) => w.id === placement?.wallId);
+      if (!placement || !wall) {
+        return false;
+      }
+      windowDragRef.current = {
+        mode,
+        group: target,
+        wall,
+        placement,
+        pending: placement,
+      };
+      controls.enabled = false;
+      return true;
+    };
+
     const onPointerDown = (e: PointerEvent) => {
       const rect = renderer.domElement.getBoundingClientRect();
       const mouse = new THREE.Vector2(
@@ -4050,6 +4081,10 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
         }
       }
 
+      if (readOnlyRef.current) {
+        return;
+      }
+
       // Handle paint tool
       if (activeToolRef.current === 'paint') {
         const allTargets = [
@@ -4062,7 +4097,13 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
           while (target.parent && !target.userData.type) {
             target = target.parent;
           }
-          if (target.userData.type === 'wall' || target.userData.colorable) {
+          if (!target.userData.isObject && target.userData.wallId) {
+            onWallPaintRef.current?.(target.userData.wallId, colorRef.current);
+          }
+          if (target.userData.isObject) {
+            applyObjectColor(target, colorRef.current);
+            reportObjects();
+          } else if (target.userData.type === 'wall' || target.userData.colorable) {
             target.traverse((c) => {
               if ((c as THREE.Mesh).isMesh) {
                 const mesh = c as THREE.Mesh;
@@ -4101,13 +4142,15 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
 
       // Handle delete tool
       if (activeToolRef.current === 'delete') {
+        const windowHit = pickWindow();
+        if (windowHit) {
+          onWindowsChangeRef.current?.(
+            windowsRef.current.filter((w) => w.id !== windowHit.userData.windowId),
+          );
+          return;
+        }
         const dhit = raycaster.intersectObjects(draggableObjectsRef.current, true)[0];
         if (dhit) {
-          // Push undo before deleting
-          const snapshot = draggableObjectsRef.current.map((o) => o.clone());
-          setObjUndo((prev) => [snapshot, ...prev]);
-          setObjRedo([]);
-
           let obj: THREE.Object3D = dhit.object;
           while (obj.parent && !obj.name?.startsWith('furniture-')) {
             obj = obj.parent;
@@ -4116,12 +4159,17 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
             (o) => o !== obj,
           );
           obj.parent?.remove(obj);
+          reportObjects();
         }
         return;
       }
 
       // Handle resize tool (select)
       if (activeToolRef.current === 'resize') {
+        const windowHit = pickWindow();
+        if (windowHit && startWindowDrag(windowHit, 'resize')) {
+          return;
+        }
         const rhit = raycaster.intersectObjects(draggableObjectsRef.current, true)[0];
         if (rhit) {
           selectedObjectRef.current = rhit.object;
@@ -4136,7 +4184,11 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
         return;
       }
 
-      // Default drag tool
+      // Default drag tool - windows slide along their wall
+      const windowHit = pickWindow();
+      if (windowHit && startWindowDrag(windowHit, 'move')) {
+        return;
+      }
       const hits = raycaster.intersectObjects(draggableObjectsRef.current, true);
       if (hits.length > 0) {
         let furniture = hits[0].object;
@@ -4158,6 +4210,60 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
     };
 
     const onPointerMove = (e: PointerEvent) => {
+      if (windowDragRef.current) {
+        const drag = windowDragRef.current;
+        let next: WindowPlacement | undefined;
+
+        if (drag.mode === 'resize') {
+          // Horizontal movement changes the width, vertical movement the sill height
+          next = WallOpenings.reconcileWindows(
+            [
+              {
+                ...drag.pending,
+                width: drag.pending.width + (e.movementX || 0) * 0.01,
+                bottomHeight: drag.pending.bottomHeight - (e.movementY || 0) * 0.01,
+              },
+            ],
+            [drag.wall],
+          )[0];
+        } else {
+          const rect = renderer.domElement.getBoundingClientRect();
+          raycaster.setFromCamera(
+            new THREE.Vector2(
+              ((e.clientX - rect.left) / rect.width) * 2 - 1,
+              -((e.clientY - rect.top) / rect.height) * 2 + 1,
+            ),
+            camera,
+          );
+          const dir = WallOpenings.getWallDirection(drag.wall);
+          const wallPlane = new THREE.Plane().setFromNormalAndCoplanarPoint(
+            new THREE.Vector3(-dir.z, 0, dir.x),
+            new THREE.Vector3(drag.wall.start.x, 0, drag.wall.start.z),
+          );
+          const hit = raycaster.ray.intersectPlane(wallPlane, new THREE.Vector3());
+          if (hit) {
+            const offset =
+              (hit.x - drag.wall.start.x) * dir.x + (hit.z - drag.wall.start.z) * dir.z;
+            next = WallOpenings.reconcileWindows(
+              [{ ...drag.pending, offset }],
+              [drag.wall],
+            )[0];
+          }
+        }
+
+        if (next) {
+          // Preview on the existing mesh; the wall opening is rebuilt on release
+          const center = WallOpenings.getPointAt(drag.wall, next.offset);
+          drag.group.position.set(
+            center.x,
+            next.bottomHeight + next.height / 2,
+            center.z,
+          );
+          drag.group.scale.x = next.width / drag.placement.width;
+          drag.pending = next;
+        }
+        return;
+      }
       if (activeToolRef.current === 'resize') {
         if (selectedObjectRef.current) {
           const dy = e.movementY || 0;
@@ -4284,6 +4390,15 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
     };
 
     const onPointerUp = () => {
+      if (windowDragRef.current) {
+        const { pending } = windowDragRef.current;
+        windowDragRef.current = null;
+        controls.enabled = true;
+        onWindowsChangeRef.current?.(
+          windowsRef.current.map((w) => (w.id === pending.id ? pending : w)),
+        );
+        return;
+      }
       // --- Stacking logic ---
       if (selectedObjectRef.current) {
         const obj = selectedObjectRef.current as THREE.Group;
@@ -4327,6 +4442,7 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
             }
           }
         });
+        reportObjects();
       }
       draggedRef.current = null;
       selectedObjectRef.current = null;
@@ -4348,42 +4464,9 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
     renderer.domElement.addEventListener('wheel', handleWheel, { passive: false });
 
     // --- Cleanup ---
-    // Undo/Redo keyboard shortcuts
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.ctrlKey && e.key === 'z') {
-        if (objUndo.length > 0) {
-          const snapshot = draggableObjectsRef.current.map((o) => o.clone());
-          setObjRedo((prev) => [snapshot, ...prev]);
-
-          const restore = objUndo[0];
-          draggableObjectsRef.current.forEach((o) => scene.remove(o));
-          draggableObjectsRef.current = [...restore];
-          restore.forEach((o) => scene.add(o));
-
-          setObjUndo((prev) => prev.slice(1));
-        }
-      }
-      if (e.ctrlKey && e.key === 'y') {
-        if (objRedo.length > 0) {
-          const snapshot = draggableObjectsRef.current.map((o) => o.clone());
-          setObjUndo((prev) => [snapshot, ...prev]);
-
-          const restore = objRedo[0];
-          draggableObjectsRef.current.forEach((o) => scene.remove(o));
-          draggableObjectsRef.current = [...restore];
-          restore.forEach((o) => scene.add(o));
-
-          setObjRedo((prev) => prev.slice(1));
-        }
-      }
-    };
-
-    window.addEventListener('keydown', handleKeyDown);
-
     return () => {
       cancelAnimationFrame(animationFrameId);
       window.removeEventListener('resize', handleResize);
-      window.removeEventListener('keydown', handleKeyDown);
       renderer.domElement.removeEventListener('pointerdown', onPointerDown);
       renderer.domElement.removeEventListener('pointermove', onPointerMove);
       renderer.domElement.removeEventListener('pointerup', onPointerUp);
@@ -4398,7 +4481,64 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
         }
       }
     };
-  }, [fpMode, isDarkMode, objRedo, objUndo, onScreenshot, rendererRef]); // Empty dependency array ensures this runs only once
+  }, [fpMode, isDarkMode, onScreenshot, rendererRef]); // Empty dependency array ensures this runs only once
+
+  // --- Bring scene objects in line with the objects prop (undo/redo, loading a design) ---
+  useEffect(() => {
+    if (!objects || !sceneRef.current || objects === reportedObjectsRef.current) {
+      return;
+    }
+    reportedObjectsRef.current = objects;
+
+    const wantedIds = new Set(objects.map((o) => o.id));
+    draggableObjectsRef.current = draggableObjectsRef.current.filter((obj) => {
+      if (wantedIds.has(obj.userData.objectId)) {
+        return true;
+      }
+      obj.parent?.remove(obj);
+      return false;
+    });
+
+    objects.forEach((state) => {
+      const obj =
+        draggableObjectsRef.current.find((o) => o.userData.objectId === state.id) ??
+        createObjectRef.current(
+          state.type,
+          { x: state.position.x, z: state.position.z },
+          state.id,
+        );
+      if (!obj) {
+        return;
+      }
+      obj.position.set(state.position.x, state.position.y, state.position.z);
+      obj.rotation.set(state.rotation.x, state.rotation.y, state.rotation.z);
+      obj.scale.set(state.scale.x, state.scale.y, state.scale.z);
+      obj.userData.levelId = state.levelId;
+      applyObjectColor(obj, state.color);
+    });
+  }, [objects, isDarkMode, fpMode]);
+
+  // --- Stairs follow the rise to the next level ---
+  useEffect(() => {
+    draggableObjectsRef.current
+      .filter((obj) => obj.userData.objectType === 'stairs')
+      .forEach((obj) => {
+        const flight = obj.getObjectByName('stair-flight');
+        if (flight) {
+          flight.scale.y = stairRise;
+          obj.userData.height = stairRise;
+        }
+      });
+  }, [stairRise, objects]);
+
+  // --- Other levels of the building, above and below the edited one ---
+  useEffect(() => {
+    const levelsGroup = levelsGroupRef.current;
+    levelsGroup.clear();
+    otherLevels.forEach((level) => {
+      levelsGroup.add(createStackedLevel(level, wallMaterial, isDarkMode));
+    });
+  }, [otherLevels, wallMaterial, isDarkMode]);
 
   // --- Update lighting and background on theme change ---
   useEffect(() => {
@@ -4464,6 +4604,7 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
   useEffect(() => {
     const wallGroup = wallGroupRef.current;
     const floorGroup = floorGroupRef.current;
+    const ceilingGroup = ceilingGroupRef.current;
     const camera = cameraRef.current;
     const controls = controlsRef.current;
 
@@ -4471,6 +4612,9 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
     let currentProcessedWalls = walls;
 
     if (walls.length > 0) {
+      // 0. Merge overlapping walls so a shared partition is drawn once
+      currentProcessedWalls = WallGraph.normalize(currentProcessedWalls).walls;
+
       // 1. Enable vertex snapping with precision alignment
       currentProcessedWalls = AdvancedGeometryEngine.snapVertices(currentProcessedWalls);
 
@@ -4503,6 +4647,7 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
 
     // Update state with processed walls
     setProcessedWalls(currentProcessedWalls);
+    processedWallsRef.current = currentProcessedWalls;
 
     // Store polygon vertices for later collision checks
     const polygonVerticesCalculated = ensureCounterClockwise(
@@ -4559,30 +4704,13 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
 
         // 1️⃣ Attempt accurate polygon-shaped floor that matches wall outline
         const orderedVertices = ensureCounterClockwise(
-          getOrderedVertices(currentProcessedWalls),
+          WallArc.expandOutline(
+            getOrderedVertices(currentProcessedWalls),
+            currentProcessedWalls,
+          ),
         );
         if (orderedVertices.length >= 3) {
-          const shape = new THREE.Shape();
-          shape.moveTo(orderedVertices[0].x, orderedVertices[0].z);
-          for (let i = 1; i < orderedVertices.length; i++) {
-            shape.lineTo(orderedVertices[i].x, orderedVertices[i].z);
-          }
-          shape.lineTo(orderedVertices[0].x, orderedVertices[0].z);
-
-          let floorGeometry: THREE.BufferGeometry | null = null;
-          try {
-            floorGeometry = new THREE.ShapeGeometry(shape);
-            floorGeometry.rotateX(Math.PI / 2);
-            // Validate geometry
-            floorGeometry.computeBoundingBox();
-            if (!floorGeometry.boundingBox || floorGeometry.boundingBox.isEmpty()) {
-              throw new Error('Empty floor bounding box');
-            }
-          } catch (err) {
-            console.warn('⚠️ ShapeGeometry failed, falling back to ear-clipping:', err);
-            floorGeometry = createOptimizedEarClippingGeometry(orderedVertices);
-            floorGeometry.rotateX(Math.PI / 2);
-          }
+          const floorGeometry = PolygonTriangulation.floorGeometry(orderedVertices);
 
           const floorMaterial = new THREE.MeshStandardMaterial({
             color: (() => {
@@ -4828,6 +4956,9 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
       );
     };
 
+    // Sloped ceilings span the whole plan; null for a flat one
+    const ceilingSurface = Ceiling.surface(ceiling, currentProcessedWalls);
+
     // --- Render Walls ---
     const renderWalls = () => {
       wallGroup.clear();
@@ -4836,16 +4967,12 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
         return;
       }
 
-      // 6. Optimize window placements
-      const { walls: wallsWithWindows, windows } =
-        AdvancedGeometryEngine.optimizeWindowPlacements(currentProcessedWalls);
-
       // Get ordered vertices to understand room shape
-      const orderedVertices = getOrderedVertices(wallsWithWindows);
-      const isValidRoom = isValidFloorplan(wallsWithWindows);
+      const orderedVertices = getOrderedVertices(currentProcessedWalls);
+      const isValidRoom = isValidFloorplan(currentProcessedWalls);
 
       // Enhanced wall rendering with better positioning and materials
-      wallsWithWindows.forEach((wall, index) => {
+      currentProcessedWalls.forEach((wall, index) => {
         const wallVector = new THREE.Vector3(
           wall.end.x - wall.start.x,
           0,
@@ -4857,31 +4984,44 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
           return;
         } // Skip very short walls
 
-        // Prepare dual-material geometry
-        const [interiorMat, exteriorMat] = createWallMaterials(wallMaterial, isDarkMode);
-        // BoxGeometry default groups: 0 right,1 left,2 top,3 bottom,4 front,5 back
-        // We map interior (room side) to group 4, exterior to group 5
-        const wallGeometry = new THREE.BoxGeometry(
-          wallLength,
-          wall.height,
-          wall.thickness,
-        );
-        // Ensure groups for custom materials
-        wallGeometry.groups.forEach((g, idx) => {
-          if (idx === 4) {
-            g.materialIndex = 0; // interior front
-          } else if (idx === 5) {
-            g.materialIndex = 1; // exterior back
-          } else {
-            g.materialIndex = 0; // reuse interior for ends/top/bottom
+        // Arc walls are extruded along their curve; openings are only cut in straight walls
+        if (WallArc.isArc(wall)) {
+          const arcWall = createArcWall(
+            wall,
+            createWallMaterials(wallMaterial, isDarkMode),
+          );
+          if (ceilingSurface) {
+            fitToCeiling(arcWall.geometry, ceilingSurface, 0, wall.height);
           }
-        });
+          arcWall.name = `wall-${index}`;
+          wallGroup.add(arcWall);
+          return;
+        }
 
-        const wallMesh = new THREE.Mesh(wallGeometry, [interiorMat, exteriorMat]);
+        // Doors and windows placed on this wall cut real openings into it
+        const wallDoors = WallOpenings.reconcileDoors(
+          doors.filter((d) => d.wallId === wall.id),
+          [wall],
+        );
+        const wallWindows = showWindows
+          ? WallOpenings.reconcileWindows(
+              windows.filter((w) => w.wallId === wall.id),
+              [wall],
+            )
+          : [];
+        const pieces = WallOpenings.splitWall(wallLength, wall.height, [
+          ...wallDoors.map((d) => WallOpenings.doorToOpening(d)),
+          ...wallWindows.map((w) => WallOpenings.windowToOpening(w)),
+        ]);
 
-        wallMesh.name = `wall-${index}`;
-        wallMesh.userData.type = 'wall';
-        wallMesh.userData.colorable = true;
+        // Prepare dual-material geometry
+        const [interiorMat, exteriorMat] = createWallMaterials(wallMaterial, isDarkMode);
+        if (wall.color) {
+          interiorMat.color.set(wall.color);
+        }
+
+        // Pieces live in a wall-local group so painting still colors the whole wall
+        const wallMesh = new THREE.Group();
 
         // Position wall at center point
         wallMesh.position.set(
@@ -4895,23 +5035,86 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
           new THREE.Vector3(1, 0, 0), // BoxGeometry's local X axis
           wallVector.clone().normalize(), // Desired direction
         );
+        wallMesh.updateMatrix();
+        const worldToWall = wallMesh.matrix.clone().invert();
+
+        // Under a sloped ceiling the wall's top follows the ceiling wherever it is lower
+        const isCutByCeiling =
+          ceilingSurface !== null &&
+          Ceiling.wallProfile(wall, ceilingSurface).some(
+            (point) => point.height < wall.height - 1e-6,
+          );
+
+        pieces.forEach((piece) => {
+          if (isCutByCeiling) {
+            const slopedGeometry = createSlopedWallGeometry(wall, piece, ceilingSurface);
+            if (slopedGeometry) {
+              slopedGeometry.applyMatrix4(worldToWall);
+              // Extrude groups: 0 caps (top and bottom), 1 sides
+              const slopedMesh = new THREE.Mesh(slopedGeometry, [
+                exteriorMat,
+                interiorMat,
+              ]);
+              slopedMesh.castShadow = true;
+              slopedMesh.receiveShadow = true;
+              wallMesh.add(slopedMesh);
+            }
+            return;
+          }
+
+          // BoxGeometry default groups: 0 right,1 left,2 top,3 bottom,4 front,5 back
+          // We map interior (room side) to group 4, exterior to group 5
+          const pieceGeometry = new THREE.BoxGeometry(
+            piece.end - piece.start,
+            piece.top - piece.bottom,
+            wall.thickness,
+          );
+          // Ensure groups for custom materials
+          pieceGeometry.groups.forEach((g, idx) => {
+            if (idx === 4) {
+              g.materialIndex = 0; // interior front
+            } else if (idx === 5) {
+              g.materialIndex = 1; // exterior back
+            } else {
+              g.materialIndex = 0; // reuse interior for ends/top/bottom
+            }
+          });
 
-        // Enable shadows
-        wallMesh.castShadow = true;
-        wallMesh.receiveShadow = true;
+          const pieceMesh = new THREE.Mesh(pieceGeometry, [interiorMat, exteriorMat]);
+          pieceMesh.position.set(
+            (piece.start + piece.end) / 2 - wallLength / 2,
+            (piece.bottom + piece.top) / 2 - wall.height / 2,
+            0,
+          );
+
+          // Enable shadows
+          pieceMesh.castShadow = true;
+          pieceMesh.receiveShadow = true;
+          wallMesh.add(pieceMesh);
+        });
+
+        wallMesh.name = `wall-${index}`;
+        wallMesh.userData.type = 'wall';
+        wallMesh.userData.colorable = true;
+        wallMesh.userData.wallId = wall.id;
 
         wallGroup.add(wallMesh);
 
+        // Add door frames and leaves
+        wallDoors.forEach((door) => {
+          wallGroup.add(createDoorFrame(wall, door, currentProcessedWalls, isDarkMode));
+        });
+
         // Add styled windows
-        if (showWindows) {
-          const wallWindows = windows.filter((w) => w.wallId === wall.id);
-          wallWindows.forEach((windowPlacement) => {
-            const windowGroup = createStyledWindow(wall, windowPlacement, windowStyle);
-            if (windowGroup.children.length > 0) {
-              wallGroup.add(windowGroup);
-            }
-          });
-        }
+        wallWindows.forEach((windowPlacement) => {
+          const windowGroup = createStyledWindow(wall, windowPlacement, windowStyle);
+          if (windowGroup.children.length > 0) {
+            windowGroup.name = `window-${windowPlacement.id}`;
+            windowGroup.userData.type = 'window';
+            windowGroup.userData.windowId = windowPlacement.id;
+            wallGroup.add(windowGroup);
+          }
+        });
 
         // Add wall length measurements
         if (wallLength > 0.5) {
@@ -4958,7 +5161,7 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
 
         orderedVertices.forEach((vertex, _index) => {
           // Find the average wall thickness at this corner
-          const connectedWalls = wallsWithWindows.filter(
+          const connectedWalls = currentProcessedWalls.filter(
             (wall) =>
               (Math.abs(wall.start.x - vertex.x) < 0.01 &&
                 Math.abs(wall.start.z - vertex.z) < 0.01) ||
@@ -4970,9 +5173,12 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
             const avgThickness =
               connectedWalls.reduce((sum, w) => sum + w.thickness, 0) /
               connectedWalls.length;
-            const avgHeight =
+            const wallsHeight =
               connectedWalls.reduce((sum, w) => sum + w.height, 0) /
               connectedWalls.length;
+            const avgHeight = ceilingSurface
+              ? Math.min(wallsHeight, Ceiling.heightAt(ceilingSurface, vertex))
+              : wallsHeight;
 
             // Use a cube instead of cylinder for sharp 90° corner
             const cornerGeometry = new THREE.BoxGeometry(
@@ -4991,12 +5197,42 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
       }
     };
 
+    // --- Render Ceiling ---
+    const renderCeiling = () => {
+      ceilingGroup.clear();
+      if (!isValidFloorplan(currentProcessedWalls)) {
+        return;
+      }
+      const outline = ensureCounterClockwise(
+        WallArc.expandOutline(
+          getOrderedVertices(currentProcessedWalls),
+          currentProcessedWalls,
+        ),
+      );
+      if (outline.length < 3) {
+        return;
+      }
+      // A flat ceiling rests on the tallest wall
+      const flatHeight = Math.max(...currentProcessedWalls.map((w) => w.height));
+      ceilingGroup.add(createCeiling(outline, ceilingSurface, flatHeight, isDarkMode));
+    };
+
     renderWalls();
     renderFloor();
+    renderCeiling();
     renderFurniture();
 
-    // --- Center camera on the room ---
-    if (camera && controls && currentProcessedWalls.length > 0) {
+    // --- Center camera on the room (only when the outline itself changed) ---
+    const outlineKey = JSON.stringify(
+      currentProcessedWalls.map((w) => [w.start.x, w.start.z, w.end.x, w.end.z]),
+    );
+    if (
+      camera &&
+      controls &&
+      currentProcessedWalls.length > 0 &&
+      outlineKey !== centeredOutlineRef.current
+    ) {
+      centeredOutlineRef.current = outlineKey;
       // 10. Generate room collider and bounding box
       const colliderData =
         AdvancedGeometryEngine.generateColliderAndBounds(currentProcessedWalls);
@@ -5017,7 +5253,90 @@ const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
 
       camera.position.set(centerX, cameraDistance, centerZ + cameraDistance);
     }
-  }, [walls, showWindows, isDarkMode, floorType, wallMaterial, windowStyle]);
+  }, [
+    walls,
+    doors,
+    windows,
+    showWindows,
+    isDarkMode,
+    floorType,
+    wallMaterial,
+    windowStyle,
+    ceiling,
+  ]);
+
+  // --- Highlight and frame the validation issue the user picked ---
+  useEffect(() => {
+    const scene = sceneRef.current;
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!scene || !focus) {
+      return;
+    }
+
+    const color = focus.issue.severity === 'error' ? 0xdc2626 : 0xd97706;
+    const material = new THREE.MeshBasicMaterial({
+      color,
+      transparent: true,
+      opacity: 0.45,
+      depthWrite: false,
+    });
+    const highlight = new THREE.Group();
+    highlight.name = 'diagnosticFocus';
+
+    focus.segments.forEach((segment) => {
+      const wall = processedWallsRef.current.find((w) => w.id === focus.issue.wallId);
+      const height = (wall?.height ?? 2.8) + 0.05;
+      const dx = segment.end.x - segment.start.x;
+      const dz = segment.end.z - segment.start.z;
+      const box = new THREE.Mesh(
+        new THREE.BoxGeometry(
+          Math.max(Math.hypot(dx, dz), 0.05),
+          height,
+          (wall?.thickness ?? 0.2) + 0.1,
+        ),
+        material,
+      );
+      box.position.set(
+        (segment.start.x + segment.end.x) / 2,
+        height / 2,
+        (segment.start.z + segment.end.z) / 2,
+      );
+      box.rotation.y = -Math.atan2(dz, dx);
+      highlight.add(box);
+    });
+
+    if (focus.point) {
+      const marker = new THREE.Mesh(
+        new THREE.CylinderGeometry(0.25, 0.25, 3, 24),
+        material,
+      );
+      marker.position.set(focus.point.x, 1.5, focus.point.z);
+      highlight.add(marker);
+    }
+    scene.add(highlight);
+
+    if (camera && controls) {
+      const { minX, maxX, minZ, maxZ } = focus.bounds;
+      const target = new THREE.Vector3((minX + maxX) / 2, 1, (minZ + maxZ) / 2);
+      const distance = Math.max(6, Math.max(maxX - minX, maxZ - minZ) * 1.5);
+      // Keep the current viewing direction, just move in on the target
+      const direction = camera.position.clone().sub(controls.target).normalize();
+      controls.target.copy(target);
+      camera.position.copy(target).addScaledVector(direction, distance);
+      controls.update();
+    }
+
+    return () => {
+      scene.remove(highlight);
+      highlight.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          child.geometry.dispose();
+        }
+      });
+      material.dispose();
+    };
+  }, [focus]);
 
   return (
     <>
@@ -0,0 +1,98 @@
+'use client';
+
+import { ShieldCheck } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { setValidationLimit, setValidationProfile } from '@/features/roomSlice';
+import { useAppDispatch, useAppSelector } from '@/hooks/redux';
+import {
+  ValidationLimits,
+  ValidationProfileId,
+  ValidationRules,
+} from '@/lib/validation-rules';
+
+const PROFILES: ValidationProfileId[] = ['residential', 'commercial', 'loft', 'custom'];
+
+const LIMIT_KEYS: (keyof ValidationLimits)[] = [
+  'maxRoomArea',
+  'minWallHeight',
+  'maxWallHeight',
+  'minWallThickness',
+  'maxWallThickness',
+  'minWallLength',
+  'maxWallLength',
+  'minAngle',
+  'maxAngle',
+];
+
+/**
+ * Rule profile the plan is validated against; editing a limit makes the profile custom
+ */
+export default function ValidationRulesPanel() {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const validation = useAppSelector((state) => state.room.validation);
+  const limits = ValidationRules.resolve(validation);
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="pb-2 lg:pb-3">
+        <CardTitle className="text-base lg:text-lg flex items-center">
+          <ShieldCheck className="w-4 h-4 lg:w-5 lg:h-5 mr-2" />
+          {t('validation.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-1">
+          <Label htmlFor="validation-profile" className="text-xs">
+            {t('validation.profileLabel')}
+          </Label>
+          <select
+            id="validation-profile"
+            value={validation.profile}
+            onChange={(e) =>
+              dispatch(setValidationProfile(e.target.value as ValidationProfileId))
+            }
+            className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground text-sm"
+          >
+            {PROFILES.map((profile) => (
+              <option key={profile} value={profile}>
+                {t(`validation.profile.${profile}`)}
+              </option>
+            ))}
+          </select>
+          {validation.profile !== 'custom' && (
+            <p className="text-xs text-muted-foreground">{t('validation.customHint')}</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {LIMIT_KEYS.map((key) => (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={`validation-${key}`} className="text-xs">
+                {t(`validation.limit.${key}`)}
+              </Label>
+              <Input
+                id={`validation-${key}`}
+                type="number"
+                min={0}
+                step={key.includes('Angle') || key === 'maxRoomArea' ? 1 : 0.01}
+                value={limits[key]}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (!isNaN(value) && value >= 0) {
+                    dispatch(setValidationLimit({ key, value }));
+                  }
+                }}
+                className="h-8 text-xs"
+              />
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+import { Input } from '@/components/ui/input';
+
+interface WallMeasurementInputProps {
+  label: string;
+  hint: string;
+  placeholder?: string; // E.g. the length and angle under the pointer
+  initialValue?: string;
+  focusKey?: string | number; // Focus moves back here whenever this changes
+  onSubmit: (text: string) => boolean; // False when the entry couldn't be used
+}
+
+/**
+ * Box on a 2D canvas for typing a wall's measurements. Keys typed here stay here, so
+ * the canvas shortcuts don't fire; Escape leaves the box, and a second one reaches the
+ * canvas
+ */
+export default function WallMeasurementInput({
+  label,
+  hint,
+  placeholder,
+  initialValue = '',
+  focusKey,
+  onSubmit,
+}: WallMeasurementInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [text, setText] = useState(initialValue);
+  const [invalid, setInvalid] = useState(false);
+
+  useEffect(() => {
+    setText(initialValue);
+    setInvalid(false);
+  }, [initialValue]);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, [focusKey]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      setText(initialValue);
+      setInvalid(false);
+      inputRef.current?.blur();
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (onSubmit(text)) {
+        setText(initialValue);
+        setInvalid(false);
+      } else {
+        setInvalid(true);
+      }
+    }
+  };
+
+  return (
+    <div className="absolute top-2 left-2 w-56 bg-white/90 p-2 rounded shadow space-y-1">
+      <label className="block text-xs font-medium text-gray-700">
+        {label}
+        <Input
+          ref={inputRef}
+          value={text}
+          placeholder={placeholder}
+          onChange={(e) => {
+            setText(e.target.value);
+            setInvalid(false);
+          }}
+          onKeyDown={handleKeyDown}
+          aria-invalid={invalid}
+          className={`mt-1 h-8 text-sm ${invalid ? 'border-red-500' : ''}`}
+        />
+      </label>
+      <p className="text-xs text-gray-500">{hint}</p>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import type { Room } from '../types/room';
 
+// All lengths in meters, like the rest of the app
 export const mockRooms: Room[] = [
   {
     id: 'room-1',
@@ -9,37 +10,37 @@ export const mockRooms: Room[] = [
       {
         id: 'wall-1',
         start: { x: 0, z: 0 },
-        end: { x: 400, z: 0 },
-        height: 250,
-        thickness: 10,
+        end: { x: 4, z: 0 },
+        height: 2.5,
+        thickness: 0.1,
       },
       {
         id: 'wall-2',
-        start: { x: 400, z: 0 },
-        end: { x: 400, z: 400 },
-        height: 250,
-        thickness: 10,
+        start: { x: 4, z: 0 },
+        end: { x: 4, z: 4 },
+        height: 2.5,
+        thickness: 0.1,
       },
       {
         id: 'wall-3',
-        start: { x: 400, z: 400 },
-        end: { x: 0, z: 400 },
-        height: 250,
-        thickness: 10,
+        start: { x: 4, z: 4 },
+        end: { x: 0, z: 4 },
+        height: 2.5,
+        thickness: 0.1,
       },
       {
         id: 'wall-4',
-        start: { x: 0, z: 400 },
+        start: { x: 0, z: 4 },
         end: { x: 0, z: 0 },
-        height: 250,
-        thickness: 10,
+        height: 2.5,
+        thickness: 0.1,
       },
     ],
     objects: [
       {
         id: 'obj-1',
         type: 'chair',
-        position: { x: 100, y: 100, z: 0 },
+        position: { x: 1, y: 0, z: 1 },
         rotation: { x: 0, y: 0, z: 0 },
         scale: { x: 1, y: 1, z: 1 },
         color: '#8B5CF6',
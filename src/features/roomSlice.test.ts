@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+
+import roomReducer, {
+  RoomState,
+  addLevel,
+  deleteLevel,
+  normalizeWalls,
+  redo,
+  setActiveLevel,
+  setUnderlay,
+  setWalls,
+  undo,
+  updateUnderlay,
+} from '@/features/roomSlice';
+import { BuildingLevels } from '@/lib/building-levels';
+import { PlanUnderlays } from '@/lib/plan-underlays';
+import { Point, Wall } from '@/types/room';
+
+const underlay = (src: string) => PlanUnderlays.create({ src, width: 1000, height: 800 });
+
+const wall = (id: string, start: Point, end: Point): Wall => ({
+  id,
+  start,
+  end,
+  height: 2.8,
+  thickness: 0.2,
+});
+
+const run = (
+  state: RoomState | undefined,
+  ...actions: Parameters<typeof roomReducer>[1][]
+) =>
+  actions.reduce<RoomState>(
+    (next, action) => roomReducer(next, action),
+    roomReducer(state, { type: '@@init' }),
+  );
+
+describe('room history and plan underlays', () => {
+  it('brings back a deleted level with its underlay on undo', () => {
+    const upper = run(
+      undefined,
+      addLevel('First floor'),
+      setUnderlay(underlay('upper.png')),
+    );
+    const levelId = upper.activeLevelId;
+
+    const deleted = run(upper, deleteLevel(levelId));
+    expect(deleted.underlays).toEqual([]);
+
+    const restored = run(deleted, undo());
+    expect(restored.levels.map((level) => level.id)).toContain(levelId);
+    expect(restored.underlays).toEqual([
+      expect.objectContaining({ src: 'upper.png', levelId }),
+    ]);
+
+    expect(run(restored, redo()).underlays).toEqual([]);
+  });
+
+  it("doesn't undo underlay changes along with other edits", () => {
+    const state = run(
+      undefined,
+      addLevel('First floor'),
+      setActiveLevel(BuildingLevels.GROUND_ID),
+      setUnderlay(underlay('ground.png')),
+      updateUnderlay({ opacity: 0.3 }),
+    );
+
+    const undone = run(state, undo());
+
+    expect(undone.levels).toHaveLength(1);
+    expect(undone.underlays).toEqual([
+      expect.objectContaining({ src: 'ground.png', opacity: 0.3 }),
+    ]);
+  });
+});
+
+describe('wall normalization and history', () => {
+  const long = wall('a', { x: 0, z: 0 }, { x: 6, z: 0 });
+  const branch = wall('b', { x: 2, z: 0 }, { x: 2, z: 3 });
+
+  it('splits walls as part of the edit that made them meet', () => {
+    const drawn = run(undefined, setWalls([long]));
+    const joined = run(drawn, setWalls([long, branch]), normalizeWalls());
+
+    expect(joined.walls).toHaveLength(3);
+    expect(joined.history.past).toHaveLength(drawn.history.past.length + 1);
+
+    const undone = run(joined, undo());
+    expect(undone.walls.map((w) => w.id)).toEqual(['a']);
+  });
+
+  it('keeps the redo step when normalizing again after an undo', () => {
+    const joined = run(
+      undefined,
+      setWalls([long]),
+      setWalls([long, branch]),
+      normalizeWalls(),
+    );
+
+    // The plan re-normalizes whenever its walls change, undo included
+    const undone = run(joined, undo(), normalizeWalls());
+    expect(undone.history.future).toHaveLength(1);
+
+    expect(run(undone, redo()).walls).toEqual(joined.walls);
+  });
+});
@@ -1,23 +1,55 @@
-import { PayloadAction, createSlice } from '@reduxjs/toolkit';
+import { PayloadAction, createSelector, createSlice, current } from '@reduxjs/toolkit';
 
 import {
   AdvancedRoomCalculator,
   RoomMetrics,
   Wall,
 } from '../lib/advanced-room-calculator';
-import { AdvancedRoomDrawing, RoomDrawingState } from '../lib/advanced-room-drawing';
+import {
+  AdvancedRoomDrawing,
+  DrawingRoom,
+  RoomDrawingState,
+} from '../lib/advanced-room-drawing';
+import { BuildingLevel, BuildingLevels } from '../lib/building-levels';
+import { Ceiling, CeilingSettings } from '../lib/ceiling';
+import { DesignContent, DesignSchema } from '../lib/design-schema';
+import { DimensionSettings, Dimensions } from '../lib/dimensions';
+import { EditHistory, HistoryState } from '../lib/edit-history';
+import { RoomBooleanResult, RoomBooleans } from '../lib/room-booleans';
+import { RoomEditing } from '../lib/room-editing';
+import { SnapSettings, Snapping } from '../lib/snapping';
+import {
+  ValidationLimits,
+  ValidationRules,
+  ValidationSettings,
+} from '../lib/validation-rules';
+import { WallGraph } from '../lib/wall-graph';
+import { WallOpenings } from '../lib/wall-openings';
+import {
+  DimensionLine,
+  DoorPlacement,
+  PlanUnderlay,
+  Point,
+  RoomObject,
+  WindowPlacement,
+} from '../types/room';
 
 // Re-export types from calculator for consistency
 export type { Point, Wall, RoomMetrics } from '../lib/advanced-room-calculator';
-export type { DrawingRoom, RoomDrawingState } from '../lib/advanced-room-drawing';
+export type {
+  DrawingRoom,
+  FloorSummary,
+  RoomAreaSummary,
+  RoomDrawingState,
+} from '../lib/advanced-room-drawing';
 
 export interface RoomState extends RoomDrawingState {
   // Keep legacy properties for backward compatibility
   walls: Wall[];
-  metrics: RoomMetrics;
+  metrics: RoomMetrics; // Single-loop plans; multi-room plans are measured per room
   name: string;
   viewMode: '2d' | '3d';
-  editMode: 'draw' | 'move' | 'idle' | 'delete';
+  editMode: 'draw' | 'move' | 'idle' | 'delete' | 'dimension';
   selectedWallId: string | null;
   showMeasurements: boolean;
   showWindows: boolean;
@@ -25,11 +57,54 @@ export interface RoomState extends RoomDrawingState {
   showAdvancedMetrics: boolean;
 
   // New properties
-  snapToGrid: boolean;
+  snap: SnapSettings; // What the pointer snaps to on the 2D plan
+  dimensionSettings: DimensionSettings; // Units and dimension layer of the 2D plan
   wallHeight: number;
   defaultWallThickness: number;
+
+  // Openings and furniture placed in the design
+  doors: DoorPlacement[];
+  windows: WindowPlacement[];
+  objects: RoomObject[];
+
+  // Dimension lines placed by hand on the 2D plan
+  dimensions: DimensionLine[];
+
+  // Rule profile the plan is validated against; saved with the design
+  validation: ValidationSettings;
+
+  // Ceiling over the whole plan; saved with the design
+  ceiling: CeilingSettings;
+
+  // Existing plans traced over, at most one per level; saved with the design
+  underlays: PlanUnderlay[];
+
+  // Floors of the building, and the one being edited
+  levels: BuildingLevel[];
+  activeLevelId: string;
+
+  // Undo/redo of every document edit
+  history: HistoryState<RoomSnapshot>;
 }
 
+// The undoable part of the state; UI flags and settings are not tracked
+export type RoomSnapshot = Pick<
+  RoomState,
+  | 'walls'
+  | 'rooms'
+  | 'activeRoomId'
+  | 'drawingPoints'
+  | 'isDrawing'
+  | 'doors'
+  | 'windows'
+  | 'objects'
+  | 'dimensions'
+  | 'levels'
+  | 'underlays'
+>;
+
+type HistoryMeta = { historyGroup?: string };
+
 const initialState: RoomState = {
   // Legacy properties
   walls: [],
@@ -44,7 +119,8 @@ const initialState: RoomState = {
   showAdvancedMetrics: false,
 
   // New properties
-  snapToGrid: true,
+  snap: Snapping.DEFAULT,
+  dimensionSettings: Dimensions.DEFAULT_SETTINGS,
   wallHeight: 2.8,
   defaultWallThickness: 0.25,
 
@@ -53,36 +129,232 @@ const initialState: RoomState = {
   activeRoomId: null,
   drawingPoints: [],
   isDrawing: false,
+
+  doors: [],
+  windows: [],
+  objects: [],
+  dimensions: [],
+
+  validation: ValidationRules.DEFAULT_SETTINGS,
+  ceiling: Ceiling.DEFAULT,
+  underlays: [],
+
+  levels: BuildingLevels.DEFAULT,
+  activeLevelId: BuildingLevels.GROUND_ID,
+
+  history: EditHistory.create<RoomSnapshot>(),
+};
+
+// Helper to lay the design's ceiling over every wall of a level. The ceiling is the
+// roof, so only the top level has it; lower levels end at their walls' height
+const ceilingSurface = (state: RoomState, rooms: DrawingRoom[], levelId: string) => {
+  const { ceiling, walls, levels } = current(state);
+  if (BuildingLevels.top(levels).id !== levelId) {
+    return null;
+  }
+  return Ceiling.surface(ceiling, [
+    ...BuildingLevels.onLevel(walls, levelId),
+    ...BuildingLevels.onLevel(rooms, levelId).flatMap((room) => room.walls),
+  ]);
+};
+
+// Helper function to recalculate metrics for the active level. A one-room level is
+// measured as that room; otherwise only walls outside rooms can form the single loop
+// the calculator expects
+const recalculateMetrics = (state: RoomState): void => {
+  const { validation, activeLevelId } = current(state);
+  const rooms = BuildingLevels.onLevel(current(state).rooms, activeLevelId);
+  const walls = BuildingLevels.onLevel(current(state).walls, activeLevelId);
+  const ceiling = ceilingSurface(state, rooms, activeLevelId);
+  if (rooms.length === 1 && rooms[0].metrics) {
+    state.metrics = rooms[0].metrics;
+    return;
+  }
+  const roomWallIds = new Set(
+    [
+      ...rooms.flatMap((room) => room.walls),
+      ...AdvancedRoomDrawing.getAllWalls({ ...current(state), rooms }),
+    ].map((wall) => wall.id),
+  );
+  state.metrics = AdvancedRoomCalculator.calculateRoomMetrics(
+    walls.filter((wall) => !roomWallIds.has(wall.id)),
+    ValidationRules.resolve(validation),
+    ceiling,
+  );
+};
+
+// Helper to measure rooms against the design's validation limits and their level's ceiling
+const measureRooms = (state: RoomState, rooms: DrawingRoom[]): DrawingRoom[] => {
+  const limits = ValidationRules.resolve(current(state).validation);
+  const levelIds = new Set(rooms.map((room) => BuildingLevels.levelOf(room)));
+  const measured = new Map(
+    Array.from(levelIds).flatMap((levelId) => {
+      const onLevel = BuildingLevels.onLevel(rooms, levelId);
+      return AdvancedRoomDrawing.measureRooms(
+        onLevel,
+        limits,
+        ceilingSurface(state, onLevel, levelId),
+      ).map((room) => [room.id, room] as const);
+    }),
+  );
+  return rooms.map((room) => measured.get(room.id) ?? room);
+};
+
+// Helper to put the room being drawn, and its walls, on the active level
+const placeOnActiveLevel = (
+  state: RoomState,
+  roomId = current(state).activeRoomId,
+): void => {
+  const { activeLevelId } = current(state);
+  state.rooms = current(state).rooms.map((room) =>
+    room.id === roomId
+      ? BuildingLevels.assign(
+          {
+            ...room,
+            walls: room.walls.map((wall) => BuildingLevels.assign(wall, activeLevelId)),
+          },
+          activeLevelId,
+        )
+      : room,
+  );
 };
 
-// Helper function to recalculate metrics
-const recalculateMetrics = (walls: Wall[]): RoomMetrics =>
-  AdvancedRoomCalculator.calculateRoomMetrics(walls);
+// Helper to keep doors and windows attached to walls that still exist and fit inside them
+const reconcileOpenings = (state: RoomState): void => {
+  const walls = current(state).walls;
+  state.doors = WallOpenings.reconcileDoors(current(state).doors, walls);
+  state.windows = WallOpenings.reconcileWindows(current(state).windows, walls);
+};
 
 // Helper to sync legacy walls with room system
 const syncLegacyWalls = (state: RoomState): void => {
-  state.walls = AdvancedRoomDrawing.getAllWalls(state);
-  state.metrics = recalculateMetrics(state.walls);
+  state.rooms = measureRooms(state, current(state).rooms);
+  state.walls = AdvancedRoomDrawing.getAllWalls(current(state));
+  recalculateMetrics(state);
+  reconcileOpenings(state);
+};
+
+// Helper to swap rooms for the result of a room operation, where the first of them was.
+// Failed operations leave the plan as it is
+const replaceRooms = (
+  state: RoomState,
+  roomIds: string[],
+  result: RoomBooleanResult,
+): void => {
+  if (!result.success) {
+    return;
+  }
+  const rooms = current(state).rooms;
+  const index = rooms.findIndex((room) => roomIds.includes(room.id));
+  const kept = rooms.filter((room) => !roomIds.includes(room.id));
+  kept.splice(index, 0, ...result.rooms);
+  commitRooms(state, kept);
+};
+
+// Helper to take reshaped rooms as one undo step, then nest and measure them again.
+// Edits that couldn't be made (null) leave the plan as it is
+const commitRooms = (state: RoomState, rooms: DrawingRoom[] | null): void => {
+  if (!rooms) {
+    return;
+  }
+  recordHistory(state);
+  state.rooms = AdvancedRoomDrawing.recalculateWallThicknesses(
+    AdvancedRoomDrawing.findNestedRooms(rooms),
+  );
+  syncLegacyWalls(state);
+};
+
+// Helper to push the pre-edit document onto the undo stack
+const recordHistory = (state: RoomState, group: string | null = null): void => {
+  state.history = EditHistory.record(current(state).history, takeSnapshot(state), group);
+};
+
+const takeSnapshot = (state: RoomState): RoomSnapshot => {
+  const {
+    walls,
+    rooms,
+    activeRoomId,
+    drawingPoints,
+    isDrawing,
+    doors,
+    windows,
+    objects,
+    dimensions,
+    levels,
+    underlays,
+  } = current(state);
+  return {
+    walls,
+    rooms,
+    activeRoomId,
+    drawingPoints,
+    isDrawing,
+    doors,
+    windows,
+    objects,
+    dimensions,
+    levels,
+    underlays,
+  };
+};
+
+const restoreSnapshot = (state: RoomState, snapshot: RoomSnapshot): void => {
+  const { underlays, levels } = current(state);
+  Object.assign(state, snapshot);
+  // Underlay edits aren't undo steps, so the current underlays stay; only levels the
+  // step brings back or takes away bring back or take away theirs
+  const hadLevel = (underlay: PlanUnderlay) =>
+    levels.some((level) => level.id === BuildingLevels.levelOf(underlay));
+  const hasLevel = (underlay: PlanUnderlay) =>
+    snapshot.levels.some((level) => level.id === BuildingLevels.levelOf(underlay));
+  state.underlays = [
+    ...underlays.filter(hasLevel),
+    ...snapshot.underlays.filter((underlay) => !hadLevel(underlay)),
+  ];
+  if (!snapshot.levels.some((level) => level.id === state.activeLevelId)) {
+    state.activeLevelId = BuildingLevels.GROUND_ID;
+  }
+  recalculateMetrics(state);
+  if (
+    state.selectedWallId &&
+    !snapshot.walls.some((w) => w.id === state.selectedWallId)
+  ) {
+    state.selectedWallId = null;
+  }
 };
 
+// Lets callers pass a coalescing key, e.g. one per numeric field being typed into
+const withHistoryGroup = <T>(payload: T, historyGroup?: string) => ({
+  payload,
+  meta: { historyGroup } as HistoryMeta,
+});
+
 const roomSlice = createSlice({
   name: 'room',
   initialState,
   reducers: {
     // Legacy actions for backward compatibility
-    setWalls: (state, action: PayloadAction<Wall[]>) => {
-      state.walls = action.payload;
-      state.metrics = recalculateMetrics(state.walls);
+    setWalls: {
+      reducer: (state, action: PayloadAction<Wall[], string, HistoryMeta>) => {
+        recordHistory(state, action.meta.historyGroup);
+        state.walls = action.payload;
+        recalculateMetrics(state);
+        reconcileOpenings(state);
+      },
+      prepare: withHistoryGroup<Wall[]>,
     },
 
     addWall: (state, action: PayloadAction<Wall>) => {
+      recordHistory(state);
       state.walls.push(action.payload);
-      state.metrics = recalculateMetrics(state.walls);
+      recalculateMetrics(state);
     },
 
     removeWall: (state, action: PayloadAction<string>) => {
+      recordHistory(state);
       state.walls = state.walls.filter((wall) => wall.id !== action.payload);
-      state.metrics = recalculateMetrics(state.walls);
+      recalculateMetrics(state);
+      reconcileOpenings(state);
     },
 
     updateWall: (
@@ -92,41 +364,207 @@ const roomSlice = createSlice({
       const { id, updates } = action.payload;
       const wallIndex = state.walls.findIndex((wall) => wall.id === id);
       if (wallIndex !== -1) {
+        recordHistory(state, `updateWall:${id}`);
         state.walls[wallIndex] = { ...state.walls[wallIndex], ...updates };
-        state.metrics = recalculateMetrics(state.walls);
+        recalculateMetrics(state);
+        reconcileOpenings(state);
+      }
+    },
+
+    // Split the active level's walls at junctions and merge duplicates, moving doors
+    // and windows onto the piece they sit on. Not an undo step: it finishes the edit
+    // that made the walls meet, and running it again after an undo keeps the redo
+    normalizeWalls: (state) => {
+      const { activeLevelId, doors, windows } = current(state);
+      const walls = BuildingLevels.onLevel(current(state).walls, activeLevelId);
+      const normalized = WallGraph.normalize(walls);
+      if (normalized.walls === walls) {
+        return;
       }
+      state.walls = BuildingLevels.replace(
+        current(state).walls,
+        activeLevelId,
+        normalized.walls,
+      );
+      state.doors = WallOpenings.reassign(doors, walls, normalized.pieces);
+      state.windows = WallOpenings.reassign(windows, walls, normalized.pieces);
+      recalculateMetrics(state);
+      reconcileOpenings(state);
+    },
+
+    // Openings and furniture
+    setDoors: {
+      reducer: (state, action: PayloadAction<DoorPlacement[], string, HistoryMeta>) => {
+        recordHistory(state, action.meta.historyGroup);
+        state.doors = WallOpenings.reconcileDoors(action.payload, current(state).walls);
+      },
+      prepare: withHistoryGroup<DoorPlacement[]>,
+    },
+
+    setWindows: {
+      reducer: (state, action: PayloadAction<WindowPlacement[], string, HistoryMeta>) => {
+        recordHistory(state, action.meta.historyGroup);
+        state.windows = WallOpenings.reconcileWindows(
+          action.payload,
+          current(state).walls,
+        );
+      },
+      prepare: withHistoryGroup<WindowPlacement[]>,
+    },
+
+    setObjects: {
+      reducer: (state, action: PayloadAction<RoomObject[], string, HistoryMeta>) => {
+        recordHistory(state, action.meta.historyGroup);
+        state.objects = action.payload;
+      },
+      prepare: withHistoryGroup<RoomObject[]>,
+    },
+
+    setDimensions: {
+      reducer: (state, action: PayloadAction<DimensionLine[], string, HistoryMeta>) => {
+        recordHistory(state, action.meta.historyGroup);
+        state.dimensions = action.payload;
+      },
+      prepare: withHistoryGroup<DimensionLine[]>,
+    },
+
+    // Replace the whole document (e.g. when opening a saved design); starts a fresh history
+    loadDesign: (
+      state,
+      action: PayloadAction<{
+        walls: Wall[];
+        rooms?: DrawingRoom[];
+        doors?: DoorPlacement[];
+        windows?: WindowPlacement[];
+        objects?: RoomObject[];
+        dimensions?: DimensionLine[];
+        validation?: ValidationSettings;
+        ceiling?: CeilingSettings;
+        underlays?: PlanUnderlay[];
+        levels?: BuildingLevel[];
+      }>,
+    ) => {
+      const {
+        walls,
+        rooms = [],
+        doors = [],
+        windows = [],
+        objects = [],
+        dimensions = [],
+        validation = ValidationRules.DEFAULT_SETTINGS,
+        ceiling = Ceiling.DEFAULT,
+        underlays = [],
+        levels,
+      } = action.payload;
+      state.validation = validation;
+      state.ceiling = ceiling;
+      state.underlays = underlays;
+      state.levels = BuildingLevels.normalize(levels);
+      state.activeLevelId = BuildingLevels.GROUND_ID;
+      state.walls = walls;
+      state.rooms = measureRooms(state, rooms);
+      state.activeRoomId = null;
+      state.drawingPoints = [];
+      state.isDrawing = false;
+      recalculateMetrics(state);
+      state.doors = WallOpenings.reconcileDoors(doors, walls);
+      state.windows = WallOpenings.reconcileWindows(windows, walls);
+      state.objects = objects;
+      state.dimensions = dimensions;
+      state.selectedWallId = null;
+      state.history = EditHistory.clear(current(state).history);
+    },
+
+    // Bring in an imported design, either instead of or alongside the current plan
+    importDesign: (
+      state,
+      action: PayloadAction<{ design: DesignContent; mode: 'merge' | 'replace' }>,
+    ) => {
+      recordHistory(state);
+      const { design, mode } = action.payload;
+      const { walls, rooms, doors, windows, objects, dimensions, levels } =
+        mode === 'merge' ? DesignSchema.merge(takeSnapshot(state), design) : design;
+      state.levels = BuildingLevels.normalize(levels);
+      if (!state.levels.some((level) => level.id === state.activeLevelId)) {
+        state.activeLevelId = BuildingLevels.GROUND_ID;
+      }
+      state.walls = walls;
+      state.rooms = measureRooms(state, rooms);
+      state.activeRoomId = null;
+      state.drawingPoints = [];
+      state.isDrawing = false;
+      recalculateMetrics(state);
+      state.doors = doors;
+      state.windows = windows;
+      state.objects = objects;
+      state.dimensions = dimensions;
+      state.selectedWallId = null;
+      reconcileOpenings(state);
+    },
+
+    // A collaborator's changes arrived; not an undo step of this user's
+    applyRemoteDesign: (state, action: PayloadAction<DesignContent>) => {
+      const { walls, rooms, doors, windows, objects, dimensions, levels } =
+        action.payload;
+      state.levels = BuildingLevels.normalize(levels);
+      if (!state.levels.some((level) => level.id === state.activeLevelId)) {
+        state.activeLevelId = BuildingLevels.GROUND_ID;
+      }
+      state.walls = walls;
+      state.rooms = measureRooms(state, rooms);
+      if (!rooms.some((r) => r.id === state.activeRoomId)) {
+        state.activeRoomId = null;
+      }
+      recalculateMetrics(state);
+      state.doors = doors;
+      state.windows = windows;
+      state.objects = objects;
+      state.dimensions = dimensions;
+      if (state.selectedWallId && !walls.some((w) => w.id === state.selectedWallId)) {
+        state.selectedWallId = null;
+      }
+      reconcileOpenings(state);
     },
 
     // New advanced room drawing actions
     startNewRoom: (state, action: PayloadAction<string | undefined>) => {
       const newState = AdvancedRoomDrawing.startNewRoom(state, action.payload);
       Object.assign(state, newState);
+      placeOnActiveLevel(state);
       syncLegacyWalls(state);
     },
 
     addDrawingPoint: (state, action: PayloadAction<{ x: number; z: number }>) => {
+      recordHistory(state);
       const newState = AdvancedRoomDrawing.addDrawingPoint(
         state,
         action.payload,
         state.wallHeight,
       );
       Object.assign(state, newState);
+      placeOnActiveLevel(state);
       syncLegacyWalls(state);
     },
 
     completeCurrentRoom: (state) => {
+      recordHistory(state);
+      // Completing clears the active room, and adds a closing wall to place as well
+      const roomId = state.activeRoomId;
       const newState = AdvancedRoomDrawing.completeRoom(state, state.wallHeight);
       Object.assign(state, newState);
+      placeOnActiveLevel(state, roomId);
       syncLegacyWalls(state);
     },
 
     cancelCurrentRoom: (state) => {
+      recordHistory(state);
       const newState = AdvancedRoomDrawing.cancelCurrentRoom(state);
       Object.assign(state, newState);
       syncLegacyWalls(state);
     },
 
     deleteRoom: (state, action: PayloadAction<string>) => {
+      recordHistory(state);
       state.rooms = state.rooms.filter((room) => room.id !== action.payload);
       syncLegacyWalls(state);
     },
@@ -134,10 +572,237 @@ const roomSlice = createSlice({
     updateRoomName: (state, action: PayloadAction<{ roomId: string; name: string }>) => {
       const room = state.rooms.find((r) => r.id === action.payload.roomId);
       if (room) {
+        recordHistory(state, `roomName:${room.id}`);
         room.name = action.payload.name;
       }
     },
 
+    // Room operations; each is one undo step, and does nothing if it can't be done
+    mergeRooms: (state, action: PayloadAction<[string, string]>) => {
+      const [a, b] = action.payload.map((id) =>
+        current(state).rooms.find((room) => room.id === id),
+      );
+      if (a && b) {
+        replaceRooms(state, [a.id, b.id], RoomBooleans.union(a, b));
+      }
+    },
+
+    splitRoom: (
+      state,
+      action: PayloadAction<{ roomId: string; start: Point; end: Point; name: string }>,
+    ) => {
+      const { roomId, start, end, name } = action.payload;
+      const room = current(state).rooms.find((r) => r.id === roomId);
+      if (room) {
+        replaceRooms(state, [roomId], RoomBooleans.split(room, start, end, name));
+      }
+    },
+
+    subtractFromRoom: (
+      state,
+      action: PayloadAction<{
+        roomId: string;
+        corner: Point;
+        oppositeCorner: Point;
+        name: string;
+      }>,
+    ) => {
+      const { roomId, corner, oppositeCorner, name } = action.payload;
+      const room = current(state).rooms.find((r) => r.id === roomId);
+      if (room) {
+        replaceRooms(
+          state,
+          [roomId],
+          RoomBooleans.subtract(room, corner, oppositeCorner, name),
+        );
+      }
+    },
+
+    // Reshaping completed rooms on the active level. A drag is one undo step when
+    // wrapped in beginHistoryBatch / endHistoryBatch
+    moveRoomVertex: (state, action: PayloadAction<{ from: Point; to: Point }>) => {
+      const { from, to } = action.payload;
+      commitRooms(
+        state,
+        RoomEditing.moveVertex(current(state).rooms, state.activeLevelId, from, to),
+      );
+    },
+
+    insertRoomVertex: (
+      state,
+      action: PayloadAction<{ roomId: string; wallId: string; point: Point }>,
+    ) => {
+      const { roomId, wallId, point } = action.payload;
+      const { rooms, walls, doors, windows } = current(state);
+      const inserted = RoomEditing.insertVertex(rooms, roomId, wallId, point);
+      if (!inserted) {
+        return;
+      }
+      commitRooms(state, inserted.rooms);
+      // Openings past the new corner move onto the wall's second half
+      state.doors = WallOpenings.reassign(doors, walls, inserted.pieces);
+      state.windows = WallOpenings.reassign(windows, walls, inserted.pieces);
+      reconcileOpenings(state);
+    },
+
+    deleteRoomVertex: (state, action: PayloadAction<Point>) => {
+      commitRooms(
+        state,
+        RoomEditing.deleteVertex(
+          current(state).rooms,
+          state.activeLevelId,
+          action.payload,
+        ),
+      );
+    },
+
+    moveRoomWall: (
+      state,
+      action: PayloadAction<{ roomId: string; wallId: string; offset: number }>,
+    ) => {
+      const { roomId, wallId, offset } = action.payload;
+      commitRooms(
+        state,
+        RoomEditing.moveWall(current(state).rooms, roomId, wallId, offset),
+      );
+    },
+
+    setRoomWallLength: (
+      state,
+      action: PayloadAction<{ roomId: string; wallId: string; length: number }>,
+    ) => {
+      const { roomId, wallId, length } = action.payload;
+      commitRooms(
+        state,
+        RoomEditing.setWallLength(current(state).rooms, roomId, wallId, length),
+      );
+    },
+
+    // Validation rules; not an undo step, like other settings
+    setValidationProfile: (
+      state,
+      action: PayloadAction<ValidationSettings['profile']>,
+    ) => {
+      const limits = ValidationRules.resolve(current(state).validation);
+      state.validation =
+        action.payload === 'custom'
+          ? { profile: 'custom', customLimits: limits }
+          : { profile: action.payload };
+      state.rooms = measureRooms(state, current(state).rooms);
+      recalculateMetrics(state);
+    },
+
+    setValidationLimit: (
+      state,
+      action: PayloadAction<{ key: keyof ValidationLimits; value: number }>,
+    ) => {
+      const { key, value } = action.payload;
+      state.validation = ValidationRules.withLimit(current(state).validation, key, value);
+      state.rooms = measureRooms(state, current(state).rooms);
+      recalculateMetrics(state);
+    },
+
+    // Ceiling shape; not an undo step, like other settings
+    setCeiling: (state, action: PayloadAction<Partial<CeilingSettings>>) => {
+      state.ceiling = { ...current(state).ceiling, ...action.payload };
+      state.rooms = measureRooms(state, current(state).rooms);
+      recalculateMetrics(state);
+    },
+
+    // Plan traced over on the active level, or null to take it away. Like the ceiling
+    // it is not an undo step; the image isn't part of the plan
+    setUnderlay: (state, action: PayloadAction<PlanUnderlay | null>) => {
+      const { underlays, activeLevelId } = current(state);
+      state.underlays = BuildingLevels.replace(
+        underlays,
+        activeLevelId,
+        action.payload ? [action.payload] : [],
+      );
+    },
+
+    updateUnderlay: (
+      state,
+      action: PayloadAction<Partial<Omit<PlanUnderlay, 'src' | 'levelId'>>>,
+    ) => {
+      const { underlays, activeLevelId } = current(state);
+      state.underlays = underlays.map((underlay) =>
+        BuildingLevels.levelOf(underlay) === activeLevelId
+          ? { ...underlay, ...action.payload }
+          : underlay,
+      );
+    },
+
+    // Building levels; switching between them is not an undo step, editing them is
+    setActiveLevel: (state, action: PayloadAction<string>) => {
+      if (!state.levels.some((level) => level.id === action.payload)) {
+        return;
+      }
+      state.activeLevelId = action.payload;
+      state.selectedWallId = null;
+      recalculateMetrics(state);
+    },
+
+    addLevel: (state, action: PayloadAction<string>) => {
+      recordHistory(state);
+      const level = BuildingLevels.createAbove(current(state).levels, action.payload);
+      state.levels = BuildingLevels.normalize([...current(state).levels, level]);
+      state.activeLevelId = level.id;
+      state.selectedWallId = null;
+      // The new top level takes the ceiling over from the one below
+      state.rooms = measureRooms(state, current(state).rooms);
+      recalculateMetrics(state);
+    },
+
+    updateLevel: (
+      state,
+      action: PayloadAction<{
+        id: string;
+        updates: Partial<Omit<BuildingLevel, 'id'>>;
+      }>,
+    ) => {
+      const { id, updates } = action.payload;
+      if (!state.levels.some((level) => level.id === id)) {
+        return;
+      }
+      recordHistory(state, `level:${id}:${Object.keys(updates).join(',')}`);
+      state.levels = BuildingLevels.update(current(state).levels, id, updates);
+      state.rooms = measureRooms(state, current(state).rooms);
+      recalculateMetrics(state);
+    },
+
+    // Remove a level with everything on it; the ground level always stays
+    deleteLevel: (state, action: PayloadAction<string>) => {
+      const levelId = action.payload;
+      if (
+        levelId === BuildingLevels.GROUND_ID ||
+        !state.levels.some((level) => level.id === levelId)
+      ) {
+        return;
+      }
+      recordHistory(state);
+      const { walls, rooms, objects, dimensions, underlays, levels } = current(state);
+      const keep = <T extends { levelId?: string }>(items: T[]) =>
+        items.filter((item) => BuildingLevels.levelOf(item) !== levelId);
+      state.levels = levels.filter((level) => level.id !== levelId);
+      state.walls = keep(walls);
+      state.rooms = keep(rooms);
+      state.objects = keep(objects);
+      state.dimensions = keep(dimensions);
+      state.underlays = keep(underlays);
+      if (state.activeLevelId === levelId) {
+        state.activeLevelId = BuildingLevels.GROUND_ID;
+        state.selectedWallId = null;
+      }
+      if (state.activeRoomId && !state.rooms.some((r) => r.id === state.activeRoomId)) {
+        state.activeRoomId = null;
+        state.drawingPoints = [];
+        state.isDrawing = false;
+      }
+      state.rooms = measureRooms(state, current(state).rooms);
+      recalculateMetrics(state);
+      reconcileOpenings(state);
+    },
+
     // UI and settings actions
     setRoomName: (state, action: PayloadAction<string>) => {
       state.name = action.payload;
@@ -147,7 +812,10 @@ const roomSlice = createSlice({
       state.viewMode = action.payload;
     },
 
-    setEditMode: (state, action: PayloadAction<'draw' | 'move' | 'idle' | 'delete'>) => {
+    setEditMode: (
+      state,
+      action: PayloadAction<'draw' | 'move' | 'idle' | 'delete' | 'dimension'>,
+    ) => {
       state.editMode = action.payload;
     },
 
@@ -175,8 +843,15 @@ const roomSlice = createSlice({
       state.gridEnabled = !state.gridEnabled;
     },
 
-    toggleSnapToGrid: (state) => {
-      state.snapToGrid = !state.snapToGrid;
+    updateSnapSettings: (state, action: PayloadAction<Partial<SnapSettings>>) => {
+      state.snap = { ...state.snap, ...action.payload };
+    },
+
+    updateDimensionSettings: (
+      state,
+      action: PayloadAction<Partial<DimensionSettings>>,
+    ) => {
+      state.dimensionSettings = { ...state.dimensionSettings, ...action.payload };
     },
 
     toggleAdvancedMetrics: (state) => {
@@ -184,26 +859,70 @@ const roomSlice = createSlice({
     },
 
     clearAllRooms: (state) => {
+      recordHistory(state);
       state.rooms = [];
       state.activeRoomId = null;
       state.drawingPoints = [];
       state.isDrawing = false;
       state.walls = [];
-      state.metrics = recalculateMetrics([]);
+      recalculateMetrics(state);
       state.selectedWallId = null;
+      state.doors = [];
+      state.windows = [];
+      state.dimensions = [];
     },
 
     clearRoom: (state) => {
       // Legacy action - clear all for backward compatibility
+      recordHistory(state);
+      state.doors = [];
+      state.windows = [];
+      state.dimensions = [];
       state.walls = [];
-      state.metrics = recalculateMetrics([]);
+      recalculateMetrics(state);
       state.selectedWallId = null;
     },
 
     loadTemplate: (state, action: PayloadAction<Wall[]>) => {
+      recordHistory(state);
       state.walls = action.payload;
-      state.metrics = recalculateMetrics(state.walls);
+      recalculateMetrics(state);
       state.selectedWallId = null;
+      reconcileOpenings(state);
+    },
+
+    // History actions
+    undo: (state) => {
+      const step = EditHistory.undo(current(state).history, takeSnapshot(state));
+      if (step) {
+        restoreSnapshot(state, step.snapshot);
+        state.history = step.history;
+      }
+    },
+
+    redo: (state) => {
+      const step = EditHistory.redo(current(state).history, takeSnapshot(state));
+      if (step) {
+        restoreSnapshot(state, step.snapshot);
+        state.history = step.history;
+      }
+    },
+
+    // Group a drag (or any multi-event gesture) into a single undo step
+    beginHistoryBatch: (state) => {
+      state.history = EditHistory.beginBatch(current(state).history);
+    },
+
+    endHistoryBatch: (state) => {
+      state.history = EditHistory.endBatch(current(state).history);
+    },
+
+    setHistoryLimit: (state, action: PayloadAction<number>) => {
+      state.history = EditHistory.setLimit(current(state).history, action.payload);
+    },
+
+    clearHistory: (state) => {
+      state.history = EditHistory.clear(current(state).history);
     },
   },
 });
@@ -214,9 +933,19 @@ export const {
   addWall,
   removeWall,
   updateWall,
+  normalizeWalls,
   clearRoom,
   loadTemplate,
 
+  // Openings, furniture and whole-design actions
+  setDoors,
+  setWindows,
+  setObjects,
+  setDimensions,
+  loadDesign,
+  importDesign,
+  applyRemoteDesign,
+
   // New advanced room drawing actions
   startNewRoom,
   addDrawingPoint,
@@ -225,6 +954,33 @@ export const {
   deleteRoom,
   updateRoomName,
 
+  // Room operations
+  mergeRooms,
+  splitRoom,
+  subtractFromRoom,
+
+  // Room editing
+  moveRoomVertex,
+  insertRoomVertex,
+  deleteRoomVertex,
+  moveRoomWall,
+  setRoomWallLength,
+
+  // Validation rules
+  setValidationProfile,
+  setValidationLimit,
+
+  // Ceiling
+  setCeiling,
+  setUnderlay,
+  updateUnderlay,
+
+  // Building levels
+  setActiveLevel,
+  addLevel,
+  updateLevel,
+  deleteLevel,
+
   // UI and settings actions
   setRoomName,
   setViewMode,
@@ -235,9 +991,55 @@ export const {
   toggleMeasurements,
   toggleWindows,
   toggleGrid,
-  toggleSnapToGrid,
+  updateSnapSettings,
+  updateDimensionSettings,
   toggleAdvancedMetrics,
   clearAllRooms,
+
+  // History actions
+  undo,
+  redo,
+  beginHistoryBatch,
+  endHistoryBatch,
+  setHistoryLimit,
+  clearHistory,
 } = roomSlice.actions;
 
+// Selectors for history availability (drive Undo/Redo button state)
+export const selectCanUndo = (state: { room: RoomState }): boolean =>
+  EditHistory.canUndo(state.room.history);
+export const selectCanRedo = (state: { room: RoomState }): boolean =>
+  EditHistory.canRedo(state.room.history);
+
+// Per-room metrics and floor totals of the active level for RoomMetrics /
+// AdvancedRoomMetrics
+export const selectLevelRooms = createSelector(
+  [
+    (state: { room: RoomState }) => state.room.rooms,
+    (state: { room: RoomState }) => state.room.activeLevelId,
+  ],
+  (rooms, activeLevelId) => BuildingLevels.onLevel(rooms, activeLevelId),
+);
+
+// The plan traced over on the active level, if any
+export const selectLevelUnderlay = createSelector(
+  [
+    (state: { room: RoomState }) => state.room.underlays,
+    (state: { room: RoomState }) => state.room.activeLevelId,
+  ],
+  (underlays, activeLevelId) =>
+    underlays.find((underlay) => BuildingLevels.levelOf(underlay) === activeLevelId) ??
+    null,
+);
+
+export const selectRoomMetrics = createSelector([selectLevelRooms], (rooms) =>
+  rooms.flatMap((room) =>
+    room.metrics ? [{ roomId: room.id, name: room.name, metrics: room.metrics }] : [],
+  ),
+);
+
+export const selectFloorSummary = createSelector([selectLevelRooms], (rooms) =>
+  AdvancedRoomDrawing.calculateFloorSummary(rooms),
+);
+
 export default roomSlice.reducer;
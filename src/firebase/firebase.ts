@@ -1,6 +1,6 @@
 import { getApps, initializeApp } from 'firebase/app';
-import { GoogleAuthProvider, getAuth } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import { GoogleAuthProvider, connectAuthEmulator, getAuth } from 'firebase/auth';
+import { connectFirestoreEmulator, getFirestore } from 'firebase/firestore';
 
 const firebaseConfig = {
   apiKey:
@@ -22,4 +22,14 @@ const app = getApps().length ? getApps()[0] : initializeApp(firebaseConfig);
 export const auth = getAuth(app);
 export const googleProvider = new GoogleAuthProvider();
 export const db = getFirestore(app);
+
+// Point at the local emulators (`firebase emulators:start`) when configured,
+// e.g. NEXT_PUBLIC_FIREBASE_EMULATOR_HOST=localhost
+const emulatorHost = process.env.NEXT_PUBLIC_FIREBASE_EMULATOR_HOST;
+if (emulatorHost && !(globalThis as { __roomiEmulators?: boolean }).__roomiEmulators) {
+  connectFirestoreEmulator(db, emulatorHost, 8080);
+  connectAuthEmulator(auth, `http://${emulatorHost}:9099`, { disableWarnings: true });
+  // Connecting twice throws, which happens on hot reload
+  (globalThis as { __roomiEmulators?: boolean }).__roomiEmulators = true;
+}
 export default app;
@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { useAuth } from '@/components/AuthProvider';
+import { applyRemoteDesign } from '@/features/roomSlice';
+import { useAppDispatch, useAppSelector } from '@/hooks/redux';
+import { DesignMerge } from '@/lib/design-merge';
+import { DesignContent } from '@/lib/design-schema';
+import {
+  CollaboratorPresence,
+  CollaboratorRole,
+  designService,
+} from '@/lib/designService';
+
+export type CollaborationStatus =
+  | 'idle'
+  | 'connecting'
+  | 'live'
+  | 'unavailable'
+  | 'error';
+
+type PresenceUpdate = Pick<CollaboratorPresence, 'cursor' | 'selectedWallId'>;
+
+const SEND_DELAY_MS = 300; // Batch rapid edits (e.g. a drag) into one write
+const PRESENCE_THROTTLE_MS = 100;
+const PRESENCE_HEARTBEAT_MS = 10000;
+const PRESENCE_STALE_MS = 30000; // Collaborators silent for longer have left
+
+const PRESENCE_COLORS = [
+  '#E11D48',
+  '#7C3AED',
+  '#0891B2',
+  '#16A34A',
+  '#EA580C',
+  '#DB2777',
+];
+
+const colorFor = (uid: string) => {
+  let hash = 0;
+  for (const char of uid) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+};
+
+/**
+ * Live multi-user editing of a saved design: merges remote edits into the room slice,
+ * sends local edits as per-entity ops and shares cursor/selection presence
+ */
+export const useCollaboration = (designId: string | null, enabled: boolean) => {
+  const dispatch = useAppDispatch();
+  const { user } = useAuth();
+  const walls = useAppSelector((state) => state.room.walls);
+  const rooms = useAppSelector((state) => state.room.rooms);
+  const doors = useAppSelector((state) => state.room.doors);
+  const windows = useAppSelector((state) => state.room.windows);
+  const objects = useAppSelector((state) => state.room.objects);
+  const dimensions = useAppSelector((state) => state.room.dimensions);
+  const levels = useAppSelector((state) => state.room.levels);
+  const content = useMemo<DesignContent>(
+    () => DesignMerge.pick({ walls, rooms, doors, windows, objects, dimensions, levels }),
+    [walls, rooms, doors, windows, objects, dimensions, levels],
+  );
+
+  const [status, setStatus] = useState<CollaborationStatus>('idle');
+  const [role, setRole] = useState<'owner' | CollaboratorRole | null>(null);
+  const [presence, setPresence] = useState<CollaboratorPresence[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Last server version seen; local edits are the diff between it and the store
+  const baseRef = useRef<DesignContent | null>(null);
+  const contentRef = useRef(content);
+  const presenceRef = useRef<PresenceUpdate>({ cursor: null, selectedWallId: null });
+  const presenceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const active = enabled && !!designId && !!user;
+
+  useEffect(() => {
+    contentRef.current = content;
+  }, [content]);
+
+  // Remote changes: rebase unsent local edits onto the new server version
+  useEffect(() => {
+    if (!active || !designId || !user) {
+      setStatus('idle');
+      setRole(null);
+      return;
+    }
+    setStatus('connecting');
+    baseRef.current = null;
+
+    return designService.subscribeToDesign(designId, (design) => {
+      if (!design) {
+        setStatus('unavailable');
+        return;
+      }
+      const remote = DesignMerge.pick(design);
+      const pending = baseRef.current
+        ? DesignMerge.diff(baseRef.current, contentRef.current)
+        : [];
+      baseRef.current = remote;
+      const merged = DesignMerge.apply(remote, pending);
+      if (DesignMerge.diff(contentRef.current, merged).length > 0) {
+        dispatch(applyRemoteDesign(merged));
+      }
+      setRole(
+        design.userId === user.uid
+          ? 'owner'
+          : (design.roles?.[user.email?.toLowerCase() ?? ''] ?? null),
+      );
+      setStatus('live');
+    });
+  }, [active, designId, user, dispatch]);
+
+  // Local changes: send what differs from the server version
+  useEffect(() => {
+    if (!active || !designId || !baseRef.current || role === 'viewer') {
+      return;
+    }
+    if (DesignMerge.diff(baseRef.current, content).length === 0) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      if (!baseRef.current) {
+        return;
+      }
+      const ops = DesignMerge.diff(baseRef.current, contentRef.current);
+      designService.applyDesignOps(designId, ops).catch((error) => {
+        console.error('❌ Failed to sync collaborative edit:', error);
+        setStatus('error');
+      });
+    }, SEND_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [active, designId, role, content]);
+
+  // Presence
+  const sendPresence = useCallback(() => {
+    if (!designId || !user) {
+      return;
+    }
+    designService
+      .updatePresence(designId, {
+        uid: user.uid,
+        name: user.displayName || user.email?.split('@')[0] || 'Guest',
+        color: colorFor(user.uid),
+        ...presenceRef.current,
+      })
+      .catch((error) => console.error('❌ Failed to update presence:', error));
+  }, [designId, user]);
+
+  useEffect(() => {
+    if (!active || !designId || !user) {
+      setPresence([]);
+      return;
+    }
+    const unsubscribe = designService.subscribeToPresence(designId, setPresence);
+    sendPresence();
+    const heartbeat = setInterval(() => {
+      sendPresence();
+      setNow(Date.now());
+    }, PRESENCE_HEARTBEAT_MS);
+    const leave = () => {
+      designService.clearPresence(designId, user.uid).catch(() => {});
+    };
+    window.addEventListener('beforeunload', leave);
+
+    return () => {
+      unsubscribe();
+      clearInterval(heartbeat);
+      if (presenceTimerRef.current) {
+        clearTimeout(presenceTimerRef.current);
+        presenceTimerRef.current = null;
+      }
+      window.removeEventListener('beforeunload', leave);
+      leave();
+    };
+  }, [active, designId, user, sendPresence]);
+
+  const updatePresence = useCallback(
+    (update: Partial<PresenceUpdate>) => {
+      presenceRef.current = { ...presenceRef.current, ...update };
+      if (!active || presenceTimerRef.current) {
+        return;
+      }
+      presenceTimerRef.current = setTimeout(() => {
+        presenceTimerRef.current = null;
+        sendPresence();
+      }, PRESENCE_THROTTLE_MS);
+    },
+    [active, sendPresence],
+  );
+
+  const collaborators = useMemo(
+    () =>
+      presence.filter(
+        (p) => p.uid !== user?.uid && now - p.updatedAt.getTime() < PRESENCE_STALE_MS,
+      ),
+    [presence, user, now],
+  );
+
+  return { status, role, collaborators, updatePresence };
+};
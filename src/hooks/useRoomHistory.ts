@@ -0,0 +1,175 @@
+import { SetStateAction, useCallback, useEffect, useMemo } from 'react';
+
+import { UnknownAction } from '@reduxjs/toolkit';
+
+import {
+  RoomState,
+  redo,
+  selectCanRedo,
+  selectCanUndo,
+  setDimensions as setDimensionsAction,
+  setDoors as setDoorsAction,
+  setObjects as setObjectsAction,
+  setWalls as setWallsAction,
+  setWindows as setWindowsAction,
+  undo,
+} from '@/features/roomSlice';
+import type { AppDispatch, RootState } from '@/features/store';
+import { useAppDispatch, useAppSelector } from '@/hooks/redux';
+import { BuildingLevels } from '@/lib/building-levels';
+import {
+  DimensionLine,
+  DoorPlacement,
+  RoomObject,
+  Wall,
+  WindowPlacement,
+} from '@/types/room';
+
+type DocumentKey = 'walls' | 'doors' | 'windows' | 'objects' | 'dimensions';
+
+// Puts one level's edited entities back among the other levels'
+type LevelMerge<K extends DocumentKey> = (
+  room: RoomState,
+  levelId: string,
+  next: RoomState[K],
+) => RoomState[K];
+
+const levelWallIds = (room: RoomState, levelId: string) =>
+  new Set(BuildingLevels.onLevel(room.walls, levelId).map((wall) => wall.id));
+
+const mergeWalls: LevelMerge<'walls'> = (room, levelId, walls) =>
+  BuildingLevels.replace(room.walls, levelId, walls);
+
+const mergeDoors: LevelMerge<'doors'> = (room, levelId, doors) =>
+  BuildingLevels.replaceOpenings(room.doors, levelWallIds(room, levelId), doors);
+
+const mergeWindows: LevelMerge<'windows'> = (room, levelId, windows) =>
+  BuildingLevels.replaceOpenings(room.windows, levelWallIds(room, levelId), windows);
+
+const mergeObjects: LevelMerge<'objects'> = (room, levelId, objects) =>
+  BuildingLevels.replace(room.objects, levelId, objects);
+
+const mergeDimensions: LevelMerge<'dimensions'> = (room, levelId, dimensions) =>
+  BuildingLevels.replace(room.dimensions, levelId, dimensions);
+
+// One level's share of every document collection
+const levelDocument = (room: RoomState, levelId: string) => ({
+  ...BuildingLevels.pick(room, levelId),
+  dimensions: BuildingLevels.onLevel(room.dimensions, levelId),
+});
+
+const resolveUpdate = <T>(update: SetStateAction<T>, prev: T): T =>
+  typeof update === 'function' ? (update as (prev: T) => T)(prev) : update;
+
+// useState-style setter backed by the room slice, so every edit lands in the undo history.
+// It sees and replaces only the active level's entities
+const useDocumentSetter = <K extends DocumentKey>(
+  dispatch: AppDispatch,
+  key: K,
+  createAction: (value: RoomState[K], historyGroup?: string) => UnknownAction,
+  merge: LevelMerge<K>,
+) =>
+  useCallback(
+    (update: SetStateAction<RoomState[K]>, historyGroup?: string) => {
+      // Resolve functional updates against the latest store state, not a stale render
+      dispatch((innerDispatch: AppDispatch, getState: () => RootState) => {
+        const room = getState().room;
+        const prev = levelDocument(room, room.activeLevelId)[key] as RoomState[K];
+        const next = resolveUpdate(update, prev);
+        if (next !== prev) {
+          innerDispatch(
+            createAction(merge(room, room.activeLevelId, next), historyGroup),
+          );
+        }
+      });
+    },
+    [dispatch, key, createAction, merge],
+  );
+
+/**
+ * The active level of the room document (walls, openings, furniture, dimension lines)
+ * from the store with undoable setters
+ */
+export const useRoomDocument = () => {
+  const dispatch = useAppDispatch();
+  const walls = useAppSelector((state) => state.room.walls) as Wall[];
+  const doors = useAppSelector((state) => state.room.doors) as DoorPlacement[];
+  const windows = useAppSelector((state) => state.room.windows) as WindowPlacement[];
+  const objects = useAppSelector((state) => state.room.objects) as RoomObject[];
+  const allDimensions = useAppSelector(
+    (state) => state.room.dimensions,
+  ) as DimensionLine[];
+  const activeLevelId = useAppSelector((state) => state.room.activeLevelId);
+  const level = useMemo(
+    () => BuildingLevels.pick({ walls, doors, windows, objects }, activeLevelId),
+    [walls, doors, windows, objects, activeLevelId],
+  );
+  const dimensions = useMemo(
+    () => BuildingLevels.onLevel(allDimensions, activeLevelId),
+    [allDimensions, activeLevelId],
+  );
+
+  return {
+    ...level,
+    dimensions,
+    setWalls: useDocumentSetter(dispatch, 'walls', setWallsAction, mergeWalls),
+    setDoors: useDocumentSetter(dispatch, 'doors', setDoorsAction, mergeDoors),
+    setWindows: useDocumentSetter(dispatch, 'windows', setWindowsAction, mergeWindows),
+    setObjects: useDocumentSetter(dispatch, 'objects', setObjectsAction, mergeObjects),
+    setDimensions: useDocumentSetter(
+      dispatch,
+      'dimensions',
+      setDimensionsAction,
+      mergeDimensions,
+    ),
+  };
+};
+
+/**
+ * Undo/redo state plus Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z and Ctrl/Cmd+Y shortcuts
+ */
+export const useRoomHistory = () => {
+  const dispatch = useAppDispatch();
+  const canUndo = useAppSelector(selectCanUndo);
+  const canRedo = useAppSelector(selectCanRedo);
+
+  const handleUndo = useCallback(() => {
+    dispatch(undo());
+  }, [dispatch]);
+
+  const handleRedo = useCallback(() => {
+    dispatch(redo());
+  }, [dispatch]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) {
+        return;
+      }
+      // Leave native undo to text fields
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.tagName === 'INPUT' ||
+          target.tagName === 'TEXTAREA' ||
+          target.isContentEditable)
+      ) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        dispatch(undo());
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        dispatch(redo());
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [dispatch]);
+
+  return { canUndo, canRedo, undo: handleUndo, redo: handleRedo };
+};
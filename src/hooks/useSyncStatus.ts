@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+
+import { SyncStatus, designRepository } from '@/lib/design-repository';
+
+/**
+ * Live status of the design sync queue
+ */
+export const useSyncStatus = (): SyncStatus => {
+  const [status, setStatus] = useState(() => designRepository.getStatus());
+
+  useEffect(() => {
+    const unsubscribe = designRepository.subscribeToStatus(setStatus);
+    // Flush writes queued while offline in an earlier session
+    void designRepository.sync();
+    return unsubscribe;
+  }, []);
+
+  return status;
+};
@@ -4,6 +4,14 @@
  * and geometric validation with support for complex polygons
  */
 
+import { Ceiling, CeilingSurface } from '@/lib/ceiling';
+import {
+  ValidationIssue,
+  ValidationLimits,
+  ValidationRules,
+} from '@/lib/validation-rules';
+import { WallArc } from '@/lib/wall-arc';
+
 export interface Point {
   x: number;
   z: number;
@@ -15,6 +23,9 @@ export interface Wall {
   end: Point;
   height: number;
   thickness: number;
+  color?: string; // Interior paint color
+  bulge?: number; // Arc walls only; see WallArc
+  levelId?: string; // Ground level when absent; see BuildingLevels
 }
 
 export interface RoomMetrics {
@@ -39,8 +50,8 @@ export interface RoomMetrics {
   };
 
   // Validation
-  isValid: boolean;
-  validationErrors: string[];
+  isValid: boolean; // No error-severity issues
+  validationErrors: ValidationIssue[];
 
   // Wall analysis
   wallLengths: number[];
@@ -52,6 +63,11 @@ export interface RoomMetrics {
   interiorAngles: number[];
   averageAngle: number;
 
+  // Height, following a sloped ceiling where there is one
+  wallAreas: number[]; // One face of each wall, in m²
+  totalWallArea: number;
+  volume: number; // m³ under the ceiling
+
   // Efficiency metrics
   usableArea: number; // Area minus wall thickness
   wallToFloorRatio: number;
@@ -59,32 +75,26 @@ export interface RoomMetrics {
 
 export class AdvancedRoomCalculator {
   private static readonly PRECISION = 1e-6;
-  private static readonly MIN_WALL_LENGTH = 0.1;
-  private static readonly MAX_WALL_LENGTH = 50;
-  private static readonly MIN_ANGLE = 15; // degrees
-  private static readonly MAX_ANGLE = 345; // degrees
-  // Added constraints for Roomi requirements
-  private static readonly MIN_WALL_HEIGHT = 2.8;
-  private static readonly MAX_WALL_HEIGHT = 3.0;
-  private static readonly MIN_WALL_THICKNESS = 0.1;
-  private static readonly MAX_WALL_THICKNESS = 0.25;
-  private static readonly MAX_ROOM_AREA = 35; // m²
 
   /**
-   * Calculate comprehensive room metrics
+   * Calculate comprehensive room metrics, validated against the given limits
    */
-  static calculateRoomMetrics(walls: Wall[]): RoomMetrics {
-    const validationErrors: string[] = [];
+  static calculateRoomMetrics(
+    walls: Wall[],
+    limits: ValidationLimits = ValidationRules.resolve(),
+    ceiling: CeilingSurface | null = null,
+  ): RoomMetrics {
+    const validationErrors: ValidationIssue[] = [];
 
     // Basic validation
     if (walls.length < 3) {
-      return this.createEmptyMetrics(['Room must have at least 3 walls']);
+      return this.createEmptyMetrics([ValidationRules.issue('too-few-walls')]);
     }
 
     // Get ordered vertices
     const vertices = this.getOrderedVertices(walls);
     if (vertices.length < 3) {
-      return this.createEmptyMetrics(['Unable to form valid polygon from walls']);
+      return this.createEmptyMetrics([ValidationRules.issue('open-polygon')]);
     }
 
     // Validate wall connections
@@ -92,16 +102,26 @@ export class AdvancedRoomCalculator {
     validationErrors.push(...connectionErrors);
 
     // Calculate basic measurements
-    const area = this.calculatePolygonArea(vertices);
+    const area = this.calculateArea(vertices, walls);
     const perimeter = this.calculatePerimeter(walls);
+    // Arc walls reach beyond the corners, so include their curve in the extents
+    const outline = [
+      ...vertices,
+      ...walls
+        .filter((wall) => WallArc.isArc(wall))
+        .flatMap((wall) => WallArc.tessellate(wall)),
+    ];
 
     if (area <= 0) {
-      validationErrors.push('Invalid room area calculated');
+      validationErrors.push(ValidationRules.issue('invalid-area'));
     }
     // Room size constraint
-    if (area - this.MAX_ROOM_AREA > this.PRECISION) {
+    if (area - limits.maxRoomArea > this.PRECISION) {
       validationErrors.push(
-        `Room area exceeds maximum allowed (${area.toFixed(2)}m² > ${this.MAX_ROOM_AREA}m²)`,
+        ValidationRules.issue('area-too-large', {
+          area: area.toFixed(2),
+          max: limits.maxRoomArea,
+        }),
       );
     }
 
@@ -109,14 +129,14 @@ export class AdvancedRoomCalculator {
     const compactness = this.calculateCompactness(area, perimeter);
     const rectangularity = this.calculateRectangularity(vertices);
     const convexity = this.calculateConvexity(vertices);
-    const aspectRatio = this.calculateAspectRatio(vertices);
+    const aspectRatio = this.calculateAspectRatio(outline);
 
     // Geometric properties
     const centroid = this.calculateCentroid(vertices);
-    const boundingBox = this.calculateBoundingBox(vertices);
+    const boundingBox = this.calculateBoundingBox(outline);
 
     // Wall analysis
-    const wallLengths = walls.map((wall) => this.calculateDistance(wall.start, wall.end));
+    const wallLengths = walls.map((wall) => WallArc.getLength(wall));
     const averageWallLength =
       wallLengths.reduce((sum, len) => sum + len, 0) / wallLengths.length;
     const shortestWall = Math.min(...wallLengths);
@@ -124,27 +144,47 @@ export class AdvancedRoomCalculator {
 
     // Validate wall lengths
     wallLengths.forEach((length, index) => {
-      if (length < this.MIN_WALL_LENGTH) {
-        validationErrors.push(`Wall ${index + 1} is too short (${length.toFixed(2)}m)`);
+      const params = { wall: index + 1, length: length.toFixed(2) };
+      const reference = { wallIndex: index, wallId: walls[index].id };
+      if (length < limits.minWallLength) {
+        validationErrors.push(ValidationRules.issue('wall-too-short', params, reference));
       }
-      if (length > this.MAX_WALL_LENGTH) {
-        validationErrors.push(`Wall ${index + 1} is too long (${length.toFixed(2)}m)`);
+      if (length > limits.maxWallLength) {
+        validationErrors.push(ValidationRules.issue('wall-too-long', params, reference));
       }
     });
 
     // Validate wall heights and thicknesses
     walls.forEach((wall, index) => {
-      if (wall.height < this.MIN_WALL_HEIGHT || wall.height > this.MAX_WALL_HEIGHT) {
+      if (wall.height < limits.minWallHeight || wall.height > limits.maxWallHeight) {
         validationErrors.push(
-          `Wall ${index + 1} height (${wall.height.toFixed(2)}m) must be between ${this.MIN_WALL_HEIGHT}m and ${this.MAX_WALL_HEIGHT}m`,
+          ValidationRules.issue(
+            'wall-height',
+            {
+              wall: index + 1,
+              height: wall.height.toFixed(2),
+              min: limits.minWallHeight,
+              max: limits.maxWallHeight,
+            },
+            { wallIndex: index, wallId: wall.id },
+          ),
         );
       }
       if (
-        wall.thickness < this.MIN_WALL_THICKNESS ||
-        wall.thickness > this.MAX_WALL_THICKNESS
+        wall.thickness < limits.minWallThickness ||
+        wall.thickness > limits.maxWallThickness
       ) {
         validationErrors.push(
-          `Wall ${index + 1} thickness (${wall.thickness.toFixed(2)}m) must be between ${this.MIN_WALL_THICKNESS}m and ${this.MAX_WALL_THICKNESS}m`,
+          ValidationRules.issue(
+            'wall-thickness',
+            {
+              wall: index + 1,
+              thickness: wall.thickness.toFixed(2),
+              min: limits.minWallThickness,
+              max: limits.maxWallThickness,
+            },
+            { wallIndex: index, wallId: wall.id },
+          ),
         );
       }
     });
@@ -157,13 +197,25 @@ export class AdvancedRoomCalculator {
     // Validate angles
     interiorAngles.forEach((angle, index) => {
       const angleDegrees = (angle * 180) / Math.PI;
-      if (angleDegrees < this.MIN_ANGLE || angleDegrees > this.MAX_ANGLE) {
+      if (angleDegrees < limits.minAngle || angleDegrees > limits.maxAngle) {
         validationErrors.push(
-          `Corner ${index + 1} has extreme angle (${angleDegrees.toFixed(1)}°)`,
+          ValidationRules.issue(
+            'extreme-angle',
+            { corner: index + 1, angle: angleDegrees.toFixed(1) },
+            { cornerIndex: index, point: vertices[index] },
+            'warning',
+          ),
         );
       }
     });
 
+    // Walls and volume under the ceiling; a flat ceiling rests on the tallest wall
+    const wallAreas = walls.map((wall) => Ceiling.wallArea(wall, ceiling));
+    const totalWallArea = wallAreas.reduce((sum, wallArea) => sum + wallArea, 0);
+    const volume = ceiling
+      ? Ceiling.volume(WallArc.expandOutline(vertices, walls), ceiling, 0)
+      : area * Math.max(...walls.map((wall) => wall.height));
+
     // Efficiency metrics
     const avgThickness =
       walls.reduce((sum, wall) => sum + wall.thickness, 0) / walls.length;
@@ -187,7 +239,7 @@ export class AdvancedRoomCalculator {
       boundingBox,
 
       // Validation
-      isValid: validationErrors.length === 0 && area > 0,
+      isValid: !validationErrors.some((issue) => issue.severity === 'error') && area > 0,
       validationErrors,
 
       // Wall analysis
@@ -200,6 +252,11 @@ export class AdvancedRoomCalculator {
       interiorAngles,
       averageAngle,
 
+      // Height
+      wallAreas,
+      totalWallArea,
+      volume,
+
       // Efficiency metrics
       usableArea,
       wallToFloorRatio,
@@ -286,13 +343,26 @@ export class AdvancedRoomCalculator {
   }
 
   /**
-   * Calculate perimeter from walls
+   * Area enclosed by the walls: the corner polygon plus the segment each arc wall
+   * bulges out of it, or minus the segment it bulges into it
+   */
+  private static calculateArea(vertices: Point[], walls: Wall[]): number {
+    const polygonArea = this.calculatePolygonArea(vertices);
+    return walls.reduce((area, wall) => {
+      if (!WallArc.isArc(wall)) {
+        return area;
+      }
+      const bulgesOut = !this.isPointInPolygon(WallArc.getMidpoint(wall), vertices);
+      const segment = WallArc.getSegmentArea(wall);
+      return bulgesOut ? area + segment : area - segment;
+    }, polygonArea);
+  }
+
+  /**
+   * Calculate perimeter from walls, along the curve for arc walls
    */
   private static calculatePerimeter(walls: Wall[]): number {
-    return walls.reduce(
-      (sum, wall) => sum + this.calculateDistance(wall.start, wall.end),
-      0,
-    );
+    return walls.reduce((sum, wall) => sum + WallArc.getLength(wall), 0);
   }
 
   /**
@@ -473,23 +543,29 @@ export class AdvancedRoomCalculator {
   /**
    * Validate wall connections
    */
-  private static validateWallConnections(walls: Wall[]): string[] {
-    const errors: string[] = [];
-    const pointConnections = new Map<string, number>();
+  private static validateWallConnections(walls: Wall[]): ValidationIssue[] {
+    const errors: ValidationIssue[] = [];
+    const pointConnections = new Map<string, { point: Point; connections: number }>();
 
     // Count connections for each point
     walls.forEach((wall) => {
-      const startKey = this.pointToKey(wall.start);
-      const endKey = this.pointToKey(wall.end);
-
-      pointConnections.set(startKey, (pointConnections.get(startKey) || 0) + 1);
-      pointConnections.set(endKey, (pointConnections.get(endKey) || 0) + 1);
+      [wall.start, wall.end].forEach((point) => {
+        const key = this.pointToKey(point);
+        const entry = pointConnections.get(key) ?? { point, connections: 0 };
+        pointConnections.set(key, { ...entry, connections: entry.connections + 1 });
+      });
     });
 
     // Each point should have exactly 2 connections for a closed polygon
-    for (const [point, connections] of pointConnections.entries()) {
+    for (const [key, { point, connections }] of pointConnections.entries()) {
       if (connections !== 2) {
-        errors.push(`Point ${point} has ${connections} connections (should be 2)`);
+        errors.push(
+          ValidationRules.issue(
+            'invalid-connection',
+            { point: key, connections },
+            { point },
+          ),
+        );
       }
     }
 
@@ -499,6 +575,21 @@ export class AdvancedRoomCalculator {
   /**
    * Utility functions
    */
+  private static isPointInPolygon(point: Point, vertices: Point[]): boolean {
+    let inside = false;
+    for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+      const a = vertices[i];
+      const b = vertices[j];
+      if (
+        a.z > point.z !== b.z > point.z &&
+        point.x < ((b.x - a.x) * (point.z - a.z)) / (b.z - a.z) + a.x
+      ) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
   private static calculateDistance(a: Point, b: Point): number {
     return Math.sqrt((a.x - b.x) ** 2 + (a.z - b.z) ** 2);
   }
@@ -523,7 +614,7 @@ export class AdvancedRoomCalculator {
     return signedArea > 0 ? [...vertices].reverse() : vertices;
   }
 
-  private static createEmptyMetrics(errors: string[]): RoomMetrics {
+  private static createEmptyMetrics(errors: ValidationIssue[]): RoomMetrics {
     return {
       area: 0,
       perimeter: 0,
@@ -542,6 +633,9 @@ export class AdvancedRoomCalculator {
       longestWall: 0,
       interiorAngles: [],
       averageAngle: 0,
+      wallAreas: [],
+      totalWallArea: 0,
+      volume: 0,
       usableArea: 0,
       wallToFloorRatio: 0,
     };
@@ -1,3 +1,8 @@
+import { AdvancedRoomCalculator, RoomMetrics } from '@/lib/advanced-room-calculator';
+import { BuildingLevels } from '@/lib/building-levels';
+import { CeilingSurface } from '@/lib/ceiling';
+import { ValidationLimits } from '@/lib/validation-rules';
+import { WallGraph } from '@/lib/wall-graph';
 import { Point, Wall } from '@/types/room';
 
 // Enhanced room types for multiple room support
@@ -8,6 +13,27 @@ export interface DrawingRoom {
   isCompleted: boolean;
   parentRoomId?: string; // For nested rooms
   isActive: boolean; // Currently being drawn
+  metrics?: RoomMetrics; // Measured on its own once completed
+  levelId?: string; // Ground level when absent; see BuildingLevels
+}
+
+export interface RoomAreaSummary {
+  id: string;
+  name: string;
+  grossArea: number;
+  netArea: number;
+  isValid: boolean;
+}
+
+// Totals for a whole floor of rooms
+export interface FloorSummary {
+  roomCount: number;
+  grossArea: number; // Inside wall centerlines; nested rooms count towards their parent
+  netArea: number; // What is left once the walls' thickness is taken off
+  sharedWallCount: number; // Walls of two rooms built against each other
+  sharedWallLength: number;
+  invalidRoomCount: number;
+  rooms: RoomAreaSummary[];
 }
 
 export interface RoomDrawingState {
@@ -312,7 +338,8 @@ export class AdvancedRoomDrawing {
   }
 
   /**
-   * Recalculate wall thicknesses based on inside/outside position
+   * Recalculate wall thicknesses based on inside/outside position; walls built
+   * against another room's wall are a partition between the two
    */
   static recalculateWallThicknesses(rooms: DrawingRoom[]): DrawingRoom[] {
     return rooms.map((room) => {
@@ -331,7 +358,12 @@ export class AdvancedRoomDrawing {
           (otherRoom) =>
             otherRoom.id !== room.id &&
             otherRoom.isCompleted &&
-            this.isPointInsideRoom(wallMidpoint, otherRoom),
+            BuildingLevels.levelOf(otherRoom) === BuildingLevels.levelOf(room) &&
+            (this.isPointInsideRoom(wallMidpoint, otherRoom) ||
+              otherRoom.walls.some(
+                (otherWall) =>
+                  this.getWallOverlap(wall, otherWall) >= this.MIN_WALL_LENGTH,
+              )),
         );
 
         return {
@@ -347,10 +379,135 @@ export class AdvancedRoomDrawing {
   }
 
   /**
-   * Get all walls from all rooms for rendering
+   * Measure every completed room on its own; a plan of several rooms is not one closed loop
+   */
+  static measureRooms(
+    rooms: DrawingRoom[],
+    limits?: ValidationLimits,
+    ceiling: CeilingSurface | null = null,
+  ): DrawingRoom[] {
+    return rooms.map((room) => {
+      const { metrics: _metrics, ...rest } = room;
+      if (!room.isCompleted) {
+        return rest;
+      }
+      const metrics = AdvancedRoomCalculator.calculateRoomMetrics(
+        room.walls,
+        limits,
+        ceiling,
+      );
+      return {
+        ...rest,
+        metrics: {
+          ...metrics,
+          // Tag each issue with its room so it can be located on the plan
+          validationErrors: metrics.validationErrors.map((issue) => ({
+            ...issue,
+            roomId: room.id,
+          })),
+        },
+      };
+    });
+  }
+
+  /**
+   * Aggregate area and shared walls over all measured rooms
+   */
+  static calculateFloorSummary(rooms: DrawingRoom[]): FloorSummary {
+    const measured = rooms.filter((room) => room.isCompleted && room.metrics);
+    const summaries: RoomAreaSummary[] = measured.map((room) => {
+      const metrics = room.metrics!;
+      // Walls run along the centerline, so half their thickness is inside the room
+      const wallFootprint = room.walls.reduce(
+        (sum, wall) => sum + (this.getWallLength(wall) * wall.thickness) / 2,
+        0,
+      );
+      return {
+        id: room.id,
+        name: room.name,
+        grossArea: metrics.area,
+        netArea: Math.max(0, metrics.area - wallFootprint),
+        isValid: metrics.isValid,
+      };
+    });
+
+    let grossArea = 0;
+    let netArea = 0;
+    measured.forEach((room, index) => {
+      const summary = summaries[index];
+      netArea += summary.netArea;
+      if (room.parentRoomId) {
+        netArea -= summary.grossArea; // Already part of the parent's floor
+      } else {
+        grossArea += summary.grossArea;
+      }
+    });
+
+    let sharedWallCount = 0;
+    let sharedWallLength = 0;
+    measured.forEach((room, index) => {
+      for (const other of measured.slice(index + 1)) {
+        for (const wall of room.walls) {
+          for (const otherWall of other.walls) {
+            const overlap = this.getWallOverlap(wall, otherWall);
+            if (overlap >= this.MIN_WALL_LENGTH) {
+              sharedWallCount++;
+              sharedWallLength += overlap;
+            }
+          }
+        }
+      }
+    });
+
+    return {
+      roomCount: measured.length,
+      grossArea,
+      netArea: Math.max(0, netArea),
+      sharedWallCount,
+      sharedWallLength,
+      invalidRoomCount: summaries.filter((summary) => !summary.isValid).length,
+      rooms: summaries,
+    };
+  }
+
+  /**
+   * Length along which two walls lie on top of each other (0 if they don't)
+   */
+  static getWallOverlap(a: Wall, b: Wall, tolerance = this.SNAP_THRESHOLD): number {
+    const length = this.getWallLength(a);
+    if (length === 0) {
+      return 0;
+    }
+    const ux = (a.end.x - a.start.x) / length;
+    const uz = (a.end.z - a.start.z) / length;
+    const distanceFromLine = (p: Point) =>
+      Math.abs((p.x - a.start.x) * uz - (p.z - a.start.z) * ux);
+    if (distanceFromLine(b.start) > tolerance || distanceFromLine(b.end) > tolerance) {
+      return 0;
+    }
+
+    const along = (p: Point) => (p.x - a.start.x) * ux + (p.z - a.start.z) * uz;
+    const from = Math.max(0, Math.min(along(b.start), along(b.end)));
+    const to = Math.min(length, Math.max(along(b.start), along(b.end)));
+    return Math.max(0, to - from);
+  }
+
+  private static getWallLength(wall: Wall): number {
+    return Math.hypot(wall.end.x - wall.start.x, wall.end.z - wall.start.z);
+  }
+
+  /**
+   * Get all walls from all rooms for rendering, with walls shared by neighbouring
+   * rooms merged and split at T-junctions
    */
   static getAllWalls(state: RoomDrawingState): Wall[] {
-    return state.rooms.flatMap((room) => room.walls);
+    // Walls only meet walls on their own level
+    const levelIds = new Set(state.rooms.map((room) => BuildingLevels.levelOf(room)));
+    return Array.from(levelIds).flatMap((levelId) =>
+      WallGraph.build(BuildingLevels.onLevel(state.rooms, levelId)).map(
+        (edge) => edge.wall,
+      ),
+    );
   }
 
   /**
@@ -373,7 +530,10 @@ export class AdvancedRoomDrawing {
       let smallestParentArea = Infinity;
 
       for (const otherRoom of completedRooms) {
-        if (room.id === otherRoom.id) {
+        if (
+          room.id === otherRoom.id ||
+          BuildingLevels.levelOf(otherRoom) !== BuildingLevels.levelOf(room)
+        ) {
           continue;
         }
 
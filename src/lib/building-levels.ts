@@ -0,0 +1,183 @@
+/**
+ * Building Levels
+ * Floors of a multi-storey design. Walls, rooms and objects name their level with
+ * `levelId`; those without one are on the ground level, so single-floor designs are
+ * unchanged. Doors and windows are on their wall's level
+ */
+
+import { DoorPlacement, RoomObject, Wall, WindowPlacement } from '@/types/room';
+
+export interface BuildingLevel {
+  id: string;
+  name: string;
+  elevation: number; // Floor height above the ground level's floor, in meters
+  height: number; // Floor-to-floor height
+}
+
+type LevelEntity = { levelId?: string };
+
+// The parts of a design that are split between levels
+export interface LevelContent {
+  walls: Wall[];
+  doors: DoorPlacement[];
+  windows: WindowPlacement[];
+  objects: RoomObject[];
+}
+
+export class BuildingLevels {
+  static readonly GROUND_ID = 'ground';
+
+  static readonly DEFAULT: BuildingLevel[] = [
+    { id: 'ground', name: 'Ground floor', elevation: 0, height: 3 },
+  ];
+
+  static levelOf(entity: LevelEntity): string {
+    return entity.levelId ?? this.GROUND_ID;
+  }
+
+  /**
+   * The entities on one level; the same array when they all are
+   */
+  static onLevel<T extends LevelEntity>(items: T[], levelId: string): T[] {
+    return items.every((item) => this.levelOf(item) === levelId)
+      ? items
+      : items.filter((item) => this.levelOf(item) === levelId);
+  }
+
+  /**
+   * One level's walls, objects and the openings in its walls
+   */
+  static pick(content: LevelContent, levelId: string): LevelContent {
+    const walls = this.onLevel(content.walls, levelId);
+    const wallIds = new Set(walls.map((wall) => wall.id));
+    const inLevel = <T extends { wallId: string }>(openings: T[]) =>
+      openings.every((opening) => wallIds.has(opening.wallId))
+        ? openings
+        : openings.filter((opening) => wallIds.has(opening.wallId));
+    return {
+      walls,
+      doors: inLevel(content.doors),
+      windows: inLevel(content.windows),
+      objects: this.onLevel(content.objects, levelId),
+    };
+  }
+
+  /**
+   * Put an entity on a level; ground-level entities carry no `levelId`
+   */
+  static assign<T extends LevelEntity>(entity: T, levelId: string): T {
+    if (levelId !== this.GROUND_ID) {
+      return entity.levelId === levelId ? entity : { ...entity, levelId };
+    }
+    if (!('levelId' in entity)) {
+      return entity;
+    }
+    // Firestore rejects undefined fields, so the key is dropped rather than cleared
+    const { levelId: _levelId, ...rest } = entity;
+    return rest as T;
+  }
+
+  /**
+   * Swap one level's entities for `items`, keeping every other level's
+   */
+  static replace<T extends LevelEntity>(all: T[], levelId: string, items: T[]): T[] {
+    const others = all.filter((item) => this.levelOf(item) !== levelId);
+    const placed = items.map((item) => this.assign(item, levelId));
+    return others.length === 0 ? placed : [...others, ...placed];
+  }
+
+  /**
+   * Swap the openings in one level's walls for `items`
+   */
+  static replaceOpenings<T extends { wallId: string }>(
+    all: T[],
+    levelWallIds: Set<string>,
+    items: T[],
+  ): T[] {
+    const others = all.filter((opening) => !levelWallIds.has(opening.wallId));
+    return others.length === 0 ? items : [...others, ...items];
+  }
+
+  /**
+   * Levels from the lowest up, always including the ground level
+   */
+  static normalize(levels: BuildingLevel[] | undefined): BuildingLevel[] {
+    const list = levels && levels.length > 0 ? levels : this.DEFAULT;
+    const withGround = list.some((level) => level.id === this.GROUND_ID)
+      ? list
+      : [...this.DEFAULT, ...list];
+    return [...withGround].sort((a, b) => a.elevation - b.elevation);
+  }
+
+  static find(levels: BuildingLevel[], levelId: string): BuildingLevel {
+    return (
+      levels.find((level) => level.id === levelId) ??
+      levels.find((level) => level.id === this.GROUND_ID) ??
+      this.DEFAULT[0]
+    );
+  }
+
+  static top(levels: BuildingLevel[]): BuildingLevel {
+    return levels.reduce(
+      (top, level) => (level.elevation > top.elevation ? level : top),
+      this.find(levels, this.GROUND_ID),
+    );
+  }
+
+  /**
+   * The next level up, or null on the top level
+   */
+  static above(levels: BuildingLevel[], levelId: string): BuildingLevel | null {
+    const { elevation } = this.find(levels, levelId);
+    return levels
+      .filter((level) => level.elevation > elevation)
+      .reduce<BuildingLevel | null>(
+        (next, level) => (!next || level.elevation < next.elevation ? level : next),
+        null,
+      );
+  }
+
+  /**
+   * A new level stacked on top of the building
+   */
+  static createAbove(levels: BuildingLevel[], name: string): BuildingLevel {
+    const top = this.top(levels);
+    return {
+      id: `level-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      name,
+      elevation: top.elevation + top.height,
+      height: top.height,
+    };
+  }
+
+  /**
+   * How far stairs on a level climb: up to the next level, or one storey on the top one
+   */
+  static stairRise(levels: BuildingLevel[], levelId: string): number {
+    const level = this.find(levels, levelId);
+    const next = this.above(levels, levelId);
+    return next ? next.elevation - level.elevation : level.height;
+  }
+
+  /**
+   * Change a level; a new floor-to-floor height moves the levels above it too
+   */
+  static update(
+    levels: BuildingLevel[],
+    levelId: string,
+    updates: Partial<Omit<BuildingLevel, 'id'>>,
+  ): BuildingLevel[] {
+    const level = this.find(levels, levelId);
+    const shift = updates.height !== undefined ? updates.height - level.height : 0;
+    return this.normalize(
+      levels.map((other) => {
+        if (other.id === levelId) {
+          return { ...other, ...updates };
+        }
+        return shift !== 0 && other.elevation > level.elevation
+          ? { ...other, elevation: other.elevation + shift }
+          : other;
+      }),
+    );
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Ceiling
+ * The ceiling over a plan: flat, a single slope or a gable roof. Sloped ceilings span
+ * the whole plan, rising from the eave height at its low edge(s) to the ridge height,
+ * and walls end at their own height or where the ceiling comes down lower
+ */
+
+import { WallArc } from '@/lib/wall-arc';
+import { Point, Wall } from '@/types/room';
+
+export type CeilingType = 'flat' | 'single-slope' | 'gable';
+
+export interface CeilingSettings {
+  type: CeilingType;
+  eaveHeight: number; // Lowest edge of a sloped ceiling, in meters
+  ridgeHeight: number; // High edge of a single slope, or the gable's ridge
+  direction: number; // Degrees; the ridge (or high edge) runs this way, 0 = along x
+}
+
+// A sloped ceiling laid over a particular plan
+export interface CeilingSurface {
+  settings: CeilingSettings;
+  axis: Point; // Unit vector across the ridge, the direction the ceiling rises in
+  min: number; // Extent of the plan along the axis
+  max: number;
+}
+
+// Wall height at a distance along the wall
+export interface WallProfilePoint {
+  distance: number;
+  height: number;
+}
+
+type CeilingWall = Pick<Wall, 'start' | 'end' | 'height' | 'bulge'>;
+
+export class Ceiling {
+  static readonly DEFAULT: CeilingSettings = {
+    type: 'flat',
+    eaveHeight: 2.4,
+    ridgeHeight: 3.6,
+    direction: 0,
+  };
+
+  private static readonly EPSILON = 1e-9;
+
+  /**
+   * The sloped ceiling over the given walls, or null for a flat ceiling, which sits on
+   * top of each room's walls
+   */
+  static surface(settings: CeilingSettings, walls: CeilingWall[]): CeilingSurface | null {
+    if (settings.type === 'flat' || walls.length === 0) {
+      return null;
+    }
+    const angle = (settings.direction * Math.PI) / 180;
+    const axis = { x: -Math.sin(angle), z: Math.cos(angle) };
+    const along = walls
+      .flatMap((wall) => WallArc.tessellate(wall))
+      .map((point) => this.project(axis, point));
+    return { settings, axis, min: Math.min(...along), max: Math.max(...along) };
+  }
+
+  /**
+   * Ceiling height above a point of the plan
+   */
+  static heightAt(surface: CeilingSurface, point: Point): number {
+    const { type, eaveHeight, ridgeHeight } = surface.settings;
+    const span = surface.max - surface.min;
+    if (span < this.EPSILON) {
+      return ridgeHeight;
+    }
+    const t = (this.project(surface.axis, point) - surface.min) / span;
+    const rise = type === 'gable' ? 1 - Math.abs(2 * t - 1) : t;
+    return eaveHeight + (ridgeHeight - eaveHeight) * rise;
+  }
+
+  /**
+   * Top edge of a wall from its start to its end. Without a sloped ceiling the wall is
+   * its own height throughout; otherwise the profile bends where the wall crosses the
+   * ridge or meets the ceiling
+   */
+  static wallProfile(
+    wall: CeilingWall,
+    surface: CeilingSurface | null,
+  ): WallProfilePoint[] {
+    const length = WallArc.getLength(wall);
+    if (!surface) {
+      return [
+        { distance: 0, height: wall.height },
+        { distance: length, height: wall.height },
+      ];
+    }
+
+    const points = WallArc.tessellate(wall);
+    const chords = points.slice(1).map((end, i) => this.distance(points[i], end));
+    const polylineLength = chords.reduce((sum, chord) => sum + chord, 0);
+    // Tessellated arcs are a little shorter than the arc itself
+    const scale = polylineLength > 0 ? length / polylineLength : 0;
+    const ridge = (surface.min + surface.max) / 2;
+
+    const profile: WallProfilePoint[] = [];
+    let travelled = 0;
+    points.slice(1).forEach((end, i) => {
+      const start = points[i];
+      const at = (t: number) => ({
+        x: start.x + (end.x - start.x) * t,
+        z: start.z + (end.z - start.z) * t,
+      });
+      const breaks = [0, 1];
+      if (surface.settings.type === 'gable') {
+        const a = this.project(surface.axis, start) - ridge;
+        const b = this.project(surface.axis, end) - ridge;
+        if (a * b < 0) {
+          breaks.push(a / (a - b));
+        }
+      }
+      breaks.sort((a, b) => a - b);
+
+      // The ceiling is straight between breaks; add where it passes the wall's height
+      const ts = breaks.flatMap((t, j) => {
+        if (j === 0) {
+          return [t];
+        }
+        const previous = breaks[j - 1];
+        const a = this.heightAt(surface, at(previous)) - wall.height;
+        const b = this.heightAt(surface, at(t)) - wall.height;
+        return a * b < 0 ? [previous + ((t - previous) * a) / (a - b), t] : [t];
+      });
+
+      ts.forEach((t, j) => {
+        if (i > 0 && j === 0) {
+          return; // Shared with the previous chord
+        }
+        profile.push({
+          distance: (travelled + chords[i] * t) * scale,
+          height: Math.max(0, Math.min(wall.height, this.heightAt(surface, at(t)))),
+        });
+      });
+      travelled += chords[i];
+    });
+    return profile;
+  }
+
+  /**
+   * Area of one face of a wall, up to where it ends under the ceiling
+   */
+  static wallArea(wall: CeilingWall, surface: CeilingSurface | null): number {
+    const profile = this.wallProfile(wall, surface);
+    return profile.slice(1).reduce((sum, point, i) => {
+      const previous = profile[i];
+      return (
+        sum +
+        ((point.distance - previous.distance) * (point.height + previous.height)) / 2
+      );
+    }, 0);
+  }
+
+  /**
+   * Volume under the ceiling over a floor outline; a flat ceiling is at `flatHeight`
+   */
+  static volume(
+    outline: Point[],
+    surface: CeilingSurface | null,
+    flatHeight: number,
+  ): number {
+    if (!surface) {
+      return Math.abs(this.signedArea(outline)) * flatHeight;
+    }
+    // Over each plane the mean height is the height at the centroid
+    return this.planarParts(outline, surface).reduce((sum, part) => {
+      const area = this.signedArea(part);
+      return Math.abs(area) < this.EPSILON
+        ? sum
+        : sum + Math.abs(area) * this.heightAt(surface, this.centroid(part, area));
+    }, 0);
+  }
+
+  /**
+   * Parts of an outline under which the ceiling is a single plane: the whole outline,
+   * or for a gable the two sides of its ridge
+   */
+  static planarParts(outline: Point[], surface: CeilingSurface | null): Point[][] {
+    if (surface?.settings.type !== 'gable') {
+      return [outline];
+    }
+    const ridge = (surface.min + surface.max) / 2;
+    return [-1, 1]
+      .map((side) => this.clip(outline, surface.axis, ridge, side))
+      .filter((part) => part.length >= 3);
+  }
+
+  /**
+   * Part of a polygon on one side of the line where `axis · p = offset`
+   * (Sutherland–Hodgman against a single edge)
+   */
+  private static clip(
+    polygon: Point[],
+    axis: Point,
+    offset: number,
+    side: number,
+  ): Point[] {
+    const inside = (p: Point) => side * (this.project(axis, p) - offset) >= 0;
+    return polygon.flatMap((current, i) => {
+      const previous = polygon[(i + polygon.length - 1) % polygon.length];
+      const a = this.project(axis, previous) - offset;
+      const b = this.project(axis, current) - offset;
+      const crossing =
+        inside(previous) !== inside(current)
+          ? [
+              {
+                x: previous.x + ((current.x - previous.x) * a) / (a - b),
+                z: previous.z + ((current.z - previous.z) * a) / (a - b),
+              },
+            ]
+          : [];
+      return inside(current) ? [...crossing, current] : crossing;
+    });
+  }
+
+  private static signedArea(polygon: Point[]): number {
+    return (
+      polygon.reduce((sum, p, i) => {
+        const q = polygon[(i + 1) % polygon.length];
+        return sum + p.x * q.z - q.x * p.z;
+      }, 0) / 2
+    );
+  }
+
+  private static centroid(polygon: Point[], signedArea: number): Point {
+    const sum = polygon.reduce(
+      (acc, p, i) => {
+        const q = polygon[(i + 1) % polygon.length];
+        const cross = p.x * q.z - q.x * p.z;
+        return { x: acc.x + (p.x + q.x) * cross, z: acc.z + (p.z + q.z) * cross };
+      },
+      { x: 0, z: 0 },
+    );
+    return { x: sum.x / (6 * signedArea), z: sum.z / (6 * signedArea) };
+  }
+
+  private static project(axis: Point, point: Point): number {
+    return axis.x * point.x + axis.z * point.z;
+  }
+
+  private static distance(a: Point, b: Point): number {
+    return Math.hypot(a.x - b.x, a.z - b.z);
+  }
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+
+import { DesignMerge } from '@/lib/design-merge';
+import { DesignContent, DesignSchema } from '@/lib/design-schema';
+
+const wall = (id: string, x = 0) => ({
+  id,
+  start: { x, z: 0 },
+  end: { x: x + 4, z: 0 },
+  height: 2.8,
+  thickness: 0.2,
+});
+
+const door = (id: string, wallId: string, offset = 1) => ({
+  id,
+  wallId,
+  offset,
+  width: 0.9,
+  height: 2.1,
+  hingeSide: 'left' as const,
+  swing: 'in' as const,
+});
+
+const design = (content: Partial<DesignContent>): DesignContent =>
+  DesignMerge.pick(DesignSchema.create(content));
+
+describe('DesignMerge.diff', () => {
+  it('finds no ops between equal documents', () => {
+    const base = design({ walls: [wall('a'), wall('b', 5)] });
+    expect(DesignMerge.diff(base, design({ walls: [wall('a'), wall('b', 5)] }))).toEqual(
+      [],
+    );
+  });
+
+  it('emits an upsert per added or changed entity and a delete per removed one', () => {
+    const base = design({ walls: [wall('a'), wall('b', 5)], doors: [door('d', 'a')] });
+    const next = design({
+      walls: [{ ...wall('a'), height: 3 }, wall('c', 10)],
+      doors: [door('d', 'a')],
+    });
+    expect(DesignMerge.diff(base, next)).toEqual([
+      { collection: 'walls', id: 'a', value: { ...wall('a'), height: 3 } },
+      { collection: 'walls', id: 'c', value: wall('c', 10) },
+      { collection: 'walls', id: 'b', value: null },
+    ]);
+  });
+
+  it('ignores key order and undefined fields', () => {
+    const { start, end, ...rest } = wall('a');
+    const base = design({ walls: [wall('a')] });
+    const next = design({ walls: [{ end, start, ...rest, color: undefined }] });
+    expect(DesignMerge.diff(base, next)).toEqual([]);
+  });
+
+  it('sends plain values without undefined fields', () => {
+    const base = design({});
+    const next = design({ walls: [{ ...wall('a'), color: undefined }] });
+    const [op] = DesignMerge.diff(base, next);
+    expect(op.value).not.toHaveProperty('color');
+  });
+});
+
+describe('DesignMerge.apply', () => {
+  it('keeps concurrent edits to different entities from both clients', () => {
+    const base = design({ walls: [wall('a'), wall('b', 5)] });
+    const mine = design({ walls: [{ ...wall('a'), height: 3 }, wall('b', 5)] });
+    const theirs = design({ walls: [wall('a'), { ...wall('b', 5), thickness: 0.3 }] });
+
+    // The server applies their ops first, then ours on top of the result
+    const server = DesignMerge.apply(base, DesignMerge.diff(base, theirs));
+    const merged = DesignMerge.apply(server, DesignMerge.diff(base, mine));
+
+    expect(merged.walls).toEqual([
+      { ...wall('a'), height: 3 },
+      { ...wall('b', 5), thickness: 0.3 },
+    ]);
+  });
+
+  it('keeps entities added concurrently by both clients, in arrival order', () => {
+    const base = design({ walls: [wall('a')] });
+    const mine = design({ walls: [wall('a'), wall('mine', 5)] });
+    const theirs = design({ walls: [wall('a'), wall('theirs', 10)] });
+
+    const server = DesignMerge.apply(base, DesignMerge.diff(base, theirs));
+    const merged = DesignMerge.apply(server, DesignMerge.diff(base, mine));
+
+    expect(merged.walls.map((w) => w.id)).toEqual(['a', 'theirs', 'mine']);
+  });
+
+  it('resolves concurrent edits to the same entity to the last write', () => {
+    const base = design({ walls: [wall('a')] });
+    const first = design({ walls: [{ ...wall('a'), height: 3 }] });
+    const last = design({ walls: [{ ...wall('a'), height: 3.5 }] });
+
+    const server = DesignMerge.apply(base, DesignMerge.diff(base, first));
+    const merged = DesignMerge.apply(server, DesignMerge.diff(base, last));
+
+    expect(merged.walls).toEqual([{ ...wall('a'), height: 3.5 }]);
+  });
+
+  it('lets an edit arriving after a delete bring the entity back', () => {
+    const base = design({ walls: [wall('a'), wall('b', 5)] });
+    const deleted = design({ walls: [wall('b', 5)] });
+    const edited = design({ walls: [{ ...wall('a'), height: 3 }, wall('b', 5)] });
+
+    const server = DesignMerge.apply(base, DesignMerge.diff(base, deleted));
+    const merged = DesignMerge.apply(server, DesignMerge.diff(base, edited));
+
+    // Last write wins: the edit re-creates the wall, at the end of the list
+    expect(merged.walls).toEqual([wall('b', 5), { ...wall('a'), height: 3 }]);
+  });
+
+  it('removes an entity deleted after a concurrent edit to it', () => {
+    const base = design({ walls: [wall('a')], doors: [door('d', 'a')] });
+    const edited = design({ walls: [wall('a')], doors: [door('d', 'a', 2)] });
+    const deleted = design({ walls: [wall('a')] });
+
+    const server = DesignMerge.apply(base, DesignMerge.diff(base, edited));
+    const merged = DesignMerge.apply(server, DesignMerge.diff(base, deleted));
+
+    expect(merged.doors).toEqual([]);
+    expect(merged.walls).toEqual([wall('a')]);
+  });
+
+  it('ignores a delete of an entity that is already gone', () => {
+    const merged = DesignMerge.apply(design({ walls: [wall('b', 5)] }), [
+      { collection: 'walls', id: 'a', value: null },
+    ]);
+    expect(merged.walls).toEqual([wall('b', 5)]);
+  });
+
+  it('leaves the input document and untouched collections alone', () => {
+    const base = design({ walls: [wall('a')], doors: [door('d', 'a')] });
+    const merged = DesignMerge.apply(base, [
+      { collection: 'walls', id: 'b', value: wall('b', 5) },
+    ]);
+    expect(base.walls).toEqual([wall('a')]);
+    expect(merged.doors).toBe(base.doors);
+  });
+});
+
+describe('DesignMerge.pick', () => {
+  it('leaves room metrics out of what is shared', () => {
+    const shared = DesignMerge.pick({
+      ...design({}),
+      rooms: [
+        {
+          id: 'r',
+          name: 'Room',
+          walls: [wall('a')],
+          isCompleted: true,
+          isActive: false,
+          metrics: { area: 12 },
+        } as DesignContent['rooms'][number],
+      ],
+    });
+    expect(shared.rooms[0]).not.toHaveProperty('metrics');
+  });
+});
@@ -0,0 +1,137 @@
+import type { DrawingRoom } from '@/lib/advanced-room-drawing';
+import { DesignContent } from '@/lib/design-schema';
+
+type EntityCollection = keyof DesignContent;
+type Entity = DesignContent[EntityCollection][number];
+
+// Upsert (value) or delete (null) of one wall, room, opening or object by id
+export interface DesignOp {
+  collection: EntityCollection;
+  id: string;
+  value: Entity | null;
+}
+
+const COLLECTIONS: EntityCollection[] = [
+  'walls',
+  'rooms',
+  'doors',
+  'windows',
+  'objects',
+  'dimensions',
+  'levels',
+];
+
+/**
+ * Entity-level merging for collaborative editing.
+ *
+ * Each client sends the ops between the last server version it saw and its local
+ * document; the server applies them on top of whatever is current. Edits to different
+ * entities never conflict, and concurrent edits to the same entity resolve to the
+ * last write.
+ */
+export class DesignMerge {
+  /**
+   * Ops that turn `base` into `next`
+   */
+  static diff(base: DesignContent, next: DesignContent): DesignOp[] {
+    const ops: DesignOp[] = [];
+
+    COLLECTIONS.forEach((collection) => {
+      const before = new Map<string, Entity>(base[collection].map((e) => [e.id, e]));
+      const after = new Set<string>();
+
+      next[collection].forEach((entity) => {
+        after.add(entity.id);
+        const previous = before.get(entity.id);
+        if (!previous || !this.isEqual(previous, entity)) {
+          ops.push({ collection, id: entity.id, value: this.toPlain(entity) });
+        }
+      });
+      before.forEach((_entity, id) => {
+        if (!after.has(id)) {
+          ops.push({ collection, id, value: null });
+        }
+      });
+    });
+
+    return ops;
+  }
+
+  /**
+   * Apply ops to a document; updated entities keep their position, new ones are appended
+   */
+  static apply(document: DesignContent, ops: DesignOp[]): DesignContent {
+    const result = { ...document };
+
+    COLLECTIONS.forEach((collection) => {
+      const collectionOps = ops.filter((op) => op.collection === collection);
+      if (collectionOps.length === 0) {
+        return;
+      }
+      const entities: Entity[] = [...document[collection]];
+      collectionOps.forEach(({ id, value }) => {
+        const index = entities.findIndex((e) => e.id === id);
+        if (value === null) {
+          if (index !== -1) {
+            entities.splice(index, 1);
+          }
+        } else if (index === -1) {
+          entities.push(value);
+        } else {
+          entities[index] = value;
+        }
+      });
+      (result[collection] as Entity[]) = entities;
+    });
+
+    return result;
+  }
+
+  // Room metrics are derived on every client, so they are not part of what is shared
+  static pick(design: DesignContent): DesignContent {
+    const { walls, rooms, doors, windows, objects, dimensions, levels } = design;
+    return {
+      walls,
+      rooms: rooms.map((room) => {
+        const { metrics: _metrics, ...shared } = room as DrawingRoom;
+        return shared;
+      }),
+      doors,
+      windows,
+      objects,
+      dimensions,
+      levels,
+    };
+  }
+
+  /**
+   * Deep equality that ignores key order and undefined fields, as Firestore does
+   */
+  static isEqual(a: unknown, b: unknown): boolean {
+    if (a === b) {
+      return true;
+    }
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+      return false;
+    }
+    if (Array.isArray(a) !== Array.isArray(b)) {
+      return false;
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return a.length === b.length && a.every((item, i) => this.isEqual(item, b[i]));
+    }
+    const aRecord = a as Record<string, unknown>;
+    const bRecord = b as Record<string, unknown>;
+    const keys = new Set(
+      [...Object.keys(aRecord), ...Object.keys(bRecord)].filter(
+        (key) => aRecord[key] !== undefined || bRecord[key] !== undefined,
+      ),
+    );
+    return [...keys].every((key) => this.isEqual(aRecord[key], bRecord[key]));
+  }
+
+  // Firestore rejects undefined fields, so ops carry plain JSON values
+  private static toPlain<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value)) as T;
+  }
+}
@@ -0,0 +1,352 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  DesignDraft,
+  DesignRepository,
+  RemoteDesignSource,
+} from '@/lib/design-repository';
+import { DesignSchema } from '@/lib/design-schema';
+import { MemoryDesignStore } from '@/lib/design-store';
+import { SavedDesign } from '@/lib/designService';
+
+const USER = 'user-1';
+
+const offlineError = () => Object.assign(new Error('offline'), { code: 'unavailable' });
+
+// Firestore stand-in: every write gets a later updatedAt, and `offline`/`failNext` make
+// calls fail the way the SDK does
+class FakeRemote implements RemoteDesignSource {
+  designs = new Map<string, SavedDesign>();
+  offline = false;
+  failNext: Error | null = null;
+  private clock = 1000;
+  private nextId = 1;
+
+  getDesign(id: string) {
+    this.check();
+    const design = this.designs.get(id);
+    return Promise.resolve(design ? { ...design } : null);
+  }
+
+  saveDesign(design: Omit<SavedDesign, 'id' | 'createdAt' | 'updatedAt'>) {
+    this.check();
+    const id = `server-${this.nextId++}`;
+    this.designs.set(id, { ...design, id, updatedAt: this.tick() });
+    return Promise.resolve(id);
+  }
+
+  updateDesign(id: string, design: Partial<SavedDesign>) {
+    this.check();
+    const existing = this.designs.get(id)!;
+    this.designs.set(id, { ...existing, ...design, id, updatedAt: this.tick() });
+    return Promise.resolve();
+  }
+
+  deleteDesign(id: string) {
+    this.check();
+    this.designs.delete(id);
+    return Promise.resolve();
+  }
+
+  subscribeToUserDesigns(userId: string, callback: (designs: SavedDesign[]) => void) {
+    callback([...this.designs.values()].filter((d) => d.userId === userId));
+    return () => {};
+  }
+
+  // A change made on another device
+  editElsewhere(id: string, name: string) {
+    const existing = this.designs.get(id)!;
+    this.designs.set(id, { ...existing, name, updatedAt: this.tick() });
+  }
+
+  private tick() {
+    this.clock += 1000;
+    return new Date(this.clock);
+  }
+
+  private check() {
+    if (this.offline) {
+      throw offlineError();
+    }
+    if (this.failNext) {
+      const error = this.failNext;
+      this.failNext = null;
+      throw error;
+    }
+  }
+}
+
+const draft = (name: string, id?: string): DesignDraft => ({
+  ...DesignSchema.create({ name }),
+  ...(id ? { id } : {}),
+  userId: USER,
+});
+
+describe('DesignRepository', () => {
+  let store: MemoryDesignStore;
+  let remote: FakeRemote;
+  let repository: DesignRepository;
+
+  beforeEach(() => {
+    store = new MemoryDesignStore();
+    remote = new FakeRemote();
+    repository = new DesignRepository(store, remote);
+    // Failed syncs are logged; here they are expected
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // A design uploaded from this device, so it has a server id and version
+  const uploaded = async (name = 'Kitchen') => {
+    const id = await repository.saveDraft(draft(name));
+    return { id, version: remote.designs.get(id)!.updatedAt!.getTime() };
+  };
+
+  describe('queue', () => {
+    it('uploads a new design and hands out its server id', async () => {
+      const remapped: [string, string][] = [];
+      repository.onIdChange((localId, serverId) => remapped.push([localId, serverId]));
+
+      const id = await repository.saveDraft(draft('Kitchen'));
+
+      expect(id).toBe('server-1');
+      expect(remapped).toEqual([[expect.stringMatching(/^local-/), 'server-1']]);
+      expect(remote.designs.get(id)?.name).toBe('Kitchen');
+      expect(await store.getQueue()).toEqual([]);
+      expect((await store.getDesign(id))?.syncState).toBe('synced');
+      expect(repository.getStatus()).toMatchObject({ state: 'idle', pending: 0 });
+    });
+
+    it('keeps a design saved offline on this device until the server is back', async () => {
+      remote.offline = true;
+      const id = await repository.saveDraft(draft('Kitchen'));
+
+      expect(id).toMatch(/^local-/);
+      expect(remote.designs.size).toBe(0);
+      expect(await store.getQueue()).toHaveLength(1);
+      expect((await store.getDesign(id))?.syncState).toBe('pending');
+      expect(repository.getStatus()).toMatchObject({ state: 'offline', pending: 1 });
+
+      remote.offline = false;
+      await repository.sync();
+
+      expect(repository.resolveId(id)).toBe('server-1');
+      expect(remote.designs.get('server-1')?.name).toBe('Kitchen');
+      expect(await store.getDesign(id)).toBeNull();
+      expect(await store.getQueue()).toEqual([]);
+      expect(repository.getStatus()).toMatchObject({ state: 'idle', pending: 0 });
+    });
+
+    it('sends only the latest of several offline edits', async () => {
+      const { id } = await uploaded();
+      remote.offline = true;
+      await repository.saveDraft(draft('Kitchen 2', id));
+      await repository.saveDraft(draft('Kitchen 3', id));
+
+      expect(await store.getQueue()).toHaveLength(1);
+
+      remote.offline = false;
+      await repository.sync();
+
+      expect(remote.designs.get(id)?.name).toBe('Kitchen 3');
+      expect((await store.getDesign(id))?.syncState).toBe('synced');
+    });
+
+    it('deletes a design that never reached the server without a server call', async () => {
+      remote.offline = true;
+      const id = await repository.saveDraft(draft('Kitchen'));
+
+      await repository.deleteDesign(id);
+
+      expect(await store.getDesign(id)).toBeNull();
+      expect(await store.getQueue()).toEqual([]);
+    });
+
+    it('queues the delete of an uploaded design while offline', async () => {
+      const { id } = await uploaded();
+      remote.offline = true;
+      await repository.deleteDesign(id);
+
+      expect(await repository.getUserDesigns(USER)).toEqual([]);
+      expect(remote.designs.has(id)).toBe(true);
+
+      remote.offline = false;
+      await repository.sync();
+
+      expect(remote.designs.has(id)).toBe(false);
+      expect(await store.getDesign(id)).toBeNull();
+      expect(await store.getSyncedVersion(id)).toBeNull();
+    });
+  });
+
+  describe('retry', () => {
+    it('keeps the write queued after a server error and sends it on the next sync', async () => {
+      const { id } = await uploaded();
+      remote.failNext = new Error('internal');
+
+      await repository.saveDraft(draft('Kitchen 2', id));
+
+      expect(repository.getStatus()).toMatchObject({
+        state: 'error',
+        pending: 1,
+        error: 'internal',
+      });
+      expect(remote.designs.get(id)?.name).toBe('Kitchen');
+
+      await repository.sync();
+
+      expect(remote.designs.get(id)?.name).toBe('Kitchen 2');
+      expect(repository.getStatus()).toMatchObject({ state: 'idle', pending: 0 });
+    });
+
+    it('runs overlapping syncs one after the other', async () => {
+      const { id } = await uploaded();
+      remote.offline = true;
+      await repository.saveDraft(draft('Kitchen 2', id));
+      remote.offline = false;
+
+      await Promise.all([repository.sync(), repository.sync(), repository.sync()]);
+
+      expect(remote.designs.get(id)?.name).toBe('Kitchen 2');
+      expect(await store.getQueue()).toEqual([]);
+    });
+  });
+
+  describe('conflicts', () => {
+    it('flags an offline edit when the server copy changed in the meantime', async () => {
+      const { id } = await uploaded();
+      remote.offline = true;
+      await repository.saveDraft(draft('Mine', id));
+      remote.offline = false;
+      remote.editElsewhere(id, 'Theirs');
+
+      await repository.sync();
+
+      const record = await store.getDesign(id);
+      expect(record?.syncState).toBe('conflict');
+      expect(record?.conflict?.name).toBe('Theirs');
+      expect(remote.designs.get(id)?.name).toBe('Theirs');
+      expect(repository.getStatus()).toMatchObject({ conflicts: 1, pending: 0 });
+    });
+
+    it("doesn't flag an offline edit when only this device changed the design", async () => {
+      const { id } = await uploaded();
+      remote.offline = true;
+      await repository.saveDraft(draft('Mine', id));
+      remote.offline = false;
+
+      await repository.sync();
+
+      expect((await store.getDesign(id))?.syncState).toBe('synced');
+      expect(remote.designs.get(id)?.name).toBe('Mine');
+    });
+
+    it('bases an offline edit without a local copy on the last synced version', async () => {
+      const { id, version } = await uploaded();
+      await store.removeDesign(id); // E.g. evicted, while the version record remains
+      remote.offline = true;
+
+      await repository.saveDraft(draft('Mine', id));
+
+      expect((await store.getDesign(id))?.baseUpdatedAt).toBe(version);
+
+      remote.offline = false;
+      await repository.sync();
+
+      expect((await store.getDesign(id))?.syncState).toBe('synced');
+      expect(remote.designs.get(id)?.name).toBe('Mine');
+    });
+
+    it('flags an offline edit of a design this device never synced', async () => {
+      const { id } = await uploaded();
+      await store.removeDesign(id);
+      await store.removeSyncedVersion(id);
+      remote.offline = true;
+
+      await repository.saveDraft(draft('Mine', id));
+      remote.offline = false;
+      await repository.sync();
+
+      expect((await store.getDesign(id))?.syncState).toBe('conflict');
+    });
+
+    it('overwrites the server copy when keeping the local version', async () => {
+      const { id } = await uploaded();
+      remote.offline = true;
+      await repository.saveDraft(draft('Mine', id));
+      remote.offline = false;
+      remote.editElsewhere(id, 'Theirs');
+      await repository.sync();
+
+      await repository.resolveConflict(id, 'local');
+
+      expect(remote.designs.get(id)?.name).toBe('Mine');
+      expect((await store.getDesign(id))?.syncState).toBe('synced');
+      expect(repository.getStatus()).toMatchObject({ conflicts: 0, pending: 0 });
+    });
+
+    it('drops the local edit when keeping the server version', async () => {
+      const { id } = await uploaded();
+      remote.offline = true;
+      await repository.saveDraft(draft('Mine', id));
+      remote.offline = false;
+      remote.editElsewhere(id, 'Theirs');
+      await repository.sync();
+
+      await repository.resolveConflict(id, 'remote');
+
+      const record = await store.getDesign(id);
+      expect(record?.name).toBe('Theirs');
+      expect(record?.syncState).toBe('synced');
+      expect(await store.getQueue()).toEqual([]);
+      expect(await store.getSyncedVersion(id)).toBe(
+        remote.designs.get(id)!.updatedAt!.getTime(),
+      );
+    });
+
+    it('re-creates a design deleted on the server when keeping the local version', async () => {
+      const { id } = await uploaded();
+      remote.offline = true;
+      await repository.saveDraft(draft('Mine', id));
+      remote.offline = false;
+      remote.designs.delete(id);
+      await repository.sync();
+
+      const record = await store.getDesign(id);
+      expect(record?.syncState).toBe('conflict');
+      expect(record?.conflict).toBeNull();
+
+      await repository.resolveConflict(id, 'local');
+
+      const [serverId] = [...remote.designs.keys()];
+      expect(repository.resolveId(id)).toBe(serverId);
+      expect(remote.designs.get(serverId)?.name).toBe('Mine');
+    });
+  });
+
+  describe('remote updates', () => {
+    it('adopts server changes for synced designs and keeps local edits', async () => {
+      const synced = await uploaded('Kitchen');
+      const edited = await uploaded('Bathroom');
+      remote.offline = true;
+      await repository.saveDraft(draft('Bathroom (mine)', edited.id));
+      remote.offline = false;
+      remote.editElsewhere(synced.id, 'Kitchen (theirs)');
+
+      const unsubscribe = repository.subscribeToUserDesigns(USER, () => {});
+      await vi.waitFor(async () =>
+        expect((await store.getDesign(edited.id))?.syncState).toBe('synced'),
+      );
+      unsubscribe();
+
+      expect((await store.getDesign(synced.id))?.name).toBe('Kitchen (theirs)');
+      expect(await store.getSyncedVersion(synced.id)).toBe(
+        remote.designs.get(synced.id)!.updatedAt!.getTime(),
+      );
+      expect((await store.getDesign(edited.id))?.name).toBe('Bathroom (mine)');
+    });
+  });
+});
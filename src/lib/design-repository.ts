@@ -0,0 +1,458 @@
+import { DesignSchema } from '@/lib/design-schema';
+import {
+  DesignStore,
+  IndexedDBDesignStore,
+  LocalDesign,
+  MemoryDesignStore,
+  QueuedWrite,
+} from '@/lib/design-store';
+import { SavedDesign, designService } from '@/lib/designService';
+
+// The server side of the repository; `designService` talks to Firestore
+export interface RemoteDesignSource {
+  getDesign(id: string): Promise<SavedDesign | null>;
+  saveDesign(
+    design: Omit<SavedDesign, 'id' | 'createdAt' | 'updatedAt'>,
+  ): Promise<string>;
+  updateDesign(id: string, design: Partial<SavedDesign>): Promise<void>;
+  deleteDesign(id: string): Promise<void>;
+  subscribeToUserDesigns(
+    userId: string,
+    callback: (designs: SavedDesign[]) => void,
+    onError?: (error: Error & { code?: string }) => void,
+  ): () => void;
+}
+
+export interface SyncStatus {
+  state: 'idle' | 'syncing' | 'offline' | 'error';
+  pending: number; // Designs with local changes not yet on the server
+  conflicts: number; // Designs waiting for resolveConflict
+  error: string | null;
+}
+
+// What callers save; ids are optional for new designs
+export type DesignDraft = Omit<SavedDesign, 'createdAt' | 'updatedAt'>;
+
+const LOCAL_ID_PREFIX = 'local-';
+
+const isLocalId = (id: string) => id.startsWith(LOCAL_ID_PREFIX);
+
+const isOfflineError = (error: unknown) =>
+  (error as { code?: string })?.code === 'unavailable' ||
+  (typeof navigator !== 'undefined' && navigator.onLine === false);
+
+/**
+ * Offline-first design storage.
+ *
+ * Every save lands in the local store first and is queued; the queue is replayed
+ * against the server whenever we are online. A queued update is only applied if the
+ * server copy hasn't changed since the local copy was based on it - otherwise the
+ * design is flagged as a conflict for the user to resolve.
+ */
+export class DesignRepository {
+  private status: SyncStatus = { state: 'idle', pending: 0, conflicts: 0, error: null };
+  private changeListeners = new Set<() => void>();
+  private statusListeners = new Set<(status: SyncStatus) => void>();
+  private idListeners = new Set<(localId: string, serverId: string) => void>();
+  private remappedIds = new Map<string, string>();
+  private syncing: Promise<void> | null = null;
+  private syncAgain = false;
+
+  constructor(
+    private readonly store: DesignStore,
+    private readonly remote: RemoteDesignSource,
+  ) {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => void this.sync());
+      window.addEventListener('offline', () => void this.updateStatus('offline'));
+    }
+  }
+
+  /**
+   * Save a design locally and try to upload it; returns its id, which is the server id
+   * if the upload went through and a local id for new designs saved offline
+   */
+  async saveDraft(draft: DesignDraft): Promise<string> {
+    const id =
+      draft.id ??
+      `${LOCAL_ID_PREFIX}${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+    const existing = await this.store.getDesign(id);
+    const now = new Date();
+
+    await this.store.putDesign({
+      ...draft,
+      id,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      syncState: existing?.syncState === 'conflict' ? 'conflict' : 'pending',
+      baseUpdatedAt: existing ? existing.baseUpdatedAt : await this.findBaseVersion(id),
+      conflict: existing?.conflict,
+      revision: (existing?.revision ?? 0) + 1,
+    });
+    await this.enqueue(id, 'upsert');
+    this.emitChange();
+
+    await this.sync();
+    return this.resolveId(id);
+  }
+
+  async deleteDesign(id: string): Promise<void> {
+    const existing = await this.store.getDesign(id);
+    if (existing?.baseUpdatedAt === null) {
+      // Never uploaded, so there is nothing to delete on the server
+      await this.store.removeDesign(id);
+      await this.store.removeQueued(id);
+    } else {
+      if (existing) {
+        await this.store.putDesign({
+          ...existing,
+          deleted: true,
+          syncState: 'pending',
+          revision: existing.revision + 1,
+        });
+      }
+      await this.enqueue(id, 'delete');
+    }
+    this.emitChange();
+    await this.sync();
+  }
+
+  async getUserDesigns(userId: string): Promise<LocalDesign[]> {
+    const designs = await this.store.getDesigns(userId);
+    return designs
+      .filter((d) => !d.deleted)
+      .sort((a, b) => (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0));
+  }
+
+  /**
+   * Local designs, refreshed from the server while online
+   */
+  subscribeToUserDesigns(
+    userId: string,
+    callback: (designs: LocalDesign[]) => void,
+    onError?: (error: Error & { code?: string }) => void,
+  ): () => void {
+    let active = true;
+    const publish = () => {
+      this.getUserDesigns(userId)
+        .then((designs) => active && callback(designs))
+        .catch((error) => onError?.(error));
+    };
+    this.changeListeners.add(publish);
+    publish();
+
+    const unsubscribeRemote = this.remote.subscribeToUserDesigns(
+      userId,
+      (designs) => {
+        this.applyRemoteDesigns(userId, designs)
+          .then(() => this.sync())
+          .catch((error) => onError?.(error));
+      },
+      (error) => {
+        void this.updateStatus(
+          isOfflineError(error) ? 'offline' : 'error',
+          error.message,
+        );
+        onError?.(error);
+      },
+    );
+
+    return () => {
+      active = false;
+      this.changeListeners.delete(publish);
+      unsubscribeRemote();
+    };
+  }
+
+  /**
+   * Settle a conflict by keeping this device's version or the server's
+   */
+  async resolveConflict(id: string, keep: 'local' | 'remote'): Promise<void> {
+    const record = await this.store.getDesign(id);
+    if (record?.syncState !== 'conflict') {
+      return;
+    }
+
+    if (keep === 'remote') {
+      await this.store.removeQueued(id);
+      if (record.conflict) {
+        const baseUpdatedAt = record.conflict.updatedAt?.getTime() ?? Date.now();
+        await this.store.putDesign({
+          ...record.conflict,
+          id,
+          syncState: 'synced',
+          baseUpdatedAt,
+          revision: record.revision + 1,
+        });
+        await this.store.putSyncedVersion({ designId: id, updatedAt: baseUpdatedAt });
+      } else {
+        await this.store.removeDesign(id); // Deleted on the server
+        await this.store.removeSyncedVersion(id);
+      }
+    } else {
+      await this.store.putDesign({
+        ...record,
+        syncState: 'pending',
+        conflict: undefined,
+        // Overwrite the newer server copy, or re-create it if it was deleted there
+        baseUpdatedAt: record.conflict
+          ? (record.conflict.updatedAt?.getTime() ?? 0)
+          : null,
+        revision: record.revision + 1,
+      });
+      await this.enqueue(id, 'upsert');
+    }
+
+    this.emitChange();
+    await this.sync();
+  }
+
+  /**
+   * Replay queued writes; never throws - failures are reported through the sync status
+   */
+  sync(): Promise<void> {
+    if (this.syncing) {
+      this.syncAgain = true;
+      return this.syncing;
+    }
+    this.syncing = this.runSync().finally(() => {
+      this.syncing = null;
+      if (this.syncAgain) {
+        this.syncAgain = false;
+        void this.sync();
+      }
+    });
+    return this.syncing;
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  subscribeToStatus(callback: (status: SyncStatus) => void): () => void {
+    this.statusListeners.add(callback);
+    callback(this.status);
+    return () => {
+      this.statusListeners.delete(callback);
+    };
+  }
+
+  // New designs get their server id on first upload
+  onIdChange(callback: (localId: string, serverId: string) => void): () => void {
+    this.idListeners.add(callback);
+    return () => {
+      this.idListeners.delete(callback);
+    };
+  }
+
+  resolveId(id: string): string {
+    return this.remappedIds.get(id) ?? id;
+  }
+
+  private async runSync(): Promise<void> {
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      await this.updateStatus('offline');
+      return;
+    }
+
+    await this.updateStatus('syncing');
+    try {
+      for (const write of await this.store.getQueue()) {
+        await this.syncWrite(write);
+      }
+      await this.updateStatus('idle');
+    } catch (error) {
+      console.error('❌ Design sync failed:', error);
+      await this.updateStatus(
+        isOfflineError(error) ? 'offline' : 'error',
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  private async syncWrite(write: QueuedWrite): Promise<void> {
+    const record = await this.store.getDesign(write.designId);
+
+    if (write.type === 'delete') {
+      if (!isLocalId(write.designId)) {
+        await this.remote.deleteDesign(write.designId);
+      }
+      await this.store.removeDesign(write.designId);
+      await this.store.removeQueued(write.designId);
+      await this.store.removeSyncedVersion(write.designId);
+      this.emitChange();
+      return;
+    }
+
+    if (!record) {
+      await this.store.removeQueued(write.designId);
+      return;
+    }
+    if (record.syncState === 'conflict') {
+      return; // Waits for resolveConflict
+    }
+
+    if (record.baseUpdatedAt === null) {
+      const serverId = await this.remote.saveDesign(this.toRemote(record));
+      await this.finishUpload(record, serverId);
+      return;
+    }
+
+    const server = await this.remote.getDesign(record.id);
+    const serverUpdatedAt = server?.updatedAt?.getTime() ?? 0;
+    if (!server || serverUpdatedAt > record.baseUpdatedAt) {
+      await this.store.putDesign({ ...record, syncState: 'conflict', conflict: server });
+      this.emitChange();
+      return;
+    }
+
+    await this.remote.updateDesign(record.id, this.toRemote(record));
+    await this.finishUpload(record, record.id);
+  }
+
+  // Record the new server version, unless the design was edited again during the upload
+  private async finishUpload(uploaded: LocalDesign, serverId: string): Promise<void> {
+    const server = await this.remote.getDesign(serverId);
+    const current = (await this.store.getDesign(uploaded.id)) ?? uploaded;
+    const editedMeanwhile = current.revision !== uploaded.revision;
+    const queued = (await this.store.getQueue()).find((q) => q.designId === uploaded.id);
+
+    await this.store.removeQueued(uploaded.id);
+    if (serverId !== uploaded.id) {
+      await this.store.removeDesign(uploaded.id);
+      this.remappedIds.set(uploaded.id, serverId);
+      this.idListeners.forEach((listener) => listener(uploaded.id, serverId));
+    }
+    const baseUpdatedAt = server?.updatedAt?.getTime() ?? Date.now();
+    await this.store.putDesign({
+      ...current,
+      id: serverId,
+      baseUpdatedAt,
+      syncState: editedMeanwhile ? 'pending' : 'synced',
+    });
+    await this.store.putSyncedVersion({ designId: serverId, updatedAt: baseUpdatedAt });
+    if (editedMeanwhile && queued) {
+      await this.store.putQueued({ ...queued, designId: serverId });
+    }
+    this.emitChange();
+  }
+
+  private async applyRemoteDesigns(
+    userId: string,
+    designs: SavedDesign[],
+  ): Promise<void> {
+    const local = await this.store.getDesigns(userId);
+    const remoteIds = new Set(designs.map((d) => d.id));
+
+    for (const design of designs) {
+      if (!design.id) {
+        continue;
+      }
+      const existing = local.find((d) => d.id === design.id);
+      // Local edits win until the sync queue checks them against the server
+      if (!existing || existing.syncState === 'synced') {
+        const baseUpdatedAt = design.updatedAt?.getTime() ?? 0;
+        await this.store.putDesign({
+          ...design,
+          id: design.id,
+          syncState: 'synced',
+          baseUpdatedAt,
+          revision: existing?.revision ?? 0,
+        });
+        await this.store.putSyncedVersion({
+          designId: design.id,
+          updatedAt: baseUpdatedAt,
+        });
+      }
+    }
+    for (const record of local) {
+      // Deleted on another device
+      if (record.syncState === 'synced' && !remoteIds.has(record.id)) {
+        await this.store.removeDesign(record.id);
+        await this.store.removeSyncedVersion(record.id);
+      }
+    }
+    this.emitChange();
+  }
+
+  // Server version an edit of a design we have no local copy of is based on: the last
+  // one this device synced, or failing that whatever the server has now
+  private async findBaseVersion(id: string): Promise<number | null> {
+    if (isLocalId(id)) {
+      return null;
+    }
+    const synced = await this.store.getSyncedVersion(id);
+    if (synced !== null) {
+      return synced;
+    }
+    try {
+      const server = await this.remote.getDesign(id);
+      return server?.updatedAt?.getTime() ?? null;
+    } catch {
+      // Never synced here and unknown while offline, so the sync asks the user
+      return 0;
+    }
+  }
+
+  private async enqueue(designId: string, type: QueuedWrite['type']): Promise<void> {
+    const queued = (await this.store.getQueue()).find((q) => q.designId === designId);
+    await this.store.putQueued({
+      designId,
+      type,
+      queuedAt: queued?.queuedAt ?? Date.now(),
+    });
+  }
+
+  private toRemote(
+    record: LocalDesign,
+  ): Omit<SavedDesign, 'id' | 'createdAt' | 'updatedAt'> {
+    // Firestore rejects undefined fields
+    const { description, ...design } = DesignSchema.create({
+      name: record.name,
+      description: record.description,
+      walls: record.walls,
+      rooms: record.rooms,
+      doors: record.doors,
+      windows: record.windows,
+      objects: record.objects,
+      dimensions: record.dimensions,
+      materials: record.materials,
+      validation: record.validation,
+      ceiling: record.ceiling,
+      underlays: record.underlays,
+      levels: record.levels,
+    });
+    return { ...design, ...(description ? { description } : {}), userId: record.userId };
+  }
+
+  private async updateStatus(
+    state: SyncStatus['state'],
+    error: string | null = null,
+  ): Promise<void> {
+    let pending = 0;
+    let conflicts = 0;
+    try {
+      for (const write of await this.store.getQueue()) {
+        const record = await this.store.getDesign(write.designId);
+        if (record?.syncState === 'conflict') {
+          conflicts++;
+        } else {
+          pending++;
+        }
+      }
+    } catch (storeError) {
+      console.error('❌ Could not read the local design store:', storeError);
+    }
+    this.status = { state, pending, conflicts, error };
+    this.statusListeners.forEach((listener) => listener(this.status));
+  }
+
+  private emitChange(): void {
+    this.changeListeners.forEach((listener) => listener());
+  }
+}
+
+export const designRepository = new DesignRepository(
+  typeof indexedDB === 'undefined' ? new MemoryDesignStore() : new IndexedDBDesignStore(),
+  designService,
+);
@@ -0,0 +1,460 @@
+import { z } from 'zod';
+
+import { RoomObjects, SavedObjectEntry } from '@/lib/room-objects';
+
+/**
+ * Canonical design document.
+ *
+ * All lengths are meters and every plan point is `{ x, z }` (the 3D ground plane),
+ * matching `types/room.ts`. Older shapes are upgraded by the migration chain below:
+ *
+ *   v0  hand-written rooms (`mockRoomData`, localStorage) - `{x, z}`, possibly centimeters
+ *   v1  Firestore designs saved before versioning - `{x, y}` points, raw three.js userData
+ *       and `RoomExporter` JSON exports (`version: '1.0'`) - `{x, z}` points, `materials`
+ *   v2  this schema
+ */
+export const DESIGN_SCHEMA_VERSION = 2;
+
+const pointSchema = z.object({
+  x: z.number(),
+  z: z.number(),
+});
+
+const vector3Schema = z.object({
+  x: z.number(),
+  y: z.number(),
+  z: z.number(),
+});
+
+const wallSchema = z.object({
+  id: z.string().min(1),
+  start: pointSchema,
+  end: pointSchema,
+  height: z.number().positive(),
+  thickness: z.number().positive(),
+  color: z.string().optional(),
+  bulge: z.number().optional(),
+  levelId: z.string().optional(),
+});
+
+const drawingRoomSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  walls: z.array(wallSchema),
+  isCompleted: z.boolean(),
+  parentRoomId: z.string().optional(),
+  isActive: z.boolean().default(false),
+  levelId: z.string().optional(),
+});
+
+const doorSchema = z.object({
+  id: z.string().min(1),
+  wallId: z.string().min(1),
+  offset: z.number().nonnegative(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  hingeSide: z.enum(['left', 'right']),
+  swing: z.enum(['in', 'out']),
+});
+
+const windowSchema = z.object({
+  id: z.string().min(1),
+  wallId: z.string().min(1),
+  offset: z.number().nonnegative(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  bottomHeight: z.number().nonnegative(),
+});
+
+const objectSchema = z.object({
+  id: z.string().min(1),
+  type: z.string().min(1),
+  position: vector3Schema,
+  rotation: vector3Schema,
+  scale: vector3Schema,
+  color: z.string().default(''),
+  levelId: z.string().optional(),
+});
+
+// Dimension lines placed by hand on the plan (see Dimensions)
+const dimensionSchema = z.object({
+  id: z.string().min(1),
+  start: pointSchema,
+  end: pointSchema,
+  levelId: z.string().optional(),
+});
+
+const materialsSchema = z.object({
+  floor: z.string().optional(),
+  wall: z.string().optional(),
+  window: z.string().optional(),
+});
+
+const validationLimitsSchema = z.object({
+  minWallLength: z.number().nonnegative(),
+  maxWallLength: z.number().positive(),
+  minWallHeight: z.number().nonnegative(),
+  maxWallHeight: z.number().positive(),
+  minWallThickness: z.number().nonnegative(),
+  maxWallThickness: z.number().positive(),
+  maxRoomArea: z.number().positive(),
+  minAngle: z.number().min(0).max(360),
+  maxAngle: z.number().min(0).max(360),
+});
+
+// Which rule profile the design is checked against (see ValidationRules)
+const validationSchema = z.object({
+  profile: z.enum(['residential', 'commercial', 'loft', 'custom']),
+  customLimits: validationLimitsSchema.optional(),
+});
+
+// Storeys of the building (see BuildingLevels)
+const levelSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  elevation: z.number(),
+  height: z.number().positive(),
+});
+
+// Ceiling over the plan (see Ceiling)
+const ceilingSchema = z.object({
+  type: z.enum(['flat', 'single-slope', 'gable']),
+  eaveHeight: z.number().nonnegative(),
+  ridgeHeight: z.number().nonnegative(),
+  direction: z.number(),
+});
+
+// Existing plan traced over on one level (see PlanUnderlays)
+const underlaySchema = z.object({
+  src: z.string().min(1),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  center: pointSchema,
+  metersPerPixel: z.number().positive(),
+  rotation: z.number(),
+  opacity: z.number().min(0).max(1),
+  locked: z.boolean(),
+  levelId: z.string().optional(),
+});
+
+export const designDocumentSchema = z.object({
+  schemaVersion: z.literal(DESIGN_SCHEMA_VERSION),
+  name: z.string().default('Untitled Design'),
+  description: z.string().optional(),
+  walls: z.array(wallSchema).default([]),
+  rooms: z.array(drawingRoomSchema).default([]),
+  doors: z.array(doorSchema).default([]),
+  windows: z.array(windowSchema).default([]),
+  objects: z.array(objectSchema).default([]),
+  dimensions: z.array(dimensionSchema).default([]),
+  levels: z
+    .array(levelSchema)
+    .default([{ id: 'ground', name: 'Ground floor', elevation: 0, height: 3 }]),
+  materials: materialsSchema.default({}),
+  validation: validationSchema.default({ profile: 'residential' }),
+  ceiling: ceilingSchema.default({
+    type: 'flat',
+    eaveHeight: 2.4,
+    ridgeHeight: 3.6,
+    direction: 0,
+  }),
+  underlays: z.array(underlaySchema).default([]),
+});
+
+export type DesignDocument = z.infer<typeof designDocumentSchema>;
+export type DesignMaterials = z.infer<typeof materialsSchema>;
+
+// The plan itself, without name and materials
+export type DesignContent = Pick<
+  DesignDocument,
+  'walls' | 'rooms' | 'doors' | 'windows' | 'objects' | 'dimensions' | 'levels'
+>;
+
+export interface DesignSchemaIssue {
+  path: string; // Dotted path to the offending field, e.g. "walls.2.start.x"
+  message: string;
+}
+
+export type DesignParseResult =
+  | { success: true; document: DesignDocument; migratedFrom: number }
+  | { success: false; errors: DesignSchemaIssue[] };
+
+type RawDesign = Record<string, unknown>;
+type RawPoint = { x?: unknown; y?: unknown; z?: unknown };
+type RawWall = {
+  start?: RawPoint;
+  end?: RawPoint;
+  height?: unknown;
+  thickness?: unknown;
+};
+
+const isRecord = (value: unknown): value is RawDesign =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+export class DesignSchema {
+  // No real wall is taller than this, so anything above it was stored in centimeters
+  private static readonly MAX_WALL_HEIGHT_METERS = 10;
+  private static readonly MIN_WALL_LENGTH = 0.01; // 1cm
+  private static readonly MAX_COORDINATE = 1000; // 1km from the origin
+
+  // Each step upgrades a document from version N to N + 1
+  private static readonly MIGRATIONS: Record<number, (doc: RawDesign) => RawDesign> = {
+    0: (doc) => DesignSchema.migrateV0(doc),
+    1: (doc) => DesignSchema.migrateV1(doc),
+  };
+
+  /**
+   * Work out which version a stored or imported document was written with
+   */
+  static detectVersion(raw: RawDesign): number {
+    if (typeof raw.schemaVersion === 'number') {
+      return raw.schemaVersion;
+    }
+    if (raw.version === '1.0') {
+      return 1; // RoomExporter JSON
+    }
+    const firstWall = asArray(raw.walls)[0] as RawWall | undefined;
+    if (firstWall?.start && 'y' in firstWall.start && !('z' in firstWall.start)) {
+      return 1; // Firestore design saved before versioning
+    }
+    return 0;
+  }
+
+  /**
+   * Upgrade any known document shape to the current version and validate it
+   */
+  static parse(raw: unknown): DesignParseResult {
+    if (!isRecord(raw)) {
+      return {
+        success: false,
+        errors: [{ path: '', message: 'Design must be a JSON object' }],
+      };
+    }
+
+    const migratedFrom = this.detectVersion(raw);
+    if (migratedFrom > DESIGN_SCHEMA_VERSION) {
+      return {
+        success: false,
+        errors: [
+          {
+            path: 'schemaVersion',
+            message: `Design was saved by a newer version of the app (v${migratedFrom})`,
+          },
+        ],
+      };
+    }
+
+    let doc = raw;
+    for (let version = migratedFrom; version < DESIGN_SCHEMA_VERSION; version++) {
+      const migrate = this.MIGRATIONS[version];
+      if (!migrate) {
+        return {
+          success: false,
+          errors: [
+            { path: 'schemaVersion', message: `Unknown design version v${version}` },
+          ],
+        };
+      }
+      doc = migrate(doc);
+    }
+
+    const result = designDocumentSchema.safeParse(doc);
+    if (!result.success) {
+      return {
+        success: false,
+        errors: result.error.issues.map((issue) => ({
+          path: issue.path.map(String).join('.'),
+          message: issue.message,
+        })),
+      };
+    }
+    return { success: true, document: result.data, migratedFrom };
+  }
+
+  /**
+   * Build a current-version document from the builder's state
+   */
+  static create(design: Omit<z.input<typeof designDocumentSchema>, 'schemaVersion'>) {
+    return designDocumentSchema.parse({
+      ...design,
+      schemaVersion: DESIGN_SCHEMA_VERSION,
+    });
+  }
+
+  /**
+   * Geometry checks the type schema can't express, reported per field like schema errors
+   */
+  static checkGeometry(document: DesignContent): DesignSchemaIssue[] {
+    const issues: DesignSchemaIssue[] = [];
+    const seen = new Set<string>();
+
+    document.walls.forEach((wall, index) => {
+      if (seen.has(wall.id)) {
+        issues.push({
+          path: `walls.${index}.id`,
+          message: `Duplicate wall id "${wall.id}"`,
+        });
+      }
+      seen.add(wall.id);
+
+      const length = Math.hypot(wall.end.x - wall.start.x, wall.end.z - wall.start.z);
+      if (length < this.MIN_WALL_LENGTH) {
+        issues.push({ path: `walls.${index}.end`, message: 'Wall has zero length' });
+      }
+
+      (['start', 'end'] as const).forEach((key) => {
+        const point = wall[key];
+        if (
+          Math.abs(point.x) > this.MAX_COORDINATE ||
+          Math.abs(point.z) > this.MAX_COORDINATE
+        ) {
+          issues.push({
+            path: `walls.${index}.${key}`,
+            message: `Point is more than ${this.MAX_COORDINATE}m from the origin`,
+          });
+        }
+      });
+    });
+
+    (['doors', 'windows'] as const).forEach((key) => {
+      document[key].forEach((opening, index) => {
+        if (!seen.has(opening.wallId)) {
+          issues.push({
+            path: `${key}.${index}.wallId`,
+            message: `No wall with id "${opening.wallId}"`,
+          });
+        }
+      });
+    });
+
+    return issues;
+  }
+
+  /**
+   * Add another design's plan to an existing one, renaming ids that would collide
+   */
+  static merge(base: DesignContent, incoming: DesignContent): DesignContent {
+    const taken = new Set<string>([
+      ...base.walls.map((w) => w.id),
+      ...base.rooms.flatMap((r) => [r.id, ...r.walls.map((w) => w.id)]),
+      ...base.doors.map((d) => d.id),
+      ...base.windows.map((w) => w.id),
+      ...base.objects.map((o) => o.id),
+      ...base.dimensions.map((d) => d.id),
+    ]);
+    const renamed = new Map<string, string>();
+    const freshId = (id: string) => {
+      if (renamed.has(id)) {
+        return renamed.get(id)!;
+      }
+      let next = id;
+      while (taken.has(next)) {
+        next = `${id}-${Math.random().toString(36).substring(2, 9)}`;
+      }
+      taken.add(next);
+      renamed.set(id, next);
+      return next;
+    };
+    const renameWall = <T extends { id: string }>(wall: T): T => ({
+      ...wall,
+      id: freshId(wall.id),
+    });
+
+    const walls = incoming.walls.map(renameWall);
+    const rooms = incoming.rooms.map((room) => ({
+      ...room,
+      id: freshId(room.id),
+      isActive: false,
+      walls: room.walls.map(renameWall),
+    }));
+
+    return {
+      walls: [...base.walls, ...walls],
+      rooms: [...base.rooms, ...rooms],
+      doors: [
+        ...base.doors,
+        ...incoming.doors.map((d) => ({
+          ...d,
+          id: freshId(d.id),
+          wallId: renamed.get(d.wallId) ?? d.wallId,
+        })),
+      ],
+      windows: [
+        ...base.windows,
+        ...incoming.windows.map((w) => ({
+          ...w,
+          id: freshId(w.id),
+          wallId: renamed.get(w.wallId) ?? w.wallId,
+        })),
+      ],
+      objects: [
+        ...base.objects,
+        ...incoming.objects.map((o) => ({ ...o, id: freshId(o.id) })),
+      ],
+      dimensions: [
+        ...base.dimensions,
+        ...incoming.dimensions.map((d) => ({ ...d, id: freshId(d.id) })),
+      ],
+      // Levels are matched by id, so imported floors land on the same storeys
+      levels: [
+        ...base.levels,
+        ...incoming.levels.filter((l) => !base.levels.some((b) => b.id === l.id)),
+      ],
+    };
+  }
+
+  // v0 -> v1: normalize units to meters
+  private static migrateV0(doc: RawDesign): RawDesign {
+    const walls = asArray(doc.walls) as RawWall[];
+    const inCentimeters = walls.some(
+      (w) => typeof w.height === 'number' && w.height > this.MAX_WALL_HEIGHT_METERS,
+    );
+    if (!inCentimeters) {
+      return { ...doc, schemaVersion: 1 };
+    }
+
+    const cm = (value: unknown) => (typeof value === 'number' ? value / 100 : value);
+    const scalePoint = (p: RawPoint | undefined) =>
+      p && { ...p, x: cm(p.x), y: cm(p.y), z: cm(p.z) };
+
+    return {
+      ...doc,
+      schemaVersion: 1,
+      walls: walls.map((w) => ({
+        ...w,
+        start: scalePoint(w.start),
+        end: scalePoint(w.end),
+        height: cm(w.height),
+        thickness: cm(w.thickness),
+      })),
+      objects: (asArray(doc.objects) as SavedObjectEntry[]).map((o) => ({
+        ...o,
+        position: o.position && scalePoint(o.position),
+      })),
+    };
+  }
+
+  // v1 -> v2: `{x, y}` plan points become `{x, z}`, objects lose raw userData
+  private static migrateV1(doc: RawDesign): RawDesign {
+    const toPlanPoint = (p: RawPoint | undefined) =>
+      p && { x: p.x, z: 'z' in p ? p.z : p.y };
+
+    return {
+      schemaVersion: 2,
+      name: typeof doc.name === 'string' ? doc.name : undefined,
+      description: typeof doc.description === 'string' ? doc.description : undefined,
+      walls: (asArray(doc.walls) as RawWall[]).map((w) => ({
+        ...w,
+        start: toPlanPoint(w.start),
+        end: toPlanPoint(w.end),
+      })),
+      rooms: asArray(doc.rooms),
+      doors: asArray(doc.doors),
+      windows: asArray(doc.windows),
+      objects: RoomObjects.fromSaved(asArray(doc.objects) as SavedObjectEntry[]),
+      materials: isRecord(doc.materials) ? doc.materials : {},
+    };
+  }
+}
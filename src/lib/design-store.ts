@@ -0,0 +1,231 @@
+import type { SavedDesign } from '@/lib/designService';
+
+// A design as kept on this device, with what the sync queue needs to know about it
+export interface LocalDesign extends SavedDesign {
+  id: string;
+  syncState: 'synced' | 'pending' | 'conflict';
+  baseUpdatedAt: number | null; // Server updatedAt (ms) this copy is based on; null = never uploaded
+  revision: number; // Bumped on every local edit
+  deleted?: boolean; // Tombstone until the delete reaches the server
+  conflict?: SavedDesign | null; // Server version that changed underneath (null = deleted there)
+}
+
+// One pending write per design; the design record itself holds the latest content
+export interface QueuedWrite {
+  designId: string;
+  type: 'upsert' | 'delete';
+  queuedAt: number;
+}
+
+// Server updatedAt (ms) of the last version of a design this device saw or uploaded
+export interface SyncedVersion {
+  designId: string;
+  updatedAt: number;
+}
+
+/**
+ * Local persistence behind the design repository
+ */
+export interface DesignStore {
+  getDesign(id: string): Promise<LocalDesign | null>;
+  getDesigns(userId: string): Promise<LocalDesign[]>;
+  putDesign(design: LocalDesign): Promise<void>;
+  removeDesign(id: string): Promise<void>;
+  getQueue(): Promise<QueuedWrite[]>;
+  putQueued(write: QueuedWrite): Promise<void>;
+  removeQueued(designId: string): Promise<void>;
+  getSyncedVersion(designId: string): Promise<number | null>;
+  putSyncedVersion(version: SyncedVersion): Promise<void>;
+  removeSyncedVersion(designId: string): Promise<void>;
+}
+
+/**
+ * Keeps everything in memory; used during SSR, where IndexedDB is missing, and in tests
+ */
+export class MemoryDesignStore implements DesignStore {
+  private designs = new Map<string, LocalDesign>();
+  private queue = new Map<string, QueuedWrite>();
+  private versions = new Map<string, number>();
+
+  getDesign(id: string) {
+    const design = this.designs.get(id);
+    return Promise.resolve(design ? structuredClone(design) : null);
+  }
+
+  getDesigns(userId: string) {
+    return Promise.resolve(
+      [...this.designs.values()]
+        .filter((d) => d.userId === userId)
+        .map((d) => structuredClone(d)),
+    );
+  }
+
+  putDesign(design: LocalDesign) {
+    this.designs.set(design.id, structuredClone(design));
+    return Promise.resolve();
+  }
+
+  removeDesign(id: string) {
+    this.designs.delete(id);
+    return Promise.resolve();
+  }
+
+  getQueue() {
+    return Promise.resolve(
+      [...this.queue.values()].sort((a, b) => a.queuedAt - b.queuedAt),
+    );
+  }
+
+  putQueued(write: QueuedWrite) {
+    this.queue.set(write.designId, { ...write });
+    return Promise.resolve();
+  }
+
+  removeQueued(designId: string) {
+    this.queue.delete(designId);
+    return Promise.resolve();
+  }
+
+  getSyncedVersion(designId: string) {
+    return Promise.resolve(this.versions.get(designId) ?? null);
+  }
+
+  putSyncedVersion(version: SyncedVersion) {
+    this.versions.set(version.designId, version.updatedAt);
+    return Promise.resolve();
+  }
+
+  removeSyncedVersion(designId: string) {
+    this.versions.delete(designId);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Browser persistence so drafts and queued writes survive reloads while offline
+ */
+export class IndexedDBDesignStore implements DesignStore {
+  private static readonly DB_NAME = 'roomi-space';
+  private static readonly DB_VERSION = 2;
+  private static readonly DESIGNS = 'designs';
+  private static readonly QUEUE = 'syncQueue';
+  private static readonly VERSIONS = 'syncedVersions';
+
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  async getDesign(id: string) {
+    const design = await this.request<LocalDesign | undefined>(
+      IndexedDBDesignStore.DESIGNS,
+      'readonly',
+      (store) => store.get(id),
+    );
+    return design ?? null;
+  }
+
+  getDesigns(userId: string) {
+    return this.request<LocalDesign[]>(
+      IndexedDBDesignStore.DESIGNS,
+      'readonly',
+      (store) => store.index('userId').getAll(userId),
+    );
+  }
+
+  async putDesign(design: LocalDesign) {
+    await this.request(IndexedDBDesignStore.DESIGNS, 'readwrite', (store) =>
+      store.put(design),
+    );
+  }
+
+  async removeDesign(id: string) {
+    await this.request(IndexedDBDesignStore.DESIGNS, 'readwrite', (store) =>
+      store.delete(id),
+    );
+  }
+
+  async getQueue() {
+    const queue = await this.request<QueuedWrite[]>(
+      IndexedDBDesignStore.QUEUE,
+      'readonly',
+      (store) => store.getAll(),
+    );
+    return queue.sort((a, b) => a.queuedAt - b.queuedAt);
+  }
+
+  async putQueued(write: QueuedWrite) {
+    await this.request(IndexedDBDesignStore.QUEUE, 'readwrite', (store) =>
+      store.put(write),
+    );
+  }
+
+  async removeQueued(designId: string) {
+    await this.request(IndexedDBDesignStore.QUEUE, 'readwrite', (store) =>
+      store.delete(designId),
+    );
+  }
+
+  async getSyncedVersion(designId: string) {
+    const version = await this.request<SyncedVersion | undefined>(
+      IndexedDBDesignStore.VERSIONS,
+      'readonly',
+      (store) => store.get(designId),
+    );
+    return version?.updatedAt ?? null;
+  }
+
+  async putSyncedVersion(version: SyncedVersion) {
+    await this.request(IndexedDBDesignStore.VERSIONS, 'readwrite', (store) =>
+      store.put(version),
+    );
+  }
+
+  async removeSyncedVersion(designId: string) {
+    await this.request(IndexedDBDesignStore.VERSIONS, 'readwrite', (store) =>
+      store.delete(designId),
+    );
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(
+          IndexedDBDesignStore.DB_NAME,
+          IndexedDBDesignStore.DB_VERSION,
+        );
+        request.onupgradeneeded = (event) => {
+          const db = request.result;
+          if (event.oldVersion < 1) {
+            const designs = db.createObjectStore(IndexedDBDesignStore.DESIGNS, {
+              keyPath: 'id',
+            });
+            designs.createIndex('userId', 'userId');
+            db.createObjectStore(IndexedDBDesignStore.QUEUE, { keyPath: 'designId' });
+          }
+          if (event.oldVersion < 2) {
+            db.createObjectStore(IndexedDBDesignStore.VERSIONS, { keyPath: 'designId' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null; // Allow a retry, e.g. after the user frees up storage
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest,
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = action(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
@@ -1,12 +1,15 @@
 import {
+  Timestamp,
   addDoc,
   collection,
   deleteDoc,
   doc,
+  getDoc,
   getDocs,
   onSnapshot,
   orderBy,
   query,
+  runTransaction,
   serverTimestamp,
   setDoc,
   updateDoc,
@@ -14,32 +17,107 @@ import {
 } from 'firebase/firestore';
 
 import { db } from '@/firebase/firebase';
+import { DesignMerge, DesignOp } from '@/lib/design-merge';
+import { DesignDocument, DesignSchema, DesignSchemaIssue } from '@/lib/design-schema';
 
-export interface SavedDesign {
+export type CollaboratorRole = 'editor' | 'viewer';
+
+// A canonical design document plus its Firestore bookkeeping
+export interface SavedDesign extends DesignDocument {
   id?: string;
   userId: string;
-  name: string;
-  description?: string;
-  walls: Array<{
-    id: string;
-    start: { x: number; y: number };
-    end: { x: number; y: number };
-    height: number;
-    thickness: number;
-  }>;
-  objects: Array<{
-    id: string;
-    type: string;
-    position: { x: number; y: number; z: number };
-    rotation: { x: number; y: number; z: number };
-    scale: { x: number; y: number; z: number };
-    userData: Record<string, unknown>;
-  }>;
-
+  roles?: Record<string, CollaboratorRole>; // Collaborators by lower-case email
   createdAt?: Date;
   updatedAt?: Date;
+  // Why the stored document couldn't be read; such designs are listed but never opened
+  issues?: DesignSchemaIssue[];
+}
+
+// Live state of one collaborator, stored at designs/{designId}/presence/{uid}
+export interface CollaboratorPresence {
+  uid: string;
+  name: string;
+  color: string;
+  cursor: { x: number; z: number } | null; // Plan coordinates in meters
+  selectedWallId: string | null;
+  updatedAt: Date;
+}
+
+// Read-only public copy of a design, published under an unguessable share id
+export interface SharedDesign {
+  id: string;
+  designId: string;
+  ownerId: string;
+  design: DesignDocument;
+  createdAt: Date;
+  expiresAt: Date | null; // null = never expires
+  revoked: boolean;
 }
 
+const SHARE_DAY_MS = 24 * 60 * 60 * 1000;
+
+const isShareActive = (share: Pick<SharedDesign, 'expiresAt' | 'revoked'>) =>
+  !share.revoked && (share.expiresAt === null || share.expiresAt.getTime() > Date.now());
+
+// Share documents embed the design, which is migrated like any other stored design
+const toSharedDesign = (
+  id: string,
+  data: Record<string, unknown> & {
+    design?: unknown;
+    createdAt?: { toDate: () => Date };
+    expiresAt?: { toDate: () => Date } | null;
+  },
+): SharedDesign | null => {
+  const result = DesignSchema.parse(data.design);
+  if (!result.success) {
+    console.error(`❌ Share ${id} failed validation:`, result.errors);
+    return null;
+  }
+  return {
+    id,
+    designId: String(data.designId ?? ''),
+    ownerId: String(data.ownerId ?? ''),
+    design: result.document,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    expiresAt: data.expiresAt?.toDate() ?? null,
+    revoked: data.revoked === true,
+  };
+};
+
+type StoredDesign = Record<string, unknown> & {
+  createdAt?: { toDate: () => Date };
+  updatedAt?: { toDate: () => Date };
+};
+
+// Upgrade a stored document to the current schema. Invalid documents become an empty
+// design carrying the issues, so a design that stopped loading is still listed and
+// reported rather than silently dropped from the user's list
+const toListedDesign = (id: string, data: StoredDesign): SavedDesign => {
+  const result = DesignSchema.parse(data);
+  if (!result.success) {
+    console.error(`❌ Design ${id} failed validation:`, result.errors);
+  }
+  return {
+    ...(result.success
+      ? result.document
+      : DesignSchema.create({
+          name: typeof data.name === 'string' ? data.name : undefined,
+        })),
+    id,
+    userId: String(data.userId ?? ''),
+    roles: (data.roles as SavedDesign['roles']) ?? {},
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date(),
+    ...(result.success ? {} : { issues: result.errors }),
+  };
+};
+
+// Designs that are opened must be valid; saving over a placeholder would lose the original
+const toSavedDesign = (id: string, data: StoredDesign): SavedDesign | null => {
+  const design = toListedDesign(id, data);
+  return design.issues ? null : design;
+};
+
 export const designService = {
   // Test function to check Firestore access
   async testConnection(): Promise<boolean> {
@@ -121,13 +199,7 @@ export const designService = {
 
       const designs: SavedDesign[] = [];
       snapshot.forEach((doc) => {
-        const data = doc.data();
-        designs.push({
-          id: doc.id,
-          ...data,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date(),
-        } as SavedDesign);
+        designs.push(toListedDesign(doc.id, doc.data()));
       });
 
       return designs;
@@ -140,17 +212,22 @@ export const designService = {
           'Firestore index error. Please create the required index:',
           (error as Error & { code?: string }).message,
         );
-        // Return empty array instead of throwing to prevent UI crashes
-        return [];
       }
 
+      // Callers decide how to degrade; an empty list would look like "no designs"
       throw error;
     }
   },
 
+  async getDesign(designId: string): Promise<SavedDesign | null> {
+    const snapshot = await getDoc(doc(db, 'designs', designId));
+    return snapshot.exists() ? toSavedDesign(snapshot.id, snapshot.data()) : null;
+  },
+
   subscribeToUserDesigns(
     userId: string,
     callback: (designs: SavedDesign[]) => void,
+    onError?: (error: Error & { code?: string }) => void,
   ): () => void {
     const designsCollection = collection(db, 'designs');
     const userDesignsQuery = query(
@@ -169,13 +246,7 @@ export const designService = {
 
         const designs: SavedDesign[] = [];
         snapshot.forEach((doc) => {
-          const data = doc.data();
-          designs.push({
-            id: doc.id,
-            ...data,
-            createdAt: data.createdAt?.toDate() || new Date(),
-            updatedAt: data.updatedAt?.toDate() || new Date(),
-          } as SavedDesign);
+          designs.push(toListedDesign(doc.id, doc.data()));
         });
 
         callback(designs);
@@ -189,12 +260,8 @@ export const designService = {
             'Firestore index error. Please create the required index:',
             error.message,
           );
-          // Still call callback with empty array to prevent UI from breaking
-          callback([]);
-        } else {
-          // For other errors, still provide empty array to prevent crashes
-          callback([]);
         }
+        onError?.(error);
       },
     );
 
@@ -207,22 +274,22 @@ export const designService = {
   ): () => void {
     const designRef = doc(db, 'designs', designId);
 
-    const unsubscribe = onSnapshot(designRef, (doc) => {
-      if (!doc.exists()) {
-        callback(null);
-        return;
-      }
-
-      const data = doc.data();
-      const design: SavedDesign = {
-        id: doc.id,
-        ...data,
-        createdAt: data.createdAt?.toDate() || new Date(),
-        updatedAt: data.updatedAt?.toDate() || new Date(),
-      } as SavedDesign;
+    const unsubscribe = onSnapshot(
+      designRef,
+      (doc) => {
+        if (!doc.exists()) {
+          callback(null);
+          return;
+        }
 
-      callback(design);
-    });
+        callback(toSavedDesign(doc.id, doc.data()));
+      },
+      (error) => {
+        // E.g. access was revoked while the design was open
+        console.error('Error in design subscription:', error);
+        callback(null);
+      },
+    );
 
     return unsubscribe;
   },
@@ -249,6 +316,208 @@ export const designService = {
     return docRef.id;
   },
 
+  /**
+   * Publish a read-only snapshot of a saved design at `/share/{id}`.
+   * Later edits to the design are not visible until a new link is created.
+   */
+  async createShareLink(
+    design: SavedDesign,
+    options: { expiresInDays?: number } = {},
+  ): Promise<{ shareId: string; url: string }> {
+    if (!design.id) {
+      throw new Error('Save the design before sharing it');
+    }
+    console.log('🔧 designService.createShareLink called for design:', design.id);
+
+    const { id: designId, userId, createdAt: _c, updatedAt: _u, ...document } = design;
+    const { description, ...rest } = DesignSchema.create(document);
+    const sharesCollection = collection(db, 'shares');
+    const docRef = await addDoc(sharesCollection, {
+      designId,
+      ownerId: userId,
+      // Firestore rejects undefined fields
+      design: { ...rest, ...(description ? { description } : {}) },
+      createdAt: serverTimestamp(),
+      expiresAt: options.expiresInDays
+        ? Timestamp.fromMillis(Date.now() + options.expiresInDays * SHARE_DAY_MS)
+        : null,
+      revoked: false,
+    });
+    console.log('🔧 Share created with ID:', docRef.id);
+    return { shareId: docRef.id, url: `${window.location.origin}/share/${docRef.id}` };
+  },
+
+  async revokeShareLink(shareId: string): Promise<void> {
+    console.log('🔧 designService.revokeShareLink called with ID:', shareId);
+    await updateDoc(doc(db, 'shares', shareId), { revoked: true });
+  },
+
+  /**
+   * Load a share for viewing; revoked, expired and missing shares all return null
+   */
+  async getShare(shareId: string): Promise<SharedDesign | null> {
+    try {
+      const snapshot = await getDoc(doc(db, 'shares', shareId));
+      if (!snapshot.exists()) {
+        return null;
+      }
+      const share = toSharedDesign(snapshot.id, snapshot.data());
+      return share && isShareActive(share) ? share : null;
+    } catch (error) {
+      // The rules deny reads of revoked and expired shares
+      if ((error as Error & { code?: string }).code === 'permission-denied') {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  subscribeToDesignShares(
+    designId: string,
+    userId: string,
+    callback: (shares: SharedDesign[]) => void,
+  ): () => void {
+    const sharesQuery = query(
+      collection(db, 'shares'),
+      where('ownerId', '==', userId),
+      where('designId', '==', designId),
+    );
+
+    return onSnapshot(
+      sharesQuery,
+      (snapshot) => {
+        const shares: SharedDesign[] = [];
+        snapshot.forEach((doc) => {
+          const share = toSharedDesign(doc.id, doc.data());
+          if (share && isShareActive(share)) {
+            shares.push(share);
+          }
+        });
+        callback(shares.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()));
+      },
+      (error) => {
+        console.error('Error in share subscription:', error);
+        callback([]);
+      },
+    );
+  },
+
+  /**
+   * Apply collaborative edits on top of the latest stored version of a design
+   */
+  async applyDesignOps(designId: string, ops: DesignOp[]): Promise<void> {
+    if (ops.length === 0) {
+      return;
+    }
+    const designRef = doc(db, 'designs', designId);
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(designRef);
+      if (!snapshot.exists()) {
+        throw new Error(`Design ${designId} no longer exists`);
+      }
+      const result = DesignSchema.parse(snapshot.data());
+      if (!result.success) {
+        throw new Error(`Design ${designId} failed validation`);
+      }
+      transaction.update(designRef, {
+        ...DesignMerge.apply(DesignMerge.pick(result.document), ops),
+        schemaVersion: result.document.schemaVersion,
+        updatedAt: serverTimestamp(),
+      });
+    });
+  },
+
+  /**
+   * Grant a collaborator a role on a design, or remove them with `null` (owner only)
+   */
+  async setCollaboratorRole(
+    designId: string,
+    email: string,
+    role: CollaboratorRole | null,
+  ): Promise<void> {
+    const key = email.trim().toLowerCase();
+    const designRef = doc(db, 'designs', designId);
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(designRef);
+      const roles = { ...((snapshot.data()?.roles as SavedDesign['roles']) ?? {}) };
+      if (role) {
+        roles[key] = role;
+      } else {
+        delete roles[key];
+      }
+      // The email list backs the "shared with me" query
+      transaction.update(designRef, { roles, collaboratorEmails: Object.keys(roles) });
+    });
+  },
+
+  subscribeToSharedDesigns(
+    email: string,
+    callback: (designs: SavedDesign[]) => void,
+  ): () => void {
+    const sharedQuery = query(
+      collection(db, 'designs'),
+      where('collaboratorEmails', 'array-contains', email.toLowerCase()),
+    );
+
+    return onSnapshot(
+      sharedQuery,
+      (snapshot) => {
+        const designs: SavedDesign[] = [];
+        snapshot.forEach((doc) => {
+          designs.push(toListedDesign(doc.id, doc.data()));
+        });
+        callback(designs);
+      },
+      (error) => {
+        console.error('Error in shared design subscription:', error);
+        callback([]);
+      },
+    );
+  },
+
+  async updatePresence(
+    designId: string,
+    presence: Omit<CollaboratorPresence, 'updatedAt'>,
+  ): Promise<void> {
+    await setDoc(doc(db, 'designs', designId, 'presence', presence.uid), {
+      ...presence,
+      updatedAt: serverTimestamp(),
+    });
+  },
+
+  async clearPresence(designId: string, uid: string): Promise<void> {
+    await deleteDoc(doc(db, 'designs', designId, 'presence', uid));
+  },
+
+  subscribeToPresence(
+    designId: string,
+    callback: (collaborators: CollaboratorPresence[]) => void,
+  ): () => void {
+    return onSnapshot(
+      collection(db, 'designs', designId, 'presence'),
+      (snapshot) => {
+        const collaborators: CollaboratorPresence[] = [];
+        snapshot.forEach((doc) => {
+          const data = doc.data();
+          collaborators.push({
+            uid: doc.id,
+            name: String(data.name ?? ''),
+            color: String(data.color ?? '#6B7280'),
+            cursor: data.cursor ?? null,
+            selectedWallId: data.selectedWallId ?? null,
+            // Pending local writes have no server timestamp yet
+            updatedAt: data.updatedAt?.toDate() ?? new Date(),
+          });
+        });
+        callback(collaborators);
+      },
+      (error) => {
+        console.error('Error in presence subscription:', error);
+        callback([]);
+      },
+    );
+  },
+
   async deleteDesign(designId: string): Promise<void> {
     const designRef = doc(db, 'designs', designId);
     await deleteDoc(designRef);
@@ -0,0 +1,71 @@
+/**
+ * Diagnostics
+ * Resolves a validation issue to the plan geometry it refers to, so the 2D and 3D
+ * canvases can highlight and zoom to it
+ */
+
+import type { Point, Wall } from '@/lib/advanced-room-calculator';
+import type { DrawingRoom } from '@/lib/advanced-room-drawing';
+import type { ValidationIssue } from '@/lib/validation-rules';
+
+type Segment = Pick<Wall, 'start' | 'end'>;
+
+export interface DiagnosticBounds {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+// What the canvases highlight for the issue the user clicked
+export interface DiagnosticFocus {
+  issue: ValidationIssue;
+  segments: Segment[]; // Walls to outline
+  point?: Point; // Vertex to ring
+  bounds: DiagnosticBounds;
+  requestedAt: number; // Clicking the same issue again zooms to it again
+}
+
+export class Diagnostics {
+  /**
+   * Geometry an issue refers to; room-wide issues without a room cover the whole plan
+   */
+  static locate(
+    issue: ValidationIssue,
+    walls: Pick<Wall, 'id' | 'start' | 'end'>[],
+    rooms: Pick<DrawingRoom, 'id' | 'walls'>[] = [],
+  ): DiagnosticFocus | null {
+    const room = issue.roomId ? rooms.find((r) => r.id === issue.roomId) : undefined;
+    let segments: Segment[] = [];
+
+    if (issue.wallId) {
+      const wall =
+        walls.find((w) => w.id === issue.wallId) ??
+        room?.walls.find((w) => w.id === issue.wallId);
+      segments = wall ? [wall] : [];
+    } else if (!issue.point) {
+      segments = room ? room.walls : walls;
+    }
+
+    const points = segments.flatMap((segment) => [segment.start, segment.end]);
+    if (issue.point) {
+      points.push(issue.point);
+    }
+    if (points.length === 0) {
+      return null;
+    }
+
+    return {
+      issue,
+      segments,
+      point: issue.point,
+      bounds: {
+        minX: Math.min(...points.map((p) => p.x)),
+        maxX: Math.max(...points.map((p) => p.x)),
+        minZ: Math.min(...points.map((p) => p.z)),
+        maxZ: Math.max(...points.map((p) => p.z)),
+      },
+      requestedAt: Date.now(),
+    };
+  }
+}
@@ -0,0 +1,404 @@
+/**
+ * Dimensions
+ * The dimension layer of the 2D plan. Each closed room gets chains of dimensions along
+ * its four sides, running between the corners seen from that side with the overall
+ * size beyond them, its clear width and depth, and a tag with its area and perimeter.
+ * Dimension lines placed by hand measure between any two points. Figures are written
+ * in the unit and precision the user picked
+ */
+
+import { AdvancedRoomDrawing } from '@/lib/advanced-room-drawing';
+import { WallArc } from '@/lib/wall-arc';
+import { DimensionLine, Point, Wall } from '@/types/room';
+
+export type LengthUnit = 'm' | 'cm' | 'ft-in';
+
+export interface DimensionSettings {
+  unit: LengthUnit;
+  precision: number; // Decimal places of the smallest unit written: m, cm or inches
+  exterior: boolean; // Chains along the outside of each room
+  interior: boolean; // Clear width and depth of each room
+  tags: boolean; // Area and perimeter at each room's centroid
+}
+
+export type DimensionKind = 'chain' | 'overall' | 'interior' | 'custom';
+
+// A dimension as drawn: the line carrying the figure and the two points it measures
+export interface Dimension {
+  kind: DimensionKind;
+  from: Point;
+  to: Point;
+  measuredFrom: Point; // Witness lines run from here to `from`
+  measuredTo: Point;
+  length: number;
+}
+
+export interface RoomTag {
+  position: Point; // Centroid, or a point inside the room when that falls outside it
+  area: number;
+  perimeter: number;
+}
+
+export interface RoomDimensions {
+  dimensions: Dimension[];
+  tag: RoomTag | null;
+}
+
+// A side of a room: the axis the chain runs along and which way is out
+interface RoomSide {
+  along: 'x' | 'z';
+  outward: 1 | -1;
+}
+
+const SIDES: RoomSide[] = [
+  { along: 'x', outward: 1 },
+  { along: 'x', outward: -1 },
+  { along: 'z', outward: 1 },
+  { along: 'z', outward: -1 },
+];
+
+export class Dimensions {
+  static readonly DEFAULT_SETTINGS: DimensionSettings = {
+    unit: 'm',
+    precision: 2,
+    exterior: true,
+    interior: true,
+    tags: true,
+  };
+
+  static readonly UNITS: LengthUnit[] = ['m', 'cm', 'ft-in'];
+  static readonly PRECISIONS = [0, 1, 2, 3];
+  static readonly MIN_LENGTH = 0.01; // Shorter steps are left out of a chain
+
+  private static readonly METERS_PER_INCH = 0.0254;
+  private static readonly SQUARE_FEET_PER_SQUARE_METER = 10.7639;
+  private static readonly SAME_POINT = 1e-3;
+
+  /**
+   * Settings saved as JSON; anything missing or unknown falls back to the default
+   */
+  static parseSettings(json: string | null): DimensionSettings {
+    let saved: Partial<Record<keyof DimensionSettings, unknown>> = {};
+    try {
+      saved = json ? JSON.parse(json) : {};
+    } catch {
+      return this.DEFAULT_SETTINGS;
+    }
+    const defaults = this.DEFAULT_SETTINGS;
+    const flag = (key: 'exterior' | 'interior' | 'tags') => {
+      const value = saved[key];
+      return typeof value === 'boolean' ? value : defaults[key];
+    };
+    return {
+      unit: this.UNITS.find((unit) => unit === saved.unit) ?? defaults.unit,
+      precision:
+        this.PRECISIONS.find((precision) => precision === saved.precision) ??
+        defaults.precision,
+      exterior: flag('exterior'),
+      interior: flag('interior'),
+      tags: flag('tags'),
+    };
+  }
+
+  /**
+   * A length as written on the plan, e.g. "3.45 m", "345 cm" or `11' 3.8"`
+   */
+  static formatLength(meters: number, settings: DimensionSettings): string {
+    const { unit, precision } = settings;
+    if (unit === 'cm') {
+      return `${(meters * 100).toFixed(precision)} cm`;
+    }
+    if (unit === 'm') {
+      return `${meters.toFixed(precision)} m`;
+    }
+    // Round first so 11' 12" comes out as 12' 0"
+    const factor = 10 ** precision;
+    const inches = Math.round((meters / this.METERS_PER_INCH) * factor) / factor;
+    const feet = Math.floor(inches / 12);
+    return `${feet}' ${(inches - feet * 12).toFixed(precision)}"`;
+  }
+
+  /**
+   * An area in square meters, or square feet when lengths are in feet and inches
+   */
+  static formatArea(squareMeters: number, settings: DimensionSettings): string {
+    return settings.unit === 'ft-in'
+      ? `${(squareMeters * this.SQUARE_FEET_PER_SQUARE_METER).toFixed(settings.precision)} ft²`
+      : `${squareMeters.toFixed(settings.precision)} m²`;
+  }
+
+  /**
+   * The dimensions and tag of a room, or null when its walls don't close a loop.
+   * `offset` is how far the first chain sits outside the room, in meters
+   */
+  static forRoom(
+    walls: Wall[],
+    offset: number,
+    settings: DimensionSettings,
+  ): RoomDimensions | null {
+    const corners = AdvancedRoomDrawing.getRoomVertices({
+      id: 'dimensions',
+      name: '',
+      walls,
+      isCompleted: true,
+      isActive: false,
+    });
+    if (corners.length < 3 || corners.length !== walls.length) {
+      return null;
+    }
+    const outline = WallArc.expandOutline(corners, walls);
+    const inside = this.insidePoint(outline);
+
+    return {
+      dimensions: [
+        ...(settings.exterior ? this.exteriorChains(corners, outline, offset) : []),
+        ...(settings.interior ? this.interiorSpans(outline, inside) : []),
+      ],
+      tag: settings.tags
+        ? {
+            position: inside,
+            area: Math.abs(this.signedArea(outline)),
+            perimeter: walls.reduce((sum, wall) => sum + WallArc.getLength(wall), 0),
+          }
+        : null,
+    };
+  }
+
+  /**
+   * Dimension lines placed by hand, measured straight between their ends
+   */
+  static custom(lines: DimensionLine[]): Dimension[] {
+    return lines.map((line) => ({
+      kind: 'custom',
+      from: line.start,
+      to: line.end,
+      measuredFrom: line.start,
+      measuredTo: line.end,
+      length: this.distance(line.start, line.end),
+    }));
+  }
+
+  /**
+   * The hand-placed dimension line closest to `point`, if one is within `radius`
+   */
+  static lineNear(
+    lines: DimensionLine[],
+    point: Point,
+    radius: number,
+  ): DimensionLine | null {
+    return (
+      lines.reduce<{ line: DimensionLine; distance: number } | null>((best, line) => {
+        const distance = this.distanceToSegment(point, line.start, line.end);
+        return distance <= radius && (!best || distance < best.distance)
+          ? { line, distance }
+          : best;
+      }, null)?.line ?? null
+    );
+  }
+
+  // Per side, a chain between the corners that side can see, and the overall size
+  // beyond it when the chain has more than one step
+  private static exteriorChains(
+    corners: Point[],
+    outline: Point[],
+    offset: number,
+  ): Dimension[] {
+    return SIDES.flatMap((side) => {
+      const across = side.along === 'x' ? 'z' : 'x';
+      const edge =
+        side.outward === 1
+          ? Math.max(...outline.map((p) => p[across]))
+          : Math.min(...outline.map((p) => p[across]));
+      const seen = corners.filter((corner) => this.isExposed(corner, side, outline));
+      // The room's extent along the side, even where it ends in a curve
+      const ends = [
+        outline.reduce((min, p) => (p[side.along] < min[side.along] ? p : min)),
+        outline.reduce((max, p) => (p[side.along] > max[side.along] ? p : max)),
+      ];
+      const stations = [...seen, ...ends]
+        .sort((a, b) => a[side.along] - b[side.along])
+        .filter(
+          (p, i, all) =>
+            i === 0 || p[side.along] - all[i - 1][side.along] >= this.MIN_LENGTH,
+        );
+
+      const at = (station: Point, distance: number): Point =>
+        side.along === 'x'
+          ? { x: station.x, z: edge + side.outward * distance }
+          : { x: edge + side.outward * distance, z: station.z };
+      const measure = (kind: DimensionKind, a: Point, b: Point, distance: number) => ({
+        kind,
+        from: at(a, distance),
+        to: at(b, distance),
+        measuredFrom: a,
+        measuredTo: b,
+        length: b[side.along] - a[side.along],
+      });
+
+      const chain = stations
+        .slice(1)
+        .map((station, i) => measure('chain', stations[i], station, offset));
+      return chain.length > 1
+        ? [
+            ...chain,
+            measure('overall', stations[0], stations[stations.length - 1], offset * 2),
+          ]
+        : chain;
+    });
+  }
+
+  // A corner is seen from a side when nothing of the room lies between it and that side
+  private static isExposed(corner: Point, side: RoomSide, outline: Point[]): boolean {
+    const direction: Point =
+      side.along === 'x' ? { x: 0, z: side.outward } : { x: side.outward, z: 0 };
+    return outline.every((a, i) => {
+      const b = outline[(i + 1) % outline.length];
+      if (this.isSame(a, corner) || this.isSame(b, corner)) {
+        return true;
+      }
+      const hit = this.rayHit(corner, direction, a, b);
+      return hit === null || hit <= this.SAME_POINT;
+    });
+  }
+
+  // Clear width and depth through a point inside the room
+  private static interiorSpans(outline: Point[], inside: Point): Dimension[] {
+    return (['x', 'z'] as const).flatMap((along) => {
+      const span = this.spanThrough(outline, inside, along);
+      if (!span || span[1] - span[0] < this.MIN_LENGTH) {
+        return [];
+      }
+      const at = (value: number): Point =>
+        along === 'x' ? { x: value, z: inside.z } : { x: inside.x, z: value };
+      const from = at(span[0]);
+      const to = at(span[1]);
+      return [
+        {
+          kind: 'interior' as const,
+          from,
+          to,
+          measuredFrom: from,
+          measuredTo: to,
+          length: span[1] - span[0],
+        },
+      ];
+    });
+  }
+
+  // Where a line along `along` through `point` enters and leaves the room around it
+  private static spanThrough(
+    outline: Point[],
+    point: Point,
+    along: 'x' | 'z',
+  ): [number, number] | null {
+    const crossings = this.crossings(outline, point[along === 'x' ? 'z' : 'x'], along);
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      if (crossings[i] <= point[along] && point[along] <= crossings[i + 1]) {
+        return [crossings[i], crossings[i + 1]];
+      }
+    }
+    return null;
+  }
+
+  // Sorted positions along `along` where the line at `level` crosses the outline
+  private static crossings(outline: Point[], level: number, along: 'x' | 'z'): number[] {
+    const across = along === 'x' ? 'z' : 'x';
+    return outline
+      .flatMap((a, i) => {
+        const b = outline[(i + 1) % outline.length];
+        // Half-open so a corner on the line is counted once
+        if (a[across] > level === b[across] > level) {
+          return [];
+        }
+        const t = (level - a[across]) / (b[across] - a[across]);
+        return [a[along] + t * (b[along] - a[along])];
+      })
+      .sort((a, b) => a - b);
+  }
+
+  // The centroid, or the middle of the widest run across the room at its height when
+  // the room wraps around its centroid (an L or U shape)
+  private static insidePoint(outline: Point[]): Point {
+    const centroid = this.centroid(outline);
+    if (this.spanThrough(outline, centroid, 'x')) {
+      return centroid;
+    }
+    const crossings = this.crossings(outline, centroid.z, 'x');
+    let widest: [number, number] | null = null;
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      if (!widest || crossings[i + 1] - crossings[i] > widest[1] - widest[0]) {
+        widest = [crossings[i], crossings[i + 1]];
+      }
+    }
+    return widest ? { x: (widest[0] + widest[1]) / 2, z: centroid.z } : centroid;
+  }
+
+  private static centroid(outline: Point[]): Point {
+    const area = this.signedArea(outline);
+    if (Math.abs(area) < 1e-9) {
+      return {
+        x: outline.reduce((sum, p) => sum + p.x, 0) / outline.length,
+        z: outline.reduce((sum, p) => sum + p.z, 0) / outline.length,
+      };
+    }
+    let x = 0;
+    let z = 0;
+    outline.forEach((a, i) => {
+      const b = outline[(i + 1) % outline.length];
+      const cross = a.x * b.z - b.x * a.z;
+      x += (a.x + b.x) * cross;
+      z += (a.z + b.z) * cross;
+    });
+    return { x: x / (6 * area), z: z / (6 * area) };
+  }
+
+  private static signedArea(outline: Point[]): number {
+    return (
+      outline.reduce((sum, a, i) => {
+        const b = outline[(i + 1) % outline.length];
+        return sum + a.x * b.z - b.x * a.z;
+      }, 0) / 2
+    );
+  }
+
+  // How far along the ray it meets segment ab, or null if it doesn't
+  private static rayHit(
+    origin: Point,
+    direction: Point,
+    a: Point,
+    b: Point,
+  ): number | null {
+    const edge = { x: b.x - a.x, z: b.z - a.z };
+    const denominator = direction.x * edge.z - direction.z * edge.x;
+    if (Math.abs(denominator) < 1e-12) {
+      return null;
+    }
+    const offset = { x: a.x - origin.x, z: a.z - origin.z };
+    const t = (offset.x * edge.z - offset.z * edge.x) / denominator;
+    const s = (offset.x * direction.z - offset.z * direction.x) / denominator;
+    return s >= 0 && s <= 1 && t >= 0 ? t : null;
+  }
+
+  private static distanceToSegment(point: Point, a: Point, b: Point): number {
+    const lengthSquared = (b.x - a.x) ** 2 + (b.z - a.z) ** 2;
+    if (lengthSquared === 0) {
+      return this.distance(point, a);
+    }
+    const t = Math.max(
+      0,
+      Math.min(
+        1,
+        ((point.x - a.x) * (b.x - a.x) + (point.z - a.z) * (b.z - a.z)) / lengthSquared,
+      ),
+    );
+    return this.distance(point, { x: a.x + t * (b.x - a.x), z: a.z + t * (b.z - a.z) });
+  }
+
+  private static isSame(a: Point, b: Point): boolean {
+    return this.distance(a, b) <= this.SAME_POINT;
+  }
+
+  private static distance(a: Point, b: Point): number {
+    return Math.hypot(a.x - b.x, a.z - b.z);
+  }
+}
@@ -0,0 +1,161 @@
+// Bounded undo/redo stacks of document snapshots (oldest first)
+export interface HistoryState<T> {
+  past: T[];
+  future: T[];
+  limit: number;
+  lastGroup: string | null; // Coalescing key of the most recent entry
+  lastRecordedAt: number;
+  batchDepth: number; // > 0 while a drag or other multi-step edit is in progress
+  batchRecorded: boolean; // Whether the open batch already pushed its snapshot
+}
+
+export class EditHistory {
+  static readonly DEFAULT_LIMIT = 100;
+  static readonly MIN_LIMIT = 1;
+  static readonly MAX_LIMIT = 500;
+  static readonly COALESCE_WINDOW_MS = 1000; // Repeated edits of one field within 1s are one step
+
+  /**
+   * Create an empty history with the given depth
+   */
+  static create<T>(limit: number = this.DEFAULT_LIMIT): HistoryState<T> {
+    return {
+      past: [],
+      future: [],
+      limit: this.clampLimit(limit),
+      lastGroup: null,
+      lastRecordedAt: 0,
+      batchDepth: 0,
+      batchRecorded: false,
+    };
+  }
+
+  /**
+   * Record the snapshot taken just before an edit.
+   * Edits inside an open batch, or repeated edits sharing a group within the
+   * coalescing window, collapse into the step recorded by the first of them.
+   */
+  static record<T>(
+    history: HistoryState<T>,
+    snapshot: T,
+    group: string | null = null,
+    now: number = Date.now(),
+  ): HistoryState<T> {
+    if (history.batchDepth > 0 && history.batchRecorded) {
+      return history;
+    }
+
+    const coalesce =
+      group !== null &&
+      group === history.lastGroup &&
+      now - history.lastRecordedAt < this.COALESCE_WINDOW_MS &&
+      history.past.length > 0;
+    if (coalesce) {
+      return { ...history, future: [], lastRecordedAt: now };
+    }
+
+    return {
+      ...history,
+      past: [...history.past, snapshot].slice(-history.limit),
+      future: [],
+      lastGroup: group,
+      lastRecordedAt: now,
+      batchRecorded: history.batchDepth > 0,
+    };
+  }
+
+  /**
+   * Step back; returns the snapshot to restore, or null if there is nothing to undo
+   */
+  static undo<T>(
+    history: HistoryState<T>,
+    present: T,
+  ): { history: HistoryState<T>; snapshot: T } | null {
+    if (history.past.length === 0) {
+      return null;
+    }
+    return {
+      snapshot: history.past[history.past.length - 1],
+      history: {
+        ...history,
+        past: history.past.slice(0, -1),
+        future: [present, ...history.future].slice(0, history.limit),
+        lastGroup: null,
+      },
+    };
+  }
+
+  /**
+   * Step forward; returns the snapshot to restore, or null if there is nothing to redo
+   */
+  static redo<T>(
+    history: HistoryState<T>,
+    present: T,
+  ): { history: HistoryState<T>; snapshot: T } | null {
+    if (history.future.length === 0) {
+      return null;
+    }
+    return {
+      snapshot: history.future[0],
+      history: {
+        ...history,
+        past: [...history.past, present].slice(-history.limit),
+        future: history.future.slice(1),
+        lastGroup: null,
+      },
+    };
+  }
+
+  /**
+   * Open a batch; every edit until the matching endBatch is a single step
+   */
+  static beginBatch<T>(history: HistoryState<T>): HistoryState<T> {
+    return {
+      ...history,
+      batchDepth: history.batchDepth + 1,
+      batchRecorded: history.batchDepth > 0 ? history.batchRecorded : false,
+    };
+  }
+
+  static endBatch<T>(history: HistoryState<T>): HistoryState<T> {
+    const batchDepth = Math.max(0, history.batchDepth - 1);
+    return {
+      ...history,
+      batchDepth,
+      batchRecorded: batchDepth > 0 ? history.batchRecorded : false,
+      lastGroup: batchDepth > 0 ? history.lastGroup : null,
+    };
+  }
+
+  /**
+   * Change the maximum number of undo steps, dropping the oldest ones if needed
+   */
+  static setLimit<T>(history: HistoryState<T>, limit: number): HistoryState<T> {
+    const clamped = this.clampLimit(limit);
+    return {
+      ...history,
+      limit: clamped,
+      past: history.past.slice(-clamped),
+      future: history.future.slice(0, clamped),
+    };
+  }
+
+  static clear<T>(history: HistoryState<T>): HistoryState<T> {
+    return this.create<T>(history.limit);
+  }
+
+  static canUndo<T>(history: HistoryState<T>): boolean {
+    return history.past.length > 0;
+  }
+
+  static canRedo<T>(history: HistoryState<T>): boolean {
+    return history.future.length > 0;
+  }
+
+  private static clampLimit(limit: number): number {
+    if (!Number.isFinite(limit)) {
+      return this.DEFAULT_LIMIT;
+    }
+    return Math.min(this.MAX_LIMIT, Math.max(this.MIN_LIMIT, Math.round(limit)));
+  }
+}
@@ -0,0 +1,382 @@
+/**
+ * Plan Selection
+ * Groups of walls and corners picked on the 2D plan, and what can be done to them at
+ * once: move, rotate, mirror, copy and paste. A picked wall carries both its corners;
+ * a corner picked on its own drags the walls meeting there, which stretch to follow.
+ * Rooms are walls joined corner to corner, so a pasted room keeps its shape
+ */
+
+import { WallArc } from '@/lib/wall-arc';
+import { DoorPlacement, Point, Wall, WindowPlacement } from '@/types/room';
+
+export interface Selection {
+  wallIds: string[];
+  vertices: Point[]; // Corners picked on their own
+}
+
+// Walls copied with the openings in them, ready to paste anywhere
+export interface PlanClipboard {
+  walls: Wall[];
+  doors: DoorPlacement[];
+  windows: WindowPlacement[];
+  center: Point;
+}
+
+export interface PlanEdit {
+  walls: Wall[];
+  selection: Selection;
+}
+
+export class PlanSelection {
+  static readonly EMPTY: Selection = { wallIds: [], vertices: [] };
+
+  private static readonly SAME_POINT = 1e-3;
+
+  static isEmpty(selection: Selection): boolean {
+    return selection.wallIds.length === 0 && selection.vertices.length === 0;
+  }
+
+  /**
+   * The corner, or failing that the wall, within `radius` of `point`
+   */
+  static pick(walls: Wall[], point: Point, radius: number): Selection | null {
+    let corner: Point | null = null;
+    let nearest: Wall | null = null;
+    let best = radius;
+    for (const wall of walls) {
+      for (const p of [wall.start, wall.end]) {
+        if (this.distance(p, point) <= best) {
+          best = this.distance(p, point);
+          corner = p;
+        }
+      }
+    }
+    if (corner) {
+      return { wallIds: [], vertices: [corner] };
+    }
+    best = radius;
+    for (const wall of walls) {
+      if (this.distanceToWall(point, wall) <= best) {
+        best = this.distanceToWall(point, wall);
+        nearest = wall;
+      }
+    }
+    return nearest ? { wallIds: [nearest.id], vertices: [] } : null;
+  }
+
+  /**
+   * Walls lying wholly inside the box between two corners, and the loose corners in it
+   */
+  static inBox(walls: Wall[], a: Point, b: Point): Selection {
+    const minX = Math.min(a.x, b.x);
+    const maxX = Math.max(a.x, b.x);
+    const minZ = Math.min(a.z, b.z);
+    const maxZ = Math.max(a.z, b.z);
+    const inside = (p: Point) => p.x >= minX && p.x <= maxX && p.z >= minZ && p.z <= maxZ;
+
+    const picked = walls.filter((wall) =>
+      [wall.start, wall.end, WallArc.getMidpoint(wall)].every(inside),
+    );
+    const covered = this.corners(picked);
+    return {
+      wallIds: picked.map((wall) => wall.id),
+      vertices: this.corners(walls).filter(
+        (p) => inside(p) && !covered.some((q) => this.isSame(p, q)),
+      ),
+    };
+  }
+
+  /**
+   * Every wall joined, corner to corner, to the given one: the room it belongs to
+   */
+  static room(walls: Wall[], wallId: string): Selection {
+    const start = walls.find((wall) => wall.id === wallId);
+    if (!start) {
+      return this.EMPTY;
+    }
+    const found = new Set([start.id]);
+    const queue = [start];
+    while (queue.length > 0) {
+      const wall = queue.pop()!;
+      walls.forEach((other) => {
+        if (!found.has(other.id) && this.touches(other, [wall.start, wall.end])) {
+          found.add(other.id);
+          queue.push(other);
+        }
+      });
+    }
+    return {
+      wallIds: walls.filter((w) => found.has(w.id)).map((w) => w.id),
+      vertices: [],
+    };
+  }
+
+  static add(a: Selection, b: Selection): Selection {
+    return {
+      wallIds: Array.from(new Set([...a.wallIds, ...b.wallIds])),
+      vertices: [
+        ...a.vertices,
+        ...b.vertices.filter((p) => !a.vertices.some((q) => this.isSame(p, q))),
+      ],
+    };
+  }
+
+  /**
+   * `b` added to `a`, or taken out of it where `a` has it already
+   */
+  static toggle(a: Selection, b: Selection): Selection {
+    const vertices = a.vertices.filter((p) => !b.vertices.some((q) => this.isSame(p, q)));
+    return {
+      wallIds: [
+        ...a.wallIds.filter((id) => !b.wallIds.includes(id)),
+        ...b.wallIds.filter((id) => !a.wallIds.includes(id)),
+      ],
+      vertices: [
+        ...vertices,
+        ...b.vertices.filter((p) => !a.vertices.some((q) => this.isSame(p, q))),
+      ],
+    };
+  }
+
+  static contains(selection: Selection, picked: Selection): boolean {
+    return (
+      picked.wallIds.every((id) => selection.wallIds.includes(id)) &&
+      picked.vertices.every((p) => selection.vertices.some((q) => this.isSame(p, q)))
+    );
+  }
+
+  /**
+   * Corners that move with the selection: those of its walls and the loose ones
+   */
+  static points(walls: Wall[], selection: Selection): Point[] {
+    const picked = walls.filter((wall) => selection.wallIds.includes(wall.id));
+    return this.corners(picked).concat(
+      selection.vertices.filter((p) => !picked.some((wall) => this.touches(wall, [p]))),
+    );
+  }
+
+  /**
+   * Walls left where they are by a move, i.e. touching none of the moving corners
+   */
+  static stationary(walls: Wall[], selection: Selection): Wall[] {
+    const moving = this.points(walls, selection);
+    return walls.filter((wall) => !this.touches(wall, moving));
+  }
+
+  /**
+   * The walls left once the selection is deleted; a loose corner takes its walls along
+   */
+  static remove(walls: Wall[], selection: Selection): Wall[] {
+    return walls.filter(
+      (wall) =>
+        !selection.wallIds.includes(wall.id) && !this.touches(wall, selection.vertices),
+    );
+  }
+
+  /**
+   * Middle of the box around the moving corners; rotations and mirrors turn about it
+   */
+  static center(walls: Wall[], selection: Selection): Point | null {
+    return this.boxCenter(this.points(walls, selection));
+  }
+
+  static translate(
+    walls: Wall[],
+    selection: Selection,
+    dx: number,
+    dz: number,
+  ): PlanEdit {
+    return this.transform(walls, selection, (p) => ({ x: p.x + dx, z: p.z + dz }));
+  }
+
+  /**
+   * Turn counterclockwise as the plan is drawn, by `degrees`
+   */
+  static rotate(walls: Wall[], selection: Selection, degrees: number): PlanEdit {
+    const center = this.center(walls, selection);
+    if (!center) {
+      return { walls, selection };
+    }
+    const angle = (degrees * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return this.transform(walls, selection, (p) => ({
+      x: center.x + (p.x - center.x) * cos - (p.z - center.z) * sin,
+      z: center.z + (p.x - center.x) * sin + (p.z - center.z) * cos,
+    }));
+  }
+
+  /**
+   * Flip across the line through the center along `axis`: 'x' swaps top and bottom,
+   * 'z' swaps left and right
+   */
+  static mirror(walls: Wall[], selection: Selection, axis: 'x' | 'z'): PlanEdit {
+    const center = this.center(walls, selection);
+    if (!center) {
+      return { walls, selection };
+    }
+    return this.transform(
+      walls,
+      selection,
+      (p) =>
+        axis === 'x'
+          ? { x: p.x, z: 2 * center.z - p.z }
+          : { x: 2 * center.x - p.x, z: p.z },
+      true,
+    );
+  }
+
+  /**
+   * The selected walls and their doors and windows, or null when no wall is selected
+   */
+  static copy(
+    walls: Wall[],
+    doors: DoorPlacement[],
+    windows: WindowPlacement[],
+    selection: Selection,
+  ): PlanClipboard | null {
+    const picked = walls.filter((wall) => selection.wallIds.includes(wall.id));
+    const center = this.boxCenter(this.corners(picked));
+    if (!center) {
+      return null;
+    }
+    const ids = new Set(picked.map((wall) => wall.id));
+    return {
+      walls: picked,
+      doors: doors.filter((door) => ids.has(door.wallId)),
+      windows: windows.filter((placement) => ids.has(placement.wallId)),
+      center,
+    };
+  }
+
+  /**
+   * Fresh copies of the clipboard's walls and openings, centered on `at`. Doors and
+   * windows keep their offsets, so they land at the same places along the new walls
+   */
+  static paste(
+    clipboard: PlanClipboard,
+    at: Point,
+  ): Omit<PlanClipboard, 'center'> & { selection: Selection } {
+    const dx = at.x - clipboard.center.x;
+    const dz = at.z - clipboard.center.z;
+    const wallIds = new Map(clipboard.walls.map((wall) => [wall.id, this.newId('wall')]));
+    const walls = clipboard.walls.map((wall) => ({
+      ...wall,
+      id: wallIds.get(wall.id)!,
+      start: { x: wall.start.x + dx, z: wall.start.z + dz },
+      end: { x: wall.end.x + dx, z: wall.end.z + dz },
+    }));
+    return {
+      walls,
+      doors: clipboard.doors.map((door) => ({
+        ...door,
+        id: this.newId('door'),
+        wallId: wallIds.get(door.wallId)!,
+      })),
+      windows: clipboard.windows.map((placement) => ({
+        ...placement,
+        id: this.newId('window'),
+        wallId: wallIds.get(placement.wallId)!,
+      })),
+      selection: { wallIds: walls.map((wall) => wall.id), vertices: [] },
+    };
+  }
+
+  /**
+   * Move every moving corner through `map`; walls with one corner moving stretch. A
+   * mirror turns arcs the other way, so they still bow out on the mirrored side
+   */
+  private static transform(
+    walls: Wall[],
+    selection: Selection,
+    map: (p: Point) => Point,
+    mirrored = false,
+  ): PlanEdit {
+    const moving = this.points(walls, selection);
+    if (moving.length === 0) {
+      return { walls, selection };
+    }
+    const moved = (p: Point) => (moving.some((q) => this.isSame(p, q)) ? map(p) : p);
+    return {
+      walls: walls.map((wall) => {
+        if (!this.touches(wall, moving)) {
+          return wall;
+        }
+        const next = { ...wall, start: moved(wall.start), end: moved(wall.end) };
+        const whole = this.touches(wall, moving, true);
+        return mirrored && whole && wall.bulge !== undefined
+          ? { ...next, bulge: -wall.bulge }
+          : next;
+      }),
+      selection: { ...selection, vertices: selection.vertices.map(map) },
+    };
+  }
+
+  // Unique corners of the walls
+  private static corners(walls: Wall[]): Point[] {
+    const corners: Point[] = [];
+    walls.forEach((wall) =>
+      [wall.start, wall.end].forEach((p) => {
+        if (!corners.some((q) => this.isSame(p, q))) {
+          corners.push(p);
+        }
+      }),
+    );
+    return corners;
+  }
+
+  // Whether the wall has a corner at one of the points, or both when `both` is set
+  private static touches(wall: Wall, points: Point[], both = false): boolean {
+    const at = (p: Point) => points.some((q) => this.isSame(p, q));
+    return both ? at(wall.start) && at(wall.end) : at(wall.start) || at(wall.end);
+  }
+
+  private static boxCenter(points: Point[]): Point | null {
+    if (points.length === 0) {
+      return null;
+    }
+    const xs = points.map((p) => p.x);
+    const zs = points.map((p) => p.z);
+    return {
+      x: (Math.min(...xs) + Math.max(...xs)) / 2,
+      z: (Math.min(...zs) + Math.max(...zs)) / 2,
+    };
+  }
+
+  // Along the drawn wall, so an arc is picked where it bows and not at its chord
+  private static distanceToWall(point: Point, wall: Wall): number {
+    const path = WallArc.tessellate(wall);
+    let best = Infinity;
+    for (let i = 1; i < path.length; i++) {
+      best = Math.min(best, this.distanceToSegment(point, path[i - 1], path[i]));
+    }
+    return best;
+  }
+
+  private static distanceToSegment(point: Point, a: Point, b: Point): number {
+    const lengthSq = (b.x - a.x) ** 2 + (b.z - a.z) ** 2;
+    if (lengthSq === 0) {
+      return this.distance(point, a);
+    }
+    const t = Math.max(
+      0,
+      Math.min(
+        1,
+        ((point.x - a.x) * (b.x - a.x) + (point.z - a.z) * (b.z - a.z)) / lengthSq,
+      ),
+    );
+    return this.distance(point, { x: a.x + (b.x - a.x) * t, z: a.z + (b.z - a.z) * t });
+  }
+
+  private static newId(prefix: string): string {
+    return `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+  }
+
+  private static isSame(a: Point, b: Point): boolean {
+    return this.distance(a, b) <= this.SAME_POINT;
+  }
+
+  private static distance(a: Point, b: Point): number {
+    return Math.hypot(a.x - b.x, a.z - b.z);
+  }
+}
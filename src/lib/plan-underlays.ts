@@ -0,0 +1,174 @@
+/**
+ * Plan Underlays
+ * An existing floor plan (a scan, a photo or a page of a PDF) laid under the 2D plan so
+ * walls can be traced over it. The image is shrunk and stored as a JPEG small enough to
+ * travel inside the design document, then scaled by two points a known distance apart
+ * and turned so a wall on it runs at a chosen heading
+ */
+
+import { PlanUnderlay, Point } from '@/types/room';
+
+export interface UnderlayImage {
+  src: string;
+  width: number;
+  height: number;
+}
+
+export class PlanUnderlays {
+  static readonly ACCEPT = 'image/png,image/jpeg,image/webp,application/pdf,.pdf';
+  static readonly DEFAULT_OPACITY = 0.5;
+
+  private static readonly INITIAL_WIDTH = 20; // Meters across until it is calibrated
+  private static readonly MAX_SIDE = 2400; // Pixels along the longer side
+  private static readonly MIN_SIDE = 800; // Below this a plan can't be read any more
+  private static readonly SHRINK = 0.75; // Per attempt at fitting in MAX_BYTES
+  // Firestore documents stop at 1 MiB, and the plan itself needs some of that
+  private static readonly MAX_BYTES = 600_000;
+  private static readonly QUALITIES = [0.85, 0.7, 0.55];
+  private static readonly SAME_POINT = 1e-3;
+
+  static isPdf(file: File): boolean {
+    return file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+  }
+
+  static async pageCount(file: File): Promise<number> {
+    const pdf = await this.openPdf(file);
+    const count = pdf.numPages;
+    await pdf.destroy();
+    return count;
+  }
+
+  /**
+   * The picture in the file, or one page of a PDF, ready to store with the design
+   */
+  static async load(file: File, page = 1): Promise<UnderlayImage> {
+    const source = this.isPdf(file)
+      ? await this.renderPdfPage(file, page)
+      : await this.drawImage(file);
+    return this.encode(source, Math.min(this.MAX_SIDE, this.longSide(source)));
+  }
+
+  /**
+   * A new underlay centered on `center`, at a rough scale until it is calibrated
+   */
+  static create(image: UnderlayImage, center: Point = { x: 0, z: 0 }): PlanUnderlay {
+    return {
+      ...image,
+      center,
+      metersPerPixel: this.INITIAL_WIDTH / image.width,
+      rotation: 0,
+      opacity: this.DEFAULT_OPACITY,
+      locked: false,
+    };
+  }
+
+  /**
+   * Scale and turn the image about `from` so the stretch from `from` to `to`, as traced
+   * over the image, measures `length` meters and, given an angle, runs at that heading.
+   * Null when the two points are one
+   */
+  static calibrate(
+    underlay: PlanUnderlay,
+    from: Point,
+    to: Point,
+    length: number,
+    angle: number | null = null,
+  ): PlanUnderlay | null {
+    const measured = Math.hypot(to.x - from.x, to.z - from.z);
+    if (measured < this.SAME_POINT || !(length > 0)) {
+      return null;
+    }
+    const factor = length / measured;
+    const heading = (Math.atan2(to.z - from.z, to.x - from.x) * 180) / Math.PI;
+    const turn = angle === null ? 0 : angle - heading;
+    const radians = (turn * Math.PI) / 180;
+    const offset = {
+      x: (underlay.center.x - from.x) * factor,
+      z: (underlay.center.z - from.z) * factor,
+    };
+    return {
+      ...underlay,
+      metersPerPixel: underlay.metersPerPixel * factor,
+      rotation: this.normalizeAngle(underlay.rotation + turn),
+      center: {
+        x: from.x + offset.x * Math.cos(radians) - offset.z * Math.sin(radians),
+        z: from.z + offset.x * Math.sin(radians) + offset.z * Math.cos(radians),
+      },
+    };
+  }
+
+  // Into (-180, 180]
+  static normalizeAngle(degrees: number): number {
+    const angle = (((degrees % 360) + 540) % 360) - 180;
+    return angle === -180 ? 180 : angle;
+  }
+
+  private static async openPdf(file: File) {
+    const pdfjs = await import('pdfjs-dist');
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+      'pdfjs-dist/build/pdf.worker.min.mjs',
+      import.meta.url,
+    ).toString();
+    return pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  }
+
+  // Sharp enough for MAX_SIDE; a plan page is vector, so it can be drawn at any size
+  private static async renderPdfPage(
+    file: File,
+    pageNumber: number,
+  ): Promise<HTMLCanvasElement> {
+    const pdf = await this.openPdf(file);
+    try {
+      const page = await pdf.getPage(Math.min(Math.max(1, pageNumber), pdf.numPages));
+      const natural = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({
+        scale: this.MAX_SIDE / Math.max(natural.width, natural.height),
+      });
+      const canvas = this.blankCanvas(viewport.width, viewport.height);
+      await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+      return canvas;
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  private static async drawImage(file: File): Promise<HTMLCanvasElement> {
+    const bitmap = await window.createImageBitmap(file);
+    const canvas = this.blankCanvas(bitmap.width, bitmap.height);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return canvas;
+  }
+
+  // Smaller and rougher until it fits in the design document
+  private static encode(source: HTMLCanvasElement, side: number): UnderlayImage {
+    const factor = side / this.longSide(source);
+    const canvas = this.blankCanvas(source.width * factor, source.height * factor);
+    canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height);
+    for (const quality of this.QUALITIES) {
+      const src = canvas.toDataURL('image/jpeg', quality);
+      if (src.length <= this.MAX_BYTES) {
+        return { src, width: canvas.width, height: canvas.height };
+      }
+    }
+    if (side * this.SHRINK < this.MIN_SIDE) {
+      throw new Error('The plan is too detailed to store; crop it and try again');
+    }
+    return this.encode(source, Math.round(side * this.SHRINK));
+  }
+
+  // JPEG has no transparency, so the page starts out white rather than black
+  private static blankCanvas(width: number, height: number): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width));
+    canvas.height = Math.max(1, Math.round(height));
+    const context = canvas.getContext('2d')!;
+    context.fillStyle = '#FFFFFF';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    return canvas;
+  }
+
+  private static longSide(canvas: HTMLCanvasElement): number {
+    return Math.max(canvas.width, canvas.height);
+  }
+}
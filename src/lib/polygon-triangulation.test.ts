@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+
+import { PolygonTriangulation, Triangulation } from '@/lib/polygon-triangulation';
+import { Point } from '@/types/room';
+
+const ring = (...coords: [number, number][]): Point[] =>
+  coords.map(([x, z]) => ({ x, z }));
+
+const square = (x: number, z: number, size: number) =>
+  ring([x, z], [x + size, z], [x + size, z + size], [x, z + size]);
+
+// Shoelace area of a ring, whatever its winding
+const ringArea = (points: Point[]) =>
+  Math.abs(
+    points.reduce((sum, p, i) => {
+      const q = points[(i + 1) % points.length];
+      return sum + p.x * q.z - q.x * p.z;
+    }, 0) / 2,
+  );
+
+const isInside = (point: Point, polygon: Point[]) =>
+  polygon.reduce((inside, p, i) => {
+    const q = polygon[(i + polygon.length - 1) % polygon.length];
+    const crosses =
+      p.z > point.z !== q.z > point.z &&
+      point.x < ((q.x - p.x) * (point.z - p.z)) / (q.z - p.z) + p.x;
+    return crosses ? !inside : inside;
+  }, false);
+
+// Every triangle turns counterclockwise and lies in the floor, and together they cover
+// the outline minus the holes
+const expectCovers = (result: Triangulation, outer: Point[], holes: Point[][] = []) => {
+  const { points, triangles } = result;
+  triangles.forEach(([a, b, c]) => {
+    const [pa, pb, pc] = [points[a], points[b], points[c]];
+    expect((pb.x - pa.x) * (pc.z - pa.z) - (pb.z - pa.z) * (pc.x - pa.x)).toBeGreaterThan(
+      0,
+    );
+    const centroid = { x: (pa.x + pb.x + pc.x) / 3, z: (pa.z + pb.z + pc.z) / 3 };
+    expect(isInside(centroid, outer)).toBe(true);
+    holes.forEach((hole) => expect(isInside(centroid, hole)).toBe(false));
+  });
+  const expected = ringArea(outer) - holes.reduce((sum, hole) => sum + ringArea(hole), 0);
+  expect(PolygonTriangulation.area(result)).toBeCloseTo(expected, 9);
+};
+
+// Small deterministic generator, so a failing polygon can be reproduced
+const random = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+// A star-shaped polygon: vertices at increasing angles around the origin
+const star = (next: () => number) => {
+  const count = 5 + Math.floor(next() * 40);
+  return Array.from({ length: count }, (_, i) => {
+    const angle = ((i + 0.2 + next() * 0.6) / count) * 2 * Math.PI;
+    const radius = 1 + next() * 9;
+    return { x: Math.cos(angle) * radius, z: Math.sin(angle) * radius };
+  });
+};
+
+describe('PolygonTriangulation.triangulate', () => {
+  it('splits a square into two triangles', () => {
+    const outer = square(0, 0, 4);
+    const result = PolygonTriangulation.triangulate(outer);
+
+    expect(result.triangles).toHaveLength(2);
+    expectCovers(result, outer);
+  });
+
+  it('accepts a clockwise outline', () => {
+    const outer = square(0, 0, 4).reverse();
+    expectCovers(PolygonTriangulation.triangulate(outer), outer);
+  });
+
+  it('covers a concave outline without spilling out of it', () => {
+    const outer = ring([0, 0], [6, 0], [6, 2], [2, 2], [2, 6], [0, 6]);
+    const result = PolygonTriangulation.triangulate(outer);
+
+    expect(result.triangles).toHaveLength(4);
+    expectCovers(result, outer);
+  });
+
+  it('ignores outlines with fewer than three distinct vertices', () => {
+    expect(PolygonTriangulation.triangulate(ring([0, 0], [4, 0]))).toEqual({
+      points: [],
+      triangles: [],
+    });
+    expect(
+      PolygonTriangulation.triangulate(ring([0, 0], [2, 0], [4, 0])).triangles,
+    ).toEqual([]);
+  });
+
+  describe('holes', () => {
+    it('leaves a hole uncovered', () => {
+      const outer = square(0, 0, 6);
+      const hole = square(2, 2, 2);
+      expectCovers(PolygonTriangulation.triangulate(outer, [hole]), outer, [hole]);
+    });
+
+    it('accepts holes of either winding', () => {
+      const outer = square(0, 0, 10);
+      const holes = [square(1, 1, 2), square(6, 6, 2).reverse()];
+      expectCovers(PolygonTriangulation.triangulate(outer, holes), outer, holes);
+    });
+
+    it('handles a hole that touches a corner of the outline', () => {
+      const outer = square(0, 0, 6);
+      const hole = ring([6, 6], [4, 5], [3, 3], [5, 4]);
+      const result = PolygonTriangulation.triangulate(outer, [hole]);
+
+      expect(result.points).toHaveLength(7);
+      expectCovers(result, outer, [hole]);
+    });
+
+    it('ignores a hole that has no area', () => {
+      const outer = square(0, 0, 6);
+      const result = PolygonTriangulation.triangulate(outer, [
+        ring([1, 1], [2, 2], [3, 3]),
+      ]);
+
+      expect(result.triangles).toHaveLength(2);
+      expectCovers(result, outer);
+    });
+  });
+
+  describe('degenerate vertices', () => {
+    it('drops collinear vertices', () => {
+      const outer = ring([0, 0], [2, 0], [4, 0], [4, 2], [4, 4], [2, 4], [0, 4], [0, 2]);
+      const result = PolygonTriangulation.triangulate(outer);
+
+      expect(result.triangles).toHaveLength(2);
+      expectCovers(result, outer);
+    });
+
+    it('merges near-duplicate vertices', () => {
+      const outer = ring([0, 0], [4, 0], [4 + 1e-9, 1e-9], [4, 4], [0, 4], [0, 4 - 1e-9]);
+      const result = PolygonTriangulation.triangulate(outer);
+
+      expect(result.points).toHaveLength(4);
+      expectCovers(result, square(0, 0, 4));
+    });
+
+    it('drops a spike that doubles back on itself', () => {
+      const outer = ring([0, 0], [4, 0], [4, 4], [4, 6], [4, 4], [0, 4]);
+      expectCovers(PolygonTriangulation.triangulate(outer), square(0, 0, 4));
+    });
+
+    it('covers both lobes of an outline pinched at one vertex', () => {
+      const outer = ring([0, 0], [2, 0], [2, 2], [4, 2], [4, 4], [2, 4], [2, 2], [0, 2]);
+      const result = PolygonTriangulation.triangulate(outer);
+
+      expect(result.points).toHaveLength(7);
+      expect(PolygonTriangulation.area(result)).toBeCloseTo(8, 9);
+      result.triangles.forEach(([a, b, c]) => {
+        const centroid = {
+          x: (result.points[a].x + result.points[b].x + result.points[c].x) / 3,
+          z: (result.points[a].z + result.points[b].z + result.points[c].z) / 3,
+        };
+        const inLobe = (x: number, z: number) =>
+          centroid.x > x && centroid.x < x + 2 && centroid.z > z && centroid.z < z + 2;
+        expect(inLobe(0, 0) || inLobe(2, 2)).toBe(true);
+      });
+    });
+  });
+
+  describe('determinism', () => {
+    it('gives the same triangles for the same input', () => {
+      const outer = ring([0, 0], [6, 0], [6, 2], [2, 2], [2, 6], [0, 6]);
+      const holes = [square(3, 0.5, 1)];
+
+      expect(PolygonTriangulation.triangulate(outer, holes)).toEqual(
+        PolygonTriangulation.triangulate(outer, holes),
+      );
+    });
+
+    it('covers seeded random star polygons exactly', () => {
+      const next = random(42);
+      for (let n = 0; n < 50; n++) {
+        const outer = star(next);
+        const result = PolygonTriangulation.triangulate(outer);
+
+        expect(result.triangles).toHaveLength(result.points.length - 2);
+        expectCovers(result, outer);
+        expect(PolygonTriangulation.triangulate(outer)).toEqual(result);
+      }
+    });
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * Polygon Triangulation
+ * Turns floor outlines into triangles for every renderer. Outlines are cleaned first
+ * (near-duplicate and collinear vertices dropped), holes are bridged into the outline,
+ * and the result is ear-clipped. Vertices that touch (a pinched outline, or a hole
+ * meeting the outer wall) are handled, and the same input always gives the same
+ * triangles
+ */
+
+import * as THREE from 'three';
+
+import { Point } from '@/types/room';
+
+export interface Triangulation {
+  points: Point[]; // Cleaned vertices, the outline's first and then each hole's
+  triangles: [number, number, number][]; // Indices into points, counterclockwise in x/z
+}
+
+export interface FloorGeometryOptions {
+  y?: number; // Height of the floor
+  uvSize?: number; // Meters per texture repeat; by default the texture spans the floor
+}
+
+export class PolygonTriangulation {
+  private static readonly SAME_POINT = 1e-6; // Relative to the outline's size
+
+  /**
+   * Triangles covering `outer` minus `holes`. Either winding is accepted for any ring;
+   * rings that clean up to fewer than three vertices are ignored
+   */
+  static triangulate(outer: Point[], holes: Point[][] = []): Triangulation {
+    const size = this.size([outer, ...holes].flat());
+    const tolerance = Math.max(size * this.SAME_POINT, 1e-9);
+    const points: Point[] = [];
+    // Vertices that (nearly) coincide become one, so touching rings share an index
+    const indexOf = (point: Point): number => {
+      const index = points.findIndex(
+        (p) =>
+          Math.abs(p.x - point.x) <= tolerance && Math.abs(p.z - point.z) <= tolerance,
+      );
+      if (index !== -1) {
+        return index;
+      }
+      points.push({ x: point.x, z: point.z });
+      return points.length - 1;
+    };
+
+    const outerRing = this.clean(outer.map(indexOf), points, tolerance);
+    if (!outerRing) {
+      return { points: [], triangles: [] };
+    }
+    const ring = this.signedArea(outerRing, points) > 0 ? outerRing : outerRing.reverse();
+    const holeRings = holes
+      .map((hole) => this.clean(hole.map(indexOf), points, tolerance))
+      .filter((hole): hole is number[] => hole !== null)
+      .map((hole) => (this.signedArea(hole, points) < 0 ? hole : hole.reverse()));
+
+    const bridged = this.bridgeHoles(ring, holeRings, points);
+    return { points, triangles: this.clipEars(bridged, points, tolerance * tolerance) };
+  }
+
+  /**
+   * A floor facing up, at `y`, covering `outer` minus `holes`
+   */
+  static floorGeometry(
+    outer: Point[],
+    holes: Point[][] = [],
+    options: FloorGeometryOptions = {},
+  ): THREE.BufferGeometry {
+    return this.toGeometry([this.triangulate(outer, holes)], options);
+  }
+
+  /**
+   * One geometry for several triangulated floors, e.g. the rooms of a plan
+   */
+  static toGeometry(
+    triangulations: Triangulation[],
+    { y = 0, uvSize }: FloorGeometryOptions = {},
+  ): THREE.BufferGeometry {
+    const all = triangulations.flatMap(({ points }) => points);
+    const minX = Math.min(...all.map((p) => p.x));
+    const minZ = Math.min(...all.map((p) => p.z));
+    const spanX = uvSize ?? (Math.max(...all.map((p) => p.x)) - minX || 1);
+    const spanZ = uvSize ?? (Math.max(...all.map((p) => p.z)) - minZ || 1);
+
+    const positions: number[] = [];
+    const normals: number[] = [];
+    const uvs: number[] = [];
+    const indices: number[] = [];
+    triangulations.forEach(({ points, triangles }) => {
+      const offset = positions.length / 3;
+      points.forEach((p) => {
+        positions.push(p.x, y, p.z);
+        normals.push(0, 1, 0);
+        uvs.push((p.x - minX) / spanX, (p.z - minZ) / spanZ);
+      });
+      // Counterclockwise in x/z faces down (-y), so each triangle is turned over
+      triangles.forEach(([a, b, c]) => indices.push(offset + a, offset + c, offset + b));
+    });
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
+    geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+    geometry.setIndex(indices);
+    return geometry;
+  }
+
+  /**
+   * Total area of the triangles
+   */
+  static area({ points, triangles }: Triangulation): number {
+    return triangles.reduce(
+      (sum, [a, b, c]) => sum + this.cross(points[a], points[b], points[c]) / 2,
+      0,
+    );
+  }
+
+  /**
+   * A ring without repeated or collinear vertices (including spikes that double back),
+   * or null if nothing with an area is left
+   */
+  private static clean(
+    ring: number[],
+    points: Point[],
+    tolerance: number,
+  ): number[] | null {
+    const result = ring.filter((index, i) => index !== ring[(i + 1) % ring.length]);
+    let removed = true;
+    while (removed && result.length >= 3) {
+      removed = false;
+      for (let i = 0; i < result.length; i++) {
+        const previous = points[result[(i + result.length - 1) % result.length]];
+        const next = points[result[(i + 1) % result.length]];
+        const current = points[result[i]];
+        const isRepeat = result[i] === result[(i + 1) % result.length];
+        const offLine =
+          Math.abs(this.cross(previous, current, next)) /
+          Math.max(this.distance(previous, next), tolerance);
+        if (isRepeat || offLine <= tolerance) {
+          result.splice(i, 1);
+          removed = true;
+          break;
+        }
+      }
+    }
+    return result.length >= 3 ? result : null;
+  }
+
+  /**
+   * Join each hole to the outline with a pair of coincident edges (a bridge), leaving
+   * a single ring to clip. Holes are bridged from right to left, each from its
+   * rightmost vertex to a vertex it can see to its right
+   */
+  private static bridgeHoles(
+    ring: number[],
+    holes: number[][],
+    points: Point[],
+  ): number[] {
+    const rightmost = (hole: number[]) =>
+      hole.reduce((best, index, i) => {
+        const p = points[index];
+        const q = points[hole[best]];
+        return p.x > q.x || (p.x === q.x && p.z < q.z) ? i : best;
+      }, 0);
+    const ordered = holes
+      .map((hole) => ({ hole, start: rightmost(hole) }))
+      .sort((a, b) => points[b.hole[b.start]].x - points[a.hole[a.start]].x);
+
+    return ordered.reduce((outline, { hole, start }) => {
+      const at = this.bridgeTarget(outline, points[hole[start]], points);
+      if (at === -1) {
+        return outline; // Outside the outline; nothing to cut out
+      }
+      const loop = [...hole.slice(start), ...hole.slice(0, start), hole[start]];
+      return [...outline.slice(0, at + 1), ...loop, ...outline.slice(at)];
+    }, ring);
+  }
+
+  /**
+   * Position in the ring of a vertex visible from `m` (a hole's rightmost vertex)
+   */
+  private static bridgeTarget(ring: number[], m: Point, points: Point[]): number {
+    // Nearest edge crossed by a ray from m towards +x
+    let hitX = Infinity;
+    let hit = -1;
+    ring.forEach((index, i) => {
+      const a = points[index];
+      const b = points[ring[(i + 1) % ring.length]];
+      if (a.z === b.z || m.z < Math.min(a.z, b.z) || m.z > Math.max(a.z, b.z)) {
+        return;
+      }
+      const x = a.x + ((m.z - a.z) * (b.x - a.x)) / (b.z - a.z);
+      if (x >= m.x && x < hitX) {
+        hitX = x;
+        // The edge's endpoint furthest along the ray
+        hit = a.x > b.x ? i : (i + 1) % ring.length;
+      }
+    });
+    if (hit === -1) {
+      return -1;
+    }
+    const candidate = points[ring[hit]];
+    if (hitX === candidate.x && m.z === candidate.z) {
+      return hit;
+    }
+
+    // A reflex vertex inside the triangle between m, the hit and the candidate would
+    // block the view; take the one closest in angle to the ray instead
+    const hitPoint = { x: hitX, z: m.z };
+    let best = hit;
+    let bestTan = Infinity;
+    ring.forEach((index, i) => {
+      const p = points[index];
+      if (
+        i === hit ||
+        p.x < m.x ||
+        !this.inTriangle(p, m, hitPoint, candidate) ||
+        !this.isReflex(ring, i, points)
+      ) {
+        return;
+      }
+      const tan = Math.abs(p.z - m.z) / Math.max(p.x - m.x, 1e-12);
+      if (tan < bestTan || (tan === bestTan && p.x < points[ring[best]].x)) {
+        best = i;
+        bestTan = tan;
+      }
+    });
+    return best;
+  }
+
+  /**
+   * Ear clipping over a counterclockwise ring. Degenerate vertices go first; where no
+   * clean ear can be found (the outline crosses itself) the most convex corner is
+   * cut, so a floor is always produced
+   */
+  private static clipEars(
+    input: number[],
+    points: Point[],
+    minArea: number,
+  ): [number, number, number][] {
+    const ring = [...input];
+    const triangles: [number, number, number][] = [];
+    let cursor = 0;
+    while (ring.length > 3) {
+      const n = ring.length;
+      const corner = (i: number) =>
+        [ring[(i + n - 1) % n], ring[i], ring[(i + 1) % n]] as [number, number, number];
+      const areas = ring.map((_, i) => {
+        const [a, b, c] = corner(i);
+        return this.cross(points[a], points[b], points[c]);
+      });
+      // A pinch leaves zero-area slivers behind (a corner doubling back through a
+      // shared vertex); dropping them first keeps them from passing as ears
+      const flat = areas.findIndex((area) => Math.abs(area) <= minArea);
+      if (flat !== -1) {
+        ring.splice(flat, 1);
+        cursor = flat % ring.length;
+        continue;
+      }
+      let ear = -1;
+      for (let step = 0; step < n && ear === -1; step++) {
+        const i = (cursor + step) % n;
+        if (this.isEar(corner(i), ring, points, minArea)) {
+          ear = i;
+        }
+      }
+      if (ear === -1) {
+        const convex = areas.reduce(
+          (best, area, i) => (area > areas[best] ? i : best),
+          0,
+        );
+        if (areas[convex] <= 0) {
+          break; // Nothing convex is left; the rest would be turned over
+        }
+        ear = convex;
+      }
+      triangles.push(corner(ear));
+      ring.splice(ear, 1);
+      cursor = ear % ring.length;
+    }
+    if (ring.length === 3) {
+      const [a, b, c] = ring;
+      if (this.cross(points[a], points[b], points[c]) > minArea) {
+        triangles.push([a, b, c]);
+      }
+    }
+    return triangles;
+  }
+
+  private static isEar(
+    [a, b, c]: [number, number, number],
+    ring: number[],
+    points: Point[],
+    minArea: number,
+  ): boolean {
+    const pa = points[a];
+    const pb = points[b];
+    const pc = points[c];
+    if (this.cross(pa, pb, pc) <= minArea) {
+      return false;
+    }
+    // Bridged and touching vertices share an index with a corner; they don't block
+    return ring.every(
+      (index) =>
+        index === a ||
+        index === b ||
+        index === c ||
+        !this.inTriangle(points[index], pa, pb, pc),
+    );
+  }
+
+  private static isReflex(ring: number[], i: number, points: Point[]): boolean {
+    const n = ring.length;
+    return (
+      this.cross(
+        points[ring[(i + n - 1) % n]],
+        points[ring[i]],
+        points[ring[(i + 1) % n]],
+      ) < 0
+    );
+  }
+
+  // Inside or on the edges of a counterclockwise triangle
+  private static inTriangle(p: Point, a: Point, b: Point, c: Point): boolean {
+    return (
+      this.cross(a, b, p) >= 0 && this.cross(b, c, p) >= 0 && this.cross(c, a, p) >= 0
+    );
+  }
+
+  private static signedArea(ring: number[], points: Point[]): number {
+    return (
+      ring.reduce((sum, index, i) => {
+        const p = points[index];
+        const q = points[ring[(i + 1) % ring.length]];
+        return sum + p.x * q.z - q.x * p.z;
+      }, 0) / 2
+    );
+  }
+
+  // Twice the signed area of the triangle a, b, c; positive when counterclockwise
+  private static cross(a: Point, b: Point, c: Point): number {
+    return (b.x - a.x) * (c.z - a.z) - (b.z - a.z) * (c.x - a.x);
+  }
+
+  private static size(points: Point[]): number {
+    if (points.length === 0) {
+      return 0;
+    }
+    const xs = points.map((p) => p.x);
+    const zs = points.map((p) => p.z);
+    return Math.hypot(
+      Math.max(...xs) - Math.min(...xs),
+      Math.max(...zs) - Math.min(...zs),
+    );
+  }
+
+  private static distance(a: Point, b: Point): number {
+    return Math.hypot(a.x - b.x, a.z - b.z);
+  }
+}
@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+
+import { DrawingRoom } from '@/lib/advanced-room-drawing';
+import { RoomBooleanResult, RoomBooleans } from '@/lib/room-booleans';
+import { Point } from '@/types/room';
+
+// A completed room with one wall per side of the outline, named `${id}-${side}`
+const room = (id: string, ...corners: [number, number][]): DrawingRoom => ({
+  id,
+  name: id,
+  isCompleted: true,
+  isActive: false,
+  walls: corners.map(([x, z], i) => {
+    const [nx, nz] = corners[(i + 1) % corners.length];
+    return {
+      id: `${id}-${i}`,
+      start: { x, z },
+      end: { x: nx, z: nz },
+      height: 2.8,
+      thickness: 0.2,
+    };
+  }),
+});
+
+const rectangle = (id: string, x: number, z: number, width: number, depth: number) =>
+  room(id, [x, z], [x + width, z], [x + width, z + depth], [x, z + depth]);
+
+// A room's corners in order round it; walls keep the direction they were drawn in, so
+// each corner is the point a wall shares with the next one
+const corners = (r: DrawingRoom): Point[] =>
+  r.walls.map((wall, i) => {
+    const next = r.walls[(i + 1) % r.walls.length];
+    const joined = (p: Point) =>
+      [next.start, next.end].some((q) => Math.hypot(p.x - q.x, p.z - q.z) < 1e-6);
+    return joined(wall.end) ? wall.end : wall.start;
+  });
+
+// Shoelace area of a room's outline
+const area = (r: DrawingRoom) => {
+  const points = corners(r);
+  return Math.abs(
+    points.reduce((sum, p, i) => {
+      const q = points[(i + 1) % points.length];
+      return sum + p.x * q.z - q.x * p.z;
+    }, 0) / 2,
+  );
+};
+
+const rooms = (result: RoomBooleanResult): DrawingRoom[] => {
+  if (!result.success) {
+    throw new Error(`Expected rooms, got '${result.error}'`);
+  }
+  return result.rooms;
+};
+
+describe('RoomBooleans.union', () => {
+  it('merges rooms sharing a wall and knocks the wall down', () => {
+    const [merged] = rooms(
+      RoomBooleans.union(rectangle('a', 0, 0, 4, 4), rectangle('b', 4, 0, 4, 4)),
+    );
+
+    expect(merged.id).toBe('a');
+    expect(merged.walls).toHaveLength(4);
+    expect(area(merged)).toBeCloseTo(32);
+    // The west wall was left alone
+    expect(merged.walls.map((w) => w.id)).toContain('a-3');
+  });
+
+  it('merges partly overlapping rooms into their outline', () => {
+    const [merged] = rooms(
+      RoomBooleans.union(rectangle('a', 0, 0, 4, 4), rectangle('b', 2, 2, 4, 4)),
+    );
+
+    expect(merged.walls).toHaveLength(8);
+    expect(area(merged)).toBeCloseTo(28);
+  });
+
+  it("refuses rooms that don't touch", () => {
+    expect(
+      RoomBooleans.union(rectangle('a', 0, 0, 4, 4), rectangle('b', 10, 0, 4, 4)),
+    ).toEqual({ success: false, error: 'not-adjacent' });
+  });
+
+  it('refuses a merge that would enclose a courtyard', () => {
+    const u = room('u', [0, 0], [6, 0], [6, 6], [4, 6], [4, 2], [2, 2], [2, 6], [0, 6]);
+
+    expect(RoomBooleans.union(u, rectangle('lid', 0, 6, 6, 2))).toEqual({
+      success: false,
+      error: 'hole',
+    });
+  });
+});
+
+describe('RoomBooleans.split', () => {
+  it('cuts a room in two along a line across it', () => {
+    const result = rooms(
+      RoomBooleans.split(rectangle('a', 0, 0, 6, 4), { x: 3, z: 0 }, { x: 3, z: 4 }, 'B'),
+    );
+
+    expect(result).toHaveLength(2);
+    expect(result.map((r) => r.name).sort()).toEqual(['B', 'a']);
+    expect(result.find((r) => r.name === 'a')?.id).toBe('a');
+    result.forEach((r) => {
+      expect(r.walls).toHaveLength(4);
+      expect(area(r)).toBeCloseTo(12);
+    });
+    // Each room gets a thinner partition wall along the line, in the same place
+    result.forEach((r) => {
+      const partition = r.walls.find((w) => w.start.x === 3 && w.end.x === 3);
+      expect([partition?.start.z, partition?.end.z].sort()).toEqual([0, 4]);
+      expect(partition?.thickness).toBeLessThan(0.2);
+    });
+  });
+
+  it("refuses a line that doesn't cut all the way across", () => {
+    const r = rectangle('a', 0, 0, 6, 4);
+
+    expect(RoomBooleans.split(r, { x: 1, z: 1 }, { x: 2, z: 2 }, 'B')).toEqual({
+      success: false,
+      error: 'no-crossing',
+    });
+    expect(RoomBooleans.split(r, { x: 3, z: -1 }, { x: 3, z: 2 }, 'B')).toEqual({
+      success: false,
+      error: 'no-crossing',
+    });
+  });
+});
+
+describe('RoomBooleans.subtract', () => {
+  it('cuts a corner out of a room along its walls', () => {
+    const [cut] = rooms(
+      RoomBooleans.subtract(
+        rectangle('a', 0, 0, 6, 4),
+        { x: 4, z: 0 },
+        { x: 6, z: 2 },
+        'a',
+      ),
+    );
+
+    expect(cut.walls).toHaveLength(6);
+    expect(area(cut)).toBeCloseTo(20);
+    expect(corners(cut)).toEqual(
+      expect.arrayContaining([
+        { x: 4, z: 0 },
+        { x: 4, z: 2 },
+        { x: 6, z: 2 },
+      ]),
+    );
+  });
+
+  it('cuts a notch out of one wall', () => {
+    const [cut] = rooms(
+      RoomBooleans.subtract(
+        rectangle('a', 0, 0, 6, 4),
+        { x: 2, z: 3 },
+        { x: 4, z: 5 },
+        'a',
+      ),
+    );
+
+    expect(cut.walls).toHaveLength(8);
+    expect(area(cut)).toBeCloseTo(22);
+  });
+
+  it('refuses a rectangle inside the room, which would leave a hole', () => {
+    expect(
+      RoomBooleans.subtract(
+        rectangle('a', 0, 0, 6, 4),
+        { x: 2, z: 1 },
+        { x: 4, z: 3 },
+        'a',
+      ),
+    ).toEqual({ success: false, error: 'hole' });
+  });
+
+  it('refuses a rectangle that misses the room or covers all of it', () => {
+    const r = rectangle('a', 0, 0, 6, 4);
+
+    expect(RoomBooleans.subtract(r, { x: 10, z: 0 }, { x: 12, z: 2 }, 'a')).toEqual({
+      success: false,
+      error: 'no-overlap',
+    });
+    expect(RoomBooleans.subtract(r, { x: -1, z: -1 }, { x: 7, z: 5 }, 'a')).toEqual({
+      success: false,
+      error: 'covers-room',
+    });
+  });
+});
@@ -0,0 +1,585 @@
+/**
+ * Room Booleans
+ * Remodelling operations on completed rooms: merge two rooms, split one along a line
+ * and cut a rectangle out of one. Rooms are treated as closed polygons whose edges
+ * remember the wall they came from, so untouched walls keep their id, attributes and
+ * curve. Arc walls take part by their chord; one that gets cut becomes straight
+ */
+
+import { AdvancedRoomDrawing, DrawingRoom } from '@/lib/advanced-room-drawing';
+import { BuildingLevels } from '@/lib/building-levels';
+import { WallArc } from '@/lib/wall-arc';
+import { Point, Wall } from '@/types/room';
+
+export type RoomBooleanError =
+  | 'not-adjacent' // The rooms neither share a wall nor overlap
+  | 'no-crossing' // The line doesn't cut all the way across the room
+  | 'no-overlap' // The rectangle misses the room
+  | 'covers-room' // Nothing would be left of the room
+  | 'hole' // The result would have a courtyard, which a room's walls can't enclose
+  | 'invalid'; // A room isn't a closed loop, or the result fails validation
+
+export type RoomBooleanResult =
+  | { success: true; rooms: DrawingRoom[] }
+  | { success: false; error: RoomBooleanError };
+
+// A polygon edge and the wall it was taken from
+interface RingEdge {
+  start: Point;
+  end: Point;
+  wall: Wall;
+}
+
+type EdgeSide = 'inside' | 'outside' | 'same' | 'opposite';
+
+export class RoomBooleans {
+  private static readonly TOLERANCE = 0.05; // 5cm, same as the drawing snap threshold
+  private static readonly INSIDE_WALL_THICKNESS = 0.1; // New walls are partitions
+
+  /**
+   * One room covering both; the walls between them are knocked down
+   */
+  static union(a: DrawingRoom, b: DrawingRoom): RoomBooleanResult {
+    if (a.id === b.id || BuildingLevels.levelOf(a) !== BuildingLevels.levelOf(b)) {
+      return { success: false, error: 'not-adjacent' };
+    }
+    const ringA = this.ring(a);
+    const ringB = this.ring(b);
+    if (!ringA || !ringB) {
+      return { success: false, error: 'invalid' };
+    }
+
+    const piecesA = this.cut(ringA, ringB).map((edge) => ({
+      edge,
+      side: this.classify(edge, ringB),
+    }));
+    const piecesB = this.cut(ringB, ringA).map((edge) => ({
+      edge,
+      side: this.classify(edge, ringA),
+    }));
+    const touches = piecesA.some(({ side }) => side !== 'outside');
+    if (!touches) {
+      return { success: false, error: 'not-adjacent' };
+    }
+
+    const edges = [
+      ...piecesA
+        .filter(({ side }) => side === 'outside' || side === 'same')
+        .map(({ edge }) => edge),
+      ...piecesB.filter(({ side }) => side === 'outside').map(({ edge }) => edge),
+    ];
+    return this.toRooms(a, edges, a.name, new Set());
+  }
+
+  /**
+   * Two rooms either side of the line from `start` to `end`, which has to cross the
+   * room's outline exactly twice
+   */
+  static split(
+    room: DrawingRoom,
+    start: Point,
+    end: Point,
+    name: string,
+  ): RoomBooleanResult {
+    const ring = this.ring(room);
+    if (!ring) {
+      return { success: false, error: 'invalid' };
+    }
+    const length = this.distance(start, end);
+    if (length < this.TOLERANCE) {
+      return { success: false, error: 'no-crossing' };
+    }
+    // Let a line drawn up to a wall reach it
+    const u = { x: (end.x - start.x) / length, z: (end.z - start.z) / length };
+    const cutter = {
+      start: { x: start.x - u.x * this.TOLERANCE, z: start.z - u.z * this.TOLERANCE },
+      end: { x: end.x + u.x * this.TOLERANCE, z: end.z + u.z * this.TOLERANCE },
+    };
+
+    const crossings: { point: Point; along: number }[] = [];
+    ring.forEach((edge) => {
+      const point = this.intersect(cutter, edge);
+      if (
+        point &&
+        !crossings.some((c) => this.distance(c.point, point) <= this.TOLERANCE)
+      ) {
+        crossings.push({ point, along: this.distance(cutter.start, point) });
+      }
+    });
+    if (crossings.length !== 2) {
+      return { success: false, error: 'no-crossing' };
+    }
+    crossings.sort((p, q) => p.along - q.along);
+    const [first, second] = crossings.map((c) => c.point);
+    // The cut has to run through the room, not past it
+    const middle = { x: (first.x + second.x) / 2, z: (first.z + second.z) / 2 };
+    if (!this.isInside(middle, ring)) {
+      return { success: false, error: 'no-crossing' };
+    }
+
+    const template = this.newWall(room, first, second);
+    const cutEdges: RingEdge[] = [
+      { start: first, end: second, wall: template },
+      { start: second, end: first, wall: template },
+    ];
+    // The room's outline, cut where the line crosses it, runs from one crossing to the
+    // other along either side of the line
+    const outline = this.cut(ring, cutEdges);
+    const from = outline.findIndex(
+      (e) => this.distance(e.start, first) <= this.TOLERANCE,
+    );
+    const to = outline.findIndex((e) => this.distance(e.start, second) <= this.TOLERANCE);
+    if (from === -1 || to === -1) {
+      return { success: false, error: 'invalid' };
+    }
+    const between = (a: number, b: number) =>
+      a < b ? outline.slice(a, b) : [...outline.slice(a), ...outline.slice(0, b)];
+    const ids = new Set<string>();
+    const left = this.toRooms(room, [...between(from, to), cutEdges[1]], room.name, ids);
+    const right = this.toRooms(
+      { ...room, id: this.newId('room'), name },
+      [...between(to, from), cutEdges[0]],
+      name,
+      ids,
+    );
+    if (!left.success) {
+      return left;
+    }
+    if (!right.success) {
+      return right;
+    }
+    return { success: true, rooms: [...left.rooms, ...right.rooms] };
+  }
+
+  /**
+   * The room with the rectangle between two corners cut out of it, e.g. for a closet
+   * or a shaft. The rectangle has to reach the room's walls, as rooms can't have holes
+   */
+  static subtract(
+    room: DrawingRoom,
+    corner: Point,
+    oppositeCorner: Point,
+    name: string,
+  ): RoomBooleanResult {
+    const ring = this.ring(room);
+    if (!ring) {
+      return { success: false, error: 'invalid' };
+    }
+    const minX = Math.min(corner.x, oppositeCorner.x);
+    const maxX = Math.max(corner.x, oppositeCorner.x);
+    const minZ = Math.min(corner.z, oppositeCorner.z);
+    const maxZ = Math.max(corner.z, oppositeCorner.z);
+    if (maxX - minX < this.TOLERANCE || maxZ - minZ < this.TOLERANCE) {
+      return { success: false, error: 'no-overlap' };
+    }
+    const corners = [
+      { x: minX, z: minZ },
+      { x: maxX, z: minZ },
+      { x: maxX, z: maxZ },
+      { x: minX, z: maxZ },
+    ];
+    const rectangle = this.orient(
+      corners.map((start, i) => {
+        const end = corners[(i + 1) % corners.length];
+        return { start, end, wall: this.newWall(room, start, end) };
+      }),
+    );
+
+    const piecesRoom = this.cut(ring, rectangle).map((edge) => ({
+      edge,
+      side: this.classify(edge, rectangle),
+    }));
+    const piecesCut = this.cut(rectangle, ring).map((edge) => ({
+      edge,
+      side: this.classify(edge, ring),
+    }));
+    if (
+      piecesRoom.every(({ side }) => side === 'outside') &&
+      piecesCut.every(({ side }) => side === 'outside')
+    ) {
+      return { success: false, error: 'no-overlap' };
+    }
+
+    // The room's walls outside the rectangle, closed off by its sides inside the room
+    const edges = [
+      ...piecesRoom
+        .filter(({ side }) => side === 'outside' || side === 'opposite')
+        .map(({ edge }) => edge),
+      ...piecesCut
+        .filter(({ side }) => side === 'inside')
+        .map(({ edge }) => this.reverse(edge)),
+    ];
+    if (edges.length === 0) {
+      return { success: false, error: 'covers-room' };
+    }
+    return this.toRooms(room, edges, name, new Set());
+  }
+
+  /**
+   * A room's walls as a closed loop running counterclockwise (positive area in x/z),
+   * or null if they don't close up
+   */
+  private static ring(room: DrawingRoom): RingEdge[] | null {
+    if (!room.isCompleted || room.walls.length < 3) {
+      return null;
+    }
+    const remaining = [...room.walls];
+    const first = remaining.shift()!;
+    const edges: RingEdge[] = [{ start: first.start, end: first.end, wall: first }];
+    while (remaining.length > 0) {
+      const tail = edges[edges.length - 1].end;
+      const index = remaining.findIndex(
+        (wall) =>
+          this.distance(wall.start, tail) <= this.TOLERANCE ||
+          this.distance(wall.end, tail) <= this.TOLERANCE,
+      );
+      if (index === -1) {
+        return null;
+      }
+      const [wall] = remaining.splice(index, 1);
+      edges.push(
+        this.distance(wall.start, tail) <= this.TOLERANCE
+          ? { start: tail, end: wall.end, wall }
+          : { start: tail, end: wall.start, wall },
+      );
+    }
+    if (this.distance(edges[edges.length - 1].end, edges[0].start) > this.TOLERANCE) {
+      return null;
+    }
+    edges[edges.length - 1] = { ...edges[edges.length - 1], end: edges[0].start };
+    return this.orient(edges);
+  }
+
+  private static orient(edges: RingEdge[]): RingEdge[] {
+    return this.signedArea(edges) >= 0
+      ? edges
+      : edges.map((e) => this.reverse(e)).reverse();
+  }
+
+  private static reverse(edge: RingEdge): RingEdge {
+    return { ...edge, start: edge.end, end: edge.start };
+  }
+
+  /**
+   * Split each edge where the other outline touches or crosses it
+   */
+  private static cut(edges: RingEdge[], others: RingEdge[]): RingEdge[] {
+    return edges.flatMap((edge) => {
+      const length = this.distance(edge.start, edge.end);
+      const u = {
+        x: (edge.end.x - edge.start.x) / length,
+        z: (edge.end.z - edge.start.z) / length,
+      };
+      const along = (p: Point) => (p.x - edge.start.x) * u.x + (p.z - edge.start.z) * u.z;
+      const isInterior = (t: number) => t > this.TOLERANCE && t < length - this.TOLERANCE;
+
+      const cuts: { t: number; point: Point }[] = [];
+      others.forEach((other) => {
+        [other.start, other.end].forEach((point) => {
+          const offset = Math.abs(
+            (point.x - edge.start.x) * u.z - (point.z - edge.start.z) * u.x,
+          );
+          if (offset <= this.TOLERANCE && isInterior(along(point))) {
+            cuts.push({ t: along(point), point });
+          }
+        });
+        const crossing = this.intersect(edge, other);
+        if (crossing && isInterior(along(crossing))) {
+          cuts.push({ t: along(crossing), point: crossing });
+        }
+      });
+      if (cuts.length === 0) {
+        return [edge];
+      }
+
+      cuts.sort((p, q) => p.t - q.t);
+      const points = [
+        edge.start,
+        ...cuts
+          .filter((cut, i) => i === 0 || cut.t - cuts[i - 1].t > this.TOLERANCE)
+          .map((cut) => cut.point),
+        edge.end,
+      ];
+      return points
+        .slice(1)
+        .map((end, i) => ({ start: points[i], end, wall: edge.wall }));
+    });
+  }
+
+  /**
+   * Where an edge lies relative to another outline: inside or outside it, or along
+   * one of its edges in the same or the opposite direction
+   */
+  private static classify(edge: RingEdge, ring: RingEdge[]): EdgeSide {
+    const mid = this.midpoint(edge);
+    const along = ring.find((other) => this.distanceToEdge(mid, other) <= this.TOLERANCE);
+    if (along) {
+      const dot =
+        (edge.end.x - edge.start.x) * (along.end.x - along.start.x) +
+        (edge.end.z - edge.start.z) * (along.end.z - along.start.z);
+      return dot > 0 ? 'same' : 'opposite';
+    }
+    return this.isInside(mid, ring) ? 'inside' : 'outside';
+  }
+
+  /**
+   * Chain edges into closed loops and turn each counterclockwise loop into a room; the
+   * first keeps `room`'s id and name, the others get `name`
+   */
+  private static toRooms(
+    room: DrawingRoom,
+    edges: RingEdge[],
+    name: string,
+    usedIds: Set<string>,
+  ): RoomBooleanResult {
+    const loops = this.chain(edges);
+    if (!loops) {
+      return { success: false, error: 'invalid' };
+    }
+    const simplified = loops
+      .map((loop) => this.simplify(loop))
+      .filter((loop) => loop.length >= 3);
+    if (simplified.length === 0) {
+      return { success: false, error: 'covers-room' };
+    }
+    if (simplified.some((loop) => this.signedArea(loop) < 0)) {
+      return { success: false, error: 'hole' };
+    }
+
+    const rooms = simplified.map((loop, index) => {
+      const walls = loop.map((edge) => this.toWall(edge, usedIds));
+      const base = {
+        ...room,
+        id: index === 0 ? room.id : this.newId('room'),
+        name: index === 0 ? room.name : name,
+        walls,
+        isCompleted: true,
+        isActive: false,
+      };
+      // Measured and nested again by the caller
+      const { metrics: _metrics, parentRoomId: _parentRoomId, ...rest } = base;
+      return rest;
+    });
+    if (rooms.some((r) => !AdvancedRoomDrawing.validateRoom(r).isValid)) {
+      return { success: false, error: 'invalid' };
+    }
+    return { success: true, rooms };
+  }
+
+  private static chain(edges: RingEdge[]): RingEdge[][] | null {
+    const nodes: Point[] = [];
+    const nodeIndex = (point: Point): number => {
+      const index = nodes.findIndex(
+        (node) => this.distance(node, point) <= this.TOLERANCE,
+      );
+      if (index !== -1) {
+        return index;
+      }
+      nodes.push(point);
+      return nodes.length - 1;
+    };
+    const starts = edges.map((edge) => nodeIndex(edge.start));
+    const ends = edges.map((edge) => nodeIndex(edge.end));
+
+    const used = new Set<number>();
+    const loops: RingEdge[][] = [];
+    for (let first = 0; first < edges.length; first++) {
+      if (used.has(first)) {
+        continue;
+      }
+      const loop: RingEdge[] = [];
+      let current = first;
+      while (current !== -1) {
+        used.add(current);
+        // Consecutive walls share the exact same corner point
+        loop.push({
+          ...edges[current],
+          start: nodes[starts[current]],
+          end: nodes[ends[current]],
+        });
+        if (ends[current] === starts[first]) {
+          break;
+        }
+        const node = ends[current];
+        current = edges.findIndex((_, j) => !used.has(j) && starts[j] === node);
+      }
+      if (current === -1) {
+        return null;
+      }
+      loops.push(loop);
+    }
+    return loops;
+  }
+
+  /**
+   * Drop zero-length edges and join straight edges that continue in the same direction
+   */
+  private static simplify(loop: RingEdge[]): RingEdge[] {
+    const edges = loop.filter((edge) => this.distance(edge.start, edge.end) > 1e-6);
+    const isStraight = (edge: RingEdge) =>
+      !WallArc.isArc(edge.wall) || !this.isWhole(edge);
+    const continues = (a: RingEdge, b: RingEdge) =>
+      isStraight(a) &&
+      isStraight(b) &&
+      this.distanceToLine(a.end, a.start, b.end) <= 1e-4 &&
+      (a.end.x - a.start.x) * (b.end.x - b.start.x) +
+        (a.end.z - a.start.z) * (b.end.z - b.start.z) >
+        0;
+
+    let merged = true;
+    while (merged && edges.length > 3) {
+      merged = false;
+      for (let i = 0; i < edges.length; i++) {
+        const next = (i + 1) % edges.length;
+        if (continues(edges[i], edges[next])) {
+          edges[i] = { ...edges[i], end: edges[next].end };
+          edges.splice(next, 1);
+          merged = true;
+          break;
+        }
+      }
+    }
+    return edges;
+  }
+
+  /**
+   * The edge as a wall, running the way its original wall did. The piece that starts
+   * where the original started keeps its id, so doors and windows measured from that
+   * end stay put; a wall that was cut or joined is no longer the arc it was
+   */
+  private static toWall(edge: RingEdge, usedIds: Set<string>): Wall {
+    const { bulge, ...rest } = edge.wall;
+    const forward =
+      (edge.end.x - edge.start.x) * (edge.wall.end.x - edge.wall.start.x) +
+        (edge.end.z - edge.start.z) * (edge.wall.end.z - edge.wall.start.z) >=
+      0;
+    const start = forward ? edge.start : edge.end;
+    const end = forward ? edge.end : edge.start;
+    const keepsId =
+      edge.wall.id !== '' &&
+      !usedIds.has(edge.wall.id) &&
+      this.distance(start, edge.wall.start) <= this.TOLERANCE;
+    const id = keepsId ? edge.wall.id : this.newId('wall');
+    usedIds.add(id);
+    return {
+      ...rest,
+      id,
+      start,
+      end,
+      ...(bulge !== undefined && WallArc.isArc(edge.wall) && this.isWhole(edge)
+        ? { bulge }
+        : {}),
+    };
+  }
+
+  // Whether an edge still spans its whole original wall, in either direction
+  private static isWhole(edge: RingEdge): boolean {
+    const { start, end } = edge.wall;
+    return (
+      Math.min(
+        this.distance(edge.start, start) + this.distance(edge.end, end),
+        this.distance(edge.start, end) + this.distance(edge.end, start),
+      ) <=
+      this.TOLERANCE * 2
+    );
+  }
+
+  // A wall the operation adds, such as the cut line or the sides of a closet
+  private static newWall(room: DrawingRoom, start: Point, end: Point): Wall {
+    return BuildingLevels.assign<Wall>(
+      {
+        id: '',
+        start,
+        end,
+        height: Math.max(...room.walls.map((wall) => wall.height)),
+        thickness: this.INSIDE_WALL_THICKNESS,
+      },
+      BuildingLevels.levelOf(room),
+    );
+  }
+
+  private static newId(prefix: string): string {
+    return `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+  }
+
+  private static isInside(point: Point, ring: RingEdge[]): boolean {
+    let inside = false;
+    ring.forEach(({ start, end }) => {
+      if (
+        start.z > point.z !== end.z > point.z &&
+        point.x < ((end.x - start.x) * (point.z - start.z)) / (end.z - start.z) + start.x
+      ) {
+        inside = !inside;
+      }
+    });
+    return inside;
+  }
+
+  /**
+   * Intersection of two segments, or null if they are parallel or don't meet
+   */
+  private static intersect(
+    a: { start: Point; end: Point },
+    b: { start: Point; end: Point },
+  ): Point | null {
+    const rx = a.end.x - a.start.x;
+    const rz = a.end.z - a.start.z;
+    const sx = b.end.x - b.start.x;
+    const sz = b.end.z - b.start.z;
+    const denominator = rx * sz - rz * sx;
+    if (Math.abs(denominator) < 1e-9) {
+      return null;
+    }
+    const qx = b.start.x - a.start.x;
+    const qz = b.start.z - a.start.z;
+    const t = (qx * sz - qz * sx) / denominator;
+    const u = (qx * rz - qz * rx) / denominator;
+    if (t < 0 || t > 1 || u < 0 || u > 1) {
+      return null;
+    }
+    return { x: a.start.x + t * rx, z: a.start.z + t * rz };
+  }
+
+  private static signedArea(edges: RingEdge[]): number {
+    return (
+      edges.reduce((sum, { start, end }) => sum + start.x * end.z - end.x * start.z, 0) /
+      2
+    );
+  }
+
+  private static midpoint(edge: RingEdge): Point {
+    return { x: (edge.start.x + edge.end.x) / 2, z: (edge.start.z + edge.end.z) / 2 };
+  }
+
+  private static distanceToEdge(point: Point, edge: RingEdge): number {
+    const dx = edge.end.x - edge.start.x;
+    const dz = edge.end.z - edge.start.z;
+    const lengthSquared = dx * dx + dz * dz;
+    const t =
+      lengthSquared === 0
+        ? 0
+        : Math.max(
+            0,
+            Math.min(
+              1,
+              ((point.x - edge.start.x) * dx + (point.z - edge.start.z) * dz) /
+                lengthSquared,
+            ),
+          );
+    return this.distance(point, { x: edge.start.x + t * dx, z: edge.start.z + t * dz });
+  }
+
+  private static distanceToLine(point: Point, a: Point, b: Point): number {
+    const length = this.distance(a, b);
+    if (length === 0) {
+      return this.distance(point, a);
+    }
+    return (
+      Math.abs((b.x - a.x) * (point.z - a.z) - (b.z - a.z) * (point.x - a.x)) / length
+    );
+  }
+
+  private static distance(a: Point, b: Point): number {
+    return Math.hypot(a.x - b.x, a.z - b.z);
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+
+import { DrawingRoom } from '@/lib/advanced-room-drawing';
+import { RoomEditing } from '@/lib/room-editing';
+import { WallOpenings } from '@/lib/wall-openings';
+import { Point, Wall } from '@/types/room';
+
+const wall = (id: string, start: Point, end: Point): Wall => ({
+  id,
+  start,
+  end,
+  height: 2.8,
+  thickness: 0.2,
+});
+
+// A 6m by 4m room; its first wall runs along z = 0
+const room = (): DrawingRoom => ({
+  id: 'room',
+  name: 'Room',
+  isCompleted: true,
+  isActive: false,
+  walls: [
+    wall('south', { x: 0, z: 0 }, { x: 6, z: 0 }),
+    wall('east', { x: 6, z: 0 }, { x: 6, z: 4 }),
+    wall('north', { x: 6, z: 4 }, { x: 0, z: 4 }),
+    wall('west', { x: 0, z: 4 }, { x: 0, z: 0 }),
+  ],
+});
+
+const door = (id: string, wallId: string, offset: number) => ({
+  id,
+  wallId,
+  offset,
+  width: 0.9,
+  height: 2.1,
+  hingeSide: 'left' as const,
+  swing: 'in' as const,
+});
+
+describe('RoomEditing.insertVertex', () => {
+  it('splits the wall at the point and maps it to both halves', () => {
+    const inserted = RoomEditing.insertVertex([room()], 'room', 'south', {
+      x: 2,
+      z: 0.3,
+    });
+
+    const halves = inserted?.pieces.get('south');
+    expect(inserted?.rooms[0].walls).toHaveLength(5);
+    expect(halves?.map((half) => [half.start, half.end])).toEqual([
+      [
+        { x: 0, z: 0 },
+        { x: 2, z: 0 },
+      ],
+      [
+        { x: 2, z: 0 },
+        { x: 6, z: 0 },
+      ],
+    ]);
+    expect(halves?.[0].id).toBe('south');
+    expect(inserted?.pieces.has('east')).toBe(false);
+  });
+
+  it('lets openings past the new corner move onto the second half', () => {
+    const walls = room().walls;
+    const inserted = RoomEditing.insertVertex([room()], 'room', 'south', { x: 2, z: 0 })!;
+    const second = inserted.pieces.get('south')![1];
+
+    const [before, after] = WallOpenings.reassign(
+      [door('a', 'south', 1), door('b', 'south', 4.5)],
+      walls,
+      inserted.pieces,
+    );
+
+    expect(before).toMatchObject({ wallId: 'south', offset: 1 });
+    expect(after.wallId).toBe(second.id);
+    expect(after.offset).toBeCloseTo(2.5);
+  });
+});
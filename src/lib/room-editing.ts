@@ -0,0 +1,411 @@
+/**
+ * Room Editing
+ * Reshaping completed rooms corner by corner: drag a vertex, add or remove one, or push
+ * a wall out parallel to itself. Rooms on a level that share a corner move together, so
+ * walls built against each other stay joined. Edits that would leave a room invalid
+ * (too-short walls, crossing walls) are refused and return null
+ */
+
+import { AdvancedRoomDrawing, DrawingRoom } from '@/lib/advanced-room-drawing';
+import { BuildingLevels } from '@/lib/building-levels';
+import { WallArc } from '@/lib/wall-arc';
+import { WallInput } from '@/lib/wall-input';
+import { Point, Wall } from '@/types/room';
+
+// A corner moving from one point to another
+interface VertexMove {
+  from: Point;
+  to: Point;
+}
+
+export interface InsertedVertex {
+  rooms: DrawingRoom[];
+  pieces: Map<string, Wall[]>; // Each split wall's id to its two halves
+}
+
+export class RoomEditing {
+  private static readonly SAME_POINT = 1e-3; // Corners this close are one vertex
+  private static readonly MIN_TURN = 0.1; // Sine of the angle under which walls are parallel
+
+  /**
+   * The completed-room corner on a level nearest to `point`, within `radius`
+   */
+  static vertexNear(
+    rooms: DrawingRoom[],
+    levelId: string,
+    point: Point,
+    radius: number,
+  ): Point | null {
+    let nearest: Point | null = null;
+    let best = radius;
+    this.completed(rooms, levelId).forEach((room) =>
+      room.walls.forEach((wall) =>
+        [wall.start, wall.end].forEach((corner) => {
+          const distance = this.distance(corner, point);
+          if (distance <= best) {
+            best = distance;
+            nearest = corner;
+          }
+        }),
+      ),
+    );
+    return nearest;
+  }
+
+  /**
+   * The completed-room wall on a level nearest to `point`, within `radius`
+   */
+  static wallNear(
+    rooms: DrawingRoom[],
+    levelId: string,
+    point: Point,
+    radius: number,
+  ): { room: DrawingRoom; wall: Wall } | null {
+    let nearest: { room: DrawingRoom; wall: Wall } | null = null;
+    let best = radius;
+    this.completed(rooms, levelId).forEach((room) =>
+      room.walls.forEach((wall) => {
+        const distance = this.distance(point, this.closestOnWall(wall, point));
+        if (distance <= best) {
+          best = distance;
+          nearest = { room, wall };
+        }
+      }),
+    );
+    return nearest;
+  }
+
+  /**
+   * Drag a corner; the walls meeting there, in every room on the level, follow it
+   */
+  static moveVertex(
+    rooms: DrawingRoom[],
+    levelId: string,
+    from: Point,
+    to: Point,
+  ): DrawingRoom[] | null {
+    return this.moveVertices(rooms, levelId, [{ from, to }]);
+  }
+
+  /**
+   * Split a wall in two at the point on it nearest to `point`. Walls of other rooms
+   * running through the same spot are split too, so the new corner stays shared
+   */
+  static insertVertex(
+    rooms: DrawingRoom[],
+    roomId: string,
+    wallId: string,
+    point: Point,
+  ): InsertedVertex | null {
+    const room = rooms.find((r) => r.id === roomId);
+    const wall = room?.walls.find((w) => w.id === wallId);
+    if (!room || !wall) {
+      return null;
+    }
+    const corner = this.closestOnWall(wall, point);
+    const levelId = BuildingLevels.levelOf(room);
+
+    const pieces = new Map<string, Wall[]>();
+    const edited = rooms.map((other) => {
+      if (!this.isEditable(other, levelId)) {
+        return other;
+      }
+      const walls = other.walls.flatMap((w) => {
+        const isTarget = other.id === roomId && w.id === wallId;
+        const passes =
+          isTarget ||
+          (!WallArc.isArc(w) &&
+            this.distance(corner, this.closestOnWall(w, corner)) <= this.SAME_POINT);
+        const isCorner =
+          this.distance(corner, w.start) <= this.SAME_POINT ||
+          this.distance(corner, w.end) <= this.SAME_POINT;
+        if (!passes || isCorner) {
+          return [w];
+        }
+        const halves = this.splitWall(w, corner);
+        pieces.set(w.id, halves);
+        return halves;
+      });
+      return walls.length === other.walls.length ? other : { ...other, walls };
+    });
+    const validated = this.validated(rooms, edited);
+    return validated && { rooms: validated, pieces };
+  }
+
+  /**
+   * Remove a corner, joining the two walls that meet there into one. Every room on the
+   * level with that corner loses it; a triangle can't lose a corner
+   */
+  static deleteVertex(
+    rooms: DrawingRoom[],
+    levelId: string,
+    point: Point,
+  ): DrawingRoom[] | null {
+    let changed = false;
+    const edited = rooms.map((room) => {
+      if (!this.isEditable(room, levelId)) {
+        return room;
+      }
+      const meeting = room.walls.flatMap((wall, index) =>
+        this.distance(wall.start, point) <= this.SAME_POINT ||
+        this.distance(wall.end, point) <= this.SAME_POINT
+          ? [index]
+          : [],
+      );
+      if (meeting.length !== 2) {
+        return room;
+      }
+      changed = true;
+      // The joined wall is straight; it keeps the id and attributes of a wall whose
+      // start stays where it was, where there is one
+      const [a, b] = meeting.map((index) => room.walls[index]);
+      const far = (wall: Wall) =>
+        this.distance(wall.start, point) <= this.SAME_POINT ? wall.end : wall.start;
+      const endsHere = (wall: Wall) => this.distance(wall.end, point) <= this.SAME_POINT;
+      const [kept, removed] = endsHere(a) || !endsHere(b) ? [a, b] : [b, a];
+      const { bulge: _bulge, ...rest } = kept;
+      const joined: Wall = endsHere(kept)
+        ? { ...rest, end: far(removed) }
+        : { ...rest, start: far(removed) };
+      const walls = room.walls
+        .filter((wall) => wall !== removed)
+        .map((wall) => (wall === kept ? joined : wall));
+      return { ...room, walls };
+    });
+    if (!changed) {
+      return null;
+    }
+    return this.validated(rooms, edited);
+  }
+
+  /**
+   * Push a wall `offset` meters to its left (in x/z, looking from start to end). The
+   * walls either side keep their direction and stretch or shrink to meet it, unless
+   * they carry straight on from it, in which case they turn instead
+   */
+  static moveWall(
+    rooms: DrawingRoom[],
+    roomId: string,
+    wallId: string,
+    offset: number,
+  ): DrawingRoom[] | null {
+    const room = rooms.find((r) => r.id === roomId);
+    const wall = room?.walls.find((w) => w.id === wallId);
+    const length = wall ? this.distance(wall.start, wall.end) : 0;
+    if (!room || !wall || length === 0) {
+      return null;
+    }
+    const normal = {
+      x: -(wall.end.z - wall.start.z) / length,
+      z: (wall.end.x - wall.start.x) / length,
+    };
+    const shifted = {
+      start: {
+        x: wall.start.x + normal.x * offset,
+        z: wall.start.z + normal.z * offset,
+      },
+      end: { x: wall.end.x + normal.x * offset, z: wall.end.z + normal.z * offset },
+    };
+
+    const moves = (['start', 'end'] as const).map((side) => {
+      const corner = wall[side];
+      const neighbour = room.walls.find(
+        (w) =>
+          w.id !== wall.id &&
+          (this.distance(w.start, corner) <= this.SAME_POINT ||
+            this.distance(w.end, corner) <= this.SAME_POINT),
+      );
+      const meeting =
+        neighbour && !WallArc.isArc(neighbour)
+          ? this.lineIntersection(shifted, neighbour)
+          : null;
+      return { from: corner, to: meeting ?? shifted[side] };
+    });
+    return this.moveVertices(rooms, BuildingLevels.levelOf(room), moves);
+  }
+
+  /**
+   * Make a wall `length` long along its current heading. Its start stays; its end
+   * moves, and the walls meeting there, in every room on the level, follow it
+   */
+  static setWallLength(
+    rooms: DrawingRoom[],
+    roomId: string,
+    wallId: string,
+    length: number,
+  ): DrawingRoom[] | null {
+    const room = rooms.find((r) => r.id === roomId);
+    const wall = room?.walls.find((w) => w.id === wallId);
+    if (!room || !wall || !Number.isFinite(length) || length < WallInput.MIN_LENGTH) {
+      return null;
+    }
+    return this.moveVertex(
+      rooms,
+      BuildingLevels.levelOf(room),
+      wall.end,
+      WallInput.stretchedEnd(wall, length),
+    );
+  }
+
+  private static moveVertices(
+    rooms: DrawingRoom[],
+    levelId: string,
+    moves: VertexMove[],
+  ): DrawingRoom[] | null {
+    const moved = (point: Point): Point =>
+      moves.find(({ from }) => this.distance(from, point) <= this.SAME_POINT)?.to ??
+      point;
+    let changed = false;
+    const edited = rooms.map((room) => {
+      if (!this.isEditable(room, levelId)) {
+        return room;
+      }
+      let touched = false;
+      const walls = room.walls.map((wall) => {
+        const start = moved(wall.start);
+        const end = moved(wall.end);
+        if (start === wall.start && end === wall.end) {
+          return wall;
+        }
+        touched = true;
+        return { ...wall, start, end };
+      });
+      changed = changed || touched;
+      return touched ? { ...room, walls } : room;
+    });
+    if (!changed) {
+      return null;
+    }
+    return this.validated(rooms, edited);
+  }
+
+  /**
+   * The edited rooms, or null if any room the edit changed is no longer a valid one
+   */
+  private static validated(
+    rooms: DrawingRoom[],
+    edited: DrawingRoom[],
+  ): DrawingRoom[] | null {
+    const valid = edited.every(
+      (room, i) =>
+        room === rooms[i] ||
+        (AdvancedRoomDrawing.validateRoom(room).isValid && this.isSimple(room.walls)),
+    );
+    return valid ? edited : null;
+  }
+
+  // Whether no two walls cross or touch, other than neighbours at their shared corner
+  private static isSimple(walls: Wall[]): boolean {
+    return walls.every((a, i) =>
+      walls.slice(i + 1).every((b) => {
+        const shared = [a.start, a.end].filter((p) =>
+          [b.start, b.end].some((q) => this.distance(p, q) <= this.SAME_POINT),
+        ).length;
+        return shared > 0 || !this.segmentsMeet(a, b);
+      }),
+    );
+  }
+
+  private static completed(rooms: DrawingRoom[], levelId: string): DrawingRoom[] {
+    return rooms.filter((room) => this.isEditable(room, levelId));
+  }
+
+  private static isEditable(room: DrawingRoom, levelId: string): boolean {
+    return room.isCompleted && BuildingLevels.levelOf(room) === levelId;
+  }
+
+  /**
+   * The wall split at `corner`; the first half keeps the wall's id, so openings before
+   * the corner stay put. An arc splits into two arcs of the same circle
+   */
+  private static splitWall(wall: Wall, corner: Point): Wall[] {
+    const { bulge: _bulge, ...rest } = wall;
+    const geometry = WallArc.getGeometry(wall);
+    let first: Partial<Wall> = {};
+    let second: Partial<Wall> = {};
+    if (geometry) {
+      const angle = Math.atan2(
+        corner.z - geometry.center.z,
+        corner.x - geometry.center.x,
+      );
+      const turn = 2 * Math.PI;
+      // How far round the arc the corner is, in its direction of travel
+      const direction = Math.sign(geometry.sweep);
+      const swept = ((((angle - geometry.startAngle) * direction) % turn) + turn) % turn;
+      // Both halves bend the same way as the whole
+      const side = Math.sign(wall.bulge ?? 0);
+      first = { bulge: side * Math.tan(swept / 4) };
+      second = { bulge: side * Math.tan((Math.abs(geometry.sweep) - swept) / 4) };
+    }
+    return [
+      { ...rest, ...first, end: corner },
+      {
+        ...rest,
+        ...second,
+        id: `wall-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+        start: corner,
+      },
+    ];
+  }
+
+  /**
+   * Point on a wall nearest to `point`; on the arc itself for a curved wall
+   */
+  private static closestOnWall(wall: Wall, point: Point): Point {
+    const geometry = WallArc.getGeometry(wall);
+    if (geometry) {
+      // Nearest tessellated point; a few centimetres of error is fine for picking
+      return WallArc.tessellate(wall).reduce((best, p) =>
+        this.distance(p, point) < this.distance(best, point) ? p : best,
+      );
+    }
+    const dx = wall.end.x - wall.start.x;
+    const dz = wall.end.z - wall.start.z;
+    const lengthSquared = dx * dx + dz * dz;
+    const t =
+      lengthSquared === 0
+        ? 0
+        : Math.max(
+            0,
+            Math.min(
+              1,
+              ((point.x - wall.start.x) * dx + (point.z - wall.start.z) * dz) /
+                lengthSquared,
+            ),
+          );
+    return { x: wall.start.x + t * dx, z: wall.start.z + t * dz };
+  }
+
+  /**
+   * Where the infinite lines through two walls meet, or null if they are (nearly)
+   * parallel
+   */
+  private static lineIntersection(
+    a: { start: Point; end: Point },
+    b: { start: Point; end: Point },
+  ): Point | null {
+    const rx = a.end.x - a.start.x;
+    const rz = a.end.z - a.start.z;
+    const sx = b.end.x - b.start.x;
+    const sz = b.end.z - b.start.z;
+    const denominator = rx * sz - rz * sx;
+    if (Math.abs(denominator) < this.MIN_TURN * Math.hypot(rx, rz) * Math.hypot(sx, sz)) {
+      return null;
+    }
+    const t = ((b.start.x - a.start.x) * sz - (b.start.z - a.start.z) * sx) / denominator;
+    return { x: a.start.x + t * rx, z: a.start.z + t * rz };
+  }
+
+  private static segmentsMeet(a: Wall, b: Wall): boolean {
+    const side = (p: Point, q: Point, r: Point) =>
+      Math.sign((q.x - p.x) * (r.z - p.z) - (q.z - p.z) * (r.x - p.x));
+    return (
+      side(a.start, a.end, b.start) !== side(a.start, a.end, b.end) &&
+      side(b.start, b.end, a.start) !== side(b.start, b.end, a.end)
+    );
+  }
+
+  private static distance(a: Point, b: Point): number {
+    return Math.hypot(a.x - b.x, a.z - b.z);
+  }
+}
@@ -0,0 +1,91 @@
+import { RoomObject } from '@/types/room';
+
+type Vector3Like = { x: number; y: number; z: number };
+
+// Object entry as found in stored designs of any version
+export interface SavedObjectEntry {
+  id?: string;
+  type?: string;
+  position?: Partial<Vector3Like>;
+  rotation?: Partial<Vector3Like>;
+  scale?: Partial<Vector3Like>;
+  color?: string;
+  userData?: Record<string, unknown>; // Raw three.js userData in older saves
+}
+
+export class RoomObjects {
+  // Furniture types the ThreeCanvas object factory can rebuild
+  static readonly SUPPORTED_TYPES = [
+    'chair',
+    'table',
+    'sofa',
+    'plant',
+    'lamp',
+    'carpet',
+    'fridge',
+    'paint',
+    'floor',
+    'stairs',
+  ];
+
+  // Older saves stored the mesh's internal type instead of the factory type
+  private static readonly LEGACY_TYPES: Record<string, string> = {
+    decor: 'plant',
+    box: 'paint',
+    tile: 'floor',
+  };
+
+  /**
+   * Rebuild placed objects from a saved design, skipping entries that can't be recreated
+   */
+  static fromSaved(saved: SavedObjectEntry[] | undefined): RoomObject[] {
+    if (!Array.isArray(saved)) {
+      return [];
+    }
+
+    return saved.flatMap((entry) => {
+      const type = this.resolveType(entry);
+      if (!type) {
+        console.warn('Skipping saved object with unsupported type:', entry?.type);
+        return [];
+      }
+      const color = entry.color ?? entry.userData?.color;
+      return [
+        {
+          id: String(
+            entry.id ||
+              `object-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+          ),
+          type,
+          position: this.toVector(entry.position, 0),
+          rotation: this.toVector(entry.rotation, 0),
+          scale: this.toVector(entry.scale, 1),
+          color: typeof color === 'string' ? color : '',
+        },
+      ];
+    });
+  }
+
+  private static resolveType(entry: SavedObjectEntry | undefined): string | null {
+    if (!entry) {
+      return null;
+    }
+    const candidates = [entry.userData?.objectType, entry.type, entry.userData?.type];
+    for (const candidate of candidates) {
+      if (typeof candidate !== 'string') {
+        continue;
+      }
+      const type = this.LEGACY_TYPES[candidate] ?? candidate;
+      if (this.SUPPORTED_TYPES.includes(type)) {
+        return type;
+      }
+    }
+    return null;
+  }
+
+  private static toVector(value: Partial<Vector3Like> | undefined, fallback: number) {
+    const component = (n: unknown) =>
+      typeof n === 'number' && Number.isFinite(n) ? n : fallback;
+    return { x: component(value?.x), y: component(value?.y), z: component(value?.z) };
+  }
+}
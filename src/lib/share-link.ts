@@ -0,0 +1,120 @@
+import { DesignParseResult, DesignSchema } from '@/lib/design-schema';
+
+type LegacySharedRoom = {
+  walls?: Array<Record<string, unknown>>;
+  materials?: { floorType?: string; wallMaterial?: string; windowStyle?: string };
+  name?: string;
+};
+
+/**
+ * `?room=` share links.
+ *
+ * The payload is the design document as JSON, deflate-compressed and base64url-encoded
+ * behind a format prefix ("1."). Links created before compression - plain `btoa` of
+ * `{ walls, materials: { floorType, ... }, name }` - are still accepted.
+ */
+export class ShareLink {
+  static readonly PARAM = 'room';
+  private static readonly FORMAT_PREFIX = '1.';
+
+  /**
+   * Encode a design into a compact, URL-safe `room` parameter value
+   */
+  static async encode(
+    design: Parameters<typeof DesignSchema.create>[0],
+  ): Promise<string> {
+    const json = JSON.stringify(DesignSchema.create(design));
+    const compressed = await this.transform(
+      new TextEncoder().encode(json),
+      new CompressionStream('deflate-raw'),
+    );
+    return this.FORMAT_PREFIX + this.toBase64Url(compressed);
+  }
+
+  static async createUrl(
+    origin: string,
+    design: Parameters<typeof DesignSchema.create>[0],
+  ): Promise<string> {
+    const url = new URL('/builder', origin);
+    url.searchParams.set(this.PARAM, await this.encode(design));
+    return url.toString();
+  }
+
+  /**
+   * Decode and validate a `room` parameter value
+   */
+  static async decode(value: string): Promise<DesignParseResult> {
+    let raw: unknown;
+    try {
+      if (value.startsWith(this.FORMAT_PREFIX)) {
+        const bytes = await this.transform(
+          this.fromBase64Url(value.slice(this.FORMAT_PREFIX.length)),
+          new DecompressionStream('deflate-raw'),
+        );
+        raw = JSON.parse(new TextDecoder().decode(bytes));
+      } else {
+        // Unescaped "+" in old links arrives as a space
+        raw = this.fromLegacy(JSON.parse(atob(value.replace(/ /g, '+'))));
+      }
+    } catch (err) {
+      console.error('❌ Could not decode shared room:', err);
+      return {
+        success: false,
+        errors: [{ path: '', message: 'The shared room link is damaged or incomplete' }],
+      };
+    }
+    const result = DesignSchema.parse(raw);
+    if (!result.success) {
+      return result;
+    }
+    const geometryErrors = DesignSchema.checkGeometry(result.document);
+    return geometryErrors.length > 0
+      ? { success: false, errors: geometryErrors }
+      : result;
+  }
+
+  // Old links had no wall ids and named the materials after RoomExporter's props
+  private static fromLegacy(data: LegacySharedRoom): unknown {
+    if (typeof data !== 'object' || data === null) {
+      return data;
+    }
+    return {
+      name: data.name,
+      walls: (data.walls ?? []).map((wall, index) => ({
+        id: `wall-${index}`,
+        ...wall,
+      })),
+      materials: {
+        floor: data.materials?.floorType,
+        wall: data.materials?.wallMaterial,
+        window: data.materials?.windowStyle,
+      },
+    };
+  }
+
+  private static async transform(
+    bytes: Uint8Array,
+    stream: CompressionStream | DecompressionStream,
+  ): Promise<Uint8Array> {
+    const writer = stream.writable.getWriter();
+    const [, buffer] = await Promise.all([
+      writer.write(bytes).then(() => writer.close()),
+      new Response(stream.readable).arrayBuffer(),
+    ]);
+    return new Uint8Array(buffer);
+  }
+
+  private static toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach((byte) => {
+      binary += String.fromCharCode(byte);
+    });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+
+  private static fromBase64Url(value: string): Uint8Array {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  }
+}
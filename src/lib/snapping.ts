@@ -0,0 +1,337 @@
+/**
+ * Snapping
+ * Where the pointer lands in the 2D editors. Corners, wall midpoints and the foot of a
+ * perpendicular from the last point win outright; failing those the pointer slides
+ * onto a line (a wall, a wall's extension, a line level with a corner, or a heading
+ * from the last point at a fixed step from the previous wall), onto the crossing of
+ * two such lines, or onto the grid. Each snap comes with the guides that explain it
+ */
+
+import { WallArc } from '@/lib/wall-arc';
+import { Point, Wall } from '@/types/room';
+
+export type SnapKind =
+  | 'vertex'
+  | 'midpoint'
+  | 'perpendicular'
+  | 'wall'
+  | 'extension'
+  | 'alignment'
+  | 'angle'
+  | 'grid';
+
+export interface SnapSettings {
+  vertices: boolean;
+  midpoints: boolean;
+  perpendicular: boolean;
+  walls: boolean;
+  extensions: boolean;
+  alignment: boolean; // Level with an existing corner, along x or z
+  angles: boolean;
+  angleStep: number; // Degrees, measured from the previous wall
+  grid: boolean;
+  radius: number; // Pixels on screen, so the pull is the same at any zoom
+}
+
+export interface SnapContext {
+  walls: Pick<Wall, 'start' | 'end' | 'bulge'>[];
+  points?: Point[]; // Corners not on any wall yet, e.g. those being drawn
+  anchor?: Point | null; // Last point placed; headings and perpendiculars start here
+  previous?: Point | null; // Point before the anchor; headings are relative to it
+  ignore?: Point | null; // Corner being dragged; it and its walls don't attract
+  radius: number; // Meters
+  gridStep: number; // Meters
+}
+
+export interface SnapGuide {
+  kind: SnapKind;
+  from: Point;
+  to: Point;
+}
+
+export interface SnapResult {
+  point: Point;
+  kinds: SnapKind[]; // Empty when nothing caught the pointer
+  guides: SnapGuide[];
+}
+
+// A line the pointer can slide along; segments only between `from` and `to`
+interface SnapLine {
+  kind: SnapKind;
+  origin: Point;
+  direction: Point; // Unit length
+  segment?: { from: Point; to: Point };
+  guideFrom?: Point; // Where the dashed guide starts, when the line isn't drawn already
+}
+
+export class Snapping {
+  static readonly DEFAULT: SnapSettings = {
+    vertices: true,
+    midpoints: true,
+    perpendicular: true,
+    walls: true,
+    extensions: true,
+    alignment: true,
+    angles: true,
+    angleStep: 45,
+    grid: true,
+    radius: 10,
+  };
+
+  static readonly ANGLE_STEPS = [15, 30, 45, 90];
+
+  private static readonly SAME_POINT = 1e-3;
+  private static readonly MIN_CROSSING = 1e-3; // Sine of the angle under which lines are parallel
+
+  static snap(raw: Point, context: SnapContext, settings: SnapSettings): SnapResult {
+    const walls = context.walls.filter(
+      (wall) =>
+        !context.ignore ||
+        (!this.isSame(wall.start, context.ignore) &&
+          !this.isSame(wall.end, context.ignore)),
+    );
+
+    const corner = this.snapToPoint(raw, walls, context, settings);
+    if (corner) {
+      return corner;
+    }
+
+    const lines = this.snapLines(walls, context, settings);
+    const near = lines
+      .map((line) => ({ line, point: this.project(raw, line) }))
+      .filter(({ point }) => point && this.distance(point, raw) <= context.radius)
+      .map(({ line, point }) => ({ line, point: point! }))
+      .sort((a, b) => this.distance(a.point, raw) - this.distance(b.point, raw));
+    if (near.length > 0) {
+      const [best] = near;
+      // Where the closest line crosses another one nearby, take the crossing
+      const crossing = near
+        .slice(1)
+        .map(({ line }) => ({ line, point: this.intersect(best.line, line) }))
+        .filter(({ point }) => point && this.distance(point, raw) <= context.radius)
+        .sort((a, b) => this.distance(a.point!, raw) - this.distance(b.point!, raw))[0];
+      const snapped = crossing ? [best.line, crossing.line] : [best.line];
+      const point = crossing?.point ?? best.point;
+      return {
+        point,
+        kinds: Array.from(new Set(snapped.map((line) => line.kind))),
+        guides: snapped.flatMap((line) =>
+          line.guideFrom ? [{ kind: line.kind, from: line.guideFrom, to: point }] : [],
+        ),
+      };
+    }
+
+    if (settings.grid && context.gridStep > 0) {
+      return {
+        point: {
+          x: Math.round(raw.x / context.gridStep) * context.gridStep,
+          z: Math.round(raw.z / context.gridStep) * context.gridStep,
+        },
+        kinds: ['grid'],
+        guides: [],
+      };
+    }
+    return { point: raw, kinds: [], guides: [] };
+  }
+
+  /**
+   * A corner, wall midpoint or perpendicular foot within reach, in that order
+   */
+  private static snapToPoint(
+    raw: Point,
+    walls: SnapContext['walls'],
+    context: SnapContext,
+    settings: SnapSettings,
+  ): SnapResult | null {
+    const anchor = context.anchor ?? null;
+    const candidates: { kind: SnapKind; points: Point[] }[] = [];
+    if (settings.vertices) {
+      candidates.push({
+        kind: 'vertex',
+        points: [
+          ...walls.flatMap((wall) => [wall.start, wall.end]),
+          ...(context.points ?? []),
+        ].filter((p) => !context.ignore || !this.isSame(p, context.ignore)),
+      });
+    }
+    if (settings.midpoints) {
+      candidates.push({
+        kind: 'midpoint',
+        points: walls.map((wall) => WallArc.getMidpoint(wall)),
+      });
+    }
+    if (settings.perpendicular && anchor) {
+      candidates.push({
+        kind: 'perpendicular',
+        points: walls.flatMap((wall) => {
+          const foot = WallArc.isArc(wall) ? null : this.foot(anchor, wall);
+          return foot && !this.isSame(foot, anchor) ? [foot] : [];
+        }),
+      });
+    }
+
+    for (const { kind, points } of candidates) {
+      const nearest = points.reduce<Point | null>(
+        (best, p) =>
+          this.distance(p, raw) <= context.radius &&
+          (!best || this.distance(p, raw) < this.distance(best, raw))
+            ? p
+            : best,
+        null,
+      );
+      if (nearest) {
+        return {
+          point: nearest,
+          kinds: [kind],
+          guides:
+            kind === 'perpendicular' && anchor
+              ? [{ kind, from: anchor, to: nearest }]
+              : [],
+        };
+      }
+    }
+    return null;
+  }
+
+  private static snapLines(
+    walls: SnapContext['walls'],
+    context: SnapContext,
+    settings: SnapSettings,
+  ): SnapLine[] {
+    const anchor = context.anchor ?? null;
+    const lines: SnapLine[] = [];
+    const straight = walls.filter(
+      (wall) => !WallArc.isArc(wall) && !this.isSame(wall.start, wall.end),
+    );
+
+    if (settings.walls) {
+      straight.forEach((wall) =>
+        lines.push({
+          kind: 'wall',
+          origin: wall.start,
+          direction: this.unit(wall.start, wall.end),
+          segment: { from: wall.start, to: wall.end },
+        }),
+      );
+    }
+    if (settings.extensions) {
+      // Both ways past the ends; the stretch along the wall itself is a 'wall' snap
+      straight.forEach((wall) => {
+        const direction = this.unit(wall.start, wall.end);
+        const far = this.distance(wall.start, wall.end) + 1e6;
+        lines.push(
+          {
+            kind: 'extension',
+            origin: wall.end,
+            direction,
+            segment: { from: wall.end, to: this.along(wall.end, direction, far) },
+            guideFrom: wall.end,
+          },
+          {
+            kind: 'extension',
+            origin: wall.start,
+            direction,
+            segment: { from: this.along(wall.start, direction, -far), to: wall.start },
+            guideFrom: wall.start,
+          },
+        );
+      });
+    }
+    if (settings.alignment) {
+      const corners = [
+        ...walls.flatMap((wall) => [wall.start, wall.end]),
+        ...(context.points ?? []),
+      ].filter(
+        (p, i, all) =>
+          (!context.ignore || !this.isSame(p, context.ignore)) &&
+          // The anchor's own axes are headings, where those are on
+          (!anchor || !settings.angles || !this.isSame(p, anchor)) &&
+          all.findIndex((q) => this.isSame(p, q)) === i,
+      );
+      corners.forEach((p) =>
+        lines.push(
+          { kind: 'alignment', origin: p, direction: { x: 1, z: 0 }, guideFrom: p },
+          { kind: 'alignment', origin: p, direction: { x: 0, z: 1 }, guideFrom: p },
+        ),
+      );
+    }
+    if (settings.angles && anchor && settings.angleStep > 0) {
+      const previous = context.previous ?? null;
+      const base =
+        previous && !this.isSame(previous, anchor)
+          ? Math.atan2(anchor.z - previous.z, anchor.x - previous.x)
+          : 0;
+      const step = (settings.angleStep * Math.PI) / 180;
+      // Each line covers a heading and its opposite
+      for (let angle = 0; angle < Math.PI - 1e-9; angle += step) {
+        lines.push({
+          kind: 'angle',
+          origin: anchor,
+          direction: { x: Math.cos(base + angle), z: Math.sin(base + angle) },
+          guideFrom: anchor,
+        });
+      }
+    }
+    return lines;
+  }
+
+  // Nearest point on the line, or null past the ends of a segment
+  private static project(point: Point, line: SnapLine): Point | null {
+    const t =
+      (point.x - line.origin.x) * line.direction.x +
+      (point.z - line.origin.z) * line.direction.z;
+    const projected = this.along(line.origin, line.direction, t);
+    return !line.segment || this.onSegment(projected, line.segment) ? projected : null;
+  }
+
+  private static intersect(a: SnapLine, b: SnapLine): Point | null {
+    const denominator = a.direction.x * b.direction.z - a.direction.z * b.direction.x;
+    if (Math.abs(denominator) < this.MIN_CROSSING) {
+      return null;
+    }
+    const t =
+      ((b.origin.x - a.origin.x) * b.direction.z -
+        (b.origin.z - a.origin.z) * b.direction.x) /
+      denominator;
+    const point = this.along(a.origin, a.direction, t);
+    return [a, b].every((line) => !line.segment || this.onSegment(point, line.segment))
+      ? point
+      : null;
+  }
+
+  // Foot of the perpendicular from `point` to the wall, if it lands on the wall
+  private static foot(point: Point, wall: Pick<Wall, 'start' | 'end'>): Point | null {
+    const line: SnapLine = {
+      kind: 'perpendicular',
+      origin: wall.start,
+      direction: this.unit(wall.start, wall.end),
+      segment: { from: wall.start, to: wall.end },
+    };
+    return this.project(point, line);
+  }
+
+  private static onSegment(point: Point, segment: { from: Point; to: Point }): boolean {
+    const length = this.distance(segment.from, segment.to);
+    return (
+      this.distance(segment.from, point) <= length + this.SAME_POINT &&
+      this.distance(segment.to, point) <= length + this.SAME_POINT
+    );
+  }
+
+  private static unit(from: Point, to: Point): Point {
+    const length = this.distance(from, to);
+    return { x: (to.x - from.x) / length, z: (to.z - from.z) / length };
+  }
+
+  private static along(origin: Point, direction: Point, t: number): Point {
+    return { x: origin.x + direction.x * t, z: origin.z + direction.z * t };
+  }
+
+  private static isSame(a: Point, b: Point): boolean {
+    return this.distance(a, b) <= this.SAME_POINT;
+  }
+
+  private static distance(a: Point, b: Point): number {
+    return Math.hypot(a.x - b.x, a.z - b.z);
+  }
+}
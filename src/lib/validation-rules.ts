@@ -0,0 +1,128 @@
+/**
+ * Validation Rules
+ * Named limit profiles the room calculator checks walls and rooms against, and the
+ * structured issues it reports
+ */
+
+export interface ValidationLimits {
+  minWallLength: number; // m
+  maxWallLength: number; // m
+  minWallHeight: number; // m
+  maxWallHeight: number; // m
+  minWallThickness: number; // m
+  maxWallThickness: number; // m
+  maxRoomArea: number; // m²
+  minAngle: number; // degrees
+  maxAngle: number; // degrees
+}
+
+export type ValidationProfileId = 'residential' | 'commercial' | 'loft' | 'custom';
+
+// Saved with each design
+export interface ValidationSettings {
+  profile: ValidationProfileId;
+  customLimits?: ValidationLimits; // Only used by the custom profile
+}
+
+export type ValidationCode =
+  | 'too-few-walls'
+  | 'open-polygon'
+  | 'invalid-connection'
+  | 'invalid-area'
+  | 'area-too-large'
+  | 'wall-too-short'
+  | 'wall-too-long'
+  | 'wall-height'
+  | 'wall-thickness'
+  | 'extreme-angle';
+
+export interface ValidationIssue {
+  code: ValidationCode;
+  severity: 'error' | 'warning';
+  wallIndex?: number; // Index into the walls that were validated
+  cornerIndex?: number; // Index into the room's ordered vertices
+  wallId?: string; // Offending wall, so the canvases can locate it
+  point?: { x: number; z: number }; // Offending vertex
+  roomId?: string; // Room the issue was found in, for multi-room plans
+  messageKey: string; // i18n key, interpolated with `params`
+  params: Record<string, string | number>;
+}
+
+export class ValidationRules {
+  static readonly PROFILES: Record<
+    Exclude<ValidationProfileId, 'custom'>,
+    ValidationLimits
+  > = {
+    residential: {
+      minWallLength: 0.1,
+      maxWallLength: 30,
+      minWallHeight: 2.4,
+      maxWallHeight: 3.2,
+      minWallThickness: 0.08,
+      maxWallThickness: 0.4,
+      maxRoomArea: 80,
+      minAngle: 15,
+      maxAngle: 345,
+    },
+    commercial: {
+      minWallLength: 0.1,
+      maxWallLength: 100,
+      minWallHeight: 2.6,
+      maxWallHeight: 6,
+      minWallThickness: 0.08,
+      maxWallThickness: 0.6,
+      maxRoomArea: 2000,
+      minAngle: 15,
+      maxAngle: 345,
+    },
+    loft: {
+      minWallLength: 0.1,
+      maxWallLength: 40,
+      minWallHeight: 2.4,
+      maxWallHeight: 6,
+      minWallThickness: 0.08,
+      maxWallThickness: 0.5,
+      maxRoomArea: 250,
+      minAngle: 15,
+      maxAngle: 345,
+    },
+  };
+
+  static readonly DEFAULT_SETTINGS: ValidationSettings = { profile: 'residential' };
+
+  /**
+   * Limits in effect for a design's settings
+   */
+  static resolve(settings: ValidationSettings = this.DEFAULT_SETTINGS): ValidationLimits {
+    if (settings.profile === 'custom') {
+      return { ...this.PROFILES.residential, ...settings.customLimits };
+    }
+    return this.PROFILES[settings.profile];
+  }
+
+  /**
+   * Change one limit; editing a preset turns it into a custom profile based on it
+   */
+  static withLimit(
+    settings: ValidationSettings,
+    key: keyof ValidationLimits,
+    value: number,
+  ): ValidationSettings {
+    return {
+      profile: 'custom',
+      customLimits: { ...this.resolve(settings), [key]: value },
+    };
+  }
+
+  static issue(
+    code: ValidationCode,
+    params: ValidationIssue['params'] = {},
+    reference: Pick<
+      ValidationIssue,
+      'wallIndex' | 'cornerIndex' | 'wallId' | 'point' | 'roomId'
+    > = {},
+    severity: ValidationIssue['severity'] = 'error',
+  ): ValidationIssue {
+    return { code, severity, ...reference, messageKey: `validation.${code}`, params };
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Wall Arc
+ * Geometry for curved walls. An arc wall still runs from `start` to `end`; its
+ * `bulge` is tan(sweep / 4), positive when the arc bends towards the left of the
+ * start → end direction (in x/z), negative towards the right
+ */
+
+import { Point, Wall } from '@/types/room';
+
+type ArcWall = Pick<Wall, 'start' | 'end' | 'bulge'>;
+
+export interface ArcGeometry {
+  center: Point;
+  radius: number;
+  startAngle: number; // radians, measured from +x towards +z
+  sweep: number; // signed radians from start to end
+}
+
+export class WallArc {
+  private static readonly MIN_BULGE = 1e-3; // Anything flatter is drawn straight
+  private static readonly MAX_SEGMENT_ANGLE = Math.PI / 24; // 7.5° per tessellated step
+
+  static isArc(wall: ArcWall): boolean {
+    return Math.abs(wall.bulge ?? 0) >= this.MIN_BULGE;
+  }
+
+  /**
+   * Circle the wall lies on, or null for a straight wall
+   */
+  static getGeometry(wall: ArcWall): ArcGeometry | null {
+    const chord = this.distance(wall.start, wall.end);
+    if (!this.isArc(wall) || chord === 0) {
+      return null;
+    }
+
+    const bulge = wall.bulge!;
+    const sweepSize = 4 * Math.atan(Math.abs(bulge));
+    const radius = chord / (2 * Math.sin(sweepSize / 2));
+    const mid = this.getMidpoint(wall);
+    const chordMid = {
+      x: (wall.start.x + wall.end.x) / 2,
+      z: (wall.start.z + wall.end.z) / 2,
+    };
+    // The center lies on the line from the arc's midpoint through the chord's
+    const toChord = {
+      x: (chordMid.x - mid.x) / this.distance(chordMid, mid),
+      z: (chordMid.z - mid.z) / this.distance(chordMid, mid),
+    };
+    const center = { x: mid.x + toChord.x * radius, z: mid.z + toChord.z * radius };
+
+    const startAngle = Math.atan2(wall.start.z - center.z, wall.start.x - center.x);
+    // Turning from start towards the arc midpoint gives the direction of travel
+    const cross =
+      (wall.start.x - center.x) * (mid.z - center.z) -
+      (wall.start.z - center.z) * (mid.x - center.x);
+
+    return { center, radius, startAngle, sweep: cross >= 0 ? sweepSize : -sweepSize };
+  }
+
+  /**
+   * Point halfway along the wall
+   */
+  static getMidpoint(wall: ArcWall): Point {
+    const chord = this.distance(wall.start, wall.end);
+    const chordMid = {
+      x: (wall.start.x + wall.end.x) / 2,
+      z: (wall.start.z + wall.end.z) / 2,
+    };
+    if (!this.isArc(wall) || chord === 0) {
+      return chordMid;
+    }
+    // Sagitta along the left normal of start → end
+    const sagitta = (wall.bulge! * chord) / 2;
+    const nx = -(wall.end.z - wall.start.z) / chord;
+    const nz = (wall.end.x - wall.start.x) / chord;
+    return { x: chordMid.x + nx * sagitta, z: chordMid.z + nz * sagitta };
+  }
+
+  /**
+   * Length along the wall, which for an arc is longer than its chord
+   */
+  static getLength(wall: ArcWall): number {
+    const arc = this.getGeometry(wall);
+    return arc ? arc.radius * Math.abs(arc.sweep) : this.distance(wall.start, wall.end);
+  }
+
+  /**
+   * Area between the arc and its chord
+   */
+  static getSegmentArea(wall: ArcWall): number {
+    const arc = this.getGeometry(wall);
+    if (!arc) {
+      return 0;
+    }
+    const sweep = Math.abs(arc.sweep);
+    return (arc.radius * arc.radius * (sweep - Math.sin(sweep))) / 2;
+  }
+
+  /**
+   * Points along the wall from start to end, both included
+   */
+  static tessellate(wall: ArcWall, maxSegmentAngle = this.MAX_SEGMENT_ANGLE): Point[] {
+    const arc = this.getGeometry(wall);
+    if (!arc) {
+      return [wall.start, wall.end];
+    }
+
+    const steps = Math.max(2, Math.ceil(Math.abs(arc.sweep) / maxSegmentAngle));
+    const points: Point[] = [wall.start];
+    for (let i = 1; i < steps; i++) {
+      const angle = arc.startAngle + (arc.sweep * i) / steps;
+      points.push({
+        x: arc.center.x + arc.radius * Math.cos(angle),
+        z: arc.center.z + arc.radius * Math.sin(angle),
+      });
+    }
+    points.push(wall.end);
+    return points;
+  }
+
+  /**
+   * A room outline traced through its corners, with the curve of each arc wall
+   * filled in between the two corners it joins
+   */
+  static expandOutline(vertices: Point[], walls: ArcWall[], tolerance = 1e-3): Point[] {
+    const arcs = walls.filter((wall) => this.isArc(wall));
+    if (arcs.length === 0) {
+      return vertices;
+    }
+    const near = (a: Point, b: Point) => this.distance(a, b) <= tolerance;
+
+    return vertices.flatMap((vertex, i) => {
+      const next = vertices[(i + 1) % vertices.length];
+      const arc = arcs.find(
+        (wall) =>
+          (near(wall.start, vertex) && near(wall.end, next)) ||
+          (near(wall.end, vertex) && near(wall.start, next)),
+      );
+      if (!arc) {
+        return [vertex];
+      }
+      const points = this.tessellate(arc);
+      const ordered = near(arc.start, vertex) ? points : points.reverse();
+      return ordered.slice(0, -1);
+    });
+  }
+
+  /**
+   * Bulge of the arc from start to end that passes through `through`; 0 when the
+   * three points are (nearly) in line
+   */
+  static bulgeThrough(start: Point, end: Point, through: Point): number {
+    const chord = this.distance(start, end);
+    if (chord === 0) {
+      return 0;
+    }
+    // Signed distance of `through` from the chord, positive on the left
+    const offset =
+      ((end.x - start.x) * (through.z - start.z) -
+        (end.z - start.z) * (through.x - start.x)) /
+      chord;
+    if (Math.abs(offset) < chord * this.MIN_BULGE) {
+      return 0;
+    }
+
+    // Circle through the three points
+    const ax = start.x - through.x;
+    const az = start.z - through.z;
+    const bx = end.x - through.x;
+    const bz = end.z - through.z;
+    const d = 2 * (ax * bz - az * bx);
+    const a2 = ax * ax + az * az;
+    const b2 = bx * bx + bz * bz;
+    const center = {
+      x: through.x + (bz * a2 - az * b2) / d,
+      z: through.z + (ax * b2 - bx * a2) / d,
+    };
+    const radius = this.distance(center, start);
+
+    // Sweep of the arc on the same side of the chord as `through`
+    const halfSweep = Math.asin(Math.min(1, chord / (2 * radius)));
+    const centerOffset =
+      ((end.x - start.x) * (center.z - start.z) -
+        (end.z - start.z) * (center.x - start.x)) /
+      chord;
+    const sameSide = Math.sign(centerOffset) === Math.sign(offset);
+    const sweep = sameSide ? 2 * Math.PI - 2 * halfSweep : 2 * halfSweep;
+
+    return Math.sign(offset) * Math.tan(sweep / 4);
+  }
+
+  private static distance(a: Point, b: Point): number {
+    return Math.hypot(a.x - b.x, a.z - b.z);
+  }
+}
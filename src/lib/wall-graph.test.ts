@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+
+import { WallGraph } from '@/lib/wall-graph';
+import { WallOpenings } from '@/lib/wall-openings';
+import { Point, Wall } from '@/types/room';
+
+const wall = (id: string, start: Point, end: Point): Wall => ({
+  id,
+  start,
+  end,
+  height: 2.8,
+  thickness: 0.2,
+});
+
+const door = (id: string, wallId: string, offset: number) => ({
+  id,
+  wallId,
+  offset,
+  width: 0.9,
+  height: 2.1,
+  hingeSide: 'left' as const,
+  swing: 'in' as const,
+});
+
+// A 6m wall with another one ending on it 2m from its start
+const tJunction = () => [
+  wall('a', { x: 0, z: 0 }, { x: 6, z: 0 }),
+  wall('b', { x: 2, z: 0 }, { x: 2, z: 3 }),
+];
+
+describe('WallGraph.normalize', () => {
+  it('returns the same walls when nothing needs splitting or merging', () => {
+    const walls = [
+      wall('a', { x: 0, z: 0 }, { x: 4, z: 0 }),
+      wall('b', { x: 4, z: 0 }, { x: 4, z: 3 }),
+    ];
+
+    const { walls: result, pieces } = WallGraph.normalize(walls);
+
+    expect(result).toBe(walls);
+    expect(pieces.get('a')).toEqual([walls[0]]);
+  });
+
+  it('splits a wall at a T-junction and maps it to both pieces', () => {
+    const { walls, pieces } = WallGraph.normalize(tJunction());
+
+    expect(walls).toHaveLength(3);
+    expect(pieces.get('a')?.map((piece) => [piece.start, piece.end])).toEqual([
+      [
+        { x: 0, z: 0 },
+        { x: 2, z: 0 },
+      ],
+      [
+        { x: 2, z: 0 },
+        { x: 6, z: 0 },
+      ],
+    ]);
+    expect(pieces.get('a')?.[0].id).toBe('a');
+  });
+
+  it('maps a duplicate wall to the one it was merged into', () => {
+    const walls = [
+      wall('a', { x: 0, z: 0 }, { x: 4, z: 0 }),
+      wall('b', { x: 4, z: 0 }, { x: 0, z: 0 }),
+    ];
+
+    const { walls: result, pieces } = WallGraph.normalize(walls);
+
+    expect(result).toHaveLength(1);
+    expect(pieces.get('b')).toEqual([result[0]]);
+  });
+});
+
+describe('WallOpenings.reassign', () => {
+  it('moves an opening past a split onto the later piece', () => {
+    const before = tJunction();
+    const { pieces } = WallGraph.normalize(before);
+    const later = pieces.get('a')![1];
+
+    const [moved] = WallOpenings.reassign([door('d', 'a', 4)], before, pieces);
+
+    expect(moved.wallId).toBe(later.id);
+    expect(moved.offset).toBeCloseTo(2);
+  });
+
+  it('keeps an opening before the split on the first piece', () => {
+    const before = tJunction();
+    const { pieces } = WallGraph.normalize(before);
+    const opening = door('d', 'a', 1);
+
+    const [kept] = WallOpenings.reassign([opening], before, pieces);
+
+    expect(kept).toMatchObject({ wallId: 'a', offset: 1 });
+  });
+
+  it('measures the offset from the start of a merged wall drawn the other way', () => {
+    const before = [
+      wall('a', { x: 0, z: 0 }, { x: 4, z: 0 }),
+      wall('b', { x: 4, z: 0 }, { x: 0, z: 0 }),
+    ];
+    const { pieces } = WallGraph.normalize(before);
+
+    const [moved] = WallOpenings.reassign([door('d', 'b', 1)], before, pieces);
+
+    expect(moved.wallId).toBe('a');
+    expect(moved.offset).toBeCloseTo(3);
+  });
+
+  it('leaves openings on walls that were kept as they are', () => {
+    const before = tJunction();
+    const { pieces } = WallGraph.normalize(before);
+    const opening = door('d', 'b', 1.5);
+
+    expect(WallOpenings.reassign([opening], before, pieces)[0]).toBe(opening);
+  });
+});
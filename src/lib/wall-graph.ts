@@ -0,0 +1,210 @@
+/**
+ * Wall Graph
+ * Turns loose wall segments into a planar graph: walls are split where another wall
+ * meets or crosses them, and segments lying on top of each other become one wall.
+ * Arc walls are never split and only cut straight walls at their ends.
+ * Collinear walls meeting end to end stay separate walls, and gaps wider than the
+ * tolerance are left open
+ */
+
+import { WallArc } from '@/lib/wall-arc';
+import { Point, Wall } from '@/types/room';
+
+// A set of walls drawn together, e.g. one room
+export interface WallGroup {
+  id: string;
+  walls: Wall[];
+}
+
+export interface WallGraphEdge {
+  wall: Wall;
+  owners: string[]; // Groups the wall bounds; more than one means a shared partition
+  sourceIds: string[]; // Walls the edge was cut from or merged with
+}
+
+export interface NormalizedWalls {
+  walls: Wall[];
+  pieces: Map<string, Wall[]>; // Each input wall's id to the walls it ended up as
+}
+
+export class WallGraph {
+  private static readonly TOLERANCE = 0.05; // 5cm, same as the drawing snap threshold
+
+  /**
+   * Planar graph over every group's walls. Unsplit walls keep their id and object,
+   * and merged walls keep the first one's
+   */
+  static build(groups: WallGroup[], tolerance = this.TOLERANCE): WallGraphEdge[] {
+    const sources = groups.flatMap((group) =>
+      group.walls.map((wall) => ({ wall, owner: group.id })),
+    );
+    const allWalls = sources.map((source) => source.wall);
+    const usedIds = new Set(allWalls.map((wall) => wall.id));
+
+    // Cut every wall at the junctions and crossings along it
+    const pieces = sources.flatMap(({ wall, owner }) => {
+      const cuts = this.findCuts(wall, allWalls, tolerance);
+      if (cuts.length === 0) {
+        return [{ wall, owner, sourceId: wall.id }];
+      }
+      const points = [wall.start, ...cuts, wall.end];
+      return points.slice(1).map((end, index) => ({
+        wall: {
+          ...wall,
+          id: index === 0 ? wall.id : this.uniqueId(`${wall.id}-${index}`, usedIds),
+          start: points[index],
+          end,
+        },
+        owner,
+        sourceId: wall.id,
+      }));
+    });
+
+    // Segments between the same two nodes are one wall
+    const nodes: Point[] = [];
+    const nodeIndex = (point: Point): number => {
+      const index = nodes.findIndex((node) => this.distance(node, point) <= tolerance);
+      if (index !== -1) {
+        return index;
+      }
+      nodes.push(point);
+      return nodes.length - 1;
+    };
+
+    const edges = new Map<string, WallGraphEdge>();
+    pieces.forEach(({ wall, owner, sourceId }) => {
+      const a = nodeIndex(wall.start);
+      const b = nodeIndex(wall.end);
+      // Arcs between the same nodes only coincide if they bend the same way
+      const bulge = WallArc.isArc(wall) ? (a < b ? 1 : -1) * wall.bulge! : 0;
+      const key = `${Math.min(a, b)}:${Math.max(a, b)}:${bulge.toFixed(3)}`;
+      const existing = edges.get(key);
+      if (!existing) {
+        edges.set(key, { wall, owners: [owner], sourceIds: [sourceId] });
+        return;
+      }
+
+      if (!existing.owners.includes(owner)) {
+        existing.owners.push(owner);
+      }
+      if (!existing.sourceIds.includes(sourceId)) {
+        existing.sourceIds.push(sourceId);
+      }
+      if (
+        wall.height > existing.wall.height ||
+        wall.thickness > existing.wall.thickness
+      ) {
+        existing.wall = {
+          ...existing.wall,
+          height: Math.max(existing.wall.height, wall.height),
+          thickness: Math.max(existing.wall.thickness, wall.thickness),
+        };
+      }
+    });
+
+    return Array.from(edges.values());
+  }
+
+  /**
+   * One plan's walls as a planar graph, with the walls each input wall was split
+   * into or merged with; the same array comes back when nothing changed
+   */
+  static normalize(walls: Wall[], tolerance = this.TOLERANCE): NormalizedWalls {
+    const edges = this.build([{ id: 'plan', walls }], tolerance);
+    const pieces = new Map<string, Wall[]>();
+    edges.forEach(({ wall, sourceIds }) =>
+      sourceIds.forEach((id) => pieces.set(id, [...(pieces.get(id) ?? []), wall])),
+    );
+
+    const result = edges.map((edge) => edge.wall);
+    const unchanged =
+      result.length === walls.length && result.every((wall, i) => wall === walls[i]);
+    return { walls: unchanged ? walls : result, pieces };
+  }
+
+  /**
+   * Points strictly inside a wall where another wall ends on it or crosses it,
+   * ordered from the wall's start
+   */
+  private static findCuts(wall: Wall, others: Wall[], tolerance: number): Point[] {
+    const length = this.distance(wall.start, wall.end);
+    // Arc walls are kept whole
+    if (length <= tolerance * 2 || WallArc.isArc(wall)) {
+      return [];
+    }
+    const ux = (wall.end.x - wall.start.x) / length;
+    const uz = (wall.end.z - wall.start.z) / length;
+    const along = (p: Point) => (p.x - wall.start.x) * ux + (p.z - wall.start.z) * uz;
+    const isInterior = (t: number) => t > tolerance && t < length - tolerance;
+
+    const cuts: { t: number; point: Point }[] = [];
+    others.forEach((other) => {
+      if (other === wall) {
+        return;
+      }
+
+      // T-junctions and overlaps: the other wall ends on this one
+      [other.start, other.end].forEach((point) => {
+        const offset = Math.abs(
+          (point.x - wall.start.x) * uz - (point.z - wall.start.z) * ux,
+        );
+        const t = along(point);
+        if (offset <= tolerance && isInterior(t)) {
+          cuts.push({ t, point });
+        }
+      });
+
+      // Crossings through both walls
+      const crossing = WallArc.isArc(other) ? null : this.intersect(wall, other);
+      if (
+        crossing &&
+        isInterior(along(crossing)) &&
+        this.distance(crossing, other.start) > tolerance &&
+        this.distance(crossing, other.end) > tolerance
+      ) {
+        cuts.push({ t: along(crossing), point: crossing });
+      }
+    });
+
+    cuts.sort((a, b) => a.t - b.t);
+    return cuts
+      .filter((cut, i) => i === 0 || cut.t - cuts[i - 1].t > tolerance)
+      .map((cut) => cut.point);
+  }
+
+  /**
+   * Intersection of two segments, or null if they are parallel or don't meet
+   */
+  private static intersect(a: Wall, b: Wall): Point | null {
+    const rx = a.end.x - a.start.x;
+    const rz = a.end.z - a.start.z;
+    const sx = b.end.x - b.start.x;
+    const sz = b.end.z - b.start.z;
+    const denominator = rx * sz - rz * sx;
+    if (Math.abs(denominator) < 1e-9) {
+      return null;
+    }
+
+    const qx = b.start.x - a.start.x;
+    const qz = b.start.z - a.start.z;
+    const t = (qx * sz - qz * sx) / denominator;
+    const u = (qx * rz - qz * rx) / denominator;
+    if (t < 0 || t > 1 || u < 0 || u > 1) {
+      return null;
+    }
+    return { x: a.start.x + t * rx, z: a.start.z + t * rz };
+  }
+
+  private static uniqueId(base: string, usedIds: Set<string>): string {
+    let id = base;
+    for (let n = 1; usedIds.has(id); n++) {
+      id = `${base}.${n}`;
+    }
+    usedIds.add(id);
+    return id;
+  }
+
+  private static distance(a: Point, b: Point): number {
+    return Math.hypot(a.x - b.x, a.z - b.z);
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+
+import { WallInput } from '@/lib/wall-input';
+
+// Two walls joined at (4, 0)
+const walls = [
+  { id: 'a', start: { x: 0, z: 0 }, end: { x: 4, z: 0 } },
+  { id: 'b', start: { x: 4, z: 0 }, end: { x: 4, z: 3 } },
+];
+
+describe('WallInput.resize', () => {
+  it('moves the end of the wall and the walls joined there', () => {
+    const resized = WallInput.resize(walls, 'a', 5);
+
+    expect(resized?.[0].end).toEqual({ x: 5, z: 0 });
+    expect(resized?.[1].start).toEqual({ x: 5, z: 0 });
+  });
+
+  it.each([NaN, Infinity, -1, 0.05])('refuses a length of %s', (length) => {
+    expect(WallInput.resize(walls, 'a', length)).toBeNull();
+  });
+
+  it('refuses a wall that does not exist', () => {
+    expect(WallInput.resize(walls, 'missing', 5)).toBeNull();
+  });
+});
+
+describe('WallInput.parse', () => {
+  it('reads a length with an optional angle, or a step along x and z', () => {
+    expect(WallInput.parse('3.5')).toEqual({ type: 'polar', length: 3.5, angle: null });
+    expect(WallInput.parse('2 @ 90°')).toEqual({ type: 'polar', length: 2, angle: 90 });
+    expect(WallInput.parse('1.2, -0.5')).toEqual({ type: 'relative', dx: 1.2, dz: -0.5 });
+  });
+
+  it('refuses text that is not a measurement', () => {
+    expect(WallInput.parse('abc')).toBeNull();
+    expect(WallInput.parse('')).toBeNull();
+  });
+});
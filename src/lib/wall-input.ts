@@ -0,0 +1,116 @@
+/**
+ * Wall Input
+ * Typed measurements for walls, for surveyed plans the mouse can't reproduce. The next
+ * wall is entered as a length and angle ("3.45 @ 90°") or as a step along x and z
+ * ("1.2, -0.5"); an existing wall takes a new length with its far corner moving and
+ * the walls joined there following it. Angles are in degrees counterclockwise from +x
+ * as the plan is drawn, so 90° points up the screen (+z)
+ */
+
+import { Point } from '@/types/room';
+
+export type WallInputValue =
+  | { type: 'polar'; length: number; angle: number | null } // No angle: keep the heading
+  | { type: 'relative'; dx: number; dz: number };
+
+interface WallLike {
+  id: string;
+  start: Point;
+  end: Point;
+}
+
+const NUMBER = '[-+]?(?:\\d+(?:\\.\\d*)?|\\.\\d+)';
+const POLAR = new RegExp(`^(${NUMBER})\\s*m?\\s*(?:@\\s*(${NUMBER})\\s*°?)?$`);
+const RELATIVE = new RegExp(`^(${NUMBER})\\s*m?\\s*[,;]\\s*(${NUMBER})\\s*m?$`);
+
+export class WallInput {
+  static readonly MIN_LENGTH = 0.1; // Shorter walls are dropped while drawing
+  private static readonly SAME_POINT = 1e-3;
+
+  /**
+   * The measurement typed, or null if it can't be read or is too short to be a wall
+   */
+  static parse(text: string): WallInputValue | null {
+    const trimmed = text.trim();
+    const relative = RELATIVE.exec(trimmed);
+    if (relative) {
+      const dx = parseFloat(relative[1]);
+      const dz = parseFloat(relative[2]);
+      return Math.hypot(dx, dz) >= this.MIN_LENGTH ? { type: 'relative', dx, dz } : null;
+    }
+    const polar = POLAR.exec(trimmed);
+    if (!polar) {
+      return null;
+    }
+    const length = parseFloat(polar[1]);
+    if (length < this.MIN_LENGTH) {
+      return null;
+    }
+    return { type: 'polar', length, angle: polar[2] ? parseFloat(polar[2]) : null };
+  }
+
+  /**
+   * Where a wall from `from` ends. Without an angle it heads towards `toward` (the
+   * pointer, say), or along +x when there is nothing to head for
+   */
+  static resolve(from: Point, value: WallInputValue, toward: Point | null = null): Point {
+    if (value.type === 'relative') {
+      return { x: from.x + value.dx, z: from.z + value.dz };
+    }
+    let heading = 0;
+    if (value.angle !== null) {
+      heading = (value.angle * Math.PI) / 180;
+    } else if (toward && this.distance(from, toward) > this.SAME_POINT) {
+      heading = Math.atan2(toward.z - from.z, toward.x - from.x);
+    }
+    return {
+      x: from.x + value.length * Math.cos(heading),
+      z: from.z + value.length * Math.sin(heading),
+    };
+  }
+
+  /**
+   * The same wall as typed, e.g. "3.45 @ 90" for one running from `from` to `to`
+   */
+  static format(from: Point, to: Point): string {
+    const angle = (Math.atan2(to.z - from.z, to.x - from.x) * 180) / Math.PI;
+    const rounded = Math.round(((angle % 360) + 360) % 360) % 360;
+    return `${this.distance(from, to).toFixed(2)} @ ${rounded}`;
+  }
+
+  /**
+   * Where a wall's end goes for it to be `length` long, keeping its start and heading
+   */
+  static stretchedEnd(wall: WallLike, length: number): Point {
+    const current = this.distance(wall.start, wall.end);
+    const scale = current === 0 ? 0 : length / current;
+    return {
+      x: wall.start.x + (wall.end.x - wall.start.x) * scale,
+      z: wall.start.z + (wall.end.z - wall.start.z) * scale,
+    };
+  }
+
+  /**
+   * The walls with one made `length` long; its end moves and every wall joined there
+   * moves with it. Null when the wall is missing or the length isn't a usable number
+   */
+  static resize<T extends WallLike>(
+    walls: T[],
+    wallId: string,
+    length: number,
+  ): T[] | null {
+    const wall = walls.find((w) => w.id === wallId);
+    if (!wall || !Number.isFinite(length) || length < this.MIN_LENGTH) {
+      return null;
+    }
+    const from = wall.end;
+    const to = this.stretchedEnd(wall, length);
+    const moved = (point: Point) =>
+      this.distance(point, from) <= this.SAME_POINT ? to : point;
+    return walls.map((w) => ({ ...w, start: moved(w.start), end: moved(w.end) }));
+  }
+
+  private static distance(a: Point, b: Point): number {
+    return Math.hypot(a.x - b.x, a.z - b.z);
+  }
+}
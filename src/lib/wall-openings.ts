@@ -0,0 +1,400 @@
+import { WallArc } from '@/lib/wall-arc';
+import { DoorPlacement, Point, Wall, WindowPlacement } from '@/types/room';
+
+// Generic rectangular opening in a wall face, measured along the wall
+export interface WallOpening {
+  offset: number; // Distance from wall start to opening center
+  width: number;
+  bottom: number;
+  height: number;
+}
+
+// Solid rectangle of a wall face left over after cutting openings
+export interface WallPiece {
+  start: number; // Distance from wall start
+  end: number;
+  bottom: number;
+  top: number;
+}
+
+export interface DoorSwing {
+  hinge: Point;
+  closedEnd: Point; // Leaf tip when the door is shut (opposite jamb)
+  openEnd: Point; // Leaf tip when the door is open 90°
+}
+
+export class WallOpenings {
+  static readonly DEFAULT_DOOR_WIDTH = 0.9; // 90cm
+  static readonly DEFAULT_DOOR_HEIGHT = 2.1; // 210cm
+  static readonly MIN_DOOR_WIDTH = 0.5; // 50cm
+  static readonly DEFAULT_WINDOW_WIDTH = 1.2; // 120cm
+  static readonly DEFAULT_WINDOW_HEIGHT = 1.2; // 120cm
+  static readonly DEFAULT_SILL_HEIGHT = 0.9; // 90cm
+  static readonly MIN_WINDOW_SIZE = 0.3; // 30cm
+  private static readonly MIN_HEAD = 0.1; // 10cm of wall kept above a window
+  private static readonly MIN_JAMB = 0.05; // 5cm of wall kept on each side of an opening
+  private static readonly PRECISION = 1e-6;
+
+  /**
+   * Get the length of a wall
+   */
+  static getWallLength(wall: Wall): number {
+    return Math.sqrt((wall.end.x - wall.start.x) ** 2 + (wall.end.z - wall.start.z) ** 2);
+  }
+
+  /**
+   * Get the unit direction of a wall (start -> end)
+   */
+  static getWallDirection(wall: Wall): Point {
+    const length = this.getWallLength(wall);
+    if (length < this.PRECISION) {
+      return { x: 1, z: 0 };
+    }
+    return {
+      x: (wall.end.x - wall.start.x) / length,
+      z: (wall.end.z - wall.start.z) / length,
+    };
+  }
+
+  /**
+   * Get the world position at a distance along a wall
+   */
+  static getPointAt(wall: Wall, offset: number): Point {
+    const dir = this.getWallDirection(wall);
+    return { x: wall.start.x + dir.x * offset, z: wall.start.z + dir.z * offset };
+  }
+
+  /**
+   * Clamp an opening center so the whole opening stays inside the wall
+   */
+  static clampOffset(wall: Wall, offset: number, width: number): number {
+    const length = this.getWallLength(wall);
+    const min = width / 2 + this.MIN_JAMB;
+    const max = length - width / 2 - this.MIN_JAMB;
+    if (max < min) {
+      return length / 2;
+    }
+    return Math.min(max, Math.max(min, offset));
+  }
+
+  /**
+   * Check whether an opening of the given width fits in a wall; openings are only
+   * cut into straight walls
+   */
+  static fitsInWall(wall: Wall, width: number): boolean {
+    return !WallArc.isArc(wall) && this.getWallLength(wall) >= width + this.MIN_JAMB * 2;
+  }
+
+  /**
+   * Find the wall closest to a point, with the projected offset along it
+   */
+  static findNearestWall(
+    walls: Wall[],
+    point: Point,
+    threshold: number,
+  ): { wall: Wall; offset: number; distance: number } | null {
+    let nearest: { wall: Wall; offset: number; distance: number } | null = null;
+
+    for (const wall of walls) {
+      const length = this.getWallLength(wall);
+      if (length < this.PRECISION || WallArc.isArc(wall)) {
+        continue;
+      }
+      const dir = this.getWallDirection(wall);
+      const toPoint = { x: point.x - wall.start.x, z: point.z - wall.start.z };
+      const offset = toPoint.x * dir.x + toPoint.z * dir.z;
+      if (offset < 0 || offset > length) {
+        continue;
+      }
+      const distance = Math.abs(toPoint.x * dir.z - toPoint.z * dir.x);
+      if (distance < threshold && (!nearest || distance < nearest.distance)) {
+        nearest = { wall, offset, distance };
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Create a door on a wall centered at the given offset
+   */
+  static createDoor(
+    wall: Wall,
+    offset: number,
+    options: Partial<Omit<DoorPlacement, 'id' | 'wallId' | 'offset'>> = {},
+  ): DoorPlacement {
+    const width = Math.min(
+      options.width ?? this.DEFAULT_DOOR_WIDTH,
+      Math.max(this.MIN_DOOR_WIDTH, this.getWallLength(wall) - this.MIN_JAMB * 2),
+    );
+    return {
+      id: `door-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      wallId: wall.id,
+      offset: this.clampOffset(wall, offset, width),
+      width,
+      height: Math.min(options.height ?? this.DEFAULT_DOOR_HEIGHT, wall.height),
+      hingeSide: options.hingeSide ?? 'left',
+      swing: options.swing ?? 'in',
+    };
+  }
+
+  /**
+   * Convert a door into a generic wall opening
+   */
+  static doorToOpening(door: DoorPlacement): WallOpening {
+    return { offset: door.offset, width: door.width, bottom: 0, height: door.height };
+  }
+
+  /**
+   * Create a window on a wall centered at the given offset
+   */
+  static createWindow(
+    wall: Wall,
+    offset: number,
+    options: Partial<Omit<WindowPlacement, 'id' | 'wallId' | 'offset'>> = {},
+  ): WindowPlacement {
+    const width = Math.min(
+      options.width ?? this.DEFAULT_WINDOW_WIDTH,
+      Math.max(this.MIN_WINDOW_SIZE, this.getWallLength(wall) - this.MIN_JAMB * 2),
+    );
+    const { bottomHeight, height } = this.clampWindowHeight(
+      wall,
+      options.bottomHeight ?? this.DEFAULT_SILL_HEIGHT,
+      options.height ?? this.DEFAULT_WINDOW_HEIGHT,
+    );
+    return {
+      id: `window-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      wallId: wall.id,
+      offset: this.clampOffset(wall, offset, width),
+      width,
+      height,
+      bottomHeight,
+    };
+  }
+
+  /**
+   * Convert a window into a generic wall opening
+   */
+  static windowToOpening(placement: WindowPlacement): WallOpening {
+    return {
+      offset: placement.offset,
+      width: placement.width,
+      bottom: placement.bottomHeight,
+      height: placement.height,
+    };
+  }
+
+  /**
+   * Keep a window's sill and height between the floor and the top of its wall
+   */
+  private static clampWindowHeight(
+    wall: Wall,
+    bottomHeight: number,
+    height: number,
+  ): { bottomHeight: number; height: number } {
+    const maxTop = Math.max(this.MIN_WINDOW_SIZE, wall.height - this.MIN_HEAD);
+    const clampedBottom = Math.min(
+      Math.max(0, bottomHeight),
+      maxTop - this.MIN_WINDOW_SIZE,
+    );
+    return {
+      bottomHeight: clampedBottom,
+      height: Math.min(Math.max(this.MIN_WINDOW_SIZE, height), maxTop - clampedBottom),
+    };
+  }
+
+  /**
+   * Drop windows whose wall no longer exists (or became too short)
+   * and shrink/slide the rest so they stay inside their walls
+   */
+  static reconcileWindows(windows: WindowPlacement[], walls: Wall[]): WindowPlacement[] {
+    const wallMap = new Map(walls.map((wall) => [wall.id, wall]));
+    return windows
+      .filter((placement) => {
+        const wall = wallMap.get(placement.wallId);
+        return wall !== undefined && this.fitsInWall(wall, this.MIN_WINDOW_SIZE);
+      })
+      .map((placement) => {
+        const wall = wallMap.get(placement.wallId)!;
+        const width = Math.min(
+          Math.max(this.MIN_WINDOW_SIZE, placement.width),
+          this.getWallLength(wall) - this.MIN_JAMB * 2,
+        );
+        const offset = this.clampOffset(wall, placement.offset, width);
+        const { bottomHeight, height } = this.clampWindowHeight(
+          wall,
+          placement.bottomHeight,
+          placement.height,
+        );
+        return width === placement.width &&
+          offset === placement.offset &&
+          height === placement.height &&
+          bottomHeight === placement.bottomHeight
+          ? placement
+          : { ...placement, width, offset, height, bottomHeight };
+      });
+  }
+
+  /**
+   * Move openings off walls that were split or merged, e.g. by WallGraph.normalize,
+   * onto the piece their center is on, measured from that piece's start
+   */
+  static reassign<T extends { wallId: string; offset: number }>(
+    openings: T[],
+    walls: Wall[],
+    pieces: Map<string, Wall[]>,
+  ): T[] {
+    const wallMap = new Map(walls.map((wall) => [wall.id, wall]));
+    return openings.map((opening) => {
+      const wall = wallMap.get(opening.wallId);
+      const candidates = pieces.get(opening.wallId);
+      const kept = candidates?.length === 1 && candidates[0] === wall;
+      if (!wall || !candidates || candidates.length === 0 || kept) {
+        return opening;
+      }
+
+      const center = this.getPointAt(wall, opening.offset);
+      const nearest = candidates
+        .map((piece) => ({ piece, ...this.project(piece, center) }))
+        .reduce((best, hit) => (hit.distance < best.distance ? hit : best));
+      return { ...opening, wallId: nearest.piece.id, offset: nearest.offset };
+    });
+  }
+
+  /**
+   * Offset along a wall closest to a point, and how far the point is from it
+   */
+  private static project(wall: Wall, point: Point): { offset: number; distance: number } {
+    const dir = this.getWallDirection(wall);
+    const offset = Math.min(
+      this.getWallLength(wall),
+      Math.max(0, (point.x - wall.start.x) * dir.x + (point.z - wall.start.z) * dir.z),
+    );
+    const closest = this.getPointAt(wall, offset);
+    return { offset, distance: Math.hypot(point.x - closest.x, point.z - closest.z) };
+  }
+
+  /**
+   * Check whether two openings on the same wall overlap along it
+   */
+  static overlapsAlongWall(
+    a: { offset: number; width: number },
+    b: { offset: number; width: number },
+  ): boolean {
+    return Math.abs(a.offset - b.offset) < (a.width + b.width) / 2;
+  }
+
+  /**
+   * Drop doors whose wall no longer exists (or became too short)
+   * and shrink/slide the rest so they stay inside their walls
+   */
+  static reconcileDoors(doors: DoorPlacement[], walls: Wall[]): DoorPlacement[] {
+    const wallMap = new Map(walls.map((wall) => [wall.id, wall]));
+    return doors
+      .filter((door) => {
+        const wall = wallMap.get(door.wallId);
+        return wall !== undefined && this.fitsInWall(wall, this.MIN_DOOR_WIDTH);
+      })
+      .map((door) => {
+        const wall = wallMap.get(door.wallId)!;
+        const width = Math.min(door.width, this.getWallLength(wall) - this.MIN_JAMB * 2);
+        const offset = this.clampOffset(wall, door.offset, width);
+        const height = Math.min(door.height, wall.height);
+        return width === door.width && offset === door.offset && height === door.height
+          ? door
+          : { ...door, width, offset, height };
+      });
+  }
+
+  /**
+   * Split a wall face into solid pieces around its openings.
+   * Overlapping openings are merged into their bounding rectangle.
+   */
+  static splitWall(length: number, height: number, openings: WallOpening[]): WallPiece[] {
+    const spans = openings
+      .map((opening) => ({
+        start: Math.max(0, opening.offset - opening.width / 2),
+        end: Math.min(length, opening.offset + opening.width / 2),
+        bottom: Math.max(0, opening.bottom),
+        top: Math.min(height, opening.bottom + opening.height),
+      }))
+      .filter((span) => span.end - span.start > this.PRECISION && span.top > span.bottom)
+      .sort((a, b) => a.start - b.start);
+
+    const merged: WallPiece[] = [];
+    spans.forEach((span) => {
+      const last = merged[merged.length - 1];
+      if (last && span.start <= last.end + this.PRECISION) {
+        last.end = Math.max(last.end, span.end);
+        last.bottom = Math.min(last.bottom, span.bottom);
+        last.top = Math.max(last.top, span.top);
+      } else {
+        merged.push({ ...span });
+      }
+    });
+
+    const pieces: WallPiece[] = [];
+    let cursor = 0;
+    merged.forEach((span) => {
+      if (span.start - cursor > this.PRECISION) {
+        pieces.push({ start: cursor, end: span.start, bottom: 0, top: height });
+      }
+      if (span.bottom > this.PRECISION) {
+        pieces.push({ start: span.start, end: span.end, bottom: 0, top: span.bottom });
+      }
+      if (height - span.top > this.PRECISION) {
+        pieces.push({ start: span.start, end: span.end, bottom: span.top, top: height });
+      }
+      cursor = span.end;
+    });
+    if (length - cursor > this.PRECISION) {
+      pieces.push({ start: cursor, end: length, bottom: 0, top: height });
+    }
+
+    return pieces;
+  }
+
+  /**
+   * Get the unit normal of a wall pointing towards the room interior
+   */
+  static getInteriorNormal(wall: Wall, walls: Wall[]): Point {
+    const dir = this.getWallDirection(wall);
+    const normal = { x: -dir.z, z: dir.x };
+
+    // Use the centroid of all wall endpoints as the interior reference
+    const points = walls.flatMap((w) => [w.start, w.end]);
+    if (points.length === 0) {
+      return normal;
+    }
+    const centroid = {
+      x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+      z: points.reduce((sum, p) => sum + p.z, 0) / points.length,
+    };
+    const mid = this.getPointAt(wall, this.getWallLength(wall) / 2);
+    const side = (centroid.x - mid.x) * normal.x + (centroid.z - mid.z) * normal.z;
+
+    return side < 0 ? { x: -normal.x, z: -normal.z } : normal;
+  }
+
+  /**
+   * Get the hinge and leaf positions used to draw a door swing
+   */
+  static getDoorSwing(wall: Wall, door: DoorPlacement, walls: Wall[]): DoorSwing {
+    const leftJamb = this.getPointAt(wall, door.offset - door.width / 2);
+    const rightJamb = this.getPointAt(wall, door.offset + door.width / 2);
+    const hinge = door.hingeSide === 'left' ? leftJamb : rightJamb;
+    const closedEnd = door.hingeSide === 'left' ? rightJamb : leftJamb;
+
+    const interior = this.getInteriorNormal(wall, walls);
+    const sign = door.swing === 'in' ? 1 : -1;
+
+    return {
+      hinge,
+      closedEnd,
+      openEnd: {
+        x: hinge.x + interior.x * door.width * sign,
+        z: hinge.z + interior.z * door.width * sign,
+      },
+    };
+  }
+}
@@ -9,6 +9,49 @@ export interface Wall {
   end: Point;
   height: number;
   thickness: number;
+  color?: string; // Interior paint color
+  bulge?: number; // Arc walls only; see WallArc
+  levelId?: string; // Ground level when absent; see BuildingLevels
+}
+
+export interface DoorPlacement {
+  id: string;
+  wallId: string;
+  offset: number; // Distance from wall start to door center (meters)
+  width: number;
+  height: number;
+  hingeSide: 'left' | 'right'; // Relative to the wall's start -> end direction
+  swing: 'in' | 'out'; // Opens into the room or away from it
+}
+
+export interface WindowPlacement {
+  id: string;
+  wallId: string;
+  offset: number; // Distance from wall start to window center (meters)
+  width: number;
+  height: number;
+  bottomHeight: number; // Sill height above the floor
+}
+
+// Dimension placed by hand between two points of the plan
+export interface DimensionLine {
+  id: string;
+  start: Point;
+  end: Point;
+  levelId?: string; // Ground level when absent; see BuildingLevels
+}
+
+// Scanned or photographed plan shown under the 2D plan, for tracing walls over it
+export interface PlanUnderlay {
+  src: string; // Image as a data URL; see PlanUnderlays for how it is kept small
+  width: number; // Pixels
+  height: number;
+  center: Point; // Where the middle of the image lies on the plan
+  metersPerPixel: number;
+  rotation: number; // Degrees counterclockwise as the plan is drawn
+  opacity: number; // 0 to 1
+  locked: boolean; // Locked images can't be moved, scaled or turned
+  levelId?: string; // Ground level when absent; see BuildingLevels
 }
 
 export interface RoomMetrics {
@@ -58,6 +101,7 @@ export type RoomObject = {
   rotation: { x: number; y: number; z: number };
   scale: { x: number; y: number; z: number };
   color: string;
+  levelId?: string; // Ground level when absent; see BuildingLevels
 };
 
 export type Room = {
@@ -66,5 +110,7 @@ export type Room = {
   name: string;
   walls: Wall[];
   objects: RoomObject[];
+  doors?: DoorPlacement[];
+  windows?: WindowPlacement[];
   createdAt: string;
 };